@@ -14,7 +14,7 @@ export default async function handler(req, res) {
   }
 
   try {
-    const { action, query, mcpResponses, analysis, endpoint, params, nutritionData, sleepData, conversationContext } = req.body;
+    const { action, query, mcpResponses, analysis, endpoint, params, nutritionData, sleepData, trainingLoad, conversationContext } = req.body;
     
     if (!action) {
       return res.status(400).json({ error: 'Action required' });
@@ -95,7 +95,8 @@ export default async function handler(req, res) {
       const enhancedAnalysis = {
         ...analysis,
         nutritionData: nutritionData || analysis.nutritionData,
-        sleepData: sleepData || analysis.sleepData
+        sleepData: sleepData || analysis.sleepData,
+        trainingLoad: trainingLoad || analysis.trainingLoad
       };
       const response = await generateResponseWithClaude(query, enhancedAnalysis, mcpResponses, claudeApiKey, conversationContext);
       return res.status(200).json({ response });
@@ -368,8 +369,11 @@ DAILY SLEEP DETAILS:${dailySleepDetails}`;
     activityContext = '\n⚠️ Activity data unavailable due to processing error';
   }
   
+  // Training load summary (TRIMP, ATL/CTL/TSB, ACWR) computed on the client
+  const trainingLoadContext = analysis?.trainingLoad ? `\n📈 ${analysis.trainingLoad}` : '';
+
   const mcpContext = processedMcpResponses.join('\n');
-  const contextData = mcpContext + activityContext + nutritionContext + sleepContext;
+  const contextData = mcpContext + activityContext + trainingLoadContext + nutritionContext + sleepContext;
   
   // Build conversation context for follow-up questions
   let conversationContextStr = '';
@@ -1,6 +1,10 @@
 // /api/runs.js - Final working version that handles complex stream data properly
 
 import admin from 'firebase-admin';
+import { classifyRun, deriveRunClassifierThresholds } from '../src/lib/runClassifier.js';
+import { buildHeartRateHistogram, normalizeStravaZones } from '../src/lib/heartRateZones.js';
+import { findNewRecords } from '../src/lib/bestEfforts.js';
+import { predictRaceTimes } from '../src/lib/racePredictor.js';
 
 /* ──────────────────────────────────────────────────────────────────── */
 /*  Firebase Admin init                                               */
@@ -179,7 +183,11 @@ const fetchActivityStreams = async (accessToken, activityId) => {
     const streams = await response.json();
     console.log(`✅ Got streams for ${activityId} with ${Object.keys(streams).length} data types`);
     
-    return simplifyStreams(streams);
+    // Time at each bpm is kept from the full streams; everything else is summarised
+    return {
+      summary: simplifyStreams(streams),
+      heartrateHistogram: buildHeartRateHistogram(streams.time?.data, streams.heartrate?.data)
+    };
     
   } catch (error) {
     console.warn(`⚠️ Error fetching streams for ${activityId}:`, error);
@@ -187,6 +195,29 @@ const fetchActivityStreams = async (accessToken, activityId) => {
   }
 };
 
+/* ──────────────────────────────────────────────────────────────────── */
+/*  Save Strava heart-rate zones as the zone fallback                  */
+/* ──────────────────────────────────────────────────────────────────── */
+const saveStravaHeartRateZones = async (accessToken, userId) => {
+  try {
+    const response = await fetch('https://www.strava.com/api/v3/athlete/zones', {
+      headers: { Authorization: `Bearer ${accessToken}` }
+    });
+    if (!response.ok) {
+      console.warn(`⚠️ Failed to fetch athlete zones: ${response.status}`);
+      return;
+    }
+    const zones = await response.json();
+    const stravaZones = normalizeStravaZones(zones.heart_rate?.zones);
+    if (stravaZones) {
+      await db.collection('hrZoneSettings').doc(userId).set({ stravaZones, stravaZonesFetchedAt: new Date().toISOString() }, { merge: true });
+      console.log(`✅ Saved ${stravaZones.length} Strava heart-rate zones`);
+    }
+  } catch (error) {
+    console.warn('⚠️ Error fetching athlete zones:', error);
+  }
+};
+
 /* ──────────────────────────────────────────────────────────────────── */
 /*  Fetch gear information                                             */
 /* ──────────────────────────────────────────────────────────────────── */
@@ -236,7 +267,7 @@ const processAndStoreDetailedRun = async (run, userId, accessToken) => {
       return null;
     }
     
-    // Get additional data in parallel (skip zones for now to avoid complexity)
+    // Get additional data in parallel
     const [streams, gearInfo] = await Promise.all([
       fetchActivityStreams(accessToken, runId),
       detailed.gear_id ? fetchGearInfo(accessToken, detailed.gear_id) : null
@@ -327,12 +358,15 @@ const processAndStoreDetailedRun = async (run, userId, accessToken) => {
       })) : [],
       
       // Simplified streams info
-      streams_summary: streams,
+      streams_summary: streams?.summary || null,
+      
+      // Seconds at each bpm, for time-in-zone under any zone settings
+      heartrate_histogram: streams?.heartrateHistogram || null,
       
       // Processing metadata
       fetched_at: new Date().toISOString(),
       has_detailed_data: true,
-      has_streams: !!streams,
+      has_streams: !!streams?.summary,
       processing_version: '2.0'
     });
     
@@ -350,6 +384,125 @@ const processAndStoreDetailedRun = async (run, userId, accessToken) => {
   }
 };
 
+/* ──────────────────────────────────────────────────────────────────── */
+/*  Race predictions and VDOT training paces                           */
+/* ──────────────────────────────────────────────────────────────────── */
+// Saved to racePredictions/{userId} so /api/strava and the app classify runs against
+// the same pace bands
+const saveRacePrediction = async (userId) => {
+  try {
+    const snapshot = await db
+      .collection('detailed_runs')
+      .where('userId', '==', userId)
+      .select('id', 'name', 'start_date', 'distance', 'moving_time', 'elapsed_time',
+        'average_heartrate', 'max_heartrate', 'workout_type', 'best_efforts')
+      .get();
+    const prediction = predictRaceTimes(snapshot.docs.map(doc => doc.data()));
+    if (!prediction) {
+      console.log('🏁 No recent hard efforts to predict race times from');
+      return null;
+    }
+
+    await db.collection('racePredictions').doc(userId).set({
+      vdot: prediction.vdot,
+      paceBands: prediction.paceBands,
+      predictions: prediction.predictions.map(entry => ({
+        distanceKey: entry.distance.key,
+        time: entry.time,
+        confidence: entry.confidence
+      })),
+      sources: prediction.efforts.length,
+      computedAt: prediction.computedAt
+    });
+    console.log(`🏁 VDOT ${prediction.vdot} from ${prediction.efforts.length} efforts`);
+    return prediction;
+  } catch (error) {
+    console.error('❌ Error saving race prediction:', error);
+    return null;
+  }
+};
+
+/* ──────────────────────────────────────────────────────────────────── */
+/*  Re-tag runs once their device laps are known                       */
+/* ──────────────────────────────────────────────────────────────────── */
+// The activity sync tags runs from summary averages only; laps reveal interval and
+// hill-repeat sessions. Tags the user set by hand are never touched.
+const retagRunsFromLaps = async (userId, detailedRuns, paceBands) => {
+  const withLaps = detailedRuns.filter(run => run.laps && run.laps.length > 0);
+  if (withLaps.length === 0) return 0;
+
+  try {
+    const snapshot = await db
+      .collection('strava_data')
+      .where('userId', '==', userId)
+      .where('is_run_activity', '==', true)
+      .get();
+    const summaries = new Map(snapshot.docs.map(doc => [doc.data().id?.toString(), doc]));
+    const thresholds = deriveRunClassifierThresholds(snapshot.docs.map(doc => doc.data()), { paceBands });
+
+    const batch = db.batch();
+    let retagged = 0;
+    withLaps.forEach(run => {
+      const summaryDoc = summaries.get(run.id.toString());
+      const summary = summaryDoc?.data();
+      if (!summary || summary.userOverride) return;
+
+      const { tag } = classifyRun(summary, thresholds, run.laps);
+      if (tag !== summary.runType) {
+        batch.update(summaryDoc.ref, {
+          runType: tag,
+          run_tag: tag,
+          taggedBy: 'auto-laps',
+          taggedAt: new Date().toISOString()
+        });
+        retagged++;
+      }
+    });
+
+    if (retagged > 0) await batch.commit();
+    console.log(`🏷️ Re-tagged ${retagged} of ${withLaps.length} runs from device laps`);
+    return retagged;
+  } catch (error) {
+    console.error('❌ Error re-tagging runs from laps:', error);
+    return 0;
+  }
+};
+
+/* ──────────────────────────────────────────────────────────────────── */
+/*  Flag personal records set by newly synced runs                     */
+/* ──────────────────────────────────────────────────────────────────── */
+// Each run is compared with every stored run before it, so a batch synced together
+// still gets its records in order
+const flagNewRecords = async (userId, detailedRuns) => {
+  const withEfforts = detailedRuns.filter(run => run.best_efforts && run.best_efforts.length > 0);
+  if (withEfforts.length === 0) return;
+
+  try {
+    const snapshot = await db
+      .collection('detailed_runs')
+      .where('userId', '==', userId)
+      .select('id', 'name', 'start_date', 'best_efforts')
+      .get();
+    const history = snapshot.docs.map(doc => doc.data());
+
+    const batch = db.batch();
+    let flagged = 0;
+    withEfforts.forEach(run => {
+      const newRecords = findNewRecords(history, run);
+      run.new_records = newRecords;
+      batch.update(db.collection('detailed_runs').doc(`${userId}_${run.id}`), { new_records: newRecords });
+      if (newRecords.length > 0) {
+        flagged++;
+        console.log(`🏆 Run ${run.id} set ${newRecords.map(record => `${record.distanceKey} (${record.kind})`).join(', ')}`);
+      }
+    });
+    await batch.commit();
+    console.log(`🏆 ${flagged} of ${withEfforts.length} synced runs set personal records`);
+  } catch (error) {
+    console.error('❌ Error flagging personal records:', error);
+  }
+};
+
 /* ──────────────────────────────────────────────────────────────────── */
 /*  Rate limiting helper                                               */
 /* ──────────────────────────────────────────────────────────────────── */
@@ -465,6 +618,7 @@ export default async function handler(req, res) {
     
     const activities = await activitiesResp.json();
     const runs = activities.filter(activity => isRunActivity(activity.type));
+    await saveStravaHeartRateZones(accessToken, userId);
     
     console.log(`🏃‍♂️ Found ${runs.length} runs to process with detailed data`);
     
@@ -501,6 +655,9 @@ export default async function handler(req, res) {
     }
     
     console.log(`✅ Successfully processed ${processed} detailed runs, ${errors} errors`);
+    const racePrediction = await saveRacePrediction(userId);
+    await retagRunsFromLaps(userId, detailedRuns, racePrediction?.paceBands);
+    await flagNewRecords(userId, detailedRuns);
     
     // Combine with cached runs and deduplicate
     const allRuns = [...detailedRuns, ...cachedRuns];
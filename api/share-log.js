@@ -0,0 +1,236 @@
+// /api/share-log.js - Share links for the food log
+//
+// GET  ?token=...   Public, read-only view of the logs a link covers
+// GET              List share links (owner)
+// POST             Create a link: { startDate, endDate, macroOnly, label } (owner)
+// DELETE ?token=... Revoke a link (owner)
+//
+// Owner calls carry `Authorization: Bearer <Firebase ID token>` for a user with the
+// `owner` custom claim. Links live in the shareLinks collection, which only this
+// route can read or write, and the logs themselves are closed to public reads.
+// The public view returns day totals and, unless the link is macro-only, the food
+// entries with their macros - never timestamps, drinks or anything outside the range.
+
+import admin from 'firebase-admin';
+import crypto from 'crypto';
+
+// Initialize Firebase Admin (same pattern as strava.js)
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.VITE_FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_SHARE_DAYS = 366;
+
+// Entry fields the public view may see (names and amounts, plus the macro snapshot)
+const PUBLIC_ENTRY_FIELDS = ['foodId', 'quantity', 'unit', 'amount', 'amountUnit', 'unitsPerServing', 'servingSize', 'mealSlot', 'calories', 'protein', 'carbs', 'fat', 'fiber'];
+
+export default async function handler(req, res) {
+  console.log(`🔗 share-log API called: ${req.method} ${req.url}`);
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  // Revoking must take effect immediately, so nothing is cached
+  res.setHeader('Cache-Control', 'no-store');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    if (req.method === 'GET' && req.query.token) {
+      return await handleSharedLog(req, res);
+    }
+
+    if (!['GET', 'POST', 'DELETE'].includes(req.method)) {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    // Everything but the public view manages links, which only the owner may do
+    if (!(await isOwnerRequest(req))) {
+      console.log('❌ Share link management without an owner token');
+      return res.status(401).json({ error: 'Sign in as the owner to manage share links' });
+    }
+
+    if (req.method === 'GET') {
+      return await handleListLinks(req, res);
+    }
+
+    if (req.method === 'POST') {
+      return await handleCreateLink(req, res);
+    }
+
+    return await handleRevokeLink(req, res);
+  } catch (error) {
+    console.error('❌ share-log API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: process.env.NODE_ENV === 'development' ? error.message : 'API error'
+    });
+  }
+}
+
+// Verifies the caller's Firebase ID token and its owner claim
+async function isOwnerRequest(req) {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  if (!match) return false;
+  try {
+    const decoded = await admin.auth().verifyIdToken(match[1]);
+    return decoded.owner === true;
+  } catch (error) {
+    console.error('❌ Invalid ID token:', error.message);
+    return false;
+  }
+}
+
+function daysBetween(startDate, endDate) {
+  return Math.round((new Date(`${endDate}T00:00:00Z`) - new Date(`${startDate}T00:00:00Z`)) / 86400000) + 1;
+}
+
+function roundTotal(value) {
+  return Math.round((Number(value) || 0) * 10) / 10;
+}
+
+function toPublicEntry(entry) {
+  const publicEntry = {};
+  PUBLIC_ENTRY_FIELDS.forEach((field) => {
+    if (entry[field] !== undefined && entry[field] !== null) {
+      publicEntry[field] = entry[field];
+    }
+  });
+  // The viewer only trusts the logged macros when a snapshot date is present; the
+  // date alone says that without giving away when the food was logged
+  if (entry.snapshotAt) {
+    publicEntry.snapshotAt = String(entry.snapshotAt).slice(0, 10);
+  }
+  return publicEntry;
+}
+
+function toPublicDay(log, macroOnly) {
+  const totals = log.totals || {};
+  const entries = Array.isArray(log.entries) ? log.entries : [];
+  const day = {
+    date: log.date,
+    totals: {
+      calories: Math.round(Number(totals.calories) || 0),
+      protein: roundTotal(totals.protein),
+      carbs: roundTotal(totals.carbs),
+      fat: roundTotal(totals.fat),
+      fiber: roundTotal(totals.fiber)
+    },
+    entryCount: entries.length
+  };
+  if (!macroOnly) {
+    day.entries = entries.map(toPublicEntry);
+  }
+  return day;
+}
+
+function toLinkSummary(docId, link) {
+  return {
+    token: docId,
+    label: link.label || '',
+    startDate: link.startDate,
+    endDate: link.endDate,
+    macroOnly: !!link.macroOnly,
+    createdAt: link.createdAt,
+    revokedAt: link.revokedAt || null
+  };
+}
+
+// Public view of a link's date range
+async function handleSharedLog(req, res) {
+  const { token } = req.query;
+  const linkSnapshot = await db.collection('shareLinks').doc(String(token)).get();
+
+  if (!linkSnapshot.exists || linkSnapshot.data().revokedAt) {
+    console.log('❌ Share link not found or revoked');
+    return res.status(404).json({ error: 'This link has expired or been revoked' });
+  }
+
+  const link = linkSnapshot.data();
+  const logsSnapshot = await db
+    .collection('nutritionLogs')
+    .where(admin.firestore.FieldPath.documentId(), '>=', link.startDate)
+    .where(admin.firestore.FieldPath.documentId(), '<=', link.endDate)
+    .get();
+
+  const days = logsSnapshot.docs
+    .map((logDoc) => ({ date: logDoc.id, ...logDoc.data() }))
+    .filter((log) => Array.isArray(log.entries) && log.entries.length > 0)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .map((log) => toPublicDay(log, !!link.macroOnly));
+
+  console.log(`✅ Shared ${days.length} days (${link.startDate} to ${link.endDate})`);
+
+  return res.status(200).json({
+    label: link.label || '',
+    startDate: link.startDate,
+    endDate: link.endDate,
+    macroOnly: !!link.macroOnly,
+    days
+  });
+}
+
+async function handleListLinks(req, res) {
+  const snapshot = await db.collection('shareLinks').orderBy('createdAt', 'desc').get();
+  const links = snapshot.docs.map((linkDoc) => toLinkSummary(linkDoc.id, linkDoc.data()));
+  return res.status(200).json({ links });
+}
+
+async function handleCreateLink(req, res) {
+  const { startDate, endDate, macroOnly = false, label = '' } = req.body || {};
+
+  if (!DATE_PATTERN.test(startDate || '') || !DATE_PATTERN.test(endDate || '')) {
+    return res.status(400).json({ error: 'startDate and endDate must be YYYY-MM-DD' });
+  }
+  if (startDate > endDate) {
+    return res.status(400).json({ error: 'startDate must be on or before endDate' });
+  }
+  if (daysBetween(startDate, endDate) > MAX_SHARE_DAYS) {
+    return res.status(400).json({ error: `A link can cover at most ${MAX_SHARE_DAYS} days` });
+  }
+
+  // Unguessable token, also the document ID
+  const token = crypto.randomBytes(18).toString('base64url');
+  const link = {
+    label: String(label).slice(0, 80),
+    startDate,
+    endDate,
+    macroOnly: !!macroOnly,
+    createdAt: new Date().toISOString(),
+    revokedAt: null
+  };
+  await db.collection('shareLinks').doc(token).set(link);
+
+  console.log(`✅ Created share link for ${startDate} to ${endDate}${link.macroOnly ? ' (macros only)' : ''}`);
+  return res.status(201).json(toLinkSummary(token, link));
+}
+
+async function handleRevokeLink(req, res) {
+  const { token } = req.query;
+  if (!token) {
+    return res.status(400).json({ error: 'Missing token' });
+  }
+
+  const linkRef = db.collection('shareLinks').doc(String(token));
+  const linkSnapshot = await linkRef.get();
+  if (!linkSnapshot.exists) {
+    return res.status(404).json({ error: 'Link not found' });
+  }
+
+  const revokedAt = new Date().toISOString();
+  await linkRef.update({ revokedAt });
+
+  console.log(`✅ Revoked share link ${String(token).slice(0, 6)}…`);
+  return res.status(200).json(toLinkSummary(linkSnapshot.id, { ...linkSnapshot.data(), revokedAt }));
+}
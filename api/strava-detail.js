@@ -2,6 +2,7 @@
 // Fetches comprehensive activity data including splits, streams, zones, and gear info
 
 import admin from 'firebase-admin';
+import { buildHeartRateHistogram } from '../src/lib/heartRateZones.js';
 
 /* ──────────────────────────────────────────────────────────────────── */
 /*  Firebase Admin init                                               */
@@ -229,6 +230,7 @@ const fetchDetailedActivityFromStrava = async (accessToken, activityId, userId,
       zones: activityData.zones || [],
       gear: activityData.gear || null,
       streams: streamsData || null,
+      heartrate_histogram: buildHeartRateHistogram(streamsData?.time?.data, streamsData?.heartrate?.data),
       cached_at: new Date().toISOString(),
       fetched_from: useBasicData ? 'cached_basic_data' : 'strava_api',
       rate_limited: useBasicData
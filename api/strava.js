@@ -5,6 +5,7 @@
 // ✅ Comprehensive logging
 
 import admin from 'firebase-admin';
+import { classifyRun, deriveRunClassifierThresholds, evaluateRunClassifier } from '../src/lib/runClassifier.js';
 
 if (!admin.apps.length) {
   admin.initializeApp({
@@ -18,26 +19,7 @@ if (!admin.apps.length) {
 
 const db = admin.firestore();
 
-// Auto-classify runs
-const autoTagRun = (activity) => {
-  if (!activity.type?.toLowerCase().includes('run')) return null;
-  const distance = activity.distance || 0;
-  const timeInMinutes = (activity.moving_time || 0) / 60;
-  const paceMinPerKm = distance > 0 ? timeInMinutes / distance : 999;
-  const avgHR = activity.average_heartrate || 0;
-
-  if (distance >= 15) return 'long';
-  if (distance >= 10 && paceMinPerKm > 5.5) return 'long';
-  if (distance <= 5 && paceMinPerKm > 6.5) return 'recovery';
-  if (avgHR && avgHR < 140 && distance <= 8) return 'recovery';
-  if (paceMinPerKm < 4.0 && distance <= 10) return 'intervals';
-  if (avgHR && avgHR > 170 && distance <= 8) return 'intervals';
-  if (paceMinPerKm < 5.0 && distance >= 5 && distance <= 12) return 'tempo';
-  if (avgHR && avgHR >= 155 && avgHR <= 170 && distance >= 5) return 'tempo';
-  return 'easy';
-};
-
-// Load existing run tags
+// Load existing run tags, plus the stored runs the classifier derives its thresholds from
 const loadExistingRunTags = async (userId) => {
   try {
     const snapshot = await db
@@ -47,9 +29,11 @@ const loadExistingRunTags = async (userId) => {
       .get();
     
     const existingTags = new Map();
+    const runs = [];
     snapshot.docs.forEach(doc => {
       const data = doc.data();
       const activityId = data.id?.toString();
+      runs.push(data);
       if (activityId && data.runType) {
         existingTags.set(activityId, {
           runType: data.runType,
@@ -62,10 +46,21 @@ const loadExistingRunTags = async (userId) => {
     });
     
     console.log(`✅ Loaded ${existingTags.size} existing run tags`);
-    return existingTags;
+    return { existingTags, runs };
   } catch (error) {
     console.error('❌ Error loading existing run tags:', error);
-    return new Map();
+    return { existingTags: new Map(), runs: [] };
+  }
+};
+
+// VDOT pace bands /api/runs saves with each race prediction
+const loadPaceBands = async (userId) => {
+  try {
+    const snapshot = await db.collection('racePredictions').doc(userId).get();
+    return snapshot.exists ? snapshot.data().paceBands || null : null;
+  } catch (error) {
+    console.error('❌ Error loading pace bands:', error);
+    return null;
   }
 };
 
@@ -404,7 +399,12 @@ const fetchFreshDataFromStrava = async (userId, daysBack = 30) => {
 
   // 2. Load existing data
   const activityIds = activitiesData.map(a => a.id.toString());
-  const existingRunTags = await loadExistingRunTags(userId);
+  const { existingTags: existingRunTags, runs: storedRuns } = await loadExistingRunTags(userId);
+  const classifierOptions = { paceBands: await loadPaceBands(userId) };
+  const classifierThresholds = deriveRunClassifierThresholds(storedRuns, classifierOptions);
+  const classifierReport = evaluateRunClassifier(storedRuns, classifierOptions);
+  console.log(`🏷️ Run classifier: easy ${classifierThresholds.easyPace} min/km (${classifierThresholds.source.paceFrom}), long ${classifierThresholds.longRunKm} km, ` +
+    `${classifierReport.disagreements}/${classifierReport.overrides} user tags disagree`);
   const existingCalories = await loadExistingCalories(userId, activityIds);
 
   // 3. Fetch calories for ALL activities
@@ -440,7 +440,8 @@ const fetchFreshDataFromStrava = async (userId, daysBack = 30) => {
       if (existingRunTags.has(activityId)) {
         runTagInfo = existingRunTags.get(activityId);
       } else {
-        const autoTag = autoTagRun(activity);
+        // Strava distances are in meters; the classifier works in km
+        const autoTag = classifyRun({ ...activity, distance: (activity.distance || 0) / 1000 }, classifierThresholds).tag;
         runTagInfo = {
           runType: autoTag,
           run_tag: autoTag,
@@ -456,6 +457,7 @@ const fetchFreshDataFromStrava = async (userId, daysBack = 30) => {
       userId,
       id: activityId,
       start_date: activity.start_date,
+      start_date_local: activity.start_date_local || null,
       date: activity.start_date.split('T')[0],
       name: activity.name,
       type: activity.type,
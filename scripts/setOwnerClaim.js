@@ -0,0 +1,36 @@
+// Script to mark a Firebase Auth user as the owner of the nutrition log.
+// Usage: node scripts/setOwnerClaim.js you@example.com
+// The user signs in with Google in the app once first, then signs out and back in
+// after this runs so their ID token picks up the claim.
+import admin from "firebase-admin";
+import dotenv from "dotenv";
+
+// Load environment variables
+dotenv.config();
+
+admin.initializeApp({
+  credential: admin.credential.cert({
+    projectId: process.env.VITE_FIREBASE_PROJECT_ID,
+    clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+    privateKey: process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n'),
+  }),
+});
+
+async function setOwnerClaim(email) {
+  try {
+    if (!email) {
+      console.error("Usage: node scripts/setOwnerClaim.js <email>");
+      process.exit(1);
+    }
+
+    const user = await admin.auth().getUserByEmail(email);
+    await admin.auth().setCustomUserClaims(user.uid, { ...user.customClaims, owner: true });
+    console.log(`✅ ${email} (${user.uid}) is now the owner`);
+    process.exit(0);
+  } catch (error) {
+    console.error("Error setting owner claim:", error);
+    process.exit(1);
+  }
+}
+
+setOwnerClaim(process.argv[2]);
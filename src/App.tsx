@@ -6,7 +6,8 @@ import OverallJam from "./pages/OverallJam";
 import LetsJam from "./pages/LetsJam";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import SleepJam from './pages/SleepJam'; // 
@@ -16,8 +17,8 @@ import RunningCoach from './pages/RunningCoach';
 import RunningCoachMCP from './pages/RunningCoachMCP';
 import Coach from './pages/Coach';
 import Insights from './pages/Insights';
-
-const queryClient = new QueryClient();
+import SharedFoodLog from './pages/SharedFoodLog';
+import PersonalRecords from './pages/PersonalRecords';
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -33,11 +34,13 @@ const App = () => (
           <Route path="/overall-jam" element={<OverallJam />} />
           <Route path="/lets-jam" element={<LetsJam />} />
           <Route path="/runs" element={<RunsDashboard />} />
+          <Route path="/personal-records" element={<PersonalRecords />} />
           <Route path="/sleep-jam" element={<SleepJam />} />
           <Route path="/running-coach" element={<RunningCoach />} />
           <Route path="/mcp-coach" element={<RunningCoachMCP />} />
           <Route path="/coach" element={<Coach />} />
           <Route path="/insights" element={<Insights />} />
+          <Route path="/shared/:token" element={<SharedFoodLog />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
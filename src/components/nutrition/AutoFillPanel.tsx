@@ -0,0 +1,360 @@
+import { useEffect, useState } from "react";
+import { CopyPlus, Eye, Save, Settings2, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AutoFillRule, DailyLog, MealSlot } from "@/types/nutrition";
+import {
+  AUTO_FILL_SOURCE_LABELS,
+  AutoFillPreview,
+  WEEKDAY_SHORT_LABELS,
+  applyAutoFill,
+  buildAutoFillPreview,
+  deleteAutoFillRule,
+  describeMealSlots,
+  getRulesForDate,
+  getWeekday,
+  isDefaultAutoFillRule,
+  loadAutoFillRules,
+  saveAutoFillRule,
+  toTemplateEntries
+} from "@/lib/autoFillRules";
+import { MEAL_SLOTS } from "@/lib/mealSlots";
+import { formatEntryAmount } from "@/lib/servingUnits";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+interface AutoFillPanelProps {
+  log: DailyLog;
+  disabled?: boolean;
+  onApplied: (updatedLog: DailyLog, previous: DailyLog) => void;
+}
+
+const ALL_SLOTS = MEAL_SLOTS.map(slot => slot.value);
+
+// Toggle a slot in a slot list, where null means every slot
+const toggleSlot = (slots: MealSlot[] | null, slot: MealSlot): MealSlot[] | null => {
+  const current = slots || ALL_SLOTS;
+  const next = current.includes(slot) ? current.filter(value => value !== slot) : [...current, slot];
+  return next.length === ALL_SLOTS.length ? null : next;
+};
+
+const SlotToggles = ({ slots, onChange }: { slots: MealSlot[] | null; onChange: (slots: MealSlot[] | null) => void }) => (
+  <div className="flex flex-wrap gap-1">
+    {MEAL_SLOTS.map(slot => {
+      const active = slots === null || slots.includes(slot.value);
+      return (
+        <button
+          key={slot.value}
+          type="button"
+          onClick={() => onChange(toggleSlot(slots, slot.value))}
+          className={cn(
+            "px-2 py-0.5 rounded-full border text-xs",
+            active ? "bg-green-100 border-green-300 text-green-800" : "bg-white border-gray-200 text-gray-400"
+          )}
+        >
+          {slot.label}
+        </button>
+      );
+    })}
+  </div>
+);
+
+const WeekdayToggles = ({ weekdays, onChange }: { weekdays: number[]; onChange: (weekdays: number[]) => void }) => (
+  <div className="flex flex-wrap gap-1">
+    {WEEKDAY_SHORT_LABELS.map((label, weekday) => {
+      const active = weekdays.includes(weekday);
+      return (
+        <button
+          key={label}
+          type="button"
+          onClick={() => onChange(active ? weekdays.filter(day => day !== weekday) : [...weekdays, weekday].sort())}
+          className={cn(
+            "px-2 py-0.5 rounded border text-xs",
+            active ? "bg-blue-100 border-blue-300 text-blue-800" : "bg-white border-gray-200 text-gray-400"
+          )}
+        >
+          {label}
+        </button>
+      );
+    })}
+  </div>
+);
+
+/**
+ * Copy foods into the day from a chosen rule (yesterday, same weekday last week or a
+ * saved template), limited to chosen meal slots, after previewing what will be added
+ */
+export function AutoFillPanel({ log, disabled, onApplied }: AutoFillPanelProps) {
+  const [rules, setRules] = useState<AutoFillRule[]>([]);
+  // The rule and meal slots picked for a day; other days start from their first suggested rule
+  const [choice, setChoice] = useState<{ date: string; ruleId: string; mealSlots?: MealSlot[] | null } | null>(null);
+  const [previewState, setPreviewState] = useState<{ date: string; preview: AutoFillPreview } | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [managing, setManaging] = useState(false);
+  const [template, setTemplate] = useState<{ name: string; weekdays: number[]; mealSlots: MealSlot[] | null } | null>(null);
+
+  const suggestedRules = getRulesForDate(rules, log.date);
+  const otherRules = rules.filter(rule => !suggestedRules.includes(rule));
+  const dayChoice = choice?.date === log.date && rules.some(rule => rule.id === choice.ruleId) ? choice : null;
+  const ruleId = dayChoice?.ruleId || suggestedRules[0]?.id || rules[0]?.id || "";
+  const selectedRule = rules.find(rule => rule.id === ruleId);
+  const mealSlots = dayChoice?.ruleId === ruleId && dayChoice.mealSlots !== undefined ? dayChoice.mealSlots : selectedRule?.mealSlots ?? null;
+  const preview = previewState?.date === log.date ? previewState.preview : null;
+
+  useEffect(() => {
+    loadAutoFillRules().then(setRules);
+  }, []);
+
+  const chooseRule = (nextRuleId: string) => {
+    setChoice({ date: log.date, ruleId: nextRuleId });
+    setPreviewState(null);
+  };
+
+  const chooseMealSlots = (slots: MealSlot[] | null) => {
+    setChoice({ date: log.date, ruleId, mealSlots: slots });
+    setPreviewState(null);
+  };
+
+  const handlePreview = async () => {
+    if (!selectedRule) return;
+    setPreviewing(true);
+    try {
+      setPreviewState({ date: log.date, preview: await buildAutoFillPreview(selectedRule, log.date, mealSlots) });
+    } catch (error) {
+      console.error("Error previewing auto-fill:", error);
+      toast.error("Couldn't load the foods to copy");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview || preview.entries.length === 0) return;
+    setApplying(true);
+    try {
+      const updatedLog = await applyAutoFill(preview, log);
+      setPreviewState(null);
+      onApplied(updatedLog, log);
+    } catch (error) {
+      console.error("Error applying auto-fill:", error);
+      toast.error("Failed to auto-fill");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleSaveRule = async (rule: AutoFillRule) => {
+    try {
+      const saved = await saveAutoFillRule(rule);
+      setRules(current => current.map(candidate => (candidate.id === saved.id ? saved : candidate)));
+    } catch (error) {
+      console.error("Error saving auto-fill rule:", error);
+      toast.error("Failed to save rule");
+    }
+  };
+
+  const handleDeleteRule = async (rule: AutoFillRule) => {
+    const isDefault = isDefaultAutoFillRule(rule.id);
+    if (!isDefault && !window.confirm(`Delete "${rule.name}"?`)) return;
+    try {
+      await deleteAutoFillRule(rule.id);
+      setRules(await loadAutoFillRules());
+      toast.success(isDefault ? `${rule.name} reset` : `${rule.name} deleted`);
+    } catch (error) {
+      console.error("Error deleting auto-fill rule:", error);
+      toast.error("Failed to delete rule");
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!template) return;
+    if (!template.name.trim()) {
+      toast.error("Give the template a name");
+      return;
+    }
+    const templateEntries = toTemplateEntries(log.entries, template.mealSlots);
+    if (templateEntries.length === 0) {
+      toast.error("No foods in the selected meals to save");
+      return;
+    }
+    try {
+      const saved = await saveAutoFillRule({
+        name: template.name.trim(),
+        source: "template",
+        mealSlots: null,
+        weekdays: template.weekdays,
+        templateEntries
+      });
+      setRules(current => [...current, saved]);
+      chooseRule(saved.id);
+      setTemplate(null);
+      toast.success(`Saved template "${saved.name}"`);
+    } catch (error) {
+      console.error("Error saving template:", error);
+      toast.error("Failed to save template");
+    }
+  };
+
+  const ruleOption = (rule: AutoFillRule) => (
+    <option key={rule.id} value={rule.id}>
+      {rule.name}
+      {rule.source === "template" ? ` (${rule.templateEntries?.length || 0} foods)` : ""}
+    </option>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <CopyPlus className="h-5 w-5 text-green-600" />
+            Auto-fill
+          </CardTitle>
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setTemplate({ name: "", weekdays: [getWeekday(log.date)], mealSlots: null })}
+              disabled={log.entries.length === 0}
+              title="Save this day's foods as a template"
+            >
+              <Save className="h-4 w-4 mr-1" />
+              Save as template
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setManaging(!managing)}>
+              <Settings2 className="h-4 w-4 mr-1" />
+              Rules
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={ruleId}
+            onChange={(e) => chooseRule(e.target.value)}
+            className="h-9 px-2 border rounded text-sm"
+          >
+            {suggestedRules.length > 0 && (
+              <optgroup label={`For ${WEEKDAY_SHORT_LABELS[getWeekday(log.date)]}`}>{suggestedRules.map(ruleOption)}</optgroup>
+            )}
+            {otherRules.length > 0 && <optgroup label="Other rules">{otherRules.map(ruleOption)}</optgroup>}
+          </select>
+          <Button variant="outline" size="sm" onClick={handlePreview} disabled={!selectedRule || previewing || disabled}>
+            <Eye className="h-4 w-4 mr-1" />
+            {previewing ? "Loading..." : "Preview"}
+          </Button>
+        </div>
+        {selectedRule && (
+          <div className="space-y-1">
+            <div className="text-xs text-gray-500">Meals to copy for this day</div>
+            <SlotToggles slots={mealSlots} onChange={chooseMealSlots} />
+          </div>
+        )}
+
+        {preview && (
+          <div className="border rounded-lg p-3 bg-gray-50 space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-700">
+                {preview.entries.length} food{preview.entries.length === 1 ? "" : "s"} from {preview.sourceDate || preview.rule.name}
+              </span>
+              <span className="text-gray-500">{Math.round(preview.totals.calories)} cal · {Math.round(preview.totals.protein)}g protein</span>
+            </div>
+            {preview.excludedBySlot > 0 && (
+              <div className="text-xs text-gray-500">{preview.excludedBySlot} other foods left out by the meal selection</div>
+            )}
+            {log.entries.length > 0 && preview.entries.length > 0 && (
+              <div className="text-xs text-amber-700">This day already has {log.entries.length} foods; these will be added to them.</div>
+            )}
+            <ul className="text-xs text-gray-700 space-y-0.5 max-h-40 overflow-y-auto">
+              {preview.entries.map((entry, index) => (
+                <li key={index} className="flex justify-between">
+                  <span className="truncate">{entry.foodId}</span>
+                  <span className="ml-2 text-gray-500 shrink-0">{formatEntryAmount(entry)}{entry.mealSlot ? ` · ${entry.mealSlot}` : ""}</span>
+                </li>
+              ))}
+              {preview.entries.length === 0 && <li className="text-gray-500">Nothing to copy.</li>}
+            </ul>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleApply} disabled={applying || disabled || preview.entries.length === 0}>
+                {applying ? "Adding..." : `Add ${preview.entries.length} foods`}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setPreviewState(null)}>
+                <X className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {managing && (
+          <div className="border-t pt-3 space-y-3">
+            {rules.map(rule => (
+              <div key={rule.id} className="space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-sm font-medium text-gray-800">
+                    {rule.name}
+                    <Badge variant="outline" className="ml-2 text-[10px] font-normal">{AUTO_FILL_SOURCE_LABELS[rule.source]}</Badge>
+                  </div>
+                  {(!isDefaultAutoFillRule(rule.id) || rule.updatedAt) && (
+                    <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => handleDeleteRule(rule)}>
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      {isDefaultAutoFillRule(rule.id) ? "Reset" : "Delete"}
+                    </Button>
+                  )}
+                </div>
+                <WeekdayToggles weekdays={rule.weekdays} onChange={(weekdays) => handleSaveRule({ ...rule, weekdays })} />
+                <SlotToggles slots={rule.mealSlots} onChange={(slots) => handleSaveRule({ ...rule, mealSlots: slots })} />
+                <div className="text-xs text-gray-500">
+                  {rule.source === "template" ? `${rule.templateEntries?.length || 0} foods · ` : ""}
+                  Copies {describeMealSlots(rule.mealSlots).toLowerCase()}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={template !== null} onOpenChange={(open) => !open && setTemplate(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save day as template</DialogTitle>
+          </DialogHeader>
+          {template && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={template.name}
+                  onChange={(e) => setTemplate({ ...template, name: e.target.value })}
+                  placeholder="e.g. Long-run Sunday"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Suggest on</Label>
+                <WeekdayToggles weekdays={template.weekdays} onChange={(weekdays) => setTemplate({ ...template, weekdays })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Meals to include</Label>
+                <SlotToggles slots={template.mealSlots} onChange={(slots) => setTemplate({ ...template, mealSlots: slots })} />
+              </div>
+              <p className="text-xs text-gray-500">
+                {toTemplateEntries(log.entries, template.mealSlots).length} of {log.entries.length} foods will be saved.
+              </p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTemplate(null)}>Cancel</Button>
+            <Button onClick={handleSaveTemplate}>Save template</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
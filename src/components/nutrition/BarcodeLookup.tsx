@@ -0,0 +1,259 @@
+import { useEffect, useRef, useState } from "react";
+import { Camera, Plus, ScanBarcode, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { FoodEntry, FoodItem } from "@/types/nutrition";
+import { findFoodByBarcode, findFoodById, saveFoodToFirestore } from "@/lib/foodCatalog";
+import { createFoodEntryInUnit, getTodayDateString } from "@/lib/nutritionUtils";
+import { buildConsumedAt, formatConsumedTime, inferMealSlot } from "@/lib/mealSlots";
+import {
+  BarcodeSnapshotInfo,
+  barcodeProductToFoodItem,
+  getBarcodeSnapshotInfo,
+  importBarcodeSnapshot,
+  isValidBarcode,
+  lookupBarcode,
+  normalizeBarcode
+} from "@/lib/openFoodFacts";
+import { toast } from "sonner";
+
+// The Barcode Detection API isn't in the DOM typings yet (Chromium and Safari only)
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+const SCAN_INTERVAL_MS = 300;
+
+interface BarcodeLookupProps {
+  onAddFood: (entry: FoodEntry) => void;
+  disabled?: boolean;
+  date?: string; // YYYY-MM-DD of the log being edited, used for the consumed-at time
+}
+
+interface LookupResult {
+  code: string;
+  food: FoodItem | null; // null when the barcode isn't in the catalog or the snapshot
+  inCatalog: boolean;
+}
+
+/**
+ * Look up packaged foods by barcode, typed or scanned with the camera, in a local
+ * Open Food Facts snapshot and log them by weight. Works offline once a snapshot is imported.
+ */
+export function BarcodeLookup({ onAddFood, disabled, date }: BarcodeLookupProps) {
+  const [code, setCode] = useState("");
+  const [grams, setGrams] = useState("");
+  const [result, setResult] = useState<LookupResult | null>(null);
+  const [snapshot, setSnapshot] = useState<BarcodeSnapshotInfo | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canScan = typeof window !== "undefined" && !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+
+  useEffect(() => {
+    getBarcodeSnapshotInfo().then(setSnapshot);
+  }, []);
+
+  const handleLookup = async (rawCode: string) => {
+    const normalized = normalizeBarcode(rawCode);
+    if (!normalized) return;
+    if (!isValidBarcode(normalized)) {
+      toast.warning("That barcode's check digit doesn't match; looking it up anyway");
+    }
+
+    // A food already added from this barcode keeps any edits made to it
+    const catalogFood = findFoodByBarcode(normalized);
+    const product = catalogFood ? null : await lookupBarcode(normalized);
+    let food = catalogFood || (product ? barcodeProductToFoodItem(product) : null);
+    if (food && !catalogFood && findFoodById(food.id!)) {
+      // Same name as an existing food (another pack size or flavour); keep both
+      food = { ...food, id: `${food.id}-${normalized}` };
+    }
+
+    const portion = food?.alternateUnits?.find(unit => unit.unit === "portion");
+    const defaultGrams = portion?.amount || 100;
+    setResult({ code: normalized, food, inCatalog: !!catalogFood });
+    setGrams(String(defaultGrams));
+  };
+
+  // The scan loop outlives renders, so it reads the latest lookup through a ref
+  const lookupRef = useRef(handleLookup);
+  lookupRef.current = handleLookup;
+
+  // Camera scanning: poll the video for a barcode until one is found or the scan is closed
+  useEffect(() => {
+    if (!scanning) return;
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+    const detector = new Detector({ formats: ["ean_13", "ean_8", "upc_a", "upc_e"] });
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(mediaStream => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = mediaStream;
+        video.play();
+        timer = setInterval(async () => {
+          if (video.readyState < 2) return;
+          try {
+            const [barcode] = await detector.detect(video);
+            if (barcode && !cancelled) {
+              setCode(barcode.rawValue);
+              setScanning(false);
+              lookupRef.current(barcode.rawValue);
+            }
+          } catch (error) {
+            console.error("Barcode scan error:", error);
+          }
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch(error => {
+        console.error("Camera error:", error);
+        toast.error("Couldn't open the camera");
+        setScanning(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [scanning]);
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setImporting(true);
+    try {
+      const info = await importBarcodeSnapshot(file);
+      setSnapshot(info);
+      toast.success(`Imported ${info.productCount.toLocaleString()} products`);
+    } catch (error) {
+      console.error("Error importing barcode snapshot:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import the snapshot");
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleAdd = () => {
+    const food = result?.food;
+    const amount = Number(grams);
+    if (!food || !(amount > 0)) return;
+
+    if (!result.inCatalog) {
+      // Not awaited: the log entry carries its own nutrition snapshot, so logging works offline
+      saveFoodToFirestore(food).catch(error => console.error("Error saving scanned food:", error));
+    }
+    onAddFood(createFoodEntryInUnit(food, amount, "g", {
+      mealSlot: inferMealSlot(),
+      consumedAt: buildConsumedAt(date || getTodayDateString(), formatConsumedTime(new Date().toISOString()))
+    }));
+    toast.success(`${food.name} added!`);
+    setResult(null);
+    setCode("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <ScanBarcode className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            inputMode="numeric"
+            placeholder="Barcode (EAN / UPC)"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleLookup(code)}
+            disabled={disabled}
+            className="pl-9"
+          />
+        </div>
+        <Button variant="outline" onClick={() => handleLookup(code)} disabled={disabled || !code.trim()}>
+          Look up
+        </Button>
+        {canScan && (
+          <Button variant="outline" onClick={() => setScanning(!scanning)} disabled={disabled} aria-label="Scan with camera">
+            {scanning ? <X className="h-4 w-4" /> : <Camera className="h-4 w-4" />}
+          </Button>
+        )}
+      </div>
+
+      {scanning && (
+        <video ref={videoRef} className="w-full max-h-64 rounded-lg bg-black object-cover" muted playsInline />
+      )}
+
+      {result && (
+        <div className="p-3 rounded-lg border border-green-200 bg-green-50/60 text-sm">
+          {result.food ? (
+            <div className="space-y-2">
+              <div>
+                <div className="font-medium text-gray-900">{result.food.name}</div>
+                <div className="text-xs text-gray-600">
+                  Per 100g: {result.food.calories} cal • P:{result.food.protein}g • C:{result.food.carbs}g • F:{result.food.fat}g
+                  {result.inCatalog ? " · in your foods" : " · from Open Food Facts"}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={grams}
+                  onChange={(e) => setGrams(e.target.value)}
+                  className="h-8 w-24 bg-white"
+                  aria-label="Grams"
+                />
+                <span className="text-xs text-gray-500">g</span>
+                <Button size="sm" className="h-8 bg-green-600 hover:bg-green-700" onClick={handleAdd} disabled={disabled || !(Number(grams) > 0)}>
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="text-gray-600">
+              {result.code} isn't in {snapshot ? "the snapshot" : "your foods"}. Add it from the Foods tab with the pack's nutrition label.
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+        <span>
+          {snapshot
+            ? `Open Food Facts: ${snapshot.productCount.toLocaleString()} products from ${snapshot.fileName}`
+            : "No Open Food Facts snapshot yet. Import a JSON or CSV extract to look up packaged foods offline."}
+        </span>
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+          <Upload className="h-3 w-3 mr-1" />
+          {importing ? "Importing..." : snapshot ? "Replace" : "Import"}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.jsonl,.ndjson,.csv,.tsv,.txt"
+          className="hidden"
+          onChange={(e) => handleImport(e.target.files?.[0])}
+        />
+      </div>
+    </div>
+  );
+}
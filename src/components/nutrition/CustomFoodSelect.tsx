@@ -1,9 +1,10 @@
-
 import React, { useState, useEffect, useRef } from 'react';
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { vegetarianFoods } from "@/data/vegetarianFoods";
-import { cn } from "@/lib/utils";
+import { FoodItem } from "@/types/nutrition";
+import { useFoodSearch } from "@/hooks/useFoodSearch";
+import { getFoodSearchOptionId } from "@/lib/foodSearch";
+import { FoodSearchResults } from "./FoodSearchResults";
 
 interface CustomFoodSelectProps {
   value: string;
@@ -15,18 +16,18 @@ export function CustomFoodSelect({ value, onSelect }: CustomFoodSelectProps) {
   const [searchTerm, setSearchTerm] = useState("");
   const wrapperRef = useRef<HTMLDivElement>(null);
 
-  const filteredFoods = Array.isArray(vegetarianFoods) 
-    ? vegetarianFoods.filter(food => 
-        food.name.toLowerCase().includes(searchTerm.toLowerCase())
-      )
-    : [];
-
-  const handleSelect = (foodName: string) => {
-    onSelect(foodName);
+  const handleSelect = (food: FoodItem) => {
+    onSelect(food.name);
     setIsOpen(false);
     setSearchTerm("");
   };
 
+  const search = useFoodSearch(searchTerm, {
+    limit: 20,
+    onSelect: handleSelect,
+    onClose: () => setIsOpen(false)
+  });
+
   // Close dropdown if clicked outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -51,37 +52,32 @@ export function CustomFoodSelect({ value, onSelect }: CustomFoodSelectProps) {
         <span className="ml-2 h-4 w-4">{isOpen ? '▲' : '▼'}</span>
       </Button>
       {isOpen && (
-        <div className="absolute z-10 mt-1 w-full bg-white border border-gray-300 rounded-md shadow-lg max-h-60 overflow-y-auto">
+        <div className="absolute z-10 mt-1 w-full bg-white border border-gray-300 rounded-md shadow-lg max-h-72 overflow-y-auto">
           <div className="p-2">
             <Input
               type="text"
               placeholder="Search food..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
+              onKeyDown={(e: React.KeyboardEvent) => search.handleKeyDown(e)}
+              role="combobox"
+              aria-expanded={isOpen}
+              aria-controls="custom-food-select-results"
+              aria-activedescendant={search.results.length > 0 ? getFoodSearchOptionId("custom-food-select-results", search.activeIndex) : undefined}
+              autoFocus
               className="w-full"
             />
           </div>
-          {filteredFoods.length > 0 ? (
-            filteredFoods.map((food) => (
-              <div
-                key={food.name}
-                onClick={() => handleSelect(food.name)}
-                className={cn(
-                  "px-4 py-2 cursor-pointer hover:bg-gray-100",
-                  value === food.name && "bg-gray-200"
-                )}
-              >
-                <div className="flex flex-col">
-                  <span>{food.name}</span>
-                  <span className="text-xs text-muted-foreground">
-                    {food.servingSize || "N/A"} • {food.calories || 0} cal • P: {food.protein || 0}g • C: {food.carbs || 0}g • F: {food.fat || 0}g
-                  </span>
-                </div>
-              </div>
-            ))
-          ) : (
-            <div className="px-4 py-2 text-gray-500">No food found.</div>
-          )}
+          <FoodSearchResults
+            id="custom-food-select-results"
+            results={search.results}
+            activeIndex={search.activeIndex}
+            isSearching={search.isSearching}
+            selectedName={value}
+            onSelect={handleSelect}
+            onHover={search.setActiveIndex}
+            onToggleFavourite={search.toggleFavourite}
+          />
         </div>
       )}
     </div>
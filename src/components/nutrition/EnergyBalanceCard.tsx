@@ -0,0 +1,255 @@
+import { useEffect, useRef, useState } from "react";
+import Chart from "chart.js/auto";
+import { Scale, TrendingDown, TrendingUp } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ACTIVITY_LEVELS,
+  ActivityLevel,
+  BMR_METHOD_LABELS,
+  BmrMethod,
+  CALIBRATION_WINDOW_DAYS,
+  ENERGY_BALANCE_QUERY_KEY,
+  EnergyBalance,
+  EnergySettings,
+  saveEnergySettings,
+  saveWeighIn
+} from "@/lib/energyBalance";
+import { getTodayDateString } from "@/lib/nutritionUtils";
+import { queryClient } from "@/lib/queryClient";
+import { useEnergyBalance } from "@/hooks/useEnergyBalance";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+interface EnergyBalanceCardProps {
+  onChanged?: () => void; // After a weigh-in or settings change recalibrates the model
+}
+
+const formatShortDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+const formatSigned = (value: number) => `${value >= 0 ? "+" : ""}${value}`;
+
+// Weigh-ins so far, then the projected trend from today
+function WeightTrendChart({ balance }: { balance: EnergyBalance }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    const dates = Array.from(new Set([...balance.weighIns, ...balance.projection].map(point => point.date))).sort();
+    const valueOn = (points: { date: string; weightKg: number }[]) =>
+      dates.map(date => points.find(point => point.date === date)?.weightKg ?? null);
+
+    const chart = new Chart(ctx, {
+      type: "line",
+      data: {
+        labels: dates.map(formatShortDate),
+        datasets: [
+          {
+            label: "Weigh-ins (kg)",
+            data: valueOn(balance.weighIns),
+            borderColor: "rgb(16, 185, 129)",
+            backgroundColor: "rgba(16, 185, 129, 0.3)",
+            spanGaps: true,
+            tension: 0.2
+          },
+          {
+            label: "Projected (kg)",
+            data: valueOn(balance.projection),
+            borderColor: "rgb(59, 130, 246)",
+            borderDash: [6, 4],
+            pointRadius: 2,
+            spanGaps: true
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        scales: { y: { title: { display: true, text: "kg" } } }
+      }
+    });
+
+    return () => chart.destroy();
+  }, [balance]);
+
+  return (
+    <div className="h-56">
+      <canvas ref={canvasRef} className="w-full h-full"></canvas>
+    </div>
+  );
+}
+
+/**
+ * BMR and TDEE from body composition, activity level and Strava calories, the
+ * average daily balance over four weeks and where it takes body weight. Weigh-ins
+ * logged here calibrate the model.
+ */
+export function EnergyBalanceCard({ onChanged }: EnergyBalanceCardProps) {
+  const { balance, loading } = useEnergyBalance();
+  const [weight, setWeight] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: [ENERGY_BALANCE_QUERY_KEY] });
+    onChanged?.();
+  };
+
+  const handleSettingsChange = async (changes: Partial<EnergySettings>) => {
+    if (!balance) return;
+    setSaving(true);
+    try {
+      await saveEnergySettings({ ...balance.settings, ...changes });
+      await refresh();
+    } catch (error) {
+      console.error("Error saving energy settings:", error);
+      toast.error("Failed to save settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLogWeight = async () => {
+    const weightKg = Number(weight);
+    if (!(weightKg > 20 && weightKg < 300)) {
+      toast.error("Enter your weight in kg");
+      return;
+    }
+    setSaving(true);
+    try {
+      await saveWeighIn({ date: getTodayDateString(), weightKg });
+      setWeight("");
+      toast.success(`Logged ${weightKg} kg`);
+      await refresh();
+    } catch (error) {
+      console.error("Error logging weigh-in:", error);
+      toast.error("Failed to log weigh-in");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !balance) {
+    return (
+      <Card className="bg-white/80 backdrop-blur-sm border border-green-200 shadow-sm">
+        <CardContent className="p-6 space-y-3">
+          <Skeleton className="h-6 w-1/3" />
+          <Skeleton className="h-40 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { calibration, averages, projection } = balance;
+  const projectedChange = projection.length > 1
+    ? Math.round((projection[projection.length - 1].weightKg - projection[0].weightKg) * 10) / 10
+    : null;
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border border-green-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 flex-wrap">
+          <Scale className="h-5 w-5 text-emerald-600" />
+          Energy Balance
+          <Badge
+            variant="secondary"
+            className={cn("ml-2 text-xs", calibration.calibrated ? "bg-green-100 text-green-700" : "bg-amber-100 text-amber-700")}
+            title={calibration.reason}
+          >
+            {calibration.calibrated ? `Calibrated ×${calibration.factor}` : "Not calibrated"}
+          </Badge>
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          TDEE = BMR × activity level{calibration.calibrated ? " × calibration" : ""} + Strava calories, over the last {CALIBRATION_WINDOW_DAYS} days
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="p-3 bg-emerald-50 rounded-lg">
+            <div className="text-xs text-gray-500">BMR</div>
+            <div className="text-2xl font-bold text-emerald-700">{balance.bmr}</div>
+            <div className="text-xs text-gray-500">{BMR_METHOD_LABELS[balance.bmrMethod]} · {balance.weightKg} kg</div>
+          </div>
+          <div className="p-3 bg-green-50 rounded-lg">
+            <div className="text-xs text-gray-500">Resting + daily life</div>
+            <div className="text-2xl font-bold text-green-700">{balance.restingKcal}</div>
+            <div className="text-xs text-gray-500">
+              {balance.restingKcal !== balance.baselineKcal ? `${balance.baselineKcal} before calibration` : "cal/day"}
+            </div>
+          </div>
+          <div className="p-3 bg-blue-50 rounded-lg">
+            <div className="text-xs text-gray-500">Avg TDEE</div>
+            <div className="text-2xl font-bold text-blue-700">{averages ? averages.tdee : "--"}</div>
+            <div className="text-xs text-gray-500">{averages ? `${averages.intake} cal/day eaten` : "No food logged"}</div>
+          </div>
+          <div className="p-3 bg-teal-50 rounded-lg">
+            <div className="text-xs text-gray-500">Avg balance</div>
+            <div className={cn("text-2xl font-bold", averages && averages.balance < 0 ? "text-red-600" : "text-teal-700")}>
+              {averages ? formatSigned(averages.balance) : "--"}
+            </div>
+            <div className="text-xs text-gray-500 flex items-center gap-1">
+              {projectedChange !== null ? (
+                <>
+                  {projectedChange < 0 ? <TrendingDown className="h-3 w-3" /> : <TrendingUp className="h-3 w-3" />}
+                  {formatSigned(projectedChange)} kg in 4 weeks
+                </>
+              ) : "cal/day"}
+            </div>
+          </div>
+        </div>
+
+        {(balance.weighIns.length > 0 || projection.length > 0) && <WeightTrendChart balance={balance} />}
+
+        <div className="text-xs text-gray-500">
+          {calibration.calibrated
+            ? `Weight trend ${formatSigned(calibration.weeklyChangeKg ?? 0)} kg/week with ${calibration.loggedDays} of ${calibration.windowDays} days logged implies ${calibration.impliedTdee} cal/day.`
+            : `${calibration.reason}. ${calibration.weighIns} weigh-ins and ${calibration.loggedDays} of ${calibration.windowDays} days logged so far.`}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="number"
+            min="0"
+            step="0.1"
+            placeholder="Today's weight (kg)"
+            value={weight}
+            onChange={(e) => setWeight(e.target.value)}
+            className="h-8 w-44 bg-white"
+          />
+          <Button size="sm" className="h-8" disabled={saving || !weight} onClick={handleLogWeight}>
+            Log weigh-in
+          </Button>
+          <select
+            value={balance.settings.activityLevel}
+            onChange={(e) => handleSettingsChange({ activityLevel: e.target.value as ActivityLevel })}
+            disabled={saving}
+            className="h-8 px-2 border rounded text-sm bg-white"
+            aria-label="Activity level outside workouts"
+          >
+            {ACTIVITY_LEVELS.map(level => (
+              <option key={level.value} value={level.value} title={level.description}>
+                {level.label} (×{level.factor})
+              </option>
+            ))}
+          </select>
+          <select
+            value={balance.settings.bmrMethod}
+            onChange={(e) => handleSettingsChange({ bmrMethod: e.target.value as EnergySettings["bmrMethod"] })}
+            disabled={saving}
+            className="h-8 px-2 border rounded text-sm bg-white"
+            aria-label="BMR formula"
+          >
+            <option value="auto">Auto formula</option>
+            {(Object.keys(BMR_METHOD_LABELS) as BmrMethod[]).map(method => (
+              <option key={method} value={method}>{BMR_METHOD_LABELS[method]}</option>
+            ))}
+          </select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { Archive, ArchiveRestore, Database, Edit, Plus, RefreshCw, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlternateUnit, FoodItem } from "@/types/nutrition";
+import { useFoodCatalog } from "@/hooks/useFoodCatalog";
+import { findFoodById, saveFoodToFirestore, setFoodArchived, slugifyFoodName } from "@/lib/foodCatalog";
+import { migrateAllNutritionLogsFirestore } from "@/lib/nutritionUtils";
+import { MICRONUTRIENTS } from "@/lib/micronutrients";
+import { parseServingSize } from "@/lib/servingUnits";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+const emptyFood: FoodItem = {
+  name: "",
+  servingSize: "",
+  calories: 0,
+  protein: 0,
+  carbs: 0,
+  fat: 0,
+  fiber: 0
+};
+
+const macroFields: { key: keyof FoodItem; label: string }[] = [
+  { key: "calories", label: "Calories" },
+  { key: "protein", label: "Protein (g)" },
+  { key: "carbs", label: "Carbs (g)" },
+  { key: "fat", label: "Fat (g)" },
+  { key: "fiber", label: "Fiber (g)" }
+];
+
+/**
+ * Create, edit and archive foods in the Firestore-backed food catalog
+ */
+export function FoodDatabaseManager() {
+  const { foods: catalogFoods } = useFoodCatalog({ includeArchived: true });
+  // Recipes are edited in the recipe builder
+  const foods = catalogFoods.filter(food => food.source !== "recipe");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingFood, setEditingFood] = useState<FoodItem | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [migrating, setMigrating] = useState(false);
+
+  const filteredFoods = foods
+    .filter(food => showArchived || !food.archived)
+    .filter(food => food.name.toLowerCase().includes(searchTerm.toLowerCase()))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleSave = async () => {
+    if (!editingFood) return;
+
+    if (!editingFood.name.trim() || !String(editingFood.servingSize).trim()) {
+      toast.error("Name and serving size are required");
+      return;
+    }
+
+    // New foods get their ID from the name; don't silently overwrite an existing one
+    if (!editingFood.id && findFoodById(slugifyFoodName(editingFood.name))) {
+      toast.error("A food with this name already exists");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await saveFoodToFirestore(editingFood);
+      toast.success(`${saved.name} saved!`);
+      setEditingFood(null);
+    } catch (error) {
+      console.error("Error saving food:", error);
+      toast.error("Failed to save food");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateAlternateUnit = (index: number, changes: Partial<AlternateUnit>) => {
+    if (!editingFood) return;
+    const alternateUnits = [...(editingFood.alternateUnits || [])];
+    alternateUnits[index] = { ...alternateUnits[index], ...changes };
+    setEditingFood({ ...editingFood, alternateUnits });
+  };
+
+  const handleToggleArchived = async (food: FoodItem) => {
+    try {
+      await setFoodArchived(food.id!, !food.archived);
+      toast.success(food.archived ? `${food.name} restored` : `${food.name} archived`);
+    } catch (error) {
+      console.error("Error archiving food:", error);
+      toast.error("Failed to update food");
+    }
+  };
+
+  // Snapshot macros into any old logs that still only store food name + quantity
+  const handleMigrateLogs = async () => {
+    setMigrating(true);
+    try {
+      const count = await migrateAllNutritionLogsFirestore();
+      toast.success(count > 0 ? `Upgraded ${count} old logs` : "All logs are up to date");
+    } catch (error) {
+      console.error("Error migrating nutrition logs:", error);
+      toast.error("Failed to upgrade old logs");
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <Database className="h-5 w-5 text-green-600" />
+            Food Database ({foods.filter(food => !food.archived).length})
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleMigrateLogs} disabled={migrating}>
+              <RefreshCw className={cn("mr-2 h-4 w-4", migrating && "animate-spin")} />
+              {migrating ? "Upgrading..." : "Upgrade Old Logs"}
+            </Button>
+            <Button
+              onClick={() => setEditingFood({ ...emptyFood })}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              New Food
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search foods..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Button variant="outline" onClick={() => setShowArchived(!showArchived)}>
+            {showArchived ? "Hide archived" : "Show archived"}
+          </Button>
+        </div>
+
+        <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg max-h-[480px] overflow-y-auto">
+          {filteredFoods.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No foods found.</div>
+          ) : (
+            filteredFoods.map(food => (
+              <div
+                key={food.id}
+                className={cn("flex items-center justify-between gap-3 px-4 py-3", food.archived && "opacity-60")}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900 truncate">{food.name}</span>
+                    {food.source === "custom" && (
+                      <Badge variant="secondary" className="bg-blue-100 text-blue-700">Custom</Badge>
+                    )}
+                    {food.archived && <Badge variant="outline">Archived</Badge>}
+                  </div>
+                  <div className="text-xs text-gray-600">
+                    {food.servingSize} • {food.calories}cal • P:{food.protein}g • C:{food.carbs}g • F:{food.fat}g • Fiber:{food.fiber}g
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="outline" size="sm" onClick={() => setEditingFood({ ...food })} className="h-8 w-8 p-0">
+                    <Edit className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleToggleArchived(food)}
+                    className="h-8 w-8 p-0"
+                    title={food.archived ? "Restore" : "Archive"}
+                  >
+                    {food.archived ? <ArchiveRestore className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editingFood} onOpenChange={(open) => !open && setEditingFood(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingFood?.id ? "Edit Food" : "New Food"}</DialogTitle>
+          </DialogHeader>
+          {editingFood && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="food-name">Name</Label>
+                <Input
+                  id="food-name"
+                  value={editingFood.name}
+                  onChange={(e) => setEditingFood({ ...editingFood, name: e.target.value })}
+                  placeholder="e.g. Greek Yogurt, Epigamia"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="food-serving">Serving size</Label>
+                <Input
+                  id="food-serving"
+                  value={editingFood.servingSize}
+                  onChange={(e) => setEditingFood({ ...editingFood, servingSize: e.target.value })}
+                  placeholder="e.g. 100g"
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="text-sm font-medium text-gray-700">Other units</div>
+                <p className="text-xs text-gray-500">
+                  {parseServingSize(editingFood.servingSize)?.grams || parseServingSize(editingFood.servingSize)?.unit === "ml"
+                    ? "Log this food in pieces, scoops, cups... by saying how much one weighs."
+                    : "Give the serving size a weight (e.g. 100g or 1 Roti (50 g)) to add other units."}
+                </p>
+                {(editingFood.alternateUnits || []).map((alternate, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="text-sm text-gray-600">1</span>
+                    <Input
+                      value={alternate.unit}
+                      onChange={(e) => updateAlternateUnit(index, { unit: e.target.value })}
+                      placeholder="piece"
+                      className="w-28"
+                    />
+                    <span className="text-sm text-gray-600">=</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={alternate.amount}
+                      onChange={(e) => updateAlternateUnit(index, { amount: parseFloat(e.target.value) || 0 })}
+                      className="w-24"
+                    />
+                    <span className="text-sm text-gray-600">
+                      {parseServingSize(editingFood.servingSize)?.grams ? "g" : "ml"}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditingFood({
+                        ...editingFood,
+                        alternateUnits: (editingFood.alternateUnits || []).filter((_, i) => i !== index)
+                      })}
+                      className="h-8 w-8 p-0"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setEditingFood({
+                    ...editingFood,
+                    alternateUnits: [...(editingFood.alternateUnits || []), { unit: "", amount: 0 }]
+                  })}
+                >
+                  <Plus className="mr-2 h-3 w-3" />
+                  Add unit
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {macroFields.map(field => (
+                  <div key={field.key} className="space-y-2">
+                    <Label htmlFor={`food-${field.key}`}>{field.label}</Label>
+                    <Input
+                      id={`food-${field.key}`}
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={editingFood[field.key] as number}
+                      onChange={(e) => setEditingFood({ ...editingFood, [field.key]: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <div className="text-sm font-medium text-gray-700">Micronutrients per serving</div>
+                <p className="text-xs text-gray-500">Leave blank if unknown — blanks are never counted as zero.</p>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {MICRONUTRIENTS.map(micro => (
+                    <div key={micro.key} className="space-y-2">
+                      <Label htmlFor={`food-${micro.key}`}>{micro.label} ({micro.unit})</Label>
+                      <Input
+                        id={`food-${micro.key}`}
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        value={editingFood[micro.key] ?? ""}
+                        placeholder="unknown"
+                        onChange={(e) => setEditingFood({
+                          ...editingFood,
+                          [micro.key]: e.target.value === "" ? undefined : parseFloat(e.target.value)
+                        })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingFood(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving} className="bg-green-600 hover:bg-green-700">
+              {saving ? "Saving..." : "Save Food"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,10 +1,12 @@
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect } from "react";
 import { Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { FoodEntry } from "@/types/nutrition";
-import { vegetarianFoods } from "@/data/vegetarianFoods";
-import { calculateTotals } from "@/lib/nutritionUtils";
+import { calculateTotals, getEntryMacros, resolveEntryFood } from "@/lib/nutritionUtils";
+import { useFoodCatalog } from "@/hooks/useFoodCatalog";
+import { formatConsumedTime, groupEntriesByMealSlot } from "@/lib/mealSlots";
+import { getEntryAmount, getEntryServings } from "@/lib/servingUnits";
 
 interface FoodListProps {
   entries: FoodEntry[];
@@ -13,6 +15,8 @@ interface FoodListProps {
 }
 
 export function FoodList({ entries, onRemoveFood, onUpdateQuantity }: FoodListProps) {
+  // Subscribe to the catalog so custom foods resolve once they load
+  const { foods } = useFoodCatalog();
   const [totals, setTotals] = useState({
     calories: 0,
     protein: 0,
@@ -29,7 +33,7 @@ export function FoodList({ entries, onRemoveFood, onUpdateQuantity }: FoodListPr
       // Reset totals if entries is not an array (e.g., undefined)
       setTotals({ calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 });
     }
-  }, [entries]);
+  }, [entries, foods]);
 
   // Ensure entries is an array before rendering the list
   const safeEntries = Array.isArray(entries) ? entries : [];
@@ -57,28 +61,44 @@ export function FoodList({ entries, onRemoveFood, onUpdateQuantity }: FoodListPr
                 </tr>
               </thead>
               <tbody>
-                {safeEntries.map((entry, index) => {
-                  const food = vegetarianFoods.find(f => f.name === entry.foodId);
-                  if (!food) return null;
+                {groupEntriesByMealSlot(safeEntries).map(group => (
+                  <Fragment key={group.slot || "unassigned"}>
+                    <tr className="bg-gray-50 border-b border-gray-200 text-sm font-medium text-gray-700">
+                      <td className="py-2 px-4" colSpan={2}>{group.label}</td>
+                      <td className="py-2 px-4">{group.totals.calories}</td>
+                      <td className="py-2 px-4">{group.totals.protein}g</td>
+                      <td className="py-2 px-4">{group.totals.carbs}g</td>
+                      <td className="py-2 px-4">{group.totals.fat}g</td>
+                      <td className="py-2 px-4">{group.totals.fiber}g</td>
+                      <td className="py-2 px-4"></td>
+                    </tr>
+                {group.entries.map(({ entry, index }) => {
+                  const macros = getEntryMacros(entry);
+                  if (!macros) return null;
+                  const servingSize = entry.servingSize || resolveEntryFood(entry)?.servingSize;
                   
-                  const calories = Math.round(food.calories * entry.quantity);
-                  const protein = Math.round(food.protein * entry.quantity * 10) / 10;
-                  const carbs = Math.round(food.carbs * entry.quantity * 10) / 10;
-                  const fat = Math.round(food.fat * entry.quantity * 10) / 10;
-                  const fiber = Math.round(food.fiber * entry.quantity * 10) / 10;
+                  const servings = getEntryServings(entry);
+                  const calories = Math.round(macros.calories * servings);
+                  const protein = Math.round(macros.protein * servings * 10) / 10;
+                  const carbs = Math.round(macros.carbs * servings * 10) / 10;
+                  const fat = Math.round(macros.fat * servings * 10) / 10;
+                  const fiber = Math.round(macros.fiber * servings * 10) / 10;
                   
                   return (
                     <tr key={index} className="border-b border-gray-100 hover:bg-gray-50/50">
                       <td className="py-3 px-4 text-sm">
-                        <div className="font-medium">{food.name}</div>
-                        <div className="text-xs text-muted-foreground">{food.servingSize}</div>
+                        <div className="font-medium">{entry.foodId}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {servingSize}
+                          {entry.consumedAt && ` • ${formatConsumedTime(entry.consumedAt)}`}
+                        </div>
                       </td>
                       <td className="py-3 px-4">
                         <div className="relative group">
                           <input
                             type="text"
                             inputMode="decimal"
-                            value={entry.quantity}
+                            value={getEntryAmount(entry)}
                             onChange={(e) => {
                               // Allow direct text input but convert to number
                               const inputValue = e.target.value.replace(/[^\d.]/g, '');
@@ -122,6 +142,8 @@ export function FoodList({ entries, onRemoveFood, onUpdateQuantity }: FoodListPr
                     </tr>
                   );
                 })}
+                  </Fragment>
+                ))}
               </tbody>
               <tfoot>
                 <tr className="border-t border-gray-200 font-medium">
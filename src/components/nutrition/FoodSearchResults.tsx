@@ -0,0 +1,98 @@
+import { useEffect } from "react";
+import { Clock, Star } from "lucide-react";
+import { FoodItem } from "@/types/nutrition";
+import { FoodSearchResult, getFoodSearchOptionId } from "@/lib/foodSearch";
+import { cn } from "@/lib/utils";
+
+interface FoodSearchResultsProps {
+  id: string; // For aria-controls on the input
+  results: FoodSearchResult[];
+  activeIndex: number;
+  isSearching: boolean;
+  selectedName?: string;
+  onSelect: (food: FoodItem) => void;
+  onHover: (index: number) => void;
+  onToggleFavourite: (food: FoodItem) => void;
+  className?: string;
+}
+
+/**
+ * Ranked food search results with favourite stars. Rows keep focus in the search
+ * input (mouse down is cancelled), so the list works with the keyboard and the mouse.
+ */
+export function FoodSearchResults({
+  id,
+  results,
+  activeIndex,
+  isSearching,
+  selectedName,
+  onSelect,
+  onHover,
+  onToggleFavourite,
+  className
+}: FoodSearchResultsProps) {
+  // Keep the highlighted row visible while moving with the arrow keys
+  useEffect(() => {
+    document.getElementById(getFoodSearchOptionId(id, activeIndex))?.scrollIntoView({ block: "nearest" });
+  }, [id, activeIndex]);
+
+  if (results.length === 0) {
+    return (
+      <div className={cn("px-4 py-3 text-sm text-gray-500", className)}>
+        {isSearching ? "No food found." : "Favourite or log foods to see them here."}
+      </div>
+    );
+  }
+
+  return (
+    <div id={id} role="listbox" className={className}>
+      {!isSearching && (
+        <div className="px-4 pt-2 pb-1 text-xs font-medium text-gray-500">Favourites and recent</div>
+      )}
+      {results.map(({ food, favourite, usage }, index) => (
+        <div
+          key={food.id || food.name}
+          id={getFoodSearchOptionId(id, index)}
+          role="option"
+          aria-selected={index === activeIndex}
+          onMouseDown={(e) => e.preventDefault()}
+          onMouseEnter={() => onHover(index)}
+          onClick={() => onSelect(food)}
+          className={cn(
+            "px-4 py-3 cursor-pointer border-b border-gray-100 last:border-b-0 flex items-start justify-between gap-2",
+            index === activeIndex ? "bg-green-50" : "hover:bg-green-50",
+            selectedName === food.name && "bg-gray-100"
+          )}
+        >
+          <div className="flex flex-col min-w-0">
+            <span className="font-medium text-gray-900">
+              {food.name}
+              {food.source === "recipe" && <span className="ml-2 text-xs font-normal text-orange-600">Recipe</span>}
+            </span>
+            <span className="text-sm text-gray-600">
+              {food.calories}cal • P:{food.protein}g • C:{food.carbs}g • F:{food.fat}g
+              {usage && (
+                <span className="ml-2 inline-flex items-center gap-0.5 text-xs text-gray-400">
+                  <Clock className="h-3 w-3" />
+                  {usage.count}×
+                </span>
+              )}
+            </span>
+          </div>
+          <button
+            type="button"
+            tabIndex={-1}
+            aria-label={favourite ? `Remove ${food.name} from favourites` : `Add ${food.name} to favourites`}
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleFavourite(food);
+            }}
+            className="p-1 text-gray-300 hover:text-amber-500 shrink-0"
+          >
+            <Star className={cn("h-4 w-4", favourite && "fill-amber-400 text-amber-500")} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
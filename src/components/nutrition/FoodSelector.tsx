@@ -2,42 +2,64 @@ import { useState } from "react";
 import { Plus, Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { vegetarianFoods } from "@/data/vegetarianFoods";
-import { FoodEntry } from "@/types/nutrition";
+import { useFoodCatalog } from "@/hooks/useFoodCatalog";
+import { useFoodSearch } from "@/hooks/useFoodSearch";
+import { getFoodSearchOptionId } from "@/lib/foodSearch";
+import { FoodSearchResults } from "./FoodSearchResults";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FoodEntry, FoodItem, MealSlot } from "@/types/nutrition";
+import { createFoodEntryInUnit, getTodayDateString } from "@/lib/nutritionUtils";
+import { SERVING_UNIT, convertToServings, getFoodUnitOptions } from "@/lib/servingUnits";
+import { MEAL_SLOTS, buildConsumedAt, formatConsumedTime, inferMealSlot } from "@/lib/mealSlots";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 
 interface FoodSelectorProps {
   onAddFood: (entry: FoodEntry) => void;
   disabled?: boolean;
+  date?: string; // YYYY-MM-DD of the log being edited, used for the consumed-at time
 }
 
 /**
  * Streamlined food selector with single input and inline suggestions
  */
-export function FoodSelector({ onAddFood, disabled }: FoodSelectorProps) {
+export function FoodSelector({ onAddFood, disabled, date }: FoodSelectorProps) {
   const [searchTerm, setSearchTerm] = useState<string>("");
   const [selectedFood, setSelectedFood] = useState<string>("");
   const [qty, setQty] = useState<number>(1);
   const [showSuggestions, setShowSuggestions] = useState<boolean>(false);
+  const [mealSlot, setMealSlot] = useState<MealSlot>(() => inferMealSlot());
+  const [consumedTime, setConsumedTime] = useState<string>(() => formatConsumedTime(new Date().toISOString()));
+  const [unit, setUnit] = useState<string>(SERVING_UNIT);
+  const { foods } = useFoodCatalog();
 
-  // Filter foods based on search term
-  const filteredFoods = vegetarianFoods.filter(food => 
-    food.name.toLowerCase().includes(searchTerm.toLowerCase())
-  ).slice(0, 5); // Limit to 5 suggestions
+  const selectedFoodItem = selectedFood
+    ? foods.find(f => f.name.toLowerCase() === selectedFood.toLowerCase())
+    : undefined;
+  const unitOptions = getFoodUnitOptions(selectedFoodItem);
+  const selectedUnit = unitOptions.find(option => option.unit === unit) || unitOptions[0];
 
   const handleInputChange = (value: string) => {
     setSearchTerm(value);
     setSelectedFood("");
-    setShowSuggestions(value.length > 0);
+    setUnit(SERVING_UNIT);
+    setShowSuggestions(true);
   };
 
-  const handleSelectFood = (foodName: string) => {
-    setSearchTerm(foodName);
-    setSelectedFood(foodName);
+  const handleSelectFood = (food: FoodItem) => {
+    setSearchTerm(food.name);
+    setSelectedFood(food.name);
+    setUnit(SERVING_UNIT);
     setShowSuggestions(false);
   };
 
+  // Favourites and recents show while the box is empty, ranked matches once typing
+  const search = useFoodSearch(selectedFood ? "" : searchTerm, {
+    onSelect: handleSelectFood,
+    onClose: () => setShowSuggestions(false)
+  });
+  const suggestionsOpen = showSuggestions && !selectedFood;
+
   const handleAdd = () => {
     if (!selectedFood && !searchTerm) {
       toast.error("Please select a food");
@@ -45,7 +67,7 @@ export function FoodSelector({ onAddFood, disabled }: FoodSelectorProps) {
     }
 
     const foodName = selectedFood || searchTerm;
-    const food = vegetarianFoods.find(f => f.name.toLowerCase() === foodName.toLowerCase());
+    const food = foods.find(f => f.name.toLowerCase() === foodName.toLowerCase());
     
     if (!food) {
       toast.error("Food not found in database");
@@ -57,23 +79,26 @@ export function FoodSelector({ onAddFood, disabled }: FoodSelectorProps) {
       return;
     }
 
-    onAddFood({ foodId: food.name, quantity: qty });
+    onAddFood(createFoodEntryInUnit(food, qty, selectedUnit.unit, {
+      mealSlot,
+      ...(consumedTime ? { consumedAt: buildConsumedAt(date || getTodayDateString(), consumedTime) } : {})
+    }));
     toast.success(`${food.name} added!`);
 
     // Reset form
     setSearchTerm("");
     setSelectedFood("");
     setQty(1);
+    setUnit(SERVING_UNIT);
     setShowSuggestions(false);
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (suggestionsOpen && search.handleKeyDown(e)) return;
     if (e.key === 'Enter') {
-      if (filteredFoods.length > 0 && !selectedFood) {
-        handleSelectFood(filteredFoods[0].name);
-      } else {
-        handleAdd();
-      }
+      handleAdd();
+    } else if (e.key === 'ArrowDown') {
+      setShowSuggestions(true);
     }
   };
 
@@ -89,31 +114,30 @@ export function FoodSelector({ onAddFood, disabled }: FoodSelectorProps) {
               placeholder="Type to search foods (e.g., oats, banana)..."
               value={searchTerm}
               onChange={(e) => handleInputChange(e.target.value)}
-              onKeyPress={handleKeyPress}
-              onFocus={() => searchTerm && setShowSuggestions(true)}
+              onKeyDown={handleKeyDown}
+              onFocus={() => setShowSuggestions(true)}
+              onBlur={() => setShowSuggestions(false)}
+              role="combobox"
+              aria-expanded={suggestionsOpen}
+              aria-controls="food-selector-results"
+              aria-activedescendant={suggestionsOpen && search.results.length > 0 ? getFoodSearchOptionId("food-selector-results", search.activeIndex) : undefined}
               disabled={disabled}
               className="pl-14 h-12 border-2 border-green-200 focus:border-green-500 mobile-button"
             />
           </div>
           
           {/* Suggestions Dropdown */}
-          {showSuggestions && filteredFoods.length > 0 && (
-            <div className="absolute z-50 mt-1 w-full bg-white border-2 border-green-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
-              {filteredFoods.map((food) => (
-                <div
-                  key={food.name}
-                  onClick={() => handleSelectFood(food.name)}
-                  className="px-4 py-3 cursor-pointer hover:bg-green-50 border-b border-gray-100 last:border-b-0"
-                >
-                  <div className="flex flex-col">
-                    <span className="font-medium text-gray-900">{food.name}</span>
-                    <span className="text-sm text-gray-600">
-                      {food.calories}cal • P:{food.protein}g • C:{food.carbs}g • F:{food.fat}g
-                    </span>
-                  </div>
-                </div>
-              ))}
-            </div>
+          {suggestionsOpen && (
+            <FoodSearchResults
+              id="food-selector-results"
+              results={search.results}
+              activeIndex={search.activeIndex}
+              isSearching={search.isSearching}
+              onSelect={handleSelectFood}
+              onHover={search.setActiveIndex}
+              onToggleFavourite={search.toggleFavourite}
+              className="absolute z-50 mt-1 w-full bg-white border-2 border-green-200 rounded-lg shadow-lg max-h-72 overflow-y-auto"
+            />
           )}
         </div>
 
@@ -133,7 +157,7 @@ export function FoodSelector({ onAddFood, disabled }: FoodSelectorProps) {
                 placeholder="1.0"
               />
               <div className="absolute inset-x-0 -bottom-6 text-center text-xs text-gray-500">
-                Quantity (g/ml)
+                Quantity
               </div>
             </div>
           </div>
@@ -152,6 +176,38 @@ export function FoodSelector({ onAddFood, disabled }: FoodSelectorProps) {
         </div>
       </div>
 
+      {/* Unit, Meal Slot and Time Row */}
+      <div className="flex flex-wrap gap-3 pt-4">
+        <Select value={selectedUnit.unit} onValueChange={setUnit} disabled={disabled || !selectedFoodItem}>
+          <SelectTrigger className="h-10 flex-1 sm:w-48 sm:flex-none">
+            <SelectValue placeholder="Unit" />
+          </SelectTrigger>
+          <SelectContent>
+            {unitOptions.map(option => (
+              <SelectItem key={option.unit} value={option.unit}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={mealSlot} onValueChange={(value) => setMealSlot(value as MealSlot)} disabled={disabled}>
+          <SelectTrigger className="h-10 flex-1 sm:w-48 sm:flex-none">
+            <SelectValue placeholder="Meal" />
+          </SelectTrigger>
+          <SelectContent>
+            {MEAL_SLOTS.map(slot => (
+              <SelectItem key={slot.value} value={slot.value}>{slot.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="time"
+          value={consumedTime}
+          onChange={(e) => setConsumedTime(e.target.value)}
+          disabled={disabled}
+          className="h-10 w-32"
+          title="Time eaten"
+        />
+      </div>
+
       {/* Selected Food Preview */}
       {selectedFood && (
         <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
@@ -159,7 +215,9 @@ export function FoodSelector({ onAddFood, disabled }: FoodSelectorProps) {
             <div>
               <span className="font-medium text-green-800">{selectedFood}</span>
               <span className="text-sm text-green-600 ml-2">
-                ({qty} serving{qty !== 1 ? 's' : ''})
+                {selectedUnit.unit === SERVING_UNIT
+                  ? `(${qty} serving${qty !== 1 ? 's' : ''})`
+                  : `(${qty} ${selectedUnit.label} = ${Math.round((convertToServings(qty, selectedUnit.unit, selectedFoodItem) || 0) * 100) / 100} servings)`}
               </span>
             </div>
             <Button
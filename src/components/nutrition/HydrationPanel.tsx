@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { Droplets, Plus, Thermometer, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DailyLog, FluidEntry, FluidKind } from "@/types/nutrition";
+import { TrainingActivity } from "@/lib/nutritionTargets";
+import {
+  FLUID_KIND_LABELS,
+  FLUID_PRESETS,
+  addFluidToLog,
+  createFluidEntry,
+  formatFluidVolume,
+  getFluidTotals,
+  removeFluidFromLog
+} from "@/lib/hydration";
+import { useHydrationTarget } from "@/hooks/useHydrationTarget";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+interface HydrationPanelProps {
+  log: DailyLog;
+  activities: TrainingActivity[];
+  disabled?: boolean;
+  onChanged: (updatedLog: DailyLog, previous: DailyLog, message: string) => void;
+}
+
+const formatLoggedTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+
+/**
+ * Water and electrolyte drinks for the day against a fluid target that grows with
+ * the sweat lost on the day's runs
+ */
+export function HydrationPanel({ log, activities, disabled, onChanged }: HydrationPanelProps) {
+  const { target } = useHydrationTarget(log.date, activities);
+  const [customVolume, setCustomVolume] = useState("");
+  const [customKind, setCustomKind] = useState<FluidKind>("water");
+  const [saving, setSaving] = useState(false);
+
+  const fluids = log.fluids || [];
+  const totals = getFluidTotals(fluids);
+  const percent = target ? Math.round((totals.volumeMl / target.targetMl) * 100) : 0;
+  const busy = disabled || saving;
+
+  const handleAdd = async (fluid: FluidEntry) => {
+    setSaving(true);
+    try {
+      const updatedLog = await addFluidToLog(log, fluid);
+      onChanged(updatedLog, log, `Added ${fluid.name.toLowerCase()} (${fluid.volumeMl} ml)`);
+    } catch (error) {
+      console.error("Error logging drink:", error);
+      toast.error("Failed to log drink");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddCustom = () => {
+    const volumeMl = Math.round(Number(customVolume));
+    if (!(volumeMl > 0)) {
+      toast.error("Enter an amount in ml");
+      return;
+    }
+    const preset = FLUID_PRESETS.find(candidate => candidate.kind === customKind);
+    handleAdd(createFluidEntry({ ...preset, name: FLUID_KIND_LABELS[customKind] }, volumeMl));
+    setCustomVolume("");
+  };
+
+  const handleRemove = async (fluid: FluidEntry) => {
+    setSaving(true);
+    try {
+      const updatedLog = await removeFluidFromLog(log, fluid.timestamp);
+      onChanged(updatedLog, log, `Removed ${fluid.name.toLowerCase()}`);
+    } catch (error) {
+      console.error("Error removing drink:", error);
+      toast.error("Failed to remove drink");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-gradient-to-br from-sky-50 to-blue-50 border-sky-200">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-sm font-medium text-gray-700 flex items-center">
+          <Droplets className="mr-2 h-4 w-4 text-sky-600" />
+          Hydration
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <div className="flex justify-between items-baseline">
+            <span className="text-2xl font-bold text-sky-700">{formatFluidVolume(totals.volumeMl)}</span>
+            <span className="text-xs text-gray-500">
+              {target ? `of ${formatFluidVolume(target.targetMl)} target` : "Loading target..."}
+            </span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
+            <div
+              className={cn("h-2 rounded-full", percent >= 100 ? "bg-green-500" : "bg-sky-500")}
+              style={{ width: `${Math.min(percent, 100)}%` }}
+            />
+          </div>
+          {target && (
+            <div className="text-xs text-gray-500 mt-1">
+              {formatFluidVolume(target.baseMl)} baseline
+              {target.sweatLossMl > 0 && ` + ${formatFluidVolume(target.sweatLossMl)} estimated sweat loss`}
+            </div>
+          )}
+        </div>
+
+        {/* Sweat loss per run */}
+        {target && target.runs.length > 0 && (
+          <div className="p-3 bg-white/70 rounded-lg border border-sky-100 space-y-1">
+            {target.runs.map((run, index) => (
+              <div key={run.id ?? index} className="flex items-center justify-between text-xs text-gray-600">
+                <span className="flex items-center gap-1">
+                  <Thermometer className="h-3 w-3 text-orange-500" />
+                  {run.minutes} min run · {run.temperatureC !== null ? `${Math.round(run.temperatureC)}°C` : "temperature unknown"}
+                </span>
+                <span>~{formatFluidVolume(run.sweatLossMl)} at {formatFluidVolume(run.sweatRateMlPerHour)}/h</span>
+              </div>
+            ))}
+            <div className="text-xs text-gray-600 pt-1 border-t border-sky-100">
+              Sodium: {Math.round(totals.sodium)} mg from drinks of ~{target.sodiumLossMg} mg lost in sweat
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {FLUID_PRESETS.map(preset => (
+            <Button
+              key={preset.name}
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs bg-white/80"
+              disabled={busy}
+              onClick={() => handleAdd(createFluidEntry(preset))}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              {preset.name} · {preset.volumeMl} ml
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min="0"
+            step="50"
+            placeholder="ml"
+            value={customVolume}
+            onChange={(e) => setCustomVolume(e.target.value)}
+            className="h-8 w-24 bg-white"
+          />
+          <select
+            value={customKind}
+            onChange={(e) => setCustomKind(e.target.value as FluidKind)}
+            className="h-8 px-2 border rounded text-sm bg-white"
+          >
+            {(Object.keys(FLUID_KIND_LABELS) as FluidKind[]).map(kind => (
+              <option key={kind} value={kind}>{FLUID_KIND_LABELS[kind]}</option>
+            ))}
+          </select>
+          <Button size="sm" className="h-8" disabled={busy || !customVolume} onClick={handleAddCustom}>
+            Add
+          </Button>
+        </div>
+
+        {fluids.length > 0 && (
+          <div className="space-y-1">
+            {[...fluids].reverse().map(fluid => (
+              <div key={fluid.timestamp} className="flex items-center justify-between text-xs bg-white/70 rounded px-2 py-1">
+                <span className="text-gray-700">
+                  {fluid.name} · {fluid.volumeMl} ml
+                  {fluid.sodium ? ` · ${fluid.sodium} mg sodium` : ""}
+                </span>
+                <span className="flex items-center gap-2 text-gray-400">
+                  {formatLoggedTime(fluid.timestamp)}
+                  <button
+                    type="button"
+                    className="hover:text-red-600 disabled:opacity-50"
+                    disabled={busy}
+                    onClick={() => handleRemove(fluid)}
+                    aria-label={`Remove ${fluid.name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
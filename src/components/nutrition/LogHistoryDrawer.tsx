@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { History, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { DailyLog, LogRevision } from "@/types/nutrition";
+import { REVISION_ACTION_LABELS, loadLogRevisions } from "@/lib/logRevisions";
+import { formatDateForDisplay } from "@/lib/nutritionUtils";
+
+interface LogHistoryDrawerProps {
+  date: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (version: DailyLog | null, description: string) => Promise<void>;
+}
+
+const formatRevisionTime = (createdAt: string) =>
+  new Date(createdAt).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+const versionCalories = (log: DailyLog | null) => Math.round(log?.totals?.calories || 0);
+
+/**
+ * Every recorded change to one day's log, newest first, with a restore button per version
+ */
+export function LogHistoryDrawer({ date, open, onOpenChange, onRestore }: LogHistoryDrawerProps) {
+  const [revisions, setRevisions] = useState<LogRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    loadLogRevisions(date)
+      .then(result => {
+        if (!cancelled) setRevisions(result);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Couldn't load history. It's only available online.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [date, open]);
+
+  const handleRestore = async (id: string, version: DailyLog | null, description: string) => {
+    setRestoringId(id);
+    try {
+      await onRestore(version, description);
+      onOpenChange(false);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const oldest = revisions[revisions.length - 1];
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-blue-600" />
+            History for {formatDateForDisplay(date)}
+          </SheetTitle>
+          <SheetDescription>Restoring a version saves it as a new change, so it can be undone as well.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-3">
+          {loading && <p className="text-sm text-gray-500">Loading history...</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {!loading && !error && revisions.length === 0 && (
+            <p className="text-sm text-gray-500">No changes recorded for this day yet.</p>
+          )}
+
+          {!loading && revisions.map((revision, index) => (
+            <div key={revision.id} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="text-xs">{REVISION_ACTION_LABELS[revision.action]}</Badge>
+                    {index === 0 && <span className="text-xs text-green-600 font-medium">Latest</span>}
+                  </div>
+                  <div className="text-sm font-medium text-gray-800 mt-1">{revision.summary}</div>
+                  <div className="text-xs text-gray-500">
+                    {formatRevisionTime(revision.createdAt)} · {revision.author?.device || "Unknown device"}
+                  </div>
+                </div>
+                <div className="text-xs text-gray-500 shrink-0 text-right">
+                  {versionCalories(revision.before)} → {versionCalories(revision.after)} cal
+                </div>
+              </div>
+
+              {revision.changes.length > 1 && (
+                <ul className="text-xs text-gray-600 list-disc pl-4 space-y-0.5">
+                  {revision.changes.slice(0, 8).map((change, changeIndex) => (
+                    <li key={changeIndex}>{change}</li>
+                  ))}
+                  {revision.changes.length > 8 && <li>and {revision.changes.length - 8} more</li>}
+                </ul>
+              )}
+
+              {index > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={restoringId !== null}
+                  onClick={() => handleRestore(revision.id, revision.after, `version from ${formatRevisionTime(revision.createdAt)}`)}
+                >
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  {restoringId === revision.id ? "Restoring..." : "Restore this version"}
+                </Button>
+              )}
+            </div>
+          ))}
+
+          {/* The version before the first recorded change isn't a revision of its own */}
+          {!loading && oldest && (
+            <div className="border border-dashed rounded-lg p-3 flex items-center justify-between gap-2">
+              <div className="text-xs text-gray-500">
+                Before the first recorded change · {oldest.before?.entries?.length || 0} foods, {versionCalories(oldest.before)} cal
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={restoringId !== null}
+                onClick={() => handleRestore("original", oldest.before, "original version")}
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Restore
+              </Button>
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
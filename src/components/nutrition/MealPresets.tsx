@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { mealPresets } from "@/data/vegetarianFoods";
 import { FoodEntry } from "@/types/nutrition";
-import { findFoodByName } from "@/lib/nutritionUtils";
+import { createFoodEntry, findFoodByName } from "@/lib/nutritionUtils";
 
 interface MealPresetsProps {
   onAddMeal: (entries: FoodEntry[]) => void;
@@ -14,10 +14,10 @@ export function MealPresets({ onAddMeal }: MealPresetsProps) {
     const preset = mealPresets[presetIndex];
     if (!preset) return;
     
-    const entries: FoodEntry[] = preset.foods.map(food => ({
-      foodId: food.name,
-      quantity: food.quantity
-    }));
+    const entries: FoodEntry[] = preset.foods.map(food => {
+      const foodItem = findFoodByName(food.name);
+      return foodItem ? createFoodEntry(foodItem, food.quantity) : { foodId: food.name, quantity: food.quantity };
+    });
     
     onAddMeal(entries);
   };
@@ -0,0 +1,74 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Sparkles } from "lucide-react";
+import { DailyLog } from "@/types/nutrition";
+import { MICRONUTRIENTS } from "@/lib/micronutrients";
+import { cn } from "@/lib/utils";
+
+interface MicronutrientPanelProps {
+  totals: DailyLog["totals"] | undefined;
+  entryCount: number;
+  title?: string;
+  days?: number; // Number of days the totals cover; values are shown as a daily average
+}
+
+/**
+ * Micronutrient intake against RDA-based targets. Nutrients with no known
+ * value for any logged food show as "unknown" instead of zero.
+ */
+export function MicronutrientPanel({ totals, entryCount, title = "Micronutrients", days = 1 }: MicronutrientPanelProps) {
+  const micros = totals?.micros || {};
+  const unknown = totals?.microsUnknown || {};
+
+  return (
+    <Card className="bg-gradient-to-br from-amber-50 to-green-50 border-amber-200">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-sm font-medium text-gray-700 flex items-center">
+          <Sparkles className="mr-2 h-4 w-4 text-amber-600" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {MICRONUTRIENTS.map(micro => {
+            const total = micros[micro.key];
+            const value = total !== undefined ? Math.round((total / days) * 10) / 10 : undefined;
+            const missingCount = unknown[micro.key] || 0;
+            const target = micro.target;
+            const isUnknown = value === undefined || entryCount === 0;
+            const percent = isUnknown ? 0 : Math.round((value / target) * 100);
+            const overLimit = !isUnknown && micro.upperLimit !== undefined && value > micro.upperLimit;
+
+            return (
+              <div key={micro.key} className="p-3 bg-white/70 rounded-lg border border-amber-100">
+                <div className="flex justify-between items-baseline">
+                  <span className="text-xs font-medium text-gray-700">{micro.label}</span>
+                  <span className="text-[10px] text-gray-500">
+                    {target}{micro.unit}
+                  </span>
+                </div>
+                <div className={cn("text-lg font-bold", isUnknown ? "text-gray-400" : overLimit ? "text-red-600" : "text-gray-800")}>
+                  {isUnknown ? "unknown" : `${value}${micro.unit}`}
+                </div>
+                {!isUnknown && (
+                  <div className="w-full bg-gray-200 rounded-full h-1.5 my-1">
+                    <div
+                      className={cn("h-1.5 rounded-full", overLimit ? "bg-red-500" : percent >= 100 ? "bg-green-500" : "bg-amber-500")}
+                      style={{ width: `${Math.min(percent, 100)}%` }}
+                    />
+                  </div>
+                )}
+                <div className="text-[10px] text-gray-500">
+                  {isUnknown
+                    ? micro.note || "No logged food has a value"
+                    : missingCount > 0
+                      ? `${percent}% • ${missingCount} food${missingCount !== 1 ? "s" : ""} unknown`
+                      : `${percent}% of target`}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
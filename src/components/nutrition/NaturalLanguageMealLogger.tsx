@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { Bot, Check, MessageSquareText, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { FoodEntry, MealSlot } from "@/types/nutrition";
+import { useFoodCatalog } from "@/hooks/useFoodCatalog";
+import { createFoodEntry, getTodayDateString } from "@/lib/nutritionUtils";
+import { ParsedMealItem, matchFoods, parseMealText, parseMealTextWithLLM, toServings } from "@/lib/mealParser";
+import { MEAL_SLOTS, buildConsumedAt, formatConsumedTime, inferMealSlot } from "@/lib/mealSlots";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+interface NaturalLanguageMealLoggerProps {
+  onAddFoods: (entries: FoodEntry[]) => Promise<void> | void;
+  disabled?: boolean;
+  date?: string; // YYYY-MM-DD of the log being edited
+}
+
+interface ConfirmRow extends ParsedMealItem {
+  include: boolean;
+}
+
+/**
+ * Log a whole meal from free text ("2 rotis, a bowl of dal and 200ml milk").
+ * Parsed items are shown in a confirmation table before anything is saved.
+ */
+export function NaturalLanguageMealLogger({ onAddFoods, disabled, date }: NaturalLanguageMealLoggerProps) {
+  const { foods } = useFoodCatalog();
+  const [text, setText] = useState("");
+  const [useAI, setUseAI] = useState(false);
+  const [parsing, setParsing] = useState(false);
+  const [rows, setRows] = useState<ConfirmRow[]>([]);
+  const [mealSlot, setMealSlot] = useState<MealSlot>(() => inferMealSlot());
+  const [consumedTime, setConsumedTime] = useState<string>(() => formatConsumedTime(new Date().toISOString()));
+
+  const handleParse = async () => {
+    if (!text.trim()) return;
+
+    setParsing(true);
+    try {
+      const items = useAI ? await parseMealTextWithLLM(text, foods) : parseMealText(text, foods);
+      setRows(items.map(item => ({ ...item, include: !!item.food })));
+      if (items.length === 0) {
+        toast.error("Couldn't find any foods in that text");
+      }
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<ConfirmRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleChangeFood = (index: number, foodId: string) => {
+    const row = rows[index];
+    const food = foods.find(f => f.id === foodId) || null;
+    updateRow(index, { food, include: !!food, servings: toServings(row.quantity, row.unit, food) });
+  };
+
+  const handleConfirm = async () => {
+    const consumedAt = consumedTime ? buildConsumedAt(date || getTodayDateString(), consumedTime) : undefined;
+    const entries = rows
+      .filter(row => row.include && row.food && row.servings > 0)
+      .map(row => createFoodEntry(row.food!, row.servings, { mealSlot, ...(consumedAt ? { consumedAt } : {}) }));
+
+    if (entries.length === 0) {
+      toast.error("Nothing selected to add");
+      return;
+    }
+
+    await onAddFoods(entries);
+    setRows([]);
+    setText("");
+  };
+
+  const selectedCount = rows.filter(row => row.include && row.food).length;
+
+  return (
+    <Card className="bg-white/90 backdrop-blur-sm border border-green-200 shadow-lg">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <MessageSquareText className="h-5 w-5 text-green-600" />
+          Quick Log
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="e.g. 2 rotis, a bowl of dal and 200ml milk"
+          disabled={disabled || parsing}
+          rows={2}
+        />
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Switch id="meal-parser-ai" checked={useAI} onCheckedChange={setUseAI} disabled={disabled || parsing} />
+            <Label htmlFor="meal-parser-ai" className="text-sm text-gray-600 flex items-center gap-1">
+              <Bot className="h-4 w-4" />
+              AI assist
+            </Label>
+          </div>
+          <Button
+            onClick={handleParse}
+            disabled={disabled || parsing || !text.trim()}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {parsing ? "Parsing..." : "Parse"}
+          </Button>
+        </div>
+
+        {rows.length > 0 && (
+          <div className="space-y-3">
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 bg-gray-50 text-left text-gray-500">
+                    <th className="py-2 px-3 font-medium"></th>
+                    <th className="py-2 px-3 font-medium">You wrote</th>
+                    <th className="py-2 px-3 font-medium">Food</th>
+                    <th className="py-2 px-3 font-medium">Servings</th>
+                    <th className="py-2 px-3 font-medium">Cal</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => {
+                    // Offer the best matches plus whatever is currently chosen
+                    const options = [
+                      ...(row.food ? [row.food] : []),
+                      ...row.alternatives,
+                      ...matchFoods(row.query, foods, 8).map(match => match.food)
+                    ].filter((food, i, all) => all.findIndex(other => other.id === food.id) === i);
+
+                    return (
+                      <tr key={index} className={cn("border-b border-gray-100", !row.include && "opacity-50")}>
+                        <td className="py-2 px-3">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => updateRow(index, { include: !row.include })}
+                            disabled={!row.food}
+                            className="h-7 w-7 p-0"
+                            title={row.include ? "Skip" : "Include"}
+                          >
+                            {row.include ? <Check className="h-4 w-4 text-green-600" /> : <X className="h-4 w-4 text-gray-400" />}
+                          </Button>
+                        </td>
+                        <td className="py-2 px-3 text-gray-600">{row.text}</td>
+                        <td className="py-2 px-3">
+                          <select
+                            value={row.food?.id || ""}
+                            onChange={(e) => handleChangeFood(index, e.target.value)}
+                            className={cn(
+                              "w-full max-w-[220px] px-2 py-1 border rounded",
+                              !row.food && "border-red-300 text-red-600"
+                            )}
+                          >
+                            <option value="">No match</option>
+                            {options.map(food => (
+                              <option key={food.id} value={food.id}>{food.name} ({food.servingSize})</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-2 px-3">
+                          <Input
+                            type="number"
+                            min={0}
+                            step={0.1}
+                            value={row.servings}
+                            onChange={(e) => updateRow(index, { servings: parseFloat(e.target.value) || 0 })}
+                            className="h-8 w-20"
+                          />
+                        </td>
+                        <td className="py-2 px-3">
+                          {row.food ? Math.round(row.food.calories * row.servings) : "-"}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={mealSlot}
+                onChange={(e) => setMealSlot(e.target.value as MealSlot)}
+                className="h-10 px-2 text-sm border rounded-md"
+              >
+                {MEAL_SLOTS.map(slot => (
+                  <option key={slot.value} value={slot.value}>{slot.label}</option>
+                ))}
+              </select>
+              <Input
+                type="time"
+                value={consumedTime}
+                onChange={(e) => setConsumedTime(e.target.value)}
+                className="h-10 w-32"
+              />
+              <div className="flex gap-2 ml-auto">
+                <Button variant="outline" onClick={() => setRows([])}>Cancel</Button>
+                <Button
+                  onClick={handleConfirm}
+                  disabled={disabled || selectedCount === 0}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  Add {selectedCount} food{selectedCount !== 1 ? "s" : ""}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
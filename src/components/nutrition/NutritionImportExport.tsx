@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { AlertTriangle, Download, FileUp, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { fetchNutritionLogs, getLastDaysRange } from "@/lib/nutritionUtils";
+import {
+  IMPORT_FORMAT_LABELS,
+  ImportAction,
+  ImportMode,
+  ImportPreview,
+  ParsedImport,
+  applyImport,
+  logsToCsv,
+  logsToJson,
+  parseImportFile,
+  previewImport
+} from "@/lib/nutritionImportExport";
+import { toast } from "sonner";
+import { cn, downloadTextFile } from "@/lib/utils";
+
+interface NutritionImportExportProps {
+  onImported?: () => void;
+}
+
+const ACTION_STYLES: Record<ImportAction, { label: string; className: string }> = {
+  create: { label: "New", className: "bg-green-100 text-green-700" },
+  merge: { label: "Merge", className: "bg-blue-100 text-blue-700" },
+  overwrite: { label: "Overwrite", className: "bg-red-100 text-red-700" },
+  skip: { label: "No change", className: "bg-gray-100 text-gray-600" }
+};
+
+const MAX_PREVIEW_FOODS = 12;
+
+/**
+ * Export logs for a date range as CSV or JSON, and import CSV/JSON exports
+ * (including MyFitnessPal and Cronometer) with a dry-run preview before saving
+ */
+export function NutritionImportExport({ onImported }: NutritionImportExportProps) {
+  const [exportRange, setExportRange] = useState(() => getLastDaysRange(30));
+  const [exporting, setExporting] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [previewing, setPreviewing] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const handleExport = async (format: "csv" | "json") => {
+    if (exportRange.startDate > exportRange.endDate) {
+      toast.error("Start date must be before end date");
+      return;
+    }
+    setExporting(true);
+    try {
+      const logs = (await fetchNutritionLogs(exportRange)).filter(log => log.entries?.length > 0);
+      if (logs.length === 0) {
+        toast.error("No logged days in this range");
+        return;
+      }
+      const baseName = `nutrition-${exportRange.startDate}-to-${exportRange.endDate}`;
+      if (format === "csv") {
+        downloadTextFile(`${baseName}.csv`, logsToCsv(logs), "text/csv");
+      } else {
+        downloadTextFile(`${baseName}.json`, logsToJson(logs, exportRange), "application/json");
+      }
+      toast.success(`Exported ${logs.length} days`);
+    } catch (error) {
+      console.error("Error exporting nutrition logs:", error);
+      toast.error("Failed to export logs");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const runPreview = async (nextParsed: ParsedImport, nextMode: ImportMode) => {
+    setPreviewing(true);
+    try {
+      setPreview(await previewImport(nextParsed, nextMode));
+    } catch (error) {
+      console.error("Error previewing import:", error);
+      toast.error("Couldn't compare the file with your saved logs");
+      setPreview(null);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setFileName(file.name);
+    setParsed(null);
+    setPreview(null);
+    try {
+      const result = await parseImportFile(await file.text());
+      setParsed(result);
+      await runPreview(result, mode);
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      toast.error(error instanceof Error ? error.message : "Couldn't read this file");
+    }
+  };
+
+  const handleModeChange = (nextMode: ImportMode) => {
+    setMode(nextMode);
+    if (parsed) runPreview(parsed, nextMode);
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setImporting(true);
+    try {
+      const result = await applyImport(preview);
+      toast.success(`Imported ${result.days} days${result.foods > 0 ? ` and ${result.foods} new foods` : ""}`);
+      setParsed(null);
+      setPreview(null);
+      setFileName("");
+      onImported?.();
+    } catch (error) {
+      console.error("Error importing nutrition logs:", error);
+      toast.error("Import failed");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const changedDays = preview?.days.filter(day => day.action !== "skip") || [];
+  const overwrittenDays = preview?.days.filter(day => day.action === "overwrite").length || 0;
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white/90 backdrop-blur-sm border border-green-200 shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <Download className="h-5 w-5 text-green-600" />
+            Export logs
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-w-md">
+            <div>
+              <Label htmlFor="export-start">From</Label>
+              <Input
+                id="export-start"
+                type="date"
+                value={exportRange.startDate}
+                onChange={(e) => setExportRange({ ...exportRange, startDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="export-end">To</Label>
+              <Input
+                id="export-end"
+                type="date"
+                value={exportRange.endDate}
+                onChange={(e) => setExportRange({ ...exportRange, endDate: e.target.value })}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-gray-600">
+            CSV has one row per food with the macros it counted for. JSON keeps the full daily logs and can be imported back.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => handleExport("csv")} disabled={exporting}>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+            <Button variant="outline" onClick={() => handleExport("json")} disabled={exporting}>
+              <Download className="h-4 w-4 mr-2" />
+              JSON
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/90 backdrop-blur-sm border border-green-200 shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <Upload className="h-5 w-5 text-blue-600" />
+            Import logs
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Import a CSV or JSON export from here, or a MyFitnessPal or Cronometer CSV. Foods that aren't in the catalog are added as custom foods.
+            Nothing is saved until you confirm the preview.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <Label
+              htmlFor="import-file"
+              className="inline-flex items-center gap-2 px-4 py-2 border rounded-md cursor-pointer hover:bg-gray-50 text-sm font-medium"
+            >
+              <FileUp className="h-4 w-4" />
+              Choose file
+            </Label>
+            <input id="import-file" type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleFileChange} />
+            {fileName && <span className="text-sm text-gray-600">{fileName}</span>}
+            {parsed && <Badge variant="secondary">{IMPORT_FORMAT_LABELS[parsed.format]}</Badge>}
+          </div>
+
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-gray-600">Days that already have a log:</span>
+            <select
+              value={mode}
+              onChange={(e) => handleModeChange(e.target.value as ImportMode)}
+              className="h-8 px-2 border rounded"
+            >
+              <option value="merge">Merge (add new entries)</option>
+              <option value="overwrite">Overwrite</option>
+            </select>
+          </div>
+
+          {previewing && <p className="text-sm text-gray-500">Comparing with saved logs...</p>}
+
+          {preview && !previewing && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge className="bg-green-100 text-green-700">{preview.days.filter(day => day.action === "create").length} new days</Badge>
+                <Badge className="bg-blue-100 text-blue-700">{preview.days.filter(day => day.action === "merge").length} merged</Badge>
+                <Badge className="bg-red-100 text-red-700">{overwrittenDays} overwritten</Badge>
+                <Badge className="bg-gray-100 text-gray-600">{preview.days.filter(day => day.action === "skip").length} unchanged</Badge>
+                <Badge className="bg-amber-100 text-amber-700">{preview.newFoods.length} new foods</Badge>
+              </div>
+
+              {preview.warnings.map(warning => (
+                <div key={warning} className="flex items-center gap-2 text-sm text-amber-700">
+                  <AlertTriangle className="h-4 w-4" />
+                  {warning}
+                </div>
+              ))}
+
+              {preview.days.length > 0 && (
+                <div className="max-h-80 overflow-y-auto border rounded-lg">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr className="text-left text-gray-600">
+                        <th className="px-3 py-2">Date</th>
+                        <th className="px-3 py-2">Action</th>
+                        <th className="px-3 py-2 text-right">Existing</th>
+                        <th className="px-3 py-2 text-right">In file</th>
+                        <th className="px-3 py-2 text-right">Calories</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.days.map(day => (
+                        <tr key={day.date} className="border-t">
+                          <td className="px-3 py-2">{day.date}</td>
+                          <td className="px-3 py-2">
+                            <span className={cn("px-2 py-0.5 rounded text-xs font-medium", ACTION_STYLES[day.action].className)}>
+                              {ACTION_STYLES[day.action].label}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-right">{day.existingEntries}</td>
+                          <td className="px-3 py-2 text-right">
+                            {day.incomingEntries}
+                            {day.duplicateEntries > 0 && (
+                              <span className="text-gray-400"> ({day.duplicateEntries} already logged)</span>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {day.caloriesBefore !== day.caloriesAfter ? `${day.caloriesBefore} → ${day.caloriesAfter}` : day.caloriesAfter}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {preview.newFoods.length > 0 && (
+                <div className="text-sm">
+                  <div className="font-medium text-gray-700 mb-1">New custom foods</div>
+                  <div className="flex flex-wrap gap-1">
+                    {preview.newFoods.slice(0, MAX_PREVIEW_FOODS).map(food => (
+                      <Badge key={food.id} variant="outline" className="font-normal">
+                        {food.name} · {food.servingSize} · {Math.round(food.calories)} cal
+                      </Badge>
+                    ))}
+                    {preview.newFoods.length > MAX_PREVIEW_FOODS && (
+                      <span className="text-gray-500">and {preview.newFoods.length - MAX_PREVIEW_FOODS} more</span>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleImport}
+                  disabled={importing || (changedDays.length === 0 && preview.newFoods.length === 0)}
+                  className={cn(overwrittenDays > 0 ? "bg-red-600 hover:bg-red-700" : "bg-green-600 hover:bg-green-700")}
+                >
+                  {importing ? "Importing..." : `Import ${changedDays.length} days`}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setParsed(null);
+                    setPreview(null);
+                    setFileName("");
+                  }}
+                  disabled={importing}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { Lock } from "lucide-react";
+import { OwnerSignIn } from "@/components/nutrition/OwnerSignIn";
+import { useOwnerAuth } from "@/hooks/useOwnerAuth";
+
+interface NutritionSignInNoticeProps {
+  onChange?: () => void; // Reload the page's nutrition data after signing in
+  className?: string;
+}
+
+// Shown on read-only views of the food log when the viewer isn't the owner: Firestore
+// refuses the reads, so their nutrition numbers would otherwise just look empty
+export function NutritionSignInNotice({ onChange, className = "" }: NutritionSignInNoticeProps) {
+  const { owner, loading } = useOwnerAuth();
+
+  if (loading || owner) return null;
+
+  return (
+    <div className={`flex flex-wrap items-center justify-between gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800 ${className}`}>
+      <span className="flex items-center gap-2">
+        <Lock className="h-4 w-4" />
+        Nutrition data is private and shows as empty until the owner signs in.
+      </span>
+      <OwnerSignIn onChange={onChange} />
+    </div>
+  );
+}
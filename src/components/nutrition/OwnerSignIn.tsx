@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { LogIn, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { signInOwner, signOutOwner } from "@/lib/ownerAuth";
+import { syncPendingLogs } from "@/lib/nutritionUtils";
+import { queryClient } from "@/lib/queryClient";
+import { useOwnerAuth } from "@/hooks/useOwnerAuth";
+import { toast } from "sonner";
+
+interface OwnerSignInProps {
+  onChange?: () => void; // Reload anything read before the sign-in
+}
+
+// Sign-in control for the private food log; the log only loads for the owner
+export function OwnerSignIn({ onChange }: OwnerSignInProps) {
+  const { user, owner, loading } = useOwnerAuth();
+  const [busy, setBusy] = useState(false);
+
+  const handleClick = async () => {
+    setBusy(true);
+    try {
+      if (user) {
+        await signOutOwner();
+      } else {
+        await signInOwner();
+      }
+      await queryClient.invalidateQueries();
+      onChange?.();
+      // Writes queued while signed out were refused; send them now
+      syncPendingLogs();
+    } catch (error) {
+      console.error("Error changing sign-in:", error);
+      toast.error("Sign-in failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-600">
+      {user && !owner && <span className="text-amber-700">{user.email} can't see this log</span>}
+      <Button variant="ghost" size="sm" onClick={handleClick} disabled={busy} className="h-6 px-2 text-xs">
+        {user ? <LogOut className="mr-1 h-3 w-3" /> : <LogIn className="mr-1 h-3 w-3" />}
+        {user ? "Sign out" : "Sign in to load your log"}
+      </Button>
+    </div>
+  );
+}
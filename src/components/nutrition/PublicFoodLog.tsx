@@ -1,69 +1,55 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Skeleton } from "@/components/ui/skeleton";
-import { DailyLog } from "@/types/nutrition";
-import { loadAllNutritionLogsFromFirestore, formatDateForDisplay } from "@/lib/nutritionUtils";
+import { formatDateForDisplay, getEntryMacros } from "@/lib/nutritionUtils";
+import { formatEntryAmount, getEntryServings } from "@/lib/servingUnits";
+import { SharedLog } from "@/lib/shareLinks";
 import { ChevronDown, ChevronRight } from "lucide-react";
 
-export const PublicFoodLog = () => {
-  const [allLogs, setAllLogs] = useState<DailyLog[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [expandedDay, setExpandedDay] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchLogs = async () => {
-      setLoading(true);
-      try {
-        const logsRecord = await loadAllNutritionLogsFromFirestore();
-        // Convert record to array and sort by date (most recent first)
-        const logsArray = Object.values(logsRecord).sort((a, b) => 
-          new Date(b.date).getTime() - new Date(a.date).getTime()
-        );
-        setAllLogs(logsArray);
-      } catch (error) {
-        console.error("Error fetching all logs for public display:", error);
-        // Optionally show an error message to the user
-      } finally {
-        setLoading(false);
-      }
-    };
+interface PublicFoodLogProps {
+  log: SharedLog;
+}
 
-    fetchLogs();
-  }, []);
+// Read-only view of a share link's days. Macro-only links have no entries to expand.
+export const PublicFoodLog = ({ log: sharedLog }: PublicFoodLogProps) => {
+  const [expandedDay, setExpandedDay] = useState<string | null>(null);
+  const allLogs = sharedLog.days;
+  const canExpand = !sharedLog.macroOnly;
 
   return (
     <Card className="bg-white/80 backdrop-blur-sm border border-white/20 shadow-sm mt-6">
       <CardHeader>
-        <CardTitle>Public Food Log (All Entries)</CardTitle>
+        <CardTitle>{sharedLog.label || "Food Log"}</CardTitle>
+        <p className="text-sm text-gray-500">
+          {formatDateForDisplay(sharedLog.startDate)} – {formatDateForDisplay(sharedLog.endDate)}
+          {sharedLog.macroOnly && " · Daily totals only"}
+        </p>
       </CardHeader>
       <CardContent>
-        {loading ? (
-          <div className="space-y-4">
-            <Skeleton className="h-8 w-1/4" />
-            <Skeleton className="h-20 w-full" />
-            <Skeleton className="h-8 w-1/4 mt-4" />
-            <Skeleton className="h-20 w-full" />
-          </div>
-        ) : allLogs.length === 0 ? (
-          <p className="text-center text-gray-500">No food logs found.</p>
+        {allLogs.length === 0 ? (
+          <p className="text-center text-gray-500">No food logs in this range.</p>
         ) : (
           <div className="space-y-4">
             {allLogs.map((log) => (
               <div key={log.date} className="border border-gray-100 rounded-md overflow-hidden">
                 <div 
-                  className="flex items-center justify-between p-3 bg-gray-50 cursor-pointer hover:bg-gray-100 transition-colors"
-                  onClick={() => setExpandedDay(expandedDay === log.date ? null : log.date)}
+                  className={`flex items-center justify-between p-3 bg-gray-50 ${canExpand ? "cursor-pointer hover:bg-gray-100" : ""} transition-colors`}
+                  onClick={() => canExpand && setExpandedDay(expandedDay === log.date ? null : log.date)}
                 >
                   <div className="flex items-center">
-                    {expandedDay === log.date ? 
+                    {canExpand && (expandedDay === log.date ? 
                       <ChevronDown className="h-5 w-5 mr-2 text-gray-500" /> : 
                       <ChevronRight className="h-5 w-5 mr-2 text-gray-500" />
-                    }
+                    )}
                     <h3 className="text-lg font-semibold">{formatDateForDisplay(log.date)}</h3>
                   </div>
-                  <div className="font-medium">
+                  <div className="font-medium text-right">
                     {log.totals.calories} Cal
+                    {!canExpand && (
+                      <div className="text-xs font-normal text-gray-500">
+                        P {log.totals.protein}g · C {log.totals.carbs}g · F {log.totals.fat}g · Fiber {log.totals.fiber}g
+                      </div>
+                    )}
                   </div>
                 </div>
                 
@@ -83,18 +69,18 @@ export const PublicFoodLog = () => {
                         </TableHeader>
                         <TableBody>
                           {log.entries.map((entry, index) => {
-                            // Find the base food item to get macro details per 1 unit
-                            const baseFood = vegetarianFoods.find(f => f.name === entry.foodId);
-                            const displayQty = entry.quantity || 0;
-                            const displayCal = baseFood ? Math.round(baseFood.calories * displayQty) : 0;
-                            const displayP = baseFood ? (baseFood.protein * displayQty).toFixed(1) : "0.0";
-                            const displayC = baseFood ? (baseFood.carbs * displayQty).toFixed(1) : "0.0";
-                            const displayF = baseFood ? (baseFood.fat * displayQty).toFixed(1) : "0.0";
+                            // Use the macros snapshotted when the entry was logged
+                            const macros = getEntryMacros(entry);
+                            const servings = getEntryServings(entry);
+                            const displayCal = macros ? Math.round(macros.calories * servings) : 0;
+                            const displayP = macros ? (macros.protein * servings).toFixed(1) : "0.0";
+                            const displayC = macros ? (macros.carbs * servings).toFixed(1) : "0.0";
+                            const displayF = macros ? (macros.fat * servings).toFixed(1) : "0.0";
                             
                             return (
                               <TableRow key={`${log.date}-${index}`}>
                                 <TableCell>{entry.foodId}</TableCell>
-                                <TableCell className="text-right">{displayQty}</TableCell>
+                                <TableCell className="text-right">{formatEntryAmount(entry)}</TableCell>
                                 <TableCell className="text-right">{displayCal}</TableCell>
                                 <TableCell className="text-right">{displayP}</TableCell>
                                 <TableCell className="text-right">{displayC}</TableCell>
@@ -127,6 +113,3 @@ export const PublicFoodLog = () => {
   );
 };
 
-// Need to import vegetarianFoods here or pass it as a prop if needed for calculations
-import { vegetarianFoods } from "@/data/vegetarianFoods";
-
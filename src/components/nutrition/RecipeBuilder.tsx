@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { Archive, ArchiveRestore, ChefHat, Edit, Plus, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FoodItem, Recipe } from "@/types/nutrition";
+import { useFoodCatalog } from "@/hooks/useFoodCatalog";
+import { findIngredientFood, getRecipeId, saveRecipeToFirestore, setRecipeArchived } from "@/lib/foodCatalog";
+import { computeRecipeNutrition, getDefaultIngredientUnit, getRecipeServingSize } from "@/lib/recipes";
+import { getServingGrams } from "@/lib/servingUnits";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+const emptyRecipe: Recipe = {
+  id: "",
+  name: "",
+  ingredients: [],
+  servings: 1
+};
+
+/**
+ * Compose catalog foods into reusable recipes with computed per-serving macros.
+ * Saved recipes show up as loggable foods in the food selector.
+ */
+export function RecipeBuilder() {
+  const { foods, recipes } = useFoodCatalog();
+  const [editingRecipe, setEditingRecipe] = useState<Recipe | null>(null);
+  const [ingredientSearch, setIngredientSearch] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Recipes can't contain other recipes
+  const ingredientFoods = foods.filter(food => food.source !== "recipe");
+  const ingredientMatches = ingredientSearch.trim()
+    ? ingredientFoods
+        .filter(food => food.name.toLowerCase().includes(ingredientSearch.toLowerCase()))
+        .slice(0, 6)
+    : [];
+
+  const visibleRecipes = recipes
+    .filter(recipe => showArchived || !recipe.archived)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const preview = editingRecipe ? computeRecipeNutrition(editingRecipe, findIngredientFood) : null;
+
+  const openEditor = (recipe: Recipe) => {
+    setEditingRecipe({ ...recipe, ingredients: recipe.ingredients.map(ingredient => ({ ...ingredient })) });
+    setIngredientSearch("");
+  };
+
+  const handleAddIngredient = (food: FoodItem) => {
+    if (!editingRecipe) return;
+    const unit = getDefaultIngredientUnit(food);
+    setEditingRecipe({
+      ...editingRecipe,
+      ingredients: [
+        ...editingRecipe.ingredients,
+        { foodId: food.id!, unit, amount: unit === "g" ? getServingGrams(food.servingSize)! : 1 }
+      ]
+    });
+    setIngredientSearch("");
+  };
+
+  const handleUpdateIngredient = (index: number, changes: Partial<Recipe["ingredients"][number]>) => {
+    if (!editingRecipe) return;
+    const ingredients = [...editingRecipe.ingredients];
+    ingredients[index] = { ...ingredients[index], ...changes };
+    setEditingRecipe({ ...editingRecipe, ingredients });
+  };
+
+  const handleRemoveIngredient = (index: number) => {
+    if (!editingRecipe) return;
+    setEditingRecipe({
+      ...editingRecipe,
+      ingredients: editingRecipe.ingredients.filter((_, i) => i !== index)
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editingRecipe) return;
+
+    if (!editingRecipe.name.trim()) {
+      toast.error("Recipe name is required");
+      return;
+    }
+    if (!editingRecipe.ingredients.some(ingredient => ingredient.amount > 0)) {
+      toast.error("Add at least one ingredient");
+      return;
+    }
+    // The food selector looks foods up by name, so recipe names must be unique across the catalog
+    const nameTaken = foods.some(food => food.name.toLowerCase() === editingRecipe.name.trim().toLowerCase());
+    if (!editingRecipe.id && (nameTaken || recipes.some(recipe => recipe.id === getRecipeId(editingRecipe.name)))) {
+      toast.error("A food or recipe with this name already exists");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await saveRecipeToFirestore(editingRecipe);
+      toast.success(`${saved.name} saved!`);
+      setEditingRecipe(null);
+    } catch (error) {
+      console.error("Error saving recipe:", error);
+      toast.error("Failed to save recipe");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleArchived = async (recipe: Recipe) => {
+    try {
+      await setRecipeArchived(recipe.id, !recipe.archived);
+      toast.success(recipe.archived ? `${recipe.name} restored` : `${recipe.name} archived`);
+    } catch (error) {
+      console.error("Error archiving recipe:", error);
+      toast.error("Failed to update recipe");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <ChefHat className="h-5 w-5 text-orange-600" />
+            Recipes ({recipes.filter(recipe => !recipe.archived).length})
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setShowArchived(!showArchived)}>
+              {showArchived ? "Hide archived" : "Show archived"}
+            </Button>
+            <Button onClick={() => openEditor(emptyRecipe)} className="bg-orange-600 hover:bg-orange-700">
+              <Plus className="mr-2 h-4 w-4" />
+              New Recipe
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+          {visibleRecipes.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              No recipes yet. Build one from foods in the catalog.
+            </div>
+          ) : (
+            visibleRecipes.map(recipe => {
+              const { perServing, missingIngredients } = computeRecipeNutrition(recipe, findIngredientFood);
+              return (
+                <div
+                  key={recipe.id}
+                  className={cn("flex items-center justify-between gap-3 px-4 py-3", recipe.archived && "opacity-60")}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 truncate">{recipe.name}</span>
+                      {recipe.archived && <Badge variant="outline">Archived</Badge>}
+                      {missingIngredients.length > 0 && (
+                        <Badge variant="secondary" className="bg-red-100 text-red-700">
+                          {missingIngredients.length} missing
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      {recipe.ingredients.length} ingredients • {recipe.servings} servings of {getRecipeServingSize(recipe)}
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      Per serving: {perServing.calories}cal • P:{perServing.protein}g • C:{perServing.carbs}g • F:{perServing.fat}g • Fiber:{perServing.fiber}g
+                    </div>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => openEditor(recipe)} className="h-8 w-8 p-0">
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggleArchived(recipe)}
+                      className="h-8 w-8 p-0"
+                      title={recipe.archived ? "Restore" : "Archive"}
+                    >
+                      {recipe.archived ? <ArchiveRestore className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editingRecipe} onOpenChange={(open) => !open && setEditingRecipe(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRecipe?.id ? "Edit Recipe" : "New Recipe"}</DialogTitle>
+          </DialogHeader>
+          {editingRecipe && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="recipe-name">Name</Label>
+                <Input
+                  id="recipe-name"
+                  value={editingRecipe.name}
+                  onChange={(e) => setEditingRecipe({ ...editingRecipe, name: e.target.value })}
+                  placeholder="e.g. Suji Cheela"
+                  disabled={!!editingRecipe.id}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="recipe-servings">Servings</Label>
+                  <Input
+                    id="recipe-servings"
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={editingRecipe.servings}
+                    onChange={(e) => setEditingRecipe({ ...editingRecipe, servings: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recipe-yield">Cooked yield (g)</Label>
+                  <Input
+                    id="recipe-yield"
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={editingRecipe.cookedYieldGrams ?? ""}
+                    placeholder="optional"
+                    onChange={(e) => setEditingRecipe({
+                      ...editingRecipe,
+                      cookedYieldGrams: e.target.value === "" ? undefined : parseFloat(e.target.value)
+                    })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-sm font-medium text-gray-700">Ingredients</div>
+                {editingRecipe.ingredients.length === 0 && (
+                  <p className="text-xs text-gray-500">Search the catalog below to add ingredients.</p>
+                )}
+                {editingRecipe.ingredients.map((ingredient, index) => {
+                  const food = findIngredientFood(ingredient.foodId);
+                  const hasGrams = !!getServingGrams(food?.servingSize);
+                  return (
+                    <div key={`${ingredient.foodId}-${index}`} className="flex items-center gap-2">
+                      <div className="flex-1 min-w-0">
+                        <div className={cn("text-sm truncate", !food && "text-red-600")}>
+                          {food?.name || `${ingredient.foodId} (missing)`}
+                        </div>
+                        {food && <div className="text-xs text-gray-500">{food.servingSize} per serving</div>}
+                      </div>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        value={ingredient.amount}
+                        onChange={(e) => handleUpdateIngredient(index, { amount: parseFloat(e.target.value) || 0 })}
+                        className="w-24"
+                      />
+                      <select
+                        value={ingredient.unit}
+                        onChange={(e) => handleUpdateIngredient(index, { unit: e.target.value as "g" | "serving" })}
+                        className="h-10 px-2 text-sm border rounded-md"
+                      >
+                        <option value="g" disabled={!hasGrams}>g</option>
+                        <option value="serving">serving</option>
+                      </select>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRemoveIngredient(index)}
+                        className="h-8 w-8 p-0 text-red-600 hover:bg-red-50"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  );
+                })}
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    placeholder="Add ingredient..."
+                    value={ingredientSearch}
+                    onChange={(e) => setIngredientSearch(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+                {ingredientMatches.length > 0 && (
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                    {ingredientMatches.map(food => (
+                      <button
+                        key={food.id}
+                        type="button"
+                        onClick={() => handleAddIngredient(food)}
+                        className="w-full px-3 py-2 text-left text-sm hover:bg-orange-50"
+                      >
+                        <span className="font-medium">{food.name}</span>
+                        <span className="text-xs text-gray-500"> • {food.servingSize} • {food.calories}cal</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {preview && (
+                <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg">
+                  <div className="text-sm font-medium text-orange-800">
+                    Per serving ({getRecipeServingSize(editingRecipe)})
+                  </div>
+                  <div className="text-xs text-orange-700">
+                    {preview.perServing.calories}cal • P:{preview.perServing.protein}g • C:{preview.perServing.carbs}g • F:{preview.perServing.fat}g • Fiber:{preview.perServing.fiber}g
+                  </div>
+                  {preview.unconvertible.length > 0 && (
+                    <div className="text-xs text-red-600 mt-1">
+                      Some ingredients have no gram weight; switch them to servings.
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingRecipe(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving} className="bg-orange-600 hover:bg-orange-700">
+              {saving ? "Saving..." : "Save Recipe"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,223 @@
+import { Fragment, useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Chart from "chart.js/auto";
+import { ChevronDown, ChevronRight, Utensils } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  FUELING_PHASE_LABELS,
+  FuelingPhase,
+  FuelingRun,
+  RunFuelingReport,
+  loadRunFuelingReports
+} from "@/lib/runFueling";
+import { formatEntryAmount } from "@/lib/servingUnits";
+import { cn } from "@/lib/utils";
+
+interface RunFuelingPanelProps {
+  runs: FuelingRun[];
+}
+
+const PHASES: FuelingPhase[] = ["pre", "during", "post"];
+
+const formatRunDate = (startDate: string) =>
+  new Date(startDate).toLocaleString("en-US", { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+// Fuel taken against run length, shortest run first
+function FuelingTrendChart({ reports }: { reports: RunFuelingReport[] }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    const sorted = [...reports].sort((a, b) => a.durationMinutes - b.durationMinutes);
+    const point = (report: RunFuelingReport, y: number) => ({ x: report.durationMinutes, y });
+
+    const chart = new Chart(ctx, {
+      type: "scatter",
+      data: {
+        datasets: [
+          {
+            label: "Carbs before (g)",
+            data: sorted.map(report => point(report, report.windows.pre.totals.carbs)),
+            borderColor: "rgb(249, 115, 22)",
+            backgroundColor: "rgba(249, 115, 22, 0.6)",
+            showLine: true
+          },
+          {
+            label: "Carbs during (g/h)",
+            data: sorted.map(report => point(report, report.duringCarbsPerHour)),
+            borderColor: "rgb(239, 68, 68)",
+            backgroundColor: "rgba(239, 68, 68, 0.6)",
+            showLine: true
+          },
+          {
+            label: "Protein after (g)",
+            data: sorted.map(report => point(report, report.windows.post.totals.protein)),
+            borderColor: "rgb(147, 51, 234)",
+            backgroundColor: "rgba(147, 51, 234, 0.6)",
+            showLine: true
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        scales: {
+          x: { title: { display: true, text: "Run duration (min)" } },
+          y: { beginAtZero: true, title: { display: true, text: "grams" } }
+        }
+      }
+    });
+
+    return () => chart.destroy();
+  }, [reports]);
+
+  return (
+    <div className="h-72">
+      <canvas ref={canvasRef} className="w-full h-full"></canvas>
+    </div>
+  );
+}
+
+/**
+ * What was eaten before, during and after each run, checked against fueling
+ * guidelines for the run's length and trended against run duration
+ */
+export function RunFuelingPanel({ runs }: RunFuelingPanelProps) {
+  const [expandedRun, setExpandedRun] = useState<string | null>(null);
+  const { data: reports, isLoading } = useQuery<RunFuelingReport[]>({
+    queryKey: ["runFueling", ...runs.map(run => run.id)],
+    queryFn: () => loadRunFuelingReports(runs),
+    enabled: runs.length > 0
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-8 w-1/3" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  if (!reports || reports.length === 0) {
+    return <p className="text-center text-gray-500 py-12">No runs to analyse.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <Card className="bg-white/80 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Utensils className="h-5 w-5 mr-2 text-orange-600" />
+            Run Fueling
+          </CardTitle>
+          <p className="text-sm text-gray-500">
+            Food is matched to each run by the time it was eaten; foods without a time count when logged as pre-, during- or post-run.
+          </p>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-3">Run</th>
+                <th className="py-2 px-3 text-right">Duration</th>
+                <th className="py-2 px-3 text-right">Before</th>
+                <th className="py-2 px-3 text-right">During</th>
+                <th className="py-2 px-3 text-right">After</th>
+                <th className="py-2 pl-3">Guidelines</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reports.map(report => {
+                const { run, windows } = report;
+                const expanded = expandedRun === run.id;
+                return (
+                  <Fragment key={run.id}>
+                    <tr
+                      className="border-b cursor-pointer hover:bg-gray-50"
+                      onClick={() => setExpandedRun(expanded ? null : run.id)}
+                    >
+                      <td className="py-2 pr-3">
+                        <div className="flex items-center gap-1 font-medium text-gray-800">
+                          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          {run.name || "Run"}
+                        </div>
+                        <div className="text-xs text-gray-500 pl-5">{formatRunDate(run.start_date)} · {report.distanceKm} km</div>
+                      </td>
+                      <td className="py-2 px-3 text-right">{report.durationMinutes} min</td>
+                      <td className="py-2 px-3 text-right">
+                        {Math.round(windows.pre.totals.carbs)}g carbs
+                        <div className="text-xs text-gray-500">{Math.round(windows.pre.totals.calories)} cal</div>
+                      </td>
+                      <td className="py-2 px-3 text-right">
+                        {Math.round(windows.during.totals.carbs)}g carbs
+                        <div className="text-xs text-gray-500">{report.duringCarbsPerHour} g/h</div>
+                      </td>
+                      <td className="py-2 px-3 text-right">
+                        {Math.round(windows.post.totals.protein)}g protein
+                        <div className="text-xs text-gray-500">{Math.round(windows.post.totals.calories)} cal</div>
+                      </td>
+                      <td className="py-2 pl-3">
+                        {!report.logged ? (
+                          <span className="text-xs text-gray-400">No food logged</span>
+                        ) : (
+                          <div className="flex flex-wrap gap-1">
+                            {report.checks.map(check => (
+                              <Badge
+                                key={check.phase}
+                                className={cn("text-xs font-normal", check.met ? "bg-green-100 text-green-700" : "bg-amber-100 text-amber-700")}
+                                title={`${check.label}: ${check.actual} of ${check.target}`}
+                              >
+                                {check.met ? "✓" : "✗"} {check.label}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                    {expanded && (
+                      <tr className="border-b bg-gray-50/60">
+                        <td colSpan={6} className="p-3">
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                            {PHASES.map(phase => (
+                              <div key={phase} className="bg-white rounded-lg border p-3">
+                                <div className="text-xs font-medium text-gray-600 mb-1">{FUELING_PHASE_LABELS[phase]}</div>
+                                {windows[phase].entries.length === 0 ? (
+                                  <div className="text-xs text-gray-400">Nothing logged</div>
+                                ) : (
+                                  <ul className="text-xs text-gray-700 space-y-0.5">
+                                    {windows[phase].entries.map((entry, index) => (
+                                      <li key={`${entry.foodId}-${index}`}>{entry.foodId} ({formatEntryAmount(entry)})</li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      {reports.length > 1 && (
+        <Card className="bg-white/80 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="text-base">Fueling vs Run Duration</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <FuelingTrendChart reports={reports} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { Copy, Link2, Share2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatDateForDisplay, getLastDaysRange } from "@/lib/nutritionUtils";
+import { ShareLink, createShareLink, getShareUrl, listShareLinks, revokeShareLink } from "@/lib/shareLinks";
+import { useOwnerAuth } from "@/hooks/useOwnerAuth";
+import { OwnerSignIn } from "./OwnerSignIn";
+import { toast } from "sonner";
+
+const copyShareUrl = async (token: string) => {
+  try {
+    await navigator.clipboard.writeText(getShareUrl(token));
+    toast.success("Link copied");
+  } catch (error) {
+    console.error("Error copying share link:", error);
+    toast.error("Couldn't copy the link");
+  }
+};
+
+/**
+ * Create read-only links to the food log for a date range, optionally showing
+ * only daily macro totals, and revoke them
+ */
+export function ShareLinksManager() {
+  const { owner, loading: authLoading } = useOwnerAuth();
+  const [range, setRange] = useState(() => getLastDaysRange(7));
+  const [label, setLabel] = useState("");
+  const [macroOnly, setMacroOnly] = useState(false);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [revokingToken, setRevokingToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!owner) {
+      setLinks([]);
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    listShareLinks()
+      .then(result => {
+        if (!cancelled) setLinks(result);
+      })
+      .catch(error => {
+        console.error("Error loading share links:", error);
+        if (!cancelled) toast.error("Couldn't load share links");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [owner]);
+
+  const handleCreate = async () => {
+    if (range.startDate > range.endDate) {
+      toast.error("Start date must be before end date");
+      return;
+    }
+    setCreating(true);
+    try {
+      const link = await createShareLink({ ...range, macroOnly, label: label.trim() });
+      setLinks(current => [link, ...current]);
+      setLabel("");
+      await copyShareUrl(link.token);
+    } catch (error) {
+      console.error("Error creating share link:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create link");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: string) => {
+    setRevokingToken(token);
+    try {
+      const revoked = await revokeShareLink(token);
+      setLinks(current => current.map(link => (link.token === token ? revoked : link)));
+      toast.success("Link revoked");
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      toast.error("Failed to revoke link");
+    } finally {
+      setRevokingToken(null);
+    }
+  };
+
+  if (authLoading) return null;
+
+  if (!owner) {
+    return (
+      <Card className="bg-white/90 backdrop-blur-sm border border-pink-200 shadow-lg">
+        <CardContent className="p-6 space-y-3">
+          <p className="text-sm text-gray-600">Only the owner of this log can create or revoke share links.</p>
+          <OwnerSignIn />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white/90 backdrop-blur-sm border border-pink-200 shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <Share2 className="h-5 w-5 text-pink-600" />
+            Share your food log
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Anyone with the link can view the days in its range, read-only. Macro-only links show daily totals without food names.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="share-start">From</Label>
+              <Input
+                id="share-start"
+                type="date"
+                value={range.startDate}
+                onChange={(e) => setRange({ ...range, startDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="share-end">To</Label>
+              <Input
+                id="share-end"
+                type="date"
+                value={range.endDate}
+                onChange={(e) => setRange({ ...range, endDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="share-label">Label (optional)</Label>
+              <Input
+                id="share-label"
+                placeholder="e.g. For my coach"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="share-macro-only" checked={macroOnly} onCheckedChange={setMacroOnly} />
+            <Label htmlFor="share-macro-only">Macros only (hide food names)</Label>
+          </div>
+          <Button onClick={handleCreate} disabled={creating} className="bg-pink-600 hover:bg-pink-700">
+            <Link2 className="h-4 w-4 mr-2" />
+            {creating ? "Creating..." : "Create and copy link"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/90 backdrop-blur-sm border border-pink-200 shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-800">Share links</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {loading && <p className="text-sm text-gray-500">Loading links...</p>}
+          {!loading && links.length === 0 && <p className="text-sm text-gray-500">No links yet.</p>}
+          {links.map(link => (
+            <div key={link.token} className="border rounded-lg p-3 flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-800">{link.label || "Untitled link"}</span>
+                  {link.macroOnly && <Badge variant="secondary" className="text-xs">Macros only</Badge>}
+                  {link.revokedAt && <Badge className="text-xs bg-red-100 text-red-700">Revoked</Badge>}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {formatDateForDisplay(link.startDate)} – {formatDateForDisplay(link.endDate)}
+                </div>
+              </div>
+              {!link.revokedAt && (
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => copyShareUrl(link.token)}>
+                    <Copy className="h-3 w-3 mr-1" />
+                    Copy
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs text-red-600 hover:text-red-700"
+                    disabled={revokingToken !== null}
+                    onClick={() => handleRevoke(link.token)}
+                  >
+                    <XCircle className="h-3 w-3 mr-1" />
+                    {revokingToken === link.token ? "Revoking..." : "Revoke"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,494 @@
+import { useEffect, useMemo, useState } from "react";
+import { CalendarDays, ChefHat, ChevronLeft, ChevronRight, ClipboardCopy, Download, GripVertical, Plus, ShoppingCart, Trash2, Utensils, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DayType, FoodEntry, MealPlanItem, MealPlanItemKind, WeeklyMealPlan } from "@/types/nutrition";
+import { combinedMeals } from "@/data/combinedMeals";
+import { useFoodCatalog } from "@/hooks/useFoodCatalog";
+import {
+  PlanLookups,
+  WEEKDAY_LABELS,
+  buildGroceryList,
+  createDefaultMealPlan,
+  createEmptyMealPlan,
+  createPlanItemId,
+  getPlanDayTotals,
+  getPlanDayType,
+  getPlanItemName,
+  getPlanWeekTotals,
+  getWeekDates,
+  getWeekStart,
+  groceryListToCsv,
+  groceryListToText,
+  loadMealPlan,
+  planDayToEntries,
+  resolvePlanItem,
+  saveMealPlan,
+  shiftWeek
+} from "@/lib/mealPlanner";
+import { DAY_TYPES, calculateAdherence, getNutritionTargets } from "@/lib/nutritionTargets";
+import { matchFoods } from "@/lib/mealParser";
+import { getTodayDateString } from "@/lib/nutritionUtils";
+import { toast } from "sonner";
+import { cn, downloadTextFile } from "@/lib/utils";
+
+interface WeeklyMealPlannerProps {
+  onLogDay: (date: string, entries: FoodEntry[]) => Promise<void> | void;
+}
+
+// What's being dragged: something from the palette, or an item already in the plan
+type DragPayload =
+  | { source: "palette"; kind: MealPlanItemKind; refId: string }
+  | { source: "plan"; date: string; itemId: string };
+
+const DRAG_MIME = "application/x-meal-plan";
+
+const setDragPayload = (event: React.DragEvent, payload: DragPayload) => {
+  event.dataTransfer.setData(DRAG_MIME, JSON.stringify(payload));
+  event.dataTransfer.effectAllowed = payload.source === "palette" ? "copy" : "move";
+};
+
+const KIND_STYLES: Record<MealPlanItemKind, string> = {
+  meal: "bg-green-50 border-green-200 text-green-800",
+  recipe: "bg-orange-50 border-orange-200 text-orange-800",
+  food: "bg-blue-50 border-blue-200 text-blue-800"
+};
+
+const adherenceColor = (percent: number) =>
+  percent >= 90 && percent <= 110 ? "text-green-600" : percent >= 75 && percent <= 125 ? "text-amber-600" : "text-red-600";
+
+/**
+ * Plan a week of meals by dragging combined meals, recipes and foods into days.
+ * Shows projected macros against each day's targets and builds a grocery list.
+ */
+export function WeeklyMealPlanner({ onLogDay }: WeeklyMealPlannerProps) {
+  const { foods, recipes } = useFoodCatalog();
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [plan, setPlan] = useState<WeeklyMealPlan>(() => createEmptyMealPlan(getWeekStart(new Date())));
+  const [loading, setLoading] = useState(true);
+  const [foodSearch, setFoodSearch] = useState("");
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const lookups: PlanLookups = useMemo(
+    () => ({ meals: combinedMeals, foods, recipes: recipes.filter(recipe => !recipe.archived) }),
+    [foods, recipes]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    loadMealPlan(weekStart).then(saved => {
+      if (cancelled) return;
+      setPlan(saved || createEmptyMealPlan(weekStart));
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [weekStart]);
+
+  const updatePlan = async (next: WeeklyMealPlan) => {
+    setPlan(next);
+    try {
+      await saveMealPlan(next);
+    } catch (error) {
+      console.error("Error saving meal plan:", error);
+      toast.error("Failed to save meal plan");
+    }
+  };
+
+  const weekDates = getWeekDates(weekStart);
+  const today = getTodayDateString();
+  const foodMatches = foodSearch.trim()
+    ? matchFoods(foodSearch, foods.filter(food => food.source !== "recipe"), 6).map(match => match.food)
+    : [];
+
+  const addItem = (date: string, kind: MealPlanItemKind, refId: string) => {
+    const item: MealPlanItem = { id: createPlanItemId(), kind, refId, servings: 1 };
+    updatePlan({ ...plan, days: { ...plan.days, [date]: [...(plan.days[date] || []), item] } });
+  };
+
+  const moveItem = (fromDate: string, itemId: string, toDate: string) => {
+    if (fromDate === toDate) return;
+    const item = (plan.days[fromDate] || []).find(candidate => candidate.id === itemId);
+    if (!item) return;
+    updatePlan({
+      ...plan,
+      days: {
+        ...plan.days,
+        [fromDate]: plan.days[fromDate].filter(candidate => candidate.id !== itemId),
+        [toDate]: [...(plan.days[toDate] || []), item]
+      }
+    });
+  };
+
+  const updateItem = (date: string, itemId: string, changes: Partial<MealPlanItem>) => {
+    updatePlan({
+      ...plan,
+      days: { ...plan.days, [date]: plan.days[date].map(item => (item.id === itemId ? { ...item, ...changes } : item)) }
+    });
+  };
+
+  const removeItem = (date: string, itemId: string) => {
+    updatePlan({ ...plan, days: { ...plan.days, [date]: plan.days[date].filter(item => item.id !== itemId) } });
+  };
+
+  const setDayType = (date: string, dayType: DayType) => {
+    updatePlan({ ...plan, dayTypes: { ...plan.dayTypes, [date]: dayType } });
+  };
+
+  const handleDrop = (event: React.DragEvent, date: string) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const raw = event.dataTransfer.getData(DRAG_MIME);
+    if (!raw) return;
+    const payload = JSON.parse(raw) as DragPayload;
+    if (payload.source === "palette") {
+      addItem(date, payload.kind, payload.refId);
+    } else {
+      moveItem(payload.date, payload.itemId, date);
+    }
+  };
+
+  const handleFillDefault = () => {
+    const hasItems = Object.values(plan.days).some(items => items.length > 0);
+    if (hasItems && !window.confirm("Replace this week's plan with the default meal plan?")) return;
+    updatePlan({ ...createDefaultMealPlan(weekStart), dayTypes: plan.dayTypes });
+  };
+
+  const handleClear = () => {
+    if (!window.confirm("Clear every meal planned this week?")) return;
+    updatePlan({ ...createEmptyMealPlan(weekStart), dayTypes: plan.dayTypes });
+  };
+
+  const handleLogDay = async (date: string) => {
+    const entries = planDayToEntries(plan.days[date] || [], lookups);
+    if (entries.length === 0) {
+      toast.error("Nothing planned for this day");
+      return;
+    }
+    await onLogDay(date, entries);
+  };
+
+  // Weekly projection against the sum of each day's targets
+  const weekTotals = getPlanWeekTotals(plan, lookups);
+  const weekTargets = weekDates
+    .map(date => getNutritionTargets(getPlanDayType(plan, date)))
+    .reduce(
+      (sum, targets) => ({
+        calories: sum.calories + targets.calories,
+        protein: sum.protein + targets.protein,
+        carbs: sum.carbs + targets.carbs,
+        fat: sum.fat + targets.fat
+      }),
+      { calories: 0, protein: 0, carbs: 0, fat: 0 }
+    );
+  const weekAdherence = calculateAdherence(weekTotals, weekTargets);
+  const groceryList = buildGroceryList(plan, lookups);
+
+  const handleCopyGroceries = async () => {
+    try {
+      await navigator.clipboard.writeText(groceryListToText(groceryList, weekStart));
+      toast.success("Grocery list copied");
+    } catch (error) {
+      console.error("Error copying grocery list:", error);
+      toast.error("Couldn't copy to clipboard");
+    }
+  };
+
+  const paletteChip = (kind: MealPlanItemKind, refId: string, label: string) => (
+    <div
+      key={`${kind}-${refId}`}
+      draggable
+      onDragStart={(event) => setDragPayload(event, { source: "palette", kind, refId })}
+      className={cn("flex items-center gap-1 px-2 py-1 rounded-md border text-xs cursor-grab active:cursor-grabbing", KIND_STYLES[kind])}
+      title="Drag onto a day"
+    >
+      <GripVertical className="h-3 w-3 opacity-50" />
+      {label}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white/90 backdrop-blur-sm border border-green-200 shadow-lg">
+        <CardHeader className="pb-4">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <CardTitle className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+              <CalendarDays className="h-5 w-5 text-green-600" />
+              Meal Planner
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setWeekStart(shiftWeek(weekStart, -1))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setWeekStart(getWeekStart(new Date()))}>
+                This week
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setWeekStart(shiftWeek(weekStart, 1))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <p className="text-sm text-gray-600">
+            Week of {new Date(`${weekStart}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}.
+            Drag meals, recipes or foods onto a day.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Palette */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-xs font-medium text-gray-500">
+              <Utensils className="h-3 w-3" /> Combined meals
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {combinedMeals.map(meal => paletteChip("meal", meal.name, meal.name))}
+            </div>
+            {lookups.recipes.length > 0 && (
+              <>
+                <div className="flex items-center gap-2 text-xs font-medium text-gray-500 pt-2">
+                  <ChefHat className="h-3 w-3" /> Recipes
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {lookups.recipes.map(recipe => paletteChip("recipe", recipe.id, recipe.name))}
+                </div>
+              </>
+            )}
+            <div className="pt-2 flex flex-wrap items-center gap-2">
+              <Input
+                value={foodSearch}
+                onChange={(e) => setFoodSearch(e.target.value)}
+                placeholder="Search foods to drag in..."
+                className="h-8 max-w-xs text-sm"
+              />
+              {foodMatches.map(food => paletteChip("food", food.id, food.name))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={handleFillDefault} disabled={loading}>
+              Fill with default plan
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleClear} disabled={loading}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              Clear week
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Days */}
+      <div className={cn("grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 xl:grid-cols-7 gap-3", loading && "opacity-50 pointer-events-none")}>
+        {weekDates.map((date, index) => {
+          const items = plan.days[date] || [];
+          const dayType = getPlanDayType(plan, date);
+          const targets = getNutritionTargets(dayType);
+          const totals = getPlanDayTotals(items, lookups);
+          const adherence = calculateAdherence(totals, targets);
+
+          return (
+            <div
+              key={date}
+              onDragOver={(event) => {
+                event.preventDefault();
+                setDropTarget(date);
+              }}
+              onDragLeave={() => setDropTarget(current => (current === date ? null : current))}
+              onDrop={(event) => handleDrop(event, date)}
+              className={cn(
+                "flex flex-col rounded-lg border bg-white p-3 min-h-[260px] transition-colors",
+                date === today ? "border-green-500 ring-1 ring-green-500" : "border-gray-200",
+                dropTarget === date && "bg-green-50 border-green-400"
+              )}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <div>
+                  <div className="text-sm font-semibold text-gray-800">{WEEKDAY_LABELS[index]}</div>
+                  <div className="text-xs text-gray-500">{date.slice(5)}</div>
+                </div>
+                <select
+                  value={dayType}
+                  onChange={(e) => setDayType(date, e.target.value as DayType)}
+                  className="h-7 px-1 text-xs border rounded"
+                  title="Planned training"
+                >
+                  {DAY_TYPES.map(type => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex-1 space-y-1">
+                {items.map(item => {
+                  const resolved = resolvePlanItem(item, lookups);
+                  return (
+                    <div
+                      key={item.id}
+                      draggable
+                      onDragStart={(event) => setDragPayload(event, { source: "plan", date, itemId: item.id })}
+                      className={cn(
+                        "flex items-center gap-1 px-2 py-1 rounded border text-xs cursor-grab",
+                        resolved.missing ? "bg-red-50 border-red-200 text-red-700" : KIND_STYLES[item.kind]
+                      )}
+                      title={resolved.missing ? "No longer in the catalog" : `${Math.round(resolved.totals.calories)} cal`}
+                    >
+                      <span className="flex-1 truncate">{resolved.name}</span>
+                      <input
+                        type="number"
+                        min={0.25}
+                        step={0.25}
+                        value={item.servings}
+                        onChange={(e) => updateItem(date, item.id, { servings: parseFloat(e.target.value) || 1 })}
+                        className="w-10 bg-transparent text-right"
+                        title="Servings"
+                      />
+                      <button onClick={() => removeItem(date, item.id)} className="text-gray-400 hover:text-red-600" title="Remove">
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  );
+                })}
+                {items.length === 0 && (
+                  <div className="text-xs text-gray-400 text-center py-6 border border-dashed rounded">Drop meals here</div>
+                )}
+              </div>
+
+              {/* Tap-to-add for touch screens, where drag and drop isn't available */}
+              <select
+                value=""
+                onChange={(e) => {
+                  const [kind, ...rest] = e.target.value.split(":");
+                  if (kind) addItem(date, kind as MealPlanItemKind, rest.join(":"));
+                }}
+                className="mt-2 h-7 px-1 text-xs border rounded text-gray-500"
+              >
+                <option value="">+ Add...</option>
+                <optgroup label="Combined meals">
+                  {combinedMeals.map(meal => (
+                    <option key={meal.id} value={`meal:${meal.name}`}>{meal.name}</option>
+                  ))}
+                </optgroup>
+                {lookups.recipes.length > 0 && (
+                  <optgroup label="Recipes">
+                    {lookups.recipes.map(recipe => (
+                      <option key={recipe.id} value={`recipe:${recipe.id}`}>{recipe.name}</option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+
+              <div className="mt-2 pt-2 border-t text-xs space-y-0.5">
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Cal</span>
+                  <span className={adherenceColor(adherence.calories)}>{Math.round(totals.calories)} / {targets.calories}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Protein</span>
+                  <span className={adherenceColor(adherence.protein)}>{Math.round(totals.protein)} / {targets.protein}g</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Carbs</span>
+                  <span className={adherenceColor(adherence.carbs)}>{Math.round(totals.carbs)} / {targets.carbs}g</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Fat</span>
+                  <span className={adherenceColor(adherence.fat)}>{Math.round(totals.fat)} / {targets.fat}g</span>
+                </div>
+              </div>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleLogDay(date)}
+                disabled={items.length === 0}
+                className="mt-2 h-7 text-xs"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Log this day
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Weekly projection */}
+      <Card className="bg-gradient-to-br from-green-50 to-blue-50 border-green-200">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium text-gray-700">Projected week vs targets</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {([
+              ["Calories", "calories", ""],
+              ["Protein", "protein", "g"],
+              ["Carbs", "carbs", "g"],
+              ["Fat", "fat", "g"]
+            ] as const).map(([label, key, unit]) => (
+              <div key={key} className="text-center p-3 bg-white/60 rounded-lg border border-white/30">
+                <div className="text-xs text-gray-600">{label}</div>
+                <div className="text-lg font-bold text-gray-800">
+                  {Math.round(weekTotals[key]).toLocaleString()}{unit}
+                </div>
+                <div className="text-xs text-gray-500">of {weekTargets[key].toLocaleString()}{unit}</div>
+                <div className={cn("text-xs font-semibold", adherenceColor(weekAdherence[key]))}>{weekAdherence[key]}%</div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Grocery list */}
+      <Card className="bg-white/90 border border-green-200">
+        <CardHeader className="pb-2">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <CardTitle className="text-sm font-medium text-gray-700 flex items-center gap-2">
+              <ShoppingCart className="h-4 w-4 text-green-600" />
+              Grocery list
+              <Badge variant="secondary">{groceryList.length}</Badge>
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleCopyGroceries} disabled={groceryList.length === 0}>
+                <ClipboardCopy className="h-4 w-4 mr-1" />
+                Copy
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadTextFile(`groceries-${weekStart}.txt`, groceryListToText(groceryList, weekStart))}
+                disabled={groceryList.length === 0}
+              >
+                <Download className="h-4 w-4 mr-1" />
+                Text
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadTextFile(`groceries-${weekStart}.csv`, groceryListToCsv(groceryList), "text/csv")}
+                disabled={groceryList.length === 0}
+              >
+                <Download className="h-4 w-4 mr-1" />
+                CSV
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {groceryList.length > 0 ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-1 text-sm">
+              {groceryList.map(item => (
+                <div key={`${item.name}|${item.unit}`} className="flex justify-between border-b border-gray-100 py-1">
+                  <span className="truncate text-gray-700">{item.name}</span>
+                  <span className="ml-2 text-gray-500 shrink-0">{item.amount} {item.unit}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Plan some meals to build a grocery list.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
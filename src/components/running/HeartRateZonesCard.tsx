@@ -0,0 +1,248 @@
+import { useEffect, useRef, useState } from "react";
+import Chart from "chart.js/auto";
+import { Heart } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { EASY_ZONE_COUNT, ZONE_METHODS, ZONE_METHOD_LABELS, ZoneMethod } from "@/lib/heartRateZones";
+import { ZONE_DISTRIBUTION_QUERY_KEY, ZONE_DISTRIBUTION_WEEKS, ZoneDistribution, saveZoneSettings } from "@/lib/zoneDistribution";
+import { queryClient } from "@/lib/queryClient";
+import { useZoneDistribution } from "@/hooks/useZoneDistribution";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+interface HeartRateZonesCardProps {
+  showRuns?: boolean; // Per-run breakdown under the weekly chart
+}
+
+const ZONE_COLORS = ["#93c5fd", "#4ade80", "#facc15", "#fb923c", "#ef4444"];
+const RUNS_SHOWN = 10;
+
+const formatMinutes = (seconds: number) => `${Math.round(seconds / 60)} min`;
+
+const formatWeek = (weekStart: string) =>
+  new Date(`${weekStart}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+const formatZoneRange = (zone: { min: number; max: number }) => (zone.max === -1 ? `${zone.min}+` : `${zone.min}–${zone.max}`);
+
+// Minutes per zone each week, stacked
+function WeeklyZonesChart({ distribution }: { distribution: ZoneDistribution }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    const { weeks, zones } = distribution;
+
+    const chart = new Chart(ctx, {
+      type: "bar",
+      data: {
+        labels: weeks.map(week => `${formatWeek(week.weekStart)}${week.easyPercent !== null ? ` (${week.easyPercent}% easy)` : ""}`),
+        datasets: zones.map((zone, index) => ({
+          label: `Z${index + 1} ${formatZoneRange(zone)}`,
+          data: weeks.map(week => Math.round(week.seconds[index] / 60)),
+          backgroundColor: ZONE_COLORS[index % ZONE_COLORS.length]
+        }))
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        scales: {
+          x: { stacked: true },
+          y: { stacked: true, beginAtZero: true, title: { display: true, text: "Minutes" } }
+        }
+      }
+    });
+
+    return () => chart.destroy();
+  }, [distribution]);
+
+  return (
+    <div className="h-64">
+      <canvas ref={canvasRef} className="w-full h-full"></canvas>
+    </div>
+  );
+}
+
+function ZoneBar({ seconds }: { seconds: number[] }) {
+  const total = seconds.reduce((sum, value) => sum + value, 0);
+  if (total <= 0) return null;
+  return (
+    <div className="flex h-3 w-full overflow-hidden rounded bg-gray-100">
+      {seconds.map((value, index) => (
+        <div
+          key={index}
+          style={{ width: `${(value / total) * 100}%`, backgroundColor: ZONE_COLORS[index % ZONE_COLORS.length] }}
+          title={`Z${index + 1}: ${formatMinutes(value)}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Time in heart-rate zones per week and per run, with the 80/20 easy/hard split.
+ * Zones come from max HR, threshold HR or HR reserve, falling back to Strava's zones.
+ */
+export function HeartRateZonesCard({ showRuns = true }: HeartRateZonesCardProps) {
+  const { distribution, loading, error } = useZoneDistribution();
+  const [method, setMethod] = useState<ZoneMethod>("strava");
+  const [maxHeartRate, setMaxHeartRate] = useState("");
+  const [lthr, setLthr] = useState("");
+  const [restingHeartRate, setRestingHeartRate] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!distribution) return;
+    const { settings } = distribution;
+    setMethod(settings.method);
+    setMaxHeartRate(settings.maxHeartRate ? String(settings.maxHeartRate) : "");
+    setLthr(settings.lthr ? String(settings.lthr) : "");
+    setRestingHeartRate(settings.restingHeartRate ? String(settings.restingHeartRate) : "");
+  }, [distribution]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveZoneSettings({
+        method,
+        maxHeartRate: Number(maxHeartRate) || undefined,
+        lthr: Number(lthr) || undefined,
+        restingHeartRate: Number(restingHeartRate) || undefined
+      });
+      await queryClient.invalidateQueries({ queryKey: [ZONE_DISTRIBUTION_QUERY_KEY] });
+      toast.success("Heart-rate zones updated");
+    } catch (saveError) {
+      console.error("Error saving heart-rate zone settings:", saveError);
+      toast.error("Failed to save zone settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card className="bg-white/80 backdrop-blur-sm">
+        <CardContent className="p-6 space-y-3">
+          <Skeleton className="h-6 w-1/3" />
+          <Skeleton className="h-56 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !distribution) {
+    return (
+      <Card className="bg-white/80 backdrop-blur-sm">
+        <CardContent className="p-6 text-sm text-gray-600">Couldn't load heart-rate data for your runs.</CardContent>
+      </Card>
+    );
+  }
+
+  const { zones, totals, runs } = distribution;
+  const estimatedRuns = runs.filter(entry => entry.estimated).length;
+  const fellBack = distribution.method !== distribution.settings.method;
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 flex-wrap">
+          <Heart className="h-5 w-5 text-red-500" />
+          Heart-Rate Zones
+          {totals.easyPercent !== null && (
+            <Badge
+              variant="secondary"
+              className={cn("ml-2 text-xs", totals.easyPercent >= 75 ? "bg-green-100 text-green-700" : "bg-amber-100 text-amber-700")}
+              title={`Time in Z1–Z${EASY_ZONE_COUNT} vs Z${EASY_ZONE_COUNT + 1}+ over ${ZONE_DISTRIBUTION_WEEKS} weeks`}
+            >
+              {totals.easyPercent}/{100 - totals.easyPercent} easy/hard
+            </Badge>
+          )}
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          {ZONE_METHOD_LABELS[distribution.method]}
+          {fellBack ? ` (${ZONE_METHOD_LABELS[distribution.settings.method]} needs a value)` : ""} · last {ZONE_DISTRIBUTION_WEEKS} weeks
+          {estimatedRuns > 0 ? ` · ${estimatedRuns} runs without streams placed by average HR` : ""}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+          {zones.map((zone, index) => (
+            <span key={index} className="flex items-center gap-1">
+              <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: ZONE_COLORS[index % ZONE_COLORS.length] }} />
+              Z{index + 1} {formatZoneRange(zone)} bpm · {formatMinutes(totals.seconds[index] || 0)}
+            </span>
+          ))}
+        </div>
+
+        {distribution.weeks.length > 0 ? (
+          <WeeklyZonesChart distribution={distribution} />
+        ) : (
+          <div className="text-sm text-gray-500">No runs with heart rate in the last {ZONE_DISTRIBUTION_WEEKS} weeks.</div>
+        )}
+
+        {showRuns && runs.length > 0 && (
+          <div className="space-y-2">
+            {runs.slice(0, RUNS_SHOWN).map(entry => (
+              <div key={entry.run.id} className="grid grid-cols-3 items-center gap-3 text-sm">
+                <div className="truncate">
+                  <span className="font-medium text-gray-800">{entry.run.name}</span>
+                  <span className="ml-2 text-xs text-gray-500">{formatWeek(entry.run.date)}</span>
+                </div>
+                <div className="col-span-2 flex items-center gap-2">
+                  <ZoneBar seconds={entry.seconds} />
+                  {entry.estimated && <span className="text-xs text-gray-400" title="Placed by average heart rate">est.</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as ZoneMethod)}
+            className="h-8 px-2 border rounded text-sm bg-white"
+            aria-label="Zone method"
+          >
+            {ZONE_METHODS.map(option => (
+              <option key={option} value={option}>{ZONE_METHOD_LABELS[option]}</option>
+            ))}
+          </select>
+          {(method === "max-hr" || method === "hrr") && (
+            <Input
+              type="number"
+              placeholder="Max HR"
+              value={maxHeartRate}
+              onChange={(e) => setMaxHeartRate(e.target.value)}
+              className="h-8 w-24 bg-white"
+            />
+          )}
+          {method === "hrr" && (
+            <Input
+              type="number"
+              placeholder="Resting HR"
+              value={restingHeartRate}
+              onChange={(e) => setRestingHeartRate(e.target.value)}
+              className="h-8 w-28 bg-white"
+            />
+          )}
+          {method === "lthr" && (
+            <Input
+              type="number"
+              placeholder="Threshold HR"
+              value={lthr}
+              onChange={(e) => setLthr(e.target.value)}
+              className="h-8 w-32 bg-white"
+            />
+          )}
+          <Button size="sm" variant="outline" className="h-8" onClick={handleSave} disabled={saving}>
+            Save zones
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
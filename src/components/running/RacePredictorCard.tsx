@@ -0,0 +1,111 @@
+import { Flag } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatEffortTime } from "@/lib/bestEfforts";
+import { PACE_BAND_LABELS } from "@/lib/racePrediction";
+import { PREDICTION_WINDOW_DAYS, PredictionConfidence } from "@/lib/racePredictor";
+import { formatPace } from "@/lib/runClassifier";
+import { useRacePrediction } from "@/hooks/useRacePrediction";
+
+const CONFIDENCE_STYLES: Record<PredictionConfidence, string> = {
+  high: "bg-green-100 text-green-700",
+  medium: "bg-amber-100 text-amber-700",
+  low: "bg-gray-100 text-gray-600"
+};
+
+const PACE_BAND_COLORS: Record<keyof typeof PACE_BAND_LABELS, string> = {
+  easy: "text-green-600",
+  tempo: "text-blue-600",
+  threshold: "text-orange-600",
+  interval: "text-red-600"
+};
+
+/**
+ * 5K to marathon predictions from recent races, best efforts and hard runs, with the
+ * VDOT training paces the run classifier and coach use.
+ */
+export function RacePredictorCard() {
+  const { prediction, loading, error } = useRacePrediction();
+
+  if (loading) {
+    return (
+      <Card className="bg-white/80 backdrop-blur-sm">
+        <CardContent className="p-6 space-y-3">
+          <Skeleton className="h-6 w-1/3" />
+          <Skeleton className="h-40 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="bg-white/80 backdrop-blur-sm">
+        <CardContent className="p-6 text-sm text-gray-600">Couldn't load your recent efforts.</CardContent>
+      </Card>
+    );
+  }
+
+  if (!prediction) {
+    return (
+      <Card className="bg-white/80 backdrop-blur-sm">
+        <CardContent className="p-6 text-sm text-gray-600">
+          No races or hard efforts in the last {PREDICTION_WINDOW_DAYS} days to predict from.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const bands = Object.keys(PACE_BAND_LABELS) as (keyof typeof PACE_BAND_LABELS)[];
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 flex-wrap">
+          <Flag className="h-5 w-5 text-blue-600" />
+          Race Predictor
+          <Badge variant="secondary" className="ml-2 text-xs">VDOT {prediction.vdot}</Badge>
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          VDOT and Riegel from {prediction.efforts.length} efforts in the last {PREDICTION_WINDOW_DAYS} days
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {prediction.predictions.map(entry => (
+            <div key={entry.distance.key} className="p-3 rounded-lg bg-gray-50 space-y-1">
+              <div className="text-xs text-gray-500">{entry.distance.label}</div>
+              <div className="text-xl font-bold text-gray-800">{formatEffortTime(entry.time)}</div>
+              <div className="text-xs text-gray-600">{formatPace(entry.pace)}/km</div>
+              <Badge
+                variant="secondary"
+                className={`text-xs ${CONFIDENCE_STYLES[entry.confidence]}`}
+                title={`VDOT ${formatEffortTime(entry.vdotTime)}, Riegel ${formatEffortTime(entry.riegelTime)} from ${entry.source.runName}`}
+              >
+                {entry.confidence} confidence
+              </Badge>
+              <div className="text-xs text-gray-400">
+                {entry.source.label}, {entry.source.ageDays === 0 ? "today" : `${entry.source.ageDays}d ago`}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <div className="text-sm font-medium text-gray-700 mb-2">Training paces</div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {bands.map(band => (
+              <div key={band} className="text-center p-3 rounded-lg bg-gray-50">
+                <div className={`text-lg font-bold ${PACE_BAND_COLORS[band]}`}>
+                  {formatPace(prediction.paceBands[band].fast)}–{formatPace(prediction.paceBands[band].slow)}
+                </div>
+                <div className="text-xs text-gray-600">{PACE_BAND_LABELS[band]} /km</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
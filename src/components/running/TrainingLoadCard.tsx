@@ -0,0 +1,205 @@
+import { useEffect, useRef } from "react";
+import Chart, { Plugin } from "chart.js/auto";
+import { Activity, AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ACUTE_LOAD_DAYS, ACWR_BANDS, CHRONIC_LOAD_DAYS, TrainingLoad } from "@/lib/trainingLoad";
+import { formatPace } from "@/lib/runClassifier";
+import { useTrainingLoad } from "@/hooks/useTrainingLoad";
+import { cn } from "@/lib/utils";
+
+const RISK_BADGE_CLASSES = {
+  low: "bg-blue-100 text-blue-700",
+  optimal: "bg-green-100 text-green-700",
+  caution: "bg-amber-100 text-amber-700",
+  high: "bg-red-100 text-red-700"
+};
+
+const ACWR_AXIS_MAX = 2;
+
+const formatShortDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+// Shades the ACWR injury-risk bands behind the chart, on the ratio axis
+const acwrBandsPlugin: Plugin<"line"> = {
+  id: "acwrBands",
+  beforeDatasetsDraw(chart) {
+    const { ctx, chartArea, scales } = chart;
+    const ratioScale = scales.ratio;
+    if (!ratioScale) return;
+    ctx.save();
+    ACWR_BANDS.forEach(band => {
+      const top = ratioScale.getPixelForValue(Math.min(band.max, ACWR_AXIS_MAX));
+      const bottom = ratioScale.getPixelForValue(band.min);
+      ctx.fillStyle = band.color;
+      ctx.fillRect(chartArea.left, top, chartArea.right - chartArea.left, bottom - top);
+    });
+    ctx.restore();
+  }
+};
+
+function TrainingLoadChart({ load }: { load: TrainingLoad }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+
+    const chart = new Chart(ctx, {
+      type: "line",
+      data: {
+        labels: load.days.map(day => formatShortDate(day.date)),
+        datasets: [
+          {
+            label: `Fitness (CTL ${CHRONIC_LOAD_DAYS}d)`,
+            data: load.days.map(day => day.ctl),
+            borderColor: "rgb(59, 130, 246)",
+            backgroundColor: "rgba(59, 130, 246, 0.1)",
+            pointRadius: 0,
+            tension: 0.3
+          },
+          {
+            label: `Fatigue (ATL ${ACUTE_LOAD_DAYS}d)`,
+            data: load.days.map(day => day.atl),
+            borderColor: "rgb(236, 72, 153)",
+            pointRadius: 0,
+            tension: 0.3
+          },
+          {
+            label: "Form (TSB)",
+            data: load.days.map(day => day.tsb),
+            borderColor: "rgb(234, 179, 8)",
+            borderDash: [4, 4],
+            pointRadius: 0,
+            tension: 0.3
+          },
+          {
+            label: "Acute:chronic ratio",
+            data: load.days.map(day => day.acwr),
+            borderColor: "rgb(16, 185, 129)",
+            pointRadius: 0,
+            spanGaps: true,
+            yAxisID: "ratio",
+            tension: 0.3
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: "index", intersect: false },
+        scales: {
+          y: { title: { display: true, text: "Load (TRIMP/day)" } },
+          ratio: {
+            position: "right",
+            min: 0,
+            max: ACWR_AXIS_MAX,
+            title: { display: true, text: "ACWR" },
+            grid: { drawOnChartArea: false }
+          }
+        }
+      },
+      plugins: [acwrBandsPlugin]
+    });
+
+    return () => chart.destroy();
+  }, [load]);
+
+  return (
+    <div className="h-72">
+      <canvas ref={canvasRef} className="w-full h-full"></canvas>
+    </div>
+  );
+}
+
+/**
+ * Training load from heart rate (or pace) over the last three months: fitness,
+ * fatigue and form, with the acute:chronic ratio against its injury-risk bands.
+ */
+export function TrainingLoadCard() {
+  const { load, loading, error } = useTrainingLoad();
+
+  if (loading) {
+    return (
+      <Card className="bg-white/80 backdrop-blur-sm">
+        <CardContent className="p-6 space-y-3">
+          <Skeleton className="h-6 w-1/3" />
+          <Skeleton className="h-64 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !load?.current) {
+    return (
+      <Card className="bg-white/80 backdrop-blur-sm">
+        <CardContent className="p-6 text-sm text-gray-600">
+          {error ? "Couldn't load training history." : "No Strava activities in the last few months to build a training load from."}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { current } = load;
+  const band = ACWR_BANDS.find(entry => entry.risk === load.risk);
+  const paceBased = load.impulses.filter(impulse => impulse.source === "pace").length;
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 flex-wrap">
+          <Activity className="h-5 w-5 text-blue-600" />
+          Training Load
+          {band && load.risk && (
+            <Badge variant="secondary" className={cn("ml-2 text-xs", RISK_BADGE_CLASSES[load.risk])}>
+              {(load.risk === "caution" || load.risk === "high") && <AlertTriangle className="h-3 w-3 mr-1" />}
+              {band.label}
+            </Badge>
+          )}
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          Banister TRIMP from heart rate (max {load.maxHeartRate}, resting {load.restingHeartRate} bpm)
+          {paceBased > 0 ? `, ${paceBased} runs without heart rate estimated from pace against ${formatPace(load.easyPace)}/km easy` : ""}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="p-3 bg-blue-50 rounded-lg">
+            <div className="text-xs text-gray-500">Fitness (CTL)</div>
+            <div className="text-2xl font-bold text-blue-700">{current.ctl}</div>
+            <div className="text-xs text-gray-500">{CHRONIC_LOAD_DAYS}-day load</div>
+          </div>
+          <div className="p-3 bg-pink-50 rounded-lg">
+            <div className="text-xs text-gray-500">Fatigue (ATL)</div>
+            <div className="text-2xl font-bold text-pink-700">{current.atl}</div>
+            <div className="text-xs text-gray-500">{ACUTE_LOAD_DAYS}-day load</div>
+          </div>
+          <div className="p-3 bg-yellow-50 rounded-lg">
+            <div className="text-xs text-gray-500">Form (TSB)</div>
+            <div className={cn("text-2xl font-bold", current.tsb < -10 ? "text-red-600" : "text-yellow-700")}>
+              {current.tsb > 0 ? `+${current.tsb}` : current.tsb}
+            </div>
+            <div className="text-xs text-gray-500">Fitness minus fatigue</div>
+          </div>
+          <div className="p-3 bg-emerald-50 rounded-lg">
+            <div className="text-xs text-gray-500">Acute:chronic</div>
+            <div className="text-2xl font-bold text-emerald-700">{current.acwr ?? "--"}</div>
+            <div className="text-xs text-gray-500">0.8–1.3 is the sweet spot</div>
+          </div>
+        </div>
+
+        <TrainingLoadChart load={load} />
+
+        <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+          {ACWR_BANDS.map(entry => (
+            <span key={entry.risk} className="flex items-center gap-1">
+              <span className="inline-block h-3 w-3 rounded-sm border" style={{ backgroundColor: entry.color }} />
+              {entry.label} ({entry.max === Infinity ? `>${entry.min}` : `${entry.min}–${entry.max}`})
+            </span>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,40 @@
+// Body composition from the latest DEXA scan. Shown on BodyJam and used by the
+// energy balance model for BMR (Katch-McArdle needs the fat-free mass).
+
+export type BiologicalSex = "male" | "female";
+
+export interface BodyCompositionScan {
+  weightKg: number;
+  heightCm: number;
+  age: number; // years
+  sex: BiologicalSex;
+  bodyFatPercent: number;
+  fatMassKg: number;
+  leanMassKg: number; // Lean soft tissue, excluding bone
+  boneMassKg: number;
+  rmrKcal: number; // Resting metabolic rate estimated by the scan
+}
+
+export const LATEST_BODY_COMPOSITION: BodyCompositionScan = {
+  weightKg: 68.2,
+  heightCm: 170,
+  age: 28.1,
+  sex: "male",
+  bodyFatPercent: 21.2,
+  fatMassKg: 14.5,
+  leanMassKg: 50.7,
+  boneMassKg: 3.0,
+  rmrKcal: 1472
+};
+
+export const PREVIOUS_BODY_COMPOSITION: BodyCompositionScan = {
+  weightKg: 72.9,
+  heightCm: 170,
+  age: 27.8,
+  sex: "male",
+  bodyFatPercent: 25.7,
+  fatMassKg: 18.7,
+  leanMassKg: 51.1,
+  boneMassKg: 3.1,
+  rmrKcal: 1479
+};
@@ -0,0 +1,210 @@
+// Combined meals: fixed sets of foods with their macros snapshotted per serving.
+// Shown as presets in NutritionJam and used as building blocks in the meal planner.
+
+export interface CombinedMealFood {
+  foodId: string; // Food name in the catalog
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  quantity: number; // Servings
+  unit: string;
+}
+
+export interface CombinedMeal {
+  id: number;
+  name: string;
+  foods: CombinedMealFood[];
+}
+
+export interface DailyMealPlan {
+  id: number;
+  day: string;
+  meals: string[]; // Combined meal names
+  description: string;
+}
+
+export const combinedMeals: CombinedMeal[] = [
+  {
+    id: 1,
+    name: "Morning Smoothie",
+    foods: [
+      { foodId: "Oats, Quaker", calories: 163, protein: 4.7, carbs: 27.4, fat: 3.8, fiber: 4.0, quantity: 1, unit: "serving" },
+      { foodId: "Omani Dates, Happilo", calories: 68, protein: 0.6, carbs: 18.0, fat: 0.1, fiber: 1.9, quantity: 1, unit: "serving" },
+      { foodId: "Almonds", calories: 37, protein: 1.3, carbs: 1.3, fat: 3, fiber: 0.8, quantity: 1, unit: "serving" },
+      { foodId: "Raw Whey Protein, Unflavoured", calories: 178, protein: 35.6, carbs: 3.5, fat: 2.4, fiber: 0.4, quantity: 1, unit: "serving" },
+      { foodId: "Nutty Gritties Super Seeds Mix", calories: 64, protein: 2.4, carbs: 1.1, fat: 4.9, fiber: 1.6, quantity: 1, unit: "serving" },
+      { foodId: "Slim n Trim Skimmed Milk, Amul", calories: 35, protein: 3.5, carbs: 5.0, fat: 0.1, fiber: 0.0, quantity: 1, unit: "serving" },
+      { foodId: "Walnut", calories: 40, protein: 0.9, carbs: 0.6, fat: 3.9, fiber: 0.3, quantity: 1, unit: "serving" },
+      { foodId: "Blueberries", calories: 68, protein: 0.9, carbs: 17.4, fat: 0.4, fiber: 2.9, quantity: 1, unit: "serving" }
+    ]
+  },
+  {
+    id: 2,
+    name: "Evening Smoothie",
+    foods: [
+      { foodId: "Cocoa Whey Protein, The Whole Truth", calories: 191, protein: 34.1, carbs: 8.6, fat: 2.1, fiber: 2.1, quantity: 1, unit: "serving" },
+      { foodId: "Oats, Quaker", calories: 163, protein: 4.7, carbs: 27.4, fat: 3.8, fiber: 4.0, quantity: 1, unit: "serving" },
+      { foodId: "Slim n Trim Skimmed Milk, Amul", calories: 35, protein: 3.5, carbs: 5.0, fat: 0.1, fiber: 0.0, quantity: 1, unit: "serving" }
+    ]
+  },
+  {
+    id: 3,
+    name: "Bread Pizza",
+    foods: [
+      { foodId: "Capsicum Tomato Onion", calories: 77, protein: 1.3, carbs: 7.0, fat: 5.2, fiber: 2.5, quantity: 1, unit: "serving" },
+      { foodId: "100% Whole Wheat Bread, Britannia", calories: 67, protein: 2.2, carbs: 13.8, fat: 0.6, fiber: 1.1, quantity: 4, unit: "slices" },
+      { foodId: "Knorr Pizza and Pasta Sauce", calories: 33, protein: 0.5, carbs: 5.6, fat: 1.0, fiber: 0.4, quantity: 1.25, unit: "serving" },
+      { foodId: "Amul Cheese Slice", calories: 62, protein: 4.0, carbs: 0.3, fat: 5.0, fiber: 0.0, quantity: 4, unit: "slices" }
+    ]
+  },
+  {
+    id: 4,
+    name: "Aloo Beans Dal Roti",
+    foods: [
+      { foodId: "Roti", calories: 122, protein: 4.3, carbs: 24.8, fat: 0.6, fiber: 3.8, quantity: 1, unit: "serving" },
+      { foodId: "Aloo Beans", calories: 93, protein: 1.9, carbs: 11.5, fat: 4.5, fiber: 2.7, quantity: 1, unit: "serving" },
+      { foodId: "Dal", calories: 115, protein: 6.8, carbs: 17.7, fat: 1.9, fiber: 2.8, quantity: 1, unit: "serving" }
+    ]
+  },
+  {
+    id: 5,
+    name: "Paneer Chilla",
+    foods: [
+      { foodId: "Green Moong Dal Cheela", calories: 363, protein: 19, carbs: 44.3, fat: 12.3, fiber: 13.6, quantity: 1, unit: "serving" },
+      { foodId: "Low Fat Paneer, Milky Mist", calories: 204, protein: 25.0, carbs: 5.8, fat: 9.0, fiber: 0.0, quantity: 0.5, unit: "serving" }
+    ]
+  },
+  {
+    id: 6,
+    name: "Bhindi Dal Roti",
+    foods: [
+      { foodId: "Bhindi Fry", calories: 83, protein: 1.3, carbs: 5.5, fat: 6.3, fiber: 2.3, quantity: 1, unit: "serving" },
+      { foodId: "Dal", calories: 115, protein: 6.8, carbs: 17.7, fat: 1.9, fiber: 2.8, quantity: 1, unit: "serving" },
+      { foodId: "Roti", calories: 122, protein: 4.3, carbs: 24.8, fat: 0.6, fiber: 3.8, quantity: 1, unit: "serving" }
+    ]
+  },
+  {
+    id: 7,
+    name: "Matar Paneer",
+    foods: [
+      { foodId: "Mixed Vegetable Sabzi", calories: 28, protein: 0.7, carbs: 3.6, fat: 1.2, fiber: 1.4, quantity: 2, unit: "servings" },
+      { foodId: "Low Fat Paneer, Milky Mist", calories: 204, protein: 25.0, carbs: 5.8, fat: 9.0, fiber: 0.0, quantity: 1, unit: "serving" },
+      { foodId: "Roti", calories: 122, protein: 4.3, carbs: 24.8, fat: 0.6, fiber: 3.8, quantity: 1, unit: "serving" }
+    ]
+  },
+  {
+    id: 8,
+    name: "Paneer Pasta",
+    foods: [
+      {
+        foodId: "Zucchini Bell Pepper Salad",
+        calories: 48,
+        protein: 1.0,
+        carbs: 1.7,
+        fat: 4.4,
+        fiber: 0.6,
+        quantity: 1,
+        unit: "serving"
+      },
+      {
+        foodId: "Durum Wheat Pasta, Borges",
+        calories: 157,
+        protein: 5.6,
+        carbs: 32.4,
+        fat: 0.6,
+        fiber: 1.1,
+        quantity: 1,
+        unit: "serving"
+      },
+      {
+        foodId: "High Protein Low Fat Paneer, Milky Mist",
+        calories: 204,
+        protein: 25.0,
+        carbs: 5.8,
+        fat: 9.0,
+        fiber: 0.0,
+        quantity: 1,
+        unit: "serving"
+      }
+    ]
+  },
+  {
+    id: 9,
+    name: "Dosa Sambhar",
+    foods: [
+      { foodId: "Dosa", calories: 368, protein: 8.9, carbs: 56.5, fat: 11.8, fiber: 3.1, quantity: 1, unit: "serving" },
+      { foodId: "Sambhar", calories: 228, protein: 11, carbs: 32.4, fat: 6.0, fiber: 7.4, quantity: 1, unit: "serving" }
+    ]
+  },
+  {
+    id: 10,
+    name: "Dal Rice",
+    foods: [
+      { foodId: "Dal", calories: 115, protein: 6.8, carbs: 17.7, fat: 1.9, fiber: 2.8, quantity: 1, unit: "serving" },
+      { foodId: "White Rice", calories: 97, protein: 2.1, carbs: 21.5, fat: 0.3, fiber: 0.4, quantity: 1, unit: "serving" }
+    ]
+  },
+  {
+    id: 11,
+    name: "Low Fat Paneer Paratha",
+    foods: [
+      { foodId: "Low Fat Paneer Paratha", calories: 445, protein: 26.4, carbs: 40.4, fat: 20.0, fiber: 5.8, quantity: 1, unit: "serving" }
+    ]
+  },
+  {
+    id: 12,
+    name: "100% Whole Wheat Bread (2 servings)",
+    foods: [
+      { foodId: "100% Whole Wheat Bread, Britannia", calories: 67, protein: 2.2, carbs: 13.8, fat: 0.6, fiber: 1.1, quantity: 2, unit: "servings" }
+    ]
+  },
+  {
+    id: 13,
+    name: "Bhaji of Pav Bhaji",
+    foods: [
+      { foodId: "Bhaji of Pav Bhaji", calories: 137, protein: 2.3, carbs: 16.8, fat: 6.9, fiber: 2.1, quantity: 1, unit: "serving" }
+    ]
+  }
+];
+
+// Default weekly plan (Monday-Saturday), used to fill a new week in the meal planner
+export const defaultDailyMealPlans: DailyMealPlan[] = [
+  {
+    id: 1,
+    day: "Monday",
+    meals: ["Morning Smoothie", "Evening Smoothie", "Bhindi Dal Roti", "Paneer Chilla"],
+    description: "High protein day with smoothies and traditional Indian meals"
+  },
+  {
+    id: 2,
+    day: "Tuesday", 
+    meals: ["Morning Smoothie", "Evening Smoothie", "Matar Paneer", "Dosa Sambhar"],
+    description: "Balanced day with smoothies and South Indian cuisine"
+  },
+  {
+    id: 3,
+    day: "Wednesday",
+    meals: ["Morning Smoothie", "Evening Smoothie", "Low Fat Paneer Paratha", "Dal Rice"],
+    description: "Protein-rich day with paratha and dal rice"
+  },
+  {
+    id: 4,
+    day: "Thursday",
+    meals: ["Morning Smoothie", "Evening Smoothie", "Matar Paneer","Bhaji of Pav Bhaji", "100% Whole Wheat Bread (2 servings)"],
+    description: "Street food inspired day with nutritious options"
+  },
+  {
+    id: 5,
+    day: "Friday",
+    meals: ["Morning Smoothie", "Evening Smoothie", "Paneer Pasta", "Aloo Beans Dal Roti"],
+    description: "Fusion day with Italian and Indian flavors"
+  },
+  {
+    id: 6,
+    day: "Saturday",
+    meals: ["Morning Smoothie", "Evening Smoothie", "Low Fat Paneer Paratha", "Bread Pizza"],
+    description: "Weekend indulgence with healthy twists"
+  }
+];
@@ -295,7 +295,7 @@ export const vegetarianFoods: FoodItem[] = [
 },
   {
   name: "Lotus Biscoff Cheesecake",
-  servingSize: 50,
+  servingSize: "50g",
   calories: 198,
   protein: 2,
   fat : 15.3,
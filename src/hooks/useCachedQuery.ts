@@ -0,0 +1,22 @@
+// Shared react-query wrapper for data loaded once into the shared cache and revalidated
+// in the background once stale; the previous result stays on screen meanwhile.
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+
+export const useCachedQuery = <T>(queryKey: string, load: () => Promise<T>, staleTime: number) => {
+  const { data, isLoading, isError, refetch } = useQuery<T>({
+    queryKey: [queryKey],
+    queryFn: load,
+    staleTime,
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    data: data ?? null,
+    loading: isLoading,
+    error: isError,
+    refetch,
+  };
+};
+
+export default useCachedQuery;
@@ -0,0 +1,12 @@
+// React hook for the energy balance model: BMR, TDEE and balance over the last four
+// weeks, calibrated against weigh-ins, with a projected weight trend.
+
+import { ENERGY_BALANCE_QUERY_KEY, ENERGY_BALANCE_STALE_TIME, loadEnergyBalance } from '@/lib/energyBalance';
+import { useCachedQuery } from './useCachedQuery';
+
+export const useEnergyBalance = () => {
+  const { data, loading, refetch } = useCachedQuery(ENERGY_BALANCE_QUERY_KEY, loadEnergyBalance, ENERGY_BALANCE_STALE_TIME);
+  return { balance: data, loading, refetch };
+};
+
+export default useEnergyBalance;
@@ -0,0 +1,44 @@
+// React hook for the merged food catalog (built-in seed + Firestore custom foods + recipes)
+// Loads custom foods once and re-renders subscribers whenever the catalog changes
+
+import { useState, useEffect, useCallback } from 'react';
+import { FoodItem, Recipe } from '@/types/nutrition';
+import {
+  getFoodCatalog,
+  getRecipes,
+  isFoodCatalogLoaded,
+  loadFoodCatalog,
+  subscribeToFoodCatalog,
+} from '@/lib/foodCatalog';
+
+export interface UseFoodCatalogOptions {
+  includeArchived?: boolean;
+}
+
+export const useFoodCatalog = (options: UseFoodCatalogOptions = {}) => {
+  const { includeArchived = false } = options;
+
+  const [foods, setFoods] = useState<FoodItem[]>(() => getFoodCatalog({ includeArchived }));
+  const [recipes, setRecipes] = useState<Recipe[]>(() => getRecipes());
+  const [loading, setLoading] = useState<boolean>(!isFoodCatalogLoaded());
+
+  useEffect(() => {
+    const sync = () => {
+      setFoods(getFoodCatalog({ includeArchived }));
+      setRecipes(getRecipes());
+      setLoading(!isFoodCatalogLoaded());
+    };
+
+    const unsubscribe = subscribeToFoodCatalog(sync);
+    sync();
+    loadFoodCatalog();
+
+    return unsubscribe;
+  }, [includeArchived]);
+
+  const refresh = useCallback(() => loadFoodCatalog(true), []);
+
+  return { foods, recipes, loading, refresh };
+};
+
+export default useFoodCatalog;
@@ -0,0 +1,106 @@
+// React hook for the shared food search: ranked results for a query, favourites and
+// keyboard navigation. Usage history comes from the cached nutrition logs.
+
+import { useMemo, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { FoodItem } from '@/types/nutrition';
+import { getLastDaysRange } from '@/lib/nutritionUtils';
+import { queryClient } from '@/lib/queryClient';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  FOOD_USAGE_DAYS,
+  buildFoodUsage,
+  getFoodKey,
+  loadFoodFavourites,
+  searchFoods,
+  setFoodFavourite,
+} from '@/lib/foodSearch';
+import { useFoodCatalog } from './useFoodCatalog';
+import { useNutritionLogs } from './useNutritionLogs';
+import { toast } from 'sonner';
+
+const FOOD_FAVOURITES_QUERY_KEY = ['foodFavourites'];
+
+export interface UseFoodSearchOptions {
+  limit?: number;
+  onSelect: (food: FoodItem) => void;
+  onClose?: () => void;
+}
+
+export const useFoodSearch = (query: string, { limit = DEFAULT_SEARCH_LIMIT, onSelect, onClose }: UseFoodSearchOptions) => {
+  const { foods } = useFoodCatalog();
+  const { logs } = useNutritionLogs(getLastDaysRange(FOOD_USAGE_DAYS));
+  const { data: favouriteKeys } = useQuery<string[]>({
+    queryKey: FOOD_FAVOURITES_QUERY_KEY,
+    queryFn: loadFoodFavourites,
+    staleTime: Infinity,
+  });
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [activeQuery, setActiveQuery] = useState(query);
+
+  // The highlighted row goes back to the top whenever the query changes
+  if (activeQuery !== query) {
+    setActiveQuery(query);
+    setActiveIndex(0);
+  }
+
+  const usage = useMemo(() => buildFoodUsage(logs), [logs]);
+  const favourites = useMemo(() => new Set(favouriteKeys || []), [favouriteKeys]);
+  const results = useMemo(
+    () => searchFoods(foods, query, { usage, favourites, limit }),
+    [foods, query, usage, favourites, limit]
+  );
+
+  const toggleFavourite = async (food: FoodItem) => {
+    const key = getFoodKey(food);
+    const favourite = !favourites.has(key);
+    const previous = favouriteKeys || [];
+    queryClient.setQueryData<string[]>(FOOD_FAVOURITES_QUERY_KEY, favourite
+      ? [...previous, key]
+      : previous.filter(existing => existing !== key));
+    try {
+      await setFoodFavourite(key, favourite);
+    } catch (error) {
+      console.error('Error saving favourite food:', error);
+      queryClient.setQueryData<string[]>(FOOD_FAVOURITES_QUERY_KEY, previous);
+      toast.error('Failed to update favourites');
+    }
+  };
+
+  // Arrow keys move through the results, Enter picks one, Escape closes the list.
+  // Returns true when the key was handled.
+  const handleKeyDown = (event: KeyboardEvent): boolean => {
+    if (event.key === 'ArrowDown' && results.length > 0) {
+      event.preventDefault();
+      setActiveIndex(index => (index + 1) % results.length);
+      return true;
+    }
+    if (event.key === 'ArrowUp' && results.length > 0) {
+      event.preventDefault();
+      setActiveIndex(index => (index - 1 + results.length) % results.length);
+      return true;
+    }
+    if (event.key === 'Enter' && results[activeIndex]) {
+      event.preventDefault();
+      onSelect(results[activeIndex].food);
+      return true;
+    }
+    if (event.key === 'Escape') {
+      onClose?.();
+      return true;
+    }
+    return false;
+  };
+
+  return {
+    results,
+    activeIndex,
+    setActiveIndex,
+    handleKeyDown,
+    toggleFavourite,
+    isSearching: query.trim().length > 0,
+  };
+};
+
+export default useFoodSearch;
@@ -0,0 +1,24 @@
+// React hook for a day's fluid target: body-weight baseline plus estimated sweat loss
+// from the day's runs. Run temperatures are read through the shared cache.
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { TrainingActivity } from '@/lib/nutritionTargets';
+import { TRAINING_DAYS_STALE_TIME } from '@/lib/trainingDays';
+import { HydrationTarget, loadHydrationTarget } from '@/lib/hydration';
+
+export const useHydrationTarget = (date: string, activities: TrainingActivity[]) => {
+  const runIds = activities.map(activity => String(activity.id ?? ''));
+  const { data, isLoading } = useQuery<HydrationTarget>({
+    queryKey: ['hydrationTarget', date, ...runIds],
+    queryFn: () => loadHydrationTarget(activities),
+    staleTime: TRAINING_DAYS_STALE_TIME,
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    target: data || null,
+    loading: isLoading,
+  };
+};
+
+export default useHydrationTarget;
@@ -0,0 +1,31 @@
+// React hook for nutrition logs in a date range, backed by the shared react-query cache.
+// Cached ranges render immediately and are revalidated in the background once stale.
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { DailyLog } from '@/types/nutrition';
+import {
+  NUTRITION_LOGS_STALE_TIME,
+  NutritionDateRange,
+  loadNutritionLogsForRange,
+  nutritionLogsQueryKey,
+} from '@/lib/nutritionUtils';
+
+export const useNutritionLogs = (range: NutritionDateRange) => {
+  const { data, isLoading, isFetching, error, refetch } = useQuery<DailyLog[]>({
+    queryKey: nutritionLogsQueryKey(range),
+    queryFn: () => loadNutritionLogsForRange(range),
+    staleTime: NUTRITION_LOGS_STALE_TIME,
+    // Keep showing the previous range while a wider one loads
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    logs: data || [],
+    loading: isLoading,
+    refreshing: isFetching && !isLoading,
+    error,
+    refetch,
+  };
+};
+
+export default useNutritionLogs;
@@ -0,0 +1,22 @@
+// React hook for the signed-in user and whether they carry the owner claim.
+
+import { useEffect, useState } from 'react';
+import { User, onAuthStateChanged } from 'firebase/auth';
+import { auth } from '@/lib/firebase';
+import { isOwner } from '@/lib/ownerAuth';
+
+export const useOwnerAuth = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [owner, setOwner] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => onAuthStateChanged(auth, async (nextUser) => {
+    setUser(nextUser);
+    setOwner(await isOwner(nextUser).catch(() => false));
+    setLoading(false);
+  }), []);
+
+  return { user, owner, loading };
+};
+
+export default useOwnerAuth;
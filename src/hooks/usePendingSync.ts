@@ -0,0 +1,45 @@
+// React hook for the offline write queue: how many nutrition logs are waiting to sync.
+// Flushes the queue on mount and whenever the browser comes back online.
+
+import { useState, useEffect, useCallback } from 'react';
+import { SyncStatus, getSyncStatus, subscribeToSyncStatus } from '@/lib/offlineQueue';
+import { syncPendingLogs } from '@/lib/nutritionUtils';
+
+export const usePendingSync = () => {
+  const [status, setStatus] = useState<SyncStatus>(() => getSyncStatus());
+  const [online, setOnline] = useState<boolean>(() => typeof navigator === 'undefined' || navigator.onLine);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToSyncStatus(setStatus);
+    const handleOnline = () => {
+      setOnline(true);
+      syncPendingLogs();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    syncPendingLogs();
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const retry = useCallback(() => syncPendingLogs(), []);
+
+  return {
+    pendingCount: status.pendingDates.length,
+    pendingDates: status.pendingDates,
+    syncing: status.syncing,
+    lastError: status.lastError,
+    accessDenied: status.accessDenied,
+    mergedDates: status.mergedDates,
+    online,
+    retry
+  };
+};
+
+export default usePendingSync;
@@ -0,0 +1,12 @@
+// React hook for the personal records registry: all-time and 365-day bests per
+// standard distance, their progression and the records set in the last month.
+
+import { PERSONAL_RECORDS_QUERY_KEY, PERSONAL_RECORDS_STALE_TIME, loadPersonalRecords } from '@/lib/personalRecords';
+import { useCachedQuery } from './useCachedQuery';
+
+export const usePersonalRecords = () => {
+  const { data, loading, error } = useCachedQuery(PERSONAL_RECORDS_QUERY_KEY, loadPersonalRecords, PERSONAL_RECORDS_STALE_TIME);
+  return { registry: data, loading, error };
+};
+
+export default usePersonalRecords;
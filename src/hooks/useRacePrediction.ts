@@ -0,0 +1,12 @@
+// React hook for race predictions: 5K to marathon times from VDOT and Riegel with their
+// confidence, and the easy/tempo/threshold/interval pace bands.
+
+import { RACE_PREDICTION_QUERY_KEY, RACE_PREDICTION_STALE_TIME, loadRacePrediction } from '@/lib/racePrediction';
+import { useCachedQuery } from './useCachedQuery';
+
+export const useRacePrediction = () => {
+  const { data, loading, error } = useCachedQuery(RACE_PREDICTION_QUERY_KEY, loadRacePrediction, RACE_PREDICTION_STALE_TIME);
+  return { prediction: data, loading, error };
+};
+
+export default useRacePrediction;
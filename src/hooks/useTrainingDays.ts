@@ -0,0 +1,28 @@
+// React hook for training days (day type + nutrition targets per date) in a date range.
+// Days without Strava data fall back to rest-day targets.
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { NutritionDateRange } from '@/lib/nutritionUtils';
+import {
+  TRAINING_DAYS_STALE_TIME,
+  TrainingDay,
+  buildTrainingDays,
+  loadTrainingDays,
+  trainingDaysQueryKey,
+} from '@/lib/trainingDays';
+
+export const useTrainingDays = (range: NutritionDateRange) => {
+  const { data, isLoading } = useQuery<Record<string, TrainingDay>>({
+    queryKey: trainingDaysQueryKey(range),
+    queryFn: () => loadTrainingDays(range),
+    staleTime: TRAINING_DAYS_STALE_TIME,
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    days: data || buildTrainingDays(range, []),
+    loading: isLoading,
+  };
+};
+
+export default useTrainingDays;
@@ -0,0 +1,12 @@
+// React hook for the training load model: daily TRIMP with acute and chronic loads,
+// form and the acute:chronic ratio over the last few months of Strava activities.
+
+import { TRAINING_LOAD_QUERY_KEY, TRAINING_LOAD_STALE_TIME, loadTrainingLoad } from '@/lib/trainingLoad';
+import { useCachedQuery } from './useCachedQuery';
+
+export const useTrainingLoad = () => {
+  const { data, loading, error } = useCachedQuery(TRAINING_LOAD_QUERY_KEY, loadTrainingLoad, TRAINING_LOAD_STALE_TIME);
+  return { load: data, loading, error };
+};
+
+export default useTrainingLoad;
@@ -0,0 +1,12 @@
+// React hook for time in heart-rate zones per run and per week over the last
+// couple of months, with the easy/hard (80/20) split.
+
+import { ZONE_DISTRIBUTION_QUERY_KEY, ZONE_DISTRIBUTION_STALE_TIME, loadZoneDistribution } from '@/lib/zoneDistribution';
+import { useCachedQuery } from './useCachedQuery';
+
+export const useZoneDistribution = () => {
+  const { data, loading, error } = useCachedQuery(ZONE_DISTRIBUTION_QUERY_KEY, loadZoneDistribution, ZONE_DISTRIBUTION_STALE_TIME);
+  return { distribution: data, loading, error };
+};
+
+export default useZoneDistribution;
@@ -0,0 +1,169 @@
+import { AutoFillRule, AutoFillSource, DailyLog, FoodEntry, MealSlot } from "@/types/nutrition";
+import { calculateTotals, loadDailyLogFromFirestore } from "./nutritionUtils";
+import { saveDailyLogWithRevision } from "./logRevisions";
+import { formatConsumedTime, buildConsumedAt } from "./mealSlots";
+import { slugifyFoodName } from "./foodCatalog";
+import { db } from "./firebase";
+import { collection, deleteDoc, doc, getDocs, setDoc } from "firebase/firestore";
+
+// Auto-fill copies foods into a day from a rule the user picks: yesterday, the same weekday
+// last week or a saved template, limited to chosen meal slots. Nothing is copied until the
+// preview is confirmed.
+
+export const AUTO_FILL_SOURCE_LABELS: Record<AutoFillSource, string> = {
+  yesterday: "Yesterday",
+  "last-week": "Same weekday last week",
+  template: "Saved template"
+};
+
+export const ALL_WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+export const WEEKDAY_SHORT_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Built-in rules. Editing one saves an override under the same ID.
+export const DEFAULT_AUTO_FILL_RULES: AutoFillRule[] = [
+  { id: "yesterday", name: "Copy yesterday", source: "yesterday", mealSlots: null, weekdays: ALL_WEEKDAYS },
+  { id: "last-week", name: "Same weekday last week", source: "last-week", mealSlots: null, weekdays: ALL_WEEKDAYS }
+];
+
+export interface AutoFillPreview {
+  rule: AutoFillRule;
+  sourceDate: string | null; // null for templates
+  entries: FoodEntry[]; // Entries that will be added, already dated for the target day
+  excludedBySlot: number; // Source entries left out by the rule's meal slots
+  totals: DailyLog["totals"];
+}
+
+const rulesCollectionRef = collection(db, "autoFillRules");
+
+const shiftDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00`);
+  shifted.setDate(shifted.getDate() + days);
+  return `${shifted.getFullYear()}-${String(shifted.getMonth() + 1).padStart(2, "0")}-${String(shifted.getDate()).padStart(2, "0")}`;
+};
+
+export function isDefaultAutoFillRule(id: string): boolean {
+  return DEFAULT_AUTO_FILL_RULES.some(rule => rule.id === id);
+}
+
+export function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00`).getDay();
+}
+
+export function getRuleSourceDate(rule: AutoFillRule, date: string): string | null {
+  if (rule.source === "yesterday") return shiftDate(date, -1);
+  if (rule.source === "last-week") return shiftDate(date, -7);
+  return null;
+}
+
+// Rules suggested for a date, in the order they were saved
+export function getRulesForDate(rules: AutoFillRule[], date: string): AutoFillRule[] {
+  const weekday = getWeekday(date);
+  return rules.filter(rule => rule.weekdays.includes(weekday));
+}
+
+export function describeMealSlots(mealSlots: MealSlot[] | null): string {
+  return mealSlots === null ? "All meals" : mealSlots.join(", ") || "No meals";
+}
+
+const isInMealSlots = (entry: FoodEntry, mealSlots: MealSlot[] | null) =>
+  mealSlots === null || (!!entry.mealSlot && mealSlots.includes(entry.mealSlot));
+
+// Copy an entry onto another day: new log timestamp, same time of day, same macro snapshot
+function copyEntryToDate(entry: FoodEntry, date: string, index: number): FoodEntry {
+  const copied: FoodEntry = { ...entry, timestamp: new Date(Date.now() + index).toISOString() };
+  const time = formatConsumedTime(entry.consumedAt);
+  if (time) {
+    copied.consumedAt = buildConsumedAt(date, time);
+  } else {
+    delete copied.consumedAt;
+  }
+  return copied;
+}
+
+// Work out what a rule would add to a day, without writing anything. The meal slots
+// can be changed for a single day without editing the rule.
+export async function buildAutoFillPreview(
+  rule: AutoFillRule,
+  date: string,
+  mealSlots: MealSlot[] | null = rule.mealSlots
+): Promise<AutoFillPreview> {
+  const sourceDate = getRuleSourceDate(rule, date);
+  let sourceEntries: FoodEntry[] = rule.templateEntries || [];
+  if (sourceDate) {
+    const sourceLog = await loadDailyLogFromFirestore(sourceDate);
+    sourceEntries = sourceLog?.entries || [];
+  }
+
+  const included = sourceEntries.filter(entry => isInMealSlots(entry, mealSlots));
+  const entries = included.map((entry, index) => copyEntryToDate(entry, date, index));
+
+  return {
+    rule,
+    sourceDate,
+    entries,
+    excludedBySlot: sourceEntries.length - included.length,
+    totals: calculateTotals(entries)
+  };
+}
+
+// Add a previewed auto-fill to the day's existing entries
+export async function applyAutoFill(preview: AutoFillPreview, current: DailyLog): Promise<DailyLog> {
+  const entries = [...current.entries, ...preview.entries];
+  const updatedLog: DailyLog = {
+    ...current,
+    entries,
+    totals: calculateTotals(entries),
+    lastUpdated: new Date().toISOString()
+  };
+  await saveDailyLogWithRevision(updatedLog, {
+    action: "auto-fill",
+    previous: current,
+    summary: `Auto-filled ${preview.entries.length} foods from ${preview.sourceDate || preview.rule.name}`
+  });
+  return updatedLog;
+}
+
+// Template entries keep what was eaten, not when it was logged
+export function toTemplateEntries(entries: FoodEntry[], mealSlots: MealSlot[] | null): FoodEntry[] {
+  return entries
+    .filter(entry => isInMealSlots(entry, mealSlots))
+    .map(entry => JSON.parse(JSON.stringify(entry)));
+}
+
+// --- Firestore ---
+
+// Built-in rules (with any saved overrides) first, then the user's own in the order they were created
+export async function loadAutoFillRules(): Promise<AutoFillRule[]> {
+  console.log("Firestore: Loading auto-fill rules");
+  try {
+    const snapshot = await getDocs(rulesCollectionRef);
+    const saved = snapshot.docs.map(ruleDoc => ruleDoc.data() as AutoFillRule);
+    const defaults = DEFAULT_AUTO_FILL_RULES.map(rule => saved.find(candidate => candidate.id === rule.id) || rule);
+    const custom = saved
+      .filter(rule => !isDefaultAutoFillRule(rule.id))
+      .sort((a, b) => (a.createdAt || "").localeCompare(b.createdAt || ""));
+    return [...defaults, ...custom];
+  } catch (error) {
+    console.error("Firestore: Error loading auto-fill rules:", error);
+    return DEFAULT_AUTO_FILL_RULES;
+  }
+}
+
+export async function saveAutoFillRule(rule: Omit<AutoFillRule, "id"> & { id?: string }): Promise<AutoFillRule> {
+  const now = new Date().toISOString();
+  const saved: AutoFillRule = {
+    ...rule,
+    id: rule.id || `${slugifyFoodName(rule.name)}-${Date.now().toString(36)}`,
+    createdAt: rule.createdAt || now,
+    updatedAt: now
+  };
+  await setDoc(doc(rulesCollectionRef, saved.id), JSON.parse(JSON.stringify(saved)));
+  console.log(`Firestore: Saved auto-fill rule ${saved.id}`);
+  return saved;
+}
+
+// Deleting a built-in rule's override resets it to the default
+export async function deleteAutoFillRule(id: string): Promise<void> {
+  await deleteDoc(doc(rulesCollectionRef, id));
+  console.log(`Firestore: Deleted auto-fill rule ${id}`);
+}
@@ -0,0 +1,60 @@
+// Types for bestEfforts.js
+
+export interface PrDistance {
+  key: string;
+  label: string;
+  meters: number;
+  names: string[]; // Strava best effort names
+}
+
+// A best effort as stored on detailed_runs
+export interface StoredBestEffort {
+  name: string;
+  distance: number; // meters
+  moving_time: number;
+  elapsed_time: number;
+  start_date_local?: string | null;
+}
+
+export interface BestEffortRun {
+  id: string | number;
+  name?: string;
+  start_date: string;
+  best_efforts?: StoredBestEffort[] | null;
+}
+
+export interface RecordEffort {
+  distanceKey: string;
+  time: number; // seconds
+  date: string; // The run's start_date
+  runId: string;
+  runName: string;
+}
+
+export interface ProgressionPoint extends RecordEffort {
+  improvement: number | null; // Seconds off the previous record
+}
+
+export interface PersonalRecord {
+  distance: PrDistance;
+  allTime: RecordEffort | null;
+  rolling: RecordEffort | null; // Best in the last 365 days
+  progression: ProgressionPoint[]; // Oldest first
+  efforts: number;
+}
+
+export interface NewRecord {
+  distanceKey: string;
+  kind: 'all-time' | 'rolling';
+  time: number;
+  previous: number | null;
+}
+
+export const ROLLING_RECORD_DAYS: number;
+export const PR_DISTANCES: PrDistance[];
+
+export function getPrDistance(effort: Pick<StoredBestEffort, 'name' | 'distance'>): PrDistance | null;
+export function collectEfforts(runs: BestEffortRun[]): RecordEffort[];
+export function buildPersonalRecords(runs: BestEffortRun[], now?: Date | string): PersonalRecord[];
+export function findNewRecords(previousRuns: BestEffortRun[], run: BestEffortRun): NewRecord[];
+export function formatEffortTime(seconds: number): string;
@@ -0,0 +1,110 @@
+// Personal records from Strava best_efforts; /api/runs flags new PRs as runs sync.
+
+const DAY_MS = 86400000;
+export const ROLLING_RECORD_DAYS = 365;
+
+// Standard distances, matched by Strava's best effort names
+export const PR_DISTANCES = [
+  { key: '400m', label: '400 m', meters: 400, names: ['400m'] },
+  { key: 'half-mile', label: '½ mile', meters: 805, names: ['1/2 mile'] },
+  { key: '1k', label: '1 km', meters: 1000, names: ['1K', '1k'] },
+  { key: 'mile', label: '1 mile', meters: 1609, names: ['1 mile'] },
+  { key: '2-mile', label: '2 miles', meters: 3219, names: ['2 mile'] },
+  { key: '5k', label: '5 km', meters: 5000, names: ['5K', '5k'] },
+  { key: '10k', label: '10 km', meters: 10000, names: ['10K', '10k'] },
+  { key: '15k', label: '15 km', meters: 15000, names: ['15K', '15k'] },
+  { key: '10-mile', label: '10 miles', meters: 16093, names: ['10 mile'] },
+  { key: '20k', label: '20 km', meters: 20000, names: ['20K', '20k'] },
+  { key: 'half-marathon', label: 'Half marathon', meters: 21097, names: ['Half-Marathon', 'Half Marathon'] },
+  { key: '30k', label: '30 km', meters: 30000, names: ['30K', '30k'] },
+  { key: 'marathon', label: 'Marathon', meters: 42195, names: ['Marathon'] }
+];
+
+export function getPrDistance(effort) {
+  const name = (effort.name || '').trim();
+  return PR_DISTANCES.find(distance => distance.names.includes(name))
+    // Fall back to the distance itself for renamed efforts (within 1%)
+    || PR_DISTANCES.find(distance => Math.abs((effort.distance || 0) - distance.meters) <= distance.meters * 0.01)
+    || null;
+}
+
+// Every standard-distance effort in the runs, oldest first, dated by the run's UTC start
+// so progression and the rolling window line up with findNewRecords
+export function collectEfforts(runs) {
+  const efforts = [];
+  (runs || []).forEach(run => {
+    (run.best_efforts || []).forEach(effort => {
+      const distance = getPrDistance(effort);
+      const time = effort.elapsed_time || effort.moving_time;
+      if (!distance || !(time > 0)) return;
+      efforts.push({
+        distanceKey: distance.key,
+        time,
+        date: run.start_date,
+        runId: run.id?.toString(),
+        runName: run.name || 'Run'
+      });
+    });
+  });
+  return efforts.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+/**
+ * All-time and rolling 365-day bests per distance, with the progression of all-time
+ * records (each effort that beat the best so far).
+ */
+export function buildPersonalRecords(runs, now = new Date()) {
+  const efforts = collectEfforts(runs);
+  const rollingFrom = new Date(now).getTime() - ROLLING_RECORD_DAYS * DAY_MS;
+
+  return PR_DISTANCES.map(distance => {
+    const distanceEfforts = efforts.filter(effort => effort.distanceKey === distance.key);
+    const progression = [];
+    let allTime = null;
+    let rolling = null;
+
+    distanceEfforts.forEach(effort => {
+      if (!allTime || effort.time < allTime.time) {
+        progression.push({ ...effort, improvement: allTime ? allTime.time - effort.time : null });
+        allTime = effort;
+      }
+      if (new Date(effort.date).getTime() >= rollingFrom && (!rolling || effort.time < rolling.time)) {
+        rolling = effort;
+      }
+    });
+
+    return { distance, allTime, rolling, progression, efforts: distanceEfforts.length };
+  });
+}
+
+/**
+ * Records a run sets against the runs before it: all-time PRs, or the best in the last
+ * 365 days when it isn't an all-time best.
+ */
+export function findNewRecords(previousRuns, run) {
+  const startedAt = new Date(run.start_date).getTime();
+  const before = (previousRuns || []).filter(other =>
+    other.id?.toString() !== run.id?.toString() && new Date(other.start_date).getTime() < startedAt);
+  const records = buildPersonalRecords(before, run.start_date);
+  const newRecords = [];
+
+  collectEfforts([run]).forEach(effort => {
+    const record = records.find(entry => entry.distance.key === effort.distanceKey);
+    if (newRecords.some(existing => existing.distanceKey === effort.distanceKey)) return;
+    if (!record.allTime || effort.time < record.allTime.time) {
+      newRecords.push({ distanceKey: effort.distanceKey, kind: 'all-time', time: effort.time, previous: record.allTime?.time ?? null });
+    } else if (!record.rolling || effort.time < record.rolling.time) {
+      newRecords.push({ distanceKey: effort.distanceKey, kind: 'rolling', time: effort.time, previous: record.rolling?.time ?? null });
+    }
+  });
+  return newRecords;
+}
+
+// Race-style time: h:mm:ss or m:ss
+export function formatEffortTime(seconds) {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
@@ -0,0 +1,368 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, setDoc, where } from "firebase/firestore";
+import { BiologicalSex, BodyCompositionScan, LATEST_BODY_COMPOSITION } from "@/data/bodyComposition";
+import { DailyLog } from "@/types/nutrition";
+import { db } from "./firebase";
+import { queryClient } from "./queryClient";
+import { NutritionDateRange, fetchNutritionLogs, formatDateToYYYYMMDD, getLastDaysRange, getTodayDateString } from "./nutritionUtils";
+import { TrainingDay, fetchAthleteProfile, fetchTrainingDays } from "./trainingDays";
+import { DEFAULT_ATHLETE_PROFILE } from "./nutritionTargets";
+
+// Energy balance: daily expenditure (TDEE) is BMR from body composition, scaled by an
+// activity level for everything outside workouts (NEAT), plus the day's Strava calories.
+// Logged weigh-ins calibrate the model: over a few weeks, the weight trend and the food
+// log imply what expenditure really was, and the NEAT part is scaled to match it.
+
+const USER_ID = "mihir_jain";
+export const ENERGY_BALANCE_QUERY_KEY = "energyBalance";
+export const ENERGY_BALANCE_STALE_TIME = 10 * 60 * 1000;
+
+export const KCAL_PER_KG = 7700; // Energy in a kilogram of body weight change
+export const CALIBRATION_WINDOW_DAYS = 28;
+const MIN_CALIBRATION_WEIGH_INS = 3;
+const MIN_CALIBRATION_SPAN_DAYS = 14;
+const MIN_CALIBRATION_LOGGED_SHARE = 0.7; // Share of days that need food logged
+const MIN_CALIBRATION_FACTOR = 0.8;
+const MAX_CALIBRATION_FACTOR = 1.25;
+export const PROJECTION_DAYS = 28;
+
+export type ActivityLevel = "sedentary" | "light" | "moderate" | "active";
+export type BmrMethod = "mifflin-st-jeor" | "katch-mcardle";
+
+// Multipliers on BMR for daily life outside logged workouts, which Strava already counts
+export const ACTIVITY_LEVELS: { value: ActivityLevel; label: string; description: string; factor: number }[] = [
+  { value: "sedentary", label: "Sedentary", description: "Desk job, little walking", factor: 1.2 },
+  { value: "light", label: "Lightly active", description: "Some walking or standing", factor: 1.3 },
+  { value: "moderate", label: "Moderately active", description: "On your feet much of the day", factor: 1.4 },
+  { value: "active", label: "Very active", description: "Physical job", factor: 1.5 }
+];
+
+export const BMR_METHOD_LABELS: Record<BmrMethod, string> = {
+  "mifflin-st-jeor": "Mifflin-St Jeor",
+  "katch-mcardle": "Katch-McArdle"
+};
+
+export interface EnergySettings {
+  activityLevel: ActivityLevel;
+  bmrMethod: BmrMethod | "auto"; // auto: Katch-McArdle when body fat is known
+}
+
+export const DEFAULT_ENERGY_SETTINGS: EnergySettings = {
+  activityLevel: "light",
+  bmrMethod: "auto"
+};
+
+export interface WeighIn {
+  date: string; // YYYY-MM-DD
+  weightKg: number;
+}
+
+export interface EnergyCalibration {
+  calibrated: boolean;
+  factor: number; // Applied to the NEAT baseline; 1 until there is enough data
+  impliedTdee: number | null; // Average expenditure the weight trend implies
+  weeklyChangeKg: number | null; // Weight trend over the window
+  weighIns: number;
+  loggedDays: number;
+  windowDays: number;
+  reason?: string; // Why the model isn't calibrated yet
+}
+
+export interface EnergyBalanceDay {
+  date: string;
+  intake: number | null; // null when no food was logged
+  exerciseKcal: number; // Strava calories
+  restingKcal: number; // BMR x activity level x calibration
+  tdee: number;
+  balance: number | null; // intake - tdee
+}
+
+export interface WeightProjectionPoint {
+  date: string;
+  weightKg: number;
+}
+
+export interface EnergyBalance {
+  settings: EnergySettings;
+  weightKg: number; // Latest weigh-in, or the profile weight
+  bmr: number;
+  bmrMethod: BmrMethod;
+  baselineKcal: number; // BMR x activity level, before calibration
+  restingKcal: number; // Calibrated daily expenditure outside workouts
+  calibration: EnergyCalibration;
+  days: EnergyBalanceDay[];
+  averages: { intake: number; tdee: number; balance: number } | null; // Completed days with food logged
+  weighIns: WeighIn[];
+  projection: WeightProjectionPoint[]; // Weekly from today, at the average daily balance
+}
+
+const round = (value: number, places = 0) => Math.round(value * 10 ** places) / 10 ** places;
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00`).getTime() - new Date(`${from}T00:00:00`).getTime()) / 86400000);
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00`);
+  result.setDate(result.getDate() + days);
+  return formatDateToYYYYMMDD(result);
+};
+
+const sexOffset = (sex: BiologicalSex) => (sex === "male" ? 5 : -161);
+
+// Mifflin-St Jeor: from weight, height, age and sex
+export function mifflinStJeorBmr(weightKg: number, body: Pick<BodyCompositionScan, "heightCm" | "age" | "sex">): number {
+  return Math.round(10 * weightKg + 6.25 * body.heightCm - 5 * body.age + sexOffset(body.sex));
+}
+
+// Katch-McArdle: from fat-free mass, so it tracks body composition rather than weight alone
+export function katchMcArdleBmr(weightKg: number, bodyFatPercent: number): number {
+  const fatFreeMassKg = weightKg * (1 - bodyFatPercent / 100);
+  return Math.round(370 + 21.6 * fatFreeMassKg);
+}
+
+export function estimateBmr(
+  weightKg: number,
+  body: BodyCompositionScan = LATEST_BODY_COMPOSITION,
+  method: EnergySettings["bmrMethod"] = "auto"
+): { bmr: number; method: BmrMethod } {
+  const resolved: BmrMethod = method === "auto" ? (body.bodyFatPercent > 0 ? "katch-mcardle" : "mifflin-st-jeor") : method;
+  const bmr = resolved === "katch-mcardle"
+    ? katchMcArdleBmr(weightKg, body.bodyFatPercent)
+    : mifflinStJeorBmr(weightKg, body);
+  return { bmr, method: resolved };
+}
+
+export function getActivityFactor(level: ActivityLevel): number {
+  return (ACTIVITY_LEVELS.find(option => option.value === level) || ACTIVITY_LEVELS[0]).factor;
+}
+
+// Least-squares weight trend in kg per day; steadier than first-to-last with daily noise
+export function weightTrendPerDay(weighIns: WeighIn[]): number | null {
+  if (weighIns.length < 2) return null;
+  const origin = weighIns[0].date;
+  const points = weighIns.map(weighIn => ({ x: daysBetween(origin, weighIn.date), y: weighIn.weightKg }));
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  const sxx = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+  const sxy = points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0);
+  return sxy / sxx;
+}
+
+/**
+ * Scale the NEAT baseline so the model agrees with the scale. With intake I and a
+ * weight trend of s kg/day, expenditure was about I - s x 7700; subtracting the average
+ * Strava calories leaves what the baseline should have been. Needs a few weigh-ins over
+ * at least two weeks and most days logged, since missing food makes intake look low.
+ */
+export function calibrateEnergyModel(
+  days: { date: string; intake: number | null; exerciseKcal: number }[],
+  weighIns: WeighIn[],
+  baselineKcal: number
+): EnergyCalibration {
+  const loggedDays = days.filter(day => day.intake !== null);
+  const sorted = [...weighIns].sort((a, b) => a.date.localeCompare(b.date));
+  const uncalibrated = (reason: string): EnergyCalibration => ({
+    calibrated: false,
+    factor: 1,
+    impliedTdee: null,
+    weeklyChangeKg: null,
+    weighIns: sorted.length,
+    loggedDays: loggedDays.length,
+    windowDays: days.length,
+    reason
+  });
+
+  if (sorted.length < MIN_CALIBRATION_WEIGH_INS) {
+    return uncalibrated(`Needs ${MIN_CALIBRATION_WEIGH_INS} weigh-ins in the last ${CALIBRATION_WINDOW_DAYS} days`);
+  }
+  if (daysBetween(sorted[0].date, sorted[sorted.length - 1].date) < MIN_CALIBRATION_SPAN_DAYS) {
+    return uncalibrated(`Weigh-ins need to span at least ${MIN_CALIBRATION_SPAN_DAYS} days`);
+  }
+  if (days.length === 0 || loggedDays.length / days.length < MIN_CALIBRATION_LOGGED_SHARE) {
+    return uncalibrated(`Needs food logged on ${Math.round(MIN_CALIBRATION_LOGGED_SHARE * 100)}% of days`);
+  }
+
+  const slope = weightTrendPerDay(sorted) ?? 0;
+  const averageIntake = loggedDays.reduce((sum, day) => sum + (day.intake || 0), 0) / loggedDays.length;
+  const averageExercise = days.reduce((sum, day) => sum + day.exerciseKcal, 0) / days.length;
+  const impliedTdee = averageIntake - slope * KCAL_PER_KG;
+  const factor = baselineKcal > 0 ? clamp((impliedTdee - averageExercise) / baselineKcal, MIN_CALIBRATION_FACTOR, MAX_CALIBRATION_FACTOR) : 1;
+
+  return {
+    calibrated: true,
+    factor: round(factor, 3),
+    impliedTdee: Math.round(impliedTdee),
+    weeklyChangeKg: round(slope * 7, 2),
+    weighIns: sorted.length,
+    loggedDays: loggedDays.length,
+    windowDays: days.length
+  };
+}
+
+// Weekly weight points if the average daily balance holds
+export function projectWeight(
+  startWeightKg: number,
+  startDate: string,
+  dailyBalanceKcal: number,
+  days = PROJECTION_DAYS
+): WeightProjectionPoint[] {
+  const points: WeightProjectionPoint[] = [];
+  for (let day = 0; day <= days; day += 7) {
+    points.push({ date: addDays(startDate, day), weightKg: round(startWeightKg + (dailyBalanceKcal * day) / KCAL_PER_KG, 2) });
+  }
+  return points;
+}
+
+// Calorie surplus = calories consumed - (Strava calories + resting and daily-life expenditure).
+// Days without the calibrated resting figure fall back to the profile BMR.
+export function getCalorieSurplus(day: { caloriesConsumed?: number; caloriesBurned?: number; restingKcal?: number }): number {
+  return (day.caloriesConsumed || 0) - ((day.caloriesBurned || 0) + (day.restingKcal ?? DEFAULT_ATHLETE_PROFILE.bmr));
+}
+
+interface EnergyBalanceInput {
+  range: NutritionDateRange;
+  logs: DailyLog[];
+  trainingDays: Record<string, TrainingDay>;
+  weighIns: WeighIn[];
+  settings: EnergySettings;
+  profileWeightKg: number;
+  today: string;
+  body?: BodyCompositionScan;
+}
+
+export function buildEnergyBalance({
+  range,
+  logs,
+  trainingDays,
+  weighIns,
+  settings,
+  profileWeightKg,
+  today,
+  body = LATEST_BODY_COMPOSITION
+}: EnergyBalanceInput): EnergyBalance {
+  const sortedWeighIns = [...weighIns].sort((a, b) => a.date.localeCompare(b.date));
+  const latestWeighIn = sortedWeighIns[sortedWeighIns.length - 1];
+  const weightKg = latestWeighIn ? latestWeighIn.weightKg : profileWeightKg;
+  const { bmr, method } = estimateBmr(weightKg, body, settings.bmrMethod);
+  const baselineKcal = Math.round(bmr * getActivityFactor(settings.activityLevel));
+
+  const logsByDate = new Map(logs.map(log => [log.date, log]));
+  const inputs: { date: string; intake: number | null; exerciseKcal: number }[] = [];
+  for (let date = range.startDate; date <= range.endDate; date = addDays(date, 1)) {
+    const calories = logsByDate.get(date)?.totals?.calories || 0;
+    inputs.push({ date, intake: calories > 0 ? calories : null, exerciseKcal: trainingDays[date]?.caloriesBurned || 0 });
+  }
+
+  // Today's intake is still partial, so it stays out of calibration and averages
+  const completed = inputs.filter(day => day.date < today);
+  const calibration = calibrateEnergyModel(
+    completed,
+    sortedWeighIns.filter(weighIn => weighIn.date >= range.startDate),
+    baselineKcal
+  );
+  const restingKcal = Math.round(baselineKcal * calibration.factor);
+
+  const days: EnergyBalanceDay[] = inputs.map(day => {
+    const tdee = restingKcal + day.exerciseKcal;
+    return { ...day, restingKcal, tdee, balance: day.intake === null ? null : day.intake - tdee };
+  });
+
+  const averaged = days.filter(day => day.date < today && day.balance !== null);
+  const average = (pick: (day: EnergyBalanceDay) => number) =>
+    Math.round(averaged.reduce((sum, day) => sum + pick(day), 0) / averaged.length);
+  const averages = averaged.length > 0
+    ? { intake: average(day => day.intake || 0), tdee: average(day => day.tdee), balance: average(day => day.balance || 0) }
+    : null;
+
+  return {
+    settings,
+    weightKg,
+    bmr,
+    bmrMethod: method,
+    baselineKcal,
+    restingKcal,
+    calibration,
+    days,
+    averages,
+    weighIns: sortedWeighIns,
+    projection: averages ? projectWeight(weightKg, today, averages.balance) : []
+  };
+}
+
+// --- Firestore ---
+
+export async function loadWeighIns(range: NutritionDateRange): Promise<WeighIn[]> {
+  console.log(`Firestore: Loading weigh-ins from ${range.startDate} to ${range.endDate}`);
+  try {
+    const weighInsQuery = query(
+      collection(db, "weighIns"),
+      where("date", ">=", range.startDate),
+      where("date", "<=", range.endDate),
+      orderBy("date", "asc")
+    );
+    const snapshot = await getDocs(weighInsQuery);
+    return snapshot.docs
+      .map(weighInDoc => ({ date: weighInDoc.data().date, weightKg: Number(weighInDoc.data().weightKg) }))
+      .filter(weighIn => weighIn.weightKg > 0);
+  } catch (error) {
+    console.error("Firestore: Error loading weigh-ins:", error);
+    return [];
+  }
+}
+
+// One weigh-in per day; logging again replaces it
+export async function saveWeighIn(weighIn: WeighIn): Promise<void> {
+  await setDoc(doc(db, "weighIns", weighIn.date), {
+    date: weighIn.date,
+    weightKg: round(weighIn.weightKg, 2),
+    userId: USER_ID,
+    updatedAt: new Date().toISOString()
+  });
+  console.log(`Firestore: Saved weigh-in of ${weighIn.weightKg} kg for ${weighIn.date}`);
+}
+
+export async function loadEnergySettings(): Promise<EnergySettings> {
+  try {
+    const snapshot = await getDoc(doc(db, "energySettings", USER_ID));
+    return snapshot.exists() ? { ...DEFAULT_ENERGY_SETTINGS, ...snapshot.data() } as EnergySettings : DEFAULT_ENERGY_SETTINGS;
+  } catch (error) {
+    console.error("Firestore: Error loading energy settings:", error);
+    return DEFAULT_ENERGY_SETTINGS;
+  }
+}
+
+export async function saveEnergySettings(settings: EnergySettings): Promise<void> {
+  await setDoc(doc(db, "energySettings", USER_ID), { ...settings, updatedAt: new Date().toISOString() });
+  console.log(`Firestore: Saved energy settings (${settings.activityLevel}, ${settings.bmrMethod})`);
+}
+
+export async function loadEnergyBalance(): Promise<EnergyBalance> {
+  const range = getLastDaysRange(CALIBRATION_WINDOW_DAYS);
+  const [logs, trainingDays, weighIns, settings, profile] = await Promise.all([
+    fetchNutritionLogs(range),
+    fetchTrainingDays(range),
+    loadWeighIns(range),
+    loadEnergySettings(),
+    fetchAthleteProfile()
+  ]);
+  return buildEnergyBalance({
+    range,
+    logs,
+    trainingDays,
+    weighIns,
+    settings,
+    profileWeightKg: profile.weightKg,
+    today: getTodayDateString()
+  });
+}
+
+// Read the model through the shared cache; invalidate ENERGY_BALANCE_QUERY_KEY after a
+// weigh-in or settings change
+export function fetchEnergyBalance(): Promise<EnergyBalance> {
+  return queryClient.fetchQuery({
+    queryKey: [ENERGY_BALANCE_QUERY_KEY],
+    queryFn: loadEnergyBalance,
+    staleTime: ENERGY_BALANCE_STALE_TIME
+  });
+}
@@ -0,0 +1,244 @@
+import { FoodItem, Recipe } from "@/types/nutrition";
+import { vegetarianFoods } from "@/data/vegetarianFoods";
+import { db } from "./firebase";
+import { collection, doc, getDocs, setDoc } from "firebase/firestore";
+import { pickKnownMicronutrients } from "./micronutrients";
+import { RECIPE_ID_PREFIX, recipeToFoodItem } from "./recipes";
+
+// --- Firestore Collection References ---
+const foodsCollectionRef = collection(db, "foods");
+const recipesCollectionRef = collection(db, "recipes");
+
+// --- In-memory catalog state ---
+
+// Custom foods keyed by ID, loaded from Firestore. A custom food whose ID matches
+// a built-in food overrides it, so vegetarianFoods only acts as the seed.
+let customFoods: Record<string, FoodItem> = {};
+// Saved recipes keyed by ID. Their nutrition is computed from the current ingredient
+// values every time the catalog is read, so editing an ingredient updates the recipe.
+let recipes: Record<string, Recipe> = {};
+let catalogLoaded = false;
+let loadPromise: Promise<FoodItem[]> | null = null;
+const listeners = new Set<() => void>();
+
+function notifyListeners() {
+  listeners.forEach(listener => listener());
+}
+
+// Build a stable ID from a food name (e.g. "Oats, Quaker" -> "oats-quaker")
+export function slugifyFoodName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// vegetarianFoods repeats some names with different servings. The first keeps the plain
+// slug (name lookups of older entries resolve to it too); later ones get "-2", "-3"...
+const builtinSlugCounts = new Map<string, number>();
+const builtinFoods: FoodItem[] = vegetarianFoods.map(food => {
+  const slug = slugifyFoodName(food.name);
+  const count = (builtinSlugCounts.get(slug) || 0) + 1;
+  builtinSlugCounts.set(slug, count);
+  return {
+    ...food,
+    id: count === 1 ? slug : `${slug}-${count}`,
+    source: "builtin" as const
+  };
+});
+
+export function getRecipeId(name: string): string {
+  return `${RECIPE_ID_PREFIX}${slugifyFoodName(name)}`;
+}
+
+// Built-in and custom foods only; recipe ingredients resolve against these
+function getBaseFoods(): Map<string, FoodItem> {
+  const merged = new Map<string, FoodItem>();
+  builtinFoods.forEach(food => merged.set(food.id!, food));
+  Object.values(customFoods).forEach(food => merged.set(food.id!, food));
+  return merged;
+}
+
+// Get the merged catalog (built-in seed + custom foods + recipes). Archived foods are
+// excluded unless requested, since past logs may still reference them.
+export function getFoodCatalog(options: { includeArchived?: boolean } = {}): FoodItem[] {
+  const baseFoods = getBaseFoods();
+  const resolveFood = (id: string) => baseFoods.get(id);
+  const recipeFoods = Object.values(recipes).map(recipe => recipeToFoodItem(recipe, resolveFood));
+
+  const foods = [...Array.from(baseFoods.values()), ...recipeFoods];
+  return options.includeArchived ? foods : foods.filter(food => !food.archived);
+}
+
+// Find a built-in or custom food (not a recipe) by ID, for resolving recipe ingredients
+export function findIngredientFood(id: string): FoodItem | undefined {
+  return getBaseFoods().get(id);
+}
+
+// Saved recipes, including archived ones
+export function getRecipes(): Recipe[] {
+  return Object.values(recipes);
+}
+
+// Find a catalog food by its stable ID
+export function findFoodById(id: string): FoodItem | undefined {
+  return getFoodCatalog({ includeArchived: true }).find(food => food.id === id);
+}
+
+// Find a packaged food added from a barcode lookup (code normalized to GTIN-13)
+export function findFoodByBarcode(barcode: string): FoodItem | undefined {
+  return getFoodCatalog().find(food => food.barcode === barcode);
+}
+
+export function isFoodCatalogLoaded(): boolean {
+  return catalogLoaded;
+}
+
+// Subscribe to catalog changes; returns an unsubscribe function
+export function subscribeToFoodCatalog(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// --- Firestore Operations ---
+
+// Load custom foods and recipes from Firestore into the in-memory catalog
+export async function loadFoodCatalog(forceRefresh = false): Promise<FoodItem[]> {
+  if (catalogLoaded && !forceRefresh) {
+    return getFoodCatalog();
+  }
+  if (loadPromise && !forceRefresh) {
+    return loadPromise;
+  }
+
+  loadPromise = (async () => {
+    console.log("Firestore: Loading custom foods...");
+    try {
+      const [foodsSnapshot, recipesSnapshot] = await Promise.all([
+        getDocs(foodsCollectionRef),
+        getDocs(recipesCollectionRef)
+      ]);
+      const loaded: Record<string, FoodItem> = {};
+      foodsSnapshot.forEach((foodDoc) => {
+        const data = foodDoc.data();
+        if (data && typeof data === "object" && data.name && typeof data.calories === "number") {
+          loaded[foodDoc.id] = { ...(data as FoodItem), id: foodDoc.id, source: "custom" };
+        } else {
+          console.warn(`Firestore: Invalid data format for food ${foodDoc.id}`, data);
+        }
+      });
+      customFoods = loaded;
+
+      const loadedRecipes: Record<string, Recipe> = {};
+      recipesSnapshot.forEach((recipeDoc) => {
+        const data = recipeDoc.data();
+        if (data && typeof data === "object" && data.name && Array.isArray(data.ingredients)) {
+          loadedRecipes[recipeDoc.id] = { ...(data as Recipe), id: recipeDoc.id };
+        } else {
+          console.warn(`Firestore: Invalid data format for recipe ${recipeDoc.id}`, data);
+        }
+      });
+      recipes = loadedRecipes;
+      console.log(`Firestore: Loaded ${Object.keys(loaded).length} custom foods and ${Object.keys(loadedRecipes).length} recipes`);
+    } catch (error) {
+      console.error("Firestore: Error loading custom foods:", error);
+    } finally {
+      catalogLoaded = true;
+      loadPromise = null;
+      notifyListeners();
+    }
+    return getFoodCatalog();
+  })();
+
+  return loadPromise;
+}
+
+// Create or update a food. Editing a built-in food saves an override under the same ID.
+export async function saveFoodToFirestore(food: FoodItem): Promise<FoodItem> {
+  const id = food.id || slugifyFoodName(food.name);
+  const now = new Date().toISOString();
+  const existing = findFoodById(id);
+
+  const savedFood: FoodItem = {
+    id,
+    name: food.name.trim(),
+    servingSize: String(food.servingSize).trim(),
+    calories: Number(food.calories) || 0,
+    protein: Number(food.protein) || 0,
+    carbs: Number(food.carbs) || 0,
+    fat: Number(food.fat) || 0,
+    fiber: Number(food.fiber) || 0,
+    ...pickKnownMicronutrients(food),
+    ...(food.alternateUnits?.length
+      ? {
+          alternateUnits: food.alternateUnits
+            .filter(alternate => alternate.unit.trim() && alternate.amount > 0)
+            .map(alternate => ({ unit: alternate.unit.trim().toLowerCase(), amount: Number(alternate.amount) }))
+        }
+      : {}),
+    ...(food.barcode ? { barcode: food.barcode } : {}),
+    source: "custom",
+    archived: food.archived || false,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now
+  };
+
+  console.log(`Firestore: Saving food ${id}`, savedFood);
+  await setDoc(doc(db, "foods", id), savedFood);
+
+  customFoods = { ...customFoods, [id]: savedFood };
+  notifyListeners();
+  return savedFood;
+}
+
+// Archive (or restore) a food. Archived foods disappear from selectors but still resolve for history.
+export async function setFoodArchived(id: string, archived: boolean): Promise<FoodItem | null> {
+  const food = findFoodById(id);
+  if (!food) {
+    console.warn(`Firestore: Cannot archive unknown food ${id}`);
+    return null;
+  }
+  return saveFoodToFirestore({ ...food, archived });
+}
+
+// Create or update a recipe. Logged entries keep their own macro snapshot, so
+// changing a recipe never rewrites days that were already logged.
+export async function saveRecipeToFirestore(recipe: Recipe): Promise<Recipe> {
+  const id = recipe.id || getRecipeId(recipe.name);
+  const now = new Date().toISOString();
+
+  const savedRecipe: Recipe = {
+    id,
+    name: recipe.name.trim(),
+    ingredients: recipe.ingredients
+      .filter(ingredient => ingredient.foodId && ingredient.amount > 0)
+      .map(ingredient => ({ foodId: ingredient.foodId, amount: Number(ingredient.amount), unit: ingredient.unit })),
+    servings: Number(recipe.servings) > 0 ? Number(recipe.servings) : 1,
+    archived: recipe.archived || false,
+    createdAt: recipes[id]?.createdAt || now,
+    updatedAt: now
+  };
+  if (recipe.cookedYieldGrams && recipe.cookedYieldGrams > 0) {
+    savedRecipe.cookedYieldGrams = Number(recipe.cookedYieldGrams);
+  }
+
+  console.log(`Firestore: Saving recipe ${id}`, savedRecipe);
+  await setDoc(doc(db, "recipes", id), savedRecipe);
+
+  recipes = { ...recipes, [id]: savedRecipe };
+  notifyListeners();
+  return savedRecipe;
+}
+
+// Archive (or restore) a recipe
+export async function setRecipeArchived(id: string, archived: boolean): Promise<Recipe | null> {
+  const recipe = recipes[id];
+  if (!recipe) {
+    console.warn(`Firestore: Cannot archive unknown recipe ${id}`);
+    return null;
+  }
+  return saveRecipeToFirestore({ ...recipe, archived });
+}
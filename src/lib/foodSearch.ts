@@ -0,0 +1,216 @@
+import { DailyLog, FoodItem } from "@/types/nutrition";
+import { slugifyFoodName } from "./foodCatalog";
+import { db } from "./firebase";
+import { collection, deleteDoc, doc, getDocs, setDoc } from "firebase/firestore";
+
+// Food search shared by the food pickers. Queries are split into tokens and each token
+// is matched against the food name's tokens exactly, as a prefix, inside a word or with
+// a typo or two ("paner" finds paneer). Foods the user logs often or recently, and
+// favourites, rank higher; with no query the picker shows favourites and recents.
+
+export interface FoodUsage {
+  count: number; // Times logged in the usage window
+  lastUsed: string; // Date last logged (YYYY-MM-DD)
+}
+
+export type FoodUsageMap = Record<string, FoodUsage>;
+
+export interface FoodSearchResult {
+  food: FoodItem;
+  score: number;
+  favourite: boolean;
+  usage?: FoodUsage;
+}
+
+export interface FoodSearchOptions {
+  usage?: FoodUsageMap;
+  favourites?: Set<string>;
+  limit?: number;
+  today?: string; // YYYY-MM-DD, for recency
+}
+
+export const FOOD_USAGE_DAYS = 30;
+export const DEFAULT_SEARCH_LIMIT = 8;
+
+// Token match scores, best first
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.9;
+const SUBSTRING_MATCH = 0.75;
+const TYPO_MATCH = 0.7; // One edit away; each further edit costs TYPO_PENALTY
+const TYPO_PENALTY = 0.15;
+const MIN_TEXT_SCORE = 0.5;
+
+const favouritesCollectionRef = collection(db, "foodFavourites");
+
+export function getFoodKey(food: Pick<FoodItem, "id" | "name">): string {
+  return food.id || slugifyFoodName(food.name);
+}
+
+// DOM ID of a result row, for aria-activedescendant on the search input
+export const getFoodSearchOptionId = (listId: string, index: number) => `${listId}-option-${index}`;
+
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function tokenizeSearchText(text: string): string[] {
+  const normalized = normalizeSearchText(text);
+  return normalized ? normalized.split(" ") : [];
+}
+
+// Optimal string alignment distance (swapped letters count as one edit), giving up
+// once it is certain to exceed max
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Short words must match exactly; longer ones may have a typo or two
+const allowedEdits = (token: string) => (token.length >= 7 ? 2 : token.length >= 4 ? 1 : 0);
+
+// How well one query token matches the best of a food's name tokens (0 = no match)
+export function scoreToken(queryToken: string, foodTokens: string[]): number {
+  const maxEdits = allowedEdits(queryToken);
+  let best = 0;
+  for (const foodToken of foodTokens) {
+    if (foodToken === queryToken) return EXACT_MATCH;
+    if (foodToken.startsWith(queryToken)) {
+      best = Math.max(best, PREFIX_MATCH);
+    } else if (queryToken.length >= 3 && foodToken.includes(queryToken)) {
+      best = Math.max(best, SUBSTRING_MATCH);
+    } else if (maxEdits > 0 && best < TYPO_MATCH) {
+      // Compare with the whole word, and with its start while the word is still being typed
+      const distance = Math.min(
+        editDistance(queryToken, foodToken, maxEdits),
+        editDistance(queryToken, foodToken.slice(0, queryToken.length), maxEdits) + 1
+      );
+      if (distance <= maxEdits) {
+        best = Math.max(best, TYPO_MATCH - (distance - 1) * TYPO_PENALTY);
+      }
+    }
+  }
+  return best;
+}
+
+// Text relevance of a food for a query, 0 to 1. Every query token counts, so
+// "dal rice" prefers foods with both words over foods with one of them.
+export function scoreFoodText(queryTokens: string[], food: FoodItem): number {
+  if (queryTokens.length === 0) return 0;
+  const foodTokens = tokenizeSearchText(food.name);
+  const tokenScores = queryTokens.map(token => scoreToken(token, foodTokens));
+  if (tokenScores.every(score => score === 0)) return 0;
+  const average = tokenScores.reduce((sum, score) => sum + score, 0) / tokenScores.length;
+  // Small bonus when the name starts with the query as typed
+  const phraseBonus = normalizeSearchText(food.name).startsWith(queryTokens.join(" ")) ? 0.05 : 0;
+  return Math.min(1, average + phraseBonus);
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.max(0, Math.round((new Date(`${to}T00:00:00`).getTime() - new Date(`${from}T00:00:00`).getTime()) / 86400000));
+
+// Boost from logging history: frequent foods gain up to ~15 points, recent ones up to 10
+function getUsageBoost(usage: FoodUsage | undefined, today: string): number {
+  if (!usage) return 0;
+  const frequency = Math.min(15, 5 * Math.log2(1 + usage.count));
+  const recency = 10 * Math.exp(-daysBetween(usage.lastUsed, today) / 14);
+  return frequency + recency;
+}
+
+const FAVOURITE_BOOST = 15;
+
+// How often and how recently each food was logged, keyed by catalog ID
+export function buildFoodUsage(logs: DailyLog[]): FoodUsageMap {
+  const usage: FoodUsageMap = {};
+  logs.forEach(log => {
+    (log.entries || []).forEach(entry => {
+      const key = entry.catalogId || slugifyFoodName(entry.foodId || "");
+      if (!key) return;
+      const existing = usage[key];
+      usage[key] = {
+        count: (existing?.count || 0) + 1,
+        lastUsed: existing && existing.lastUsed > log.date ? existing.lastUsed : log.date
+      };
+    });
+  });
+  return usage;
+}
+
+const todayString = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+};
+
+// Ranked results for a query. An empty query lists favourites, then recently logged foods.
+export function searchFoods(foods: FoodItem[], query: string, options: FoodSearchOptions = {}): FoodSearchResult[] {
+  const { usage = {}, favourites = new Set<string>(), limit = DEFAULT_SEARCH_LIMIT, today = todayString() } = options;
+  const queryTokens = tokenizeSearchText(query);
+
+  const results: FoodSearchResult[] = [];
+  foods.forEach(food => {
+    const key = getFoodKey(food);
+    const favourite = favourites.has(key);
+    const foodUsage = usage[key];
+    const boost = getUsageBoost(foodUsage, today) + (favourite ? FAVOURITE_BOOST : 0);
+
+    if (queryTokens.length === 0) {
+      if (favourite || foodUsage) {
+        results.push({ food, score: boost + (favourite ? 100 : 0), favourite, usage: foodUsage });
+      }
+      return;
+    }
+
+    const textScore = scoreFoodText(queryTokens, food);
+    if (textScore >= MIN_TEXT_SCORE) {
+      results.push({ food, score: textScore * 100 + boost, favourite, usage: foodUsage });
+    }
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.food.name.localeCompare(b.food.name))
+    .slice(0, limit);
+}
+
+// --- Firestore ---
+
+export async function loadFoodFavourites(): Promise<string[]> {
+  console.log("Firestore: Loading favourite foods");
+  try {
+    const snapshot = await getDocs(favouritesCollectionRef);
+    return snapshot.docs.map(favouriteDoc => favouriteDoc.id);
+  } catch (error) {
+    console.error("Firestore: Error loading favourite foods:", error);
+    return [];
+  }
+}
+
+export async function setFoodFavourite(foodKey: string, favourite: boolean): Promise<void> {
+  const favouriteRef = doc(favouritesCollectionRef, foodKey);
+  if (favourite) {
+    await setDoc(favouriteRef, { foodId: foodKey, createdAt: new Date().toISOString() });
+  } else {
+    await deleteDoc(favouriteRef);
+  }
+  console.log(`Firestore: ${favourite ? "Added" : "Removed"} favourite food ${foodKey}`);
+}
@@ -0,0 +1,37 @@
+// Types for heartRateZones.js
+
+import { HeartRateZone } from './runClassifier';
+
+export type ZoneMethod = 'strava' | 'max-hr' | 'lthr' | 'hrr';
+
+// Seconds spent at each whole bpm, keyed by bpm
+export type HeartRateHistogram = Record<string, number>;
+
+export interface HeartRateZoneSettings {
+  method: ZoneMethod;
+  maxHeartRate?: number;
+  lthr?: number;
+  restingHeartRate?: number;
+  stravaZones?: { min: number; max: number }[] | null; // Saved by /api/runs from /athlete/zones
+}
+
+export interface ResolvedHeartRateZones {
+  method: ZoneMethod; // The method actually used, after any fallback
+  zones: HeartRateZone[];
+}
+
+export const ZONE_METHODS: ZoneMethod[];
+export const ZONE_METHOD_LABELS: Record<ZoneMethod, string>;
+export const EASY_ZONE_COUNT: number;
+
+export function zonesFromLactateThreshold(lthr: number): HeartRateZone[];
+export function zonesFromHeartRateReserve(maxHeartRate: number, restingHeartRate: number): HeartRateZone[];
+export function normalizeStravaZones(zones: { min: number; max: number }[] | null | undefined): HeartRateZone[] | null;
+export function resolveHeartRateZones(
+  settings: HeartRateZoneSettings | null | undefined,
+  fallback: { maxHeartRate: number; restingHeartRate: number }
+): ResolvedHeartRateZones;
+export function buildHeartRateHistogram(time: number[], heartrate: number[]): HeartRateHistogram | null;
+export function getZoneIndex(bpm: number, zones: HeartRateZone[]): number;
+export function getTimeInZones(histogram: HeartRateHistogram | null | undefined, zones: HeartRateZone[]): number[];
+export function getPolarisation(zoneSeconds: number[]): { easyPercent: number; hardPercent: number } | null;
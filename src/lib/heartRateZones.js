@@ -0,0 +1,112 @@
+// Heart-rate zones and time in zone. runs.js builds a histogram from each run's streams.
+//
+// Runs store a histogram of seconds spent at each bpm rather than time per zone, so
+// changing the zone method or thresholds re-buckets every run without refetching streams.
+
+import { zonesFromMaxHeartRate } from './runClassifier.js';
+
+export const ZONE_METHODS = ['strava', 'max-hr', 'lthr', 'hrr'];
+
+export const ZONE_METHOD_LABELS = {
+  strava: 'Strava zones',
+  'max-hr': '% of max HR',
+  lthr: '% of threshold HR (LTHR)',
+  hrr: '% of HR reserve (Karvonen)'
+};
+
+// Zone 3 and up is the hard side of 80/20 (polarised) training
+export const EASY_ZONE_COUNT = 2;
+
+// Friel's running zones as a share of lactate threshold heart rate
+const LTHR_SHARES = [0.85, 0.9, 0.95, 1.0];
+// Karvonen: share of heart rate reserve added to resting heart rate
+const HRR_SHARES = [0.6, 0.7, 0.8, 0.9];
+// Gaps longer than this between samples are pauses, not time at that heart rate
+const MAX_SAMPLE_GAP_SECONDS = 30;
+
+const toZones = (bounds) => [0, ...bounds].map((min, index) => ({ min, max: index < bounds.length ? bounds[index] : -1 }));
+
+export function zonesFromLactateThreshold(lthr) {
+  return toZones(LTHR_SHARES.map(share => Math.round(lthr * share)));
+}
+
+export function zonesFromHeartRateReserve(maxHeartRate, restingHeartRate) {
+  const reserve = maxHeartRate - restingHeartRate;
+  return toZones(HRR_SHARES.map(share => Math.round(restingHeartRate + reserve * share)));
+}
+
+// Strava's /athlete/zones heart_rate.zones: [{min, max}], the last max is -1
+export function normalizeStravaZones(zones) {
+  if (!Array.isArray(zones) || zones.length < 2) return null;
+  return zones.map((zone, index) => ({
+    min: Number(zone.min) || 0,
+    max: index === zones.length - 1 || !(zone.max > 0) ? -1 : Number(zone.max)
+  }));
+}
+
+/**
+ * Zones for the chosen method. A method missing its input falls back to Strava's zones,
+ * then to zones from the max heart rate seen on recent runs.
+ */
+export function resolveHeartRateZones(settings, fallback) {
+  const strava = normalizeStravaZones(settings?.stravaZones);
+  const byMaxHr = (maxHeartRate, method) => ({ method, zones: zonesFromMaxHeartRate(maxHeartRate) });
+
+  switch (settings?.method) {
+    case 'max-hr':
+      if (settings.maxHeartRate > 0) return byMaxHr(settings.maxHeartRate, 'max-hr');
+      break;
+    case 'lthr':
+      if (settings.lthr > 0) return { method: 'lthr', zones: zonesFromLactateThreshold(settings.lthr) };
+      break;
+    case 'hrr': {
+      const max = settings.maxHeartRate || fallback.maxHeartRate;
+      const rest = settings.restingHeartRate || fallback.restingHeartRate;
+      if (max > rest && rest > 0) return { method: 'hrr', zones: zonesFromHeartRateReserve(max, rest) };
+      break;
+    }
+    default:
+      break;
+  }
+  if (strava) return { method: 'strava', zones: strava };
+  return byMaxHr(fallback.maxHeartRate, 'max-hr');
+}
+
+// Seconds spent at each whole bpm, from Strava's time (s) and heartrate streams
+export function buildHeartRateHistogram(time, heartrate) {
+  if (!Array.isArray(time) || !Array.isArray(heartrate) || time.length !== heartrate.length || time.length < 2) {
+    return null;
+  }
+  const histogram = {};
+  for (let i = 1; i < time.length; i++) {
+    const gap = time[i] - time[i - 1];
+    const bpm = Math.round(heartrate[i]);
+    if (gap > 0 && gap <= MAX_SAMPLE_GAP_SECONDS && bpm > 0) {
+      histogram[bpm] = (histogram[bpm] || 0) + gap;
+    }
+  }
+  return Object.keys(histogram).length > 0 ? histogram : null;
+}
+
+export function getZoneIndex(bpm, zones) {
+  const index = zones.findIndex(zone => zone.max === -1 || bpm < zone.max);
+  return index === -1 ? zones.length - 1 : index;
+}
+
+// Seconds per zone from a histogram
+export function getTimeInZones(histogram, zones) {
+  const seconds = zones.map(() => 0);
+  Object.entries(histogram || {}).forEach(([bpm, time]) => {
+    seconds[getZoneIndex(Number(bpm), zones)] += Number(time) || 0;
+  });
+  return seconds;
+}
+
+// Share of time in the easy zones (Z1-Z2) vs the rest; null without any time
+export function getPolarisation(zoneSeconds) {
+  const total = zoneSeconds.reduce((sum, seconds) => sum + seconds, 0);
+  if (total <= 0) return null;
+  const easy = zoneSeconds.slice(0, EASY_ZONE_COUNT).reduce((sum, seconds) => sum + seconds, 0);
+  const easyPercent = Math.round((easy / total) * 100);
+  return { easyPercent, hardPercent: 100 - easyPercent };
+}
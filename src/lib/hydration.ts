@@ -0,0 +1,173 @@
+import { doc, getDoc } from "firebase/firestore";
+import { DailyLog, FluidEntry, FluidKind } from "@/types/nutrition";
+import { db } from "./firebase";
+import { queryClient } from "./queryClient";
+import { AthleteProfile, TrainingActivity, isRunActivity } from "./nutritionTargets";
+import { TRAINING_DAYS_STALE_TIME, fetchAthleteProfile } from "./trainingDays";
+import { saveDailyLogWithRevision } from "./logRevisions";
+
+// Hydration: drinks logged on the DailyLog and a daily fluid target. The target is a
+// body-weight baseline plus the sweat lost on that day's runs, estimated from run
+// duration and the average temperature api/runs.js stores on each detailed run.
+
+const USER_ID = "mihir_jain";
+const RUN_TEMPERATURE_QUERY_KEY = "runTemperature";
+
+const BASE_FLUID_ML_PER_KG = 35;
+// Sweat rate for an easy-to-moderate run: ~0.8 L/h in cool weather, rising with heat
+const SWEAT_RATE_ML_PER_HOUR_AT_15C = 800;
+const SWEAT_RATE_ML_PER_HOUR_PER_C = 50;
+const SWEAT_RATE_MIN_ML_PER_HOUR = 500;
+const SWEAT_RATE_MAX_ML_PER_HOUR = 2000;
+const DEFAULT_SWEAT_RATE_ML_PER_HOUR = 1000; // No temperature recorded
+const SWEAT_SODIUM_MG_PER_LITRE = 900;
+
+export const FLUID_KIND_LABELS: Record<FluidKind, string> = {
+  water: "Water",
+  electrolyte: "Electrolyte drink"
+};
+
+// Quick-add drinks. Electrolytes are per the listed volume.
+export const FLUID_PRESETS: Omit<FluidEntry, "timestamp">[] = [
+  { name: "Water (glass)", kind: "water", volumeMl: 250 },
+  { name: "Water (bottle)", kind: "water", volumeMl: 500 },
+  { name: "Electrolyte drink", kind: "electrolyte", volumeMl: 500, sodium: 500, potassium: 100 },
+  { name: "ORS", kind: "electrolyte", volumeMl: 200, sodium: 345, potassium: 156 },
+  { name: "Coconut water", kind: "electrolyte", volumeMl: 250, sodium: 60, potassium: 600 }
+];
+
+export interface RunSweatLoss {
+  id?: number | string;
+  minutes: number;
+  temperatureC: number | null; // null when the run has no temperature recorded
+  sweatRateMlPerHour: number;
+  sweatLossMl: number;
+}
+
+export interface HydrationTarget {
+  baseMl: number;
+  sweatLossMl: number;
+  targetMl: number; // Baseline plus sweat loss
+  sodiumLossMg: number; // Sodium lost in sweat, to replace with electrolytes
+  runs: RunSweatLoss[];
+}
+
+export interface FluidTotals {
+  volumeMl: number;
+  electrolyteMl: number;
+  sodium: number; // mg
+  potassium: number; // mg
+}
+
+export function estimateSweatRate(temperatureC: number | null): number {
+  if (temperatureC === null) return DEFAULT_SWEAT_RATE_ML_PER_HOUR;
+  const rate = SWEAT_RATE_ML_PER_HOUR_AT_15C + (temperatureC - 15) * SWEAT_RATE_ML_PER_HOUR_PER_C;
+  return Math.round(Math.min(SWEAT_RATE_MAX_ML_PER_HOUR, Math.max(SWEAT_RATE_MIN_ML_PER_HOUR, rate)));
+}
+
+export function estimateRunSweatLoss(run: TrainingActivity, temperatureC: number | null): RunSweatLoss {
+  const minutes = Math.round((run.moving_time || 0) / 60);
+  const sweatRateMlPerHour = estimateSweatRate(temperatureC);
+  return {
+    id: run.id,
+    minutes,
+    temperatureC,
+    sweatRateMlPerHour,
+    sweatLossMl: Math.round((sweatRateMlPerHour * minutes) / 60)
+  };
+}
+
+export function buildHydrationTarget(weightKg: number, runs: RunSweatLoss[]): HydrationTarget {
+  const baseMl = Math.round((BASE_FLUID_ML_PER_KG * weightKg) / 50) * 50;
+  const sweatLossMl = runs.reduce((sum, run) => sum + run.sweatLossMl, 0);
+  return {
+    baseMl,
+    sweatLossMl,
+    targetMl: baseMl + Math.round(sweatLossMl / 50) * 50,
+    sodiumLossMg: Math.round((sweatLossMl / 1000) * SWEAT_SODIUM_MG_PER_LITRE),
+    runs
+  };
+}
+
+// Average temperature from the run's detailed_runs document, if it has been fetched
+async function loadRunTemperature(runId: number | string): Promise<number | null> {
+  try {
+    const runSnapshot = await getDoc(doc(db, "detailed_runs", `${USER_ID}_${runId}`));
+    const temperature = runSnapshot.exists() ? runSnapshot.data().average_temp : null;
+    return typeof temperature === "number" ? temperature : null;
+  } catch (error) {
+    console.error(`Firestore: Error loading temperature for run ${runId}:`, error);
+    return null;
+  }
+}
+
+export function fetchRunTemperature(runId: number | string): Promise<number | null> {
+  return queryClient.fetchQuery({
+    queryKey: [RUN_TEMPERATURE_QUERY_KEY, String(runId)],
+    queryFn: () => loadRunTemperature(runId),
+    staleTime: TRAINING_DAYS_STALE_TIME
+  });
+}
+
+// Fluid target for a day from its Strava activities
+export async function loadHydrationTarget(
+  activities: TrainingActivity[],
+  profile?: AthleteProfile
+): Promise<HydrationTarget> {
+  const runs = activities.filter(isRunActivity);
+  const [athlete, temperatures] = await Promise.all([
+    profile ? Promise.resolve(profile) : fetchAthleteProfile(),
+    Promise.all(runs.map(run => (run.id != null ? fetchRunTemperature(run.id) : Promise.resolve(null))))
+  ]);
+  return buildHydrationTarget(
+    athlete.weightKg,
+    runs.map((run, index) => estimateRunSweatLoss(run, temperatures[index]))
+  );
+}
+
+export function getFluidTotals(fluids: FluidEntry[] = []): FluidTotals {
+  return fluids.reduce<FluidTotals>((totals, fluid) => ({
+    volumeMl: totals.volumeMl + (fluid.volumeMl || 0),
+    electrolyteMl: totals.electrolyteMl + (fluid.kind === "electrolyte" ? fluid.volumeMl || 0 : 0),
+    sodium: totals.sodium + (fluid.sodium || 0),
+    potassium: totals.potassium + (fluid.potassium || 0)
+  }), { volumeMl: 0, electrolyteMl: 0, sodium: 0, potassium: 0 });
+}
+
+export function formatFluidVolume(volumeMl: number): string {
+  return volumeMl >= 1000 ? `${(volumeMl / 1000).toFixed(1)} L` : `${Math.round(volumeMl)} ml`;
+}
+
+// A drink from a preset, with electrolytes scaled when a different volume was drunk
+export function createFluidEntry(preset: Omit<FluidEntry, "timestamp">, volumeMl: number = preset.volumeMl): FluidEntry {
+  const scale = preset.volumeMl > 0 ? volumeMl / preset.volumeMl : 1;
+  const fluid: FluidEntry = {
+    name: preset.name,
+    kind: preset.kind,
+    volumeMl,
+    timestamp: new Date().toISOString()
+  };
+  if (preset.sodium !== undefined) fluid.sodium = Math.round(preset.sodium * scale);
+  if (preset.potassium !== undefined) fluid.potassium = Math.round(preset.potassium * scale);
+  return fluid;
+}
+
+export async function addFluidToLog(log: DailyLog, fluid: FluidEntry): Promise<DailyLog> {
+  const updatedLog: DailyLog = {
+    ...log,
+    fluids: [...(log.fluids || []), fluid],
+    lastUpdated: new Date().toISOString()
+  };
+  await saveDailyLogWithRevision(updatedLog, { action: "add", previous: log });
+  return updatedLog;
+}
+
+export async function removeFluidFromLog(log: DailyLog, timestamp: string): Promise<DailyLog> {
+  const updatedLog: DailyLog = {
+    ...log,
+    fluids: (log.fluids || []).filter(fluid => fluid.timestamp !== timestamp),
+    lastUpdated: new Date().toISOString()
+  };
+  await saveDailyLogWithRevision(updatedLog, { action: "remove", previous: log });
+  return updatedLog;
+}
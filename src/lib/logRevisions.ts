@@ -0,0 +1,174 @@
+import { DailyLog, FluidEntry, FoodEntry, LogRevision, LogRevisionAction } from "@/types/nutrition";
+import { calculateTotals, getEntryKeys, saveDailyLogToFirestore } from "./nutritionUtils";
+import { formatEntryAmount } from "./servingUnits";
+import { db } from "./firebase";
+import { collection, doc, getDocs, limit, orderBy, query, setDoc } from "firebase/firestore";
+
+// Revision history for daily logs. Every change made through saveDailyLogWithRevision is
+// stored under nutritionLogs/{date}/revisions with the version before and after, so any
+// earlier version of a day can be restored and destructive edits can be undone.
+
+const USER_ID = "mihir_jain";
+const MAX_REVISIONS_SHOWN = 50;
+
+export interface LogChange {
+  action: LogRevisionAction;
+  previous: DailyLog | null; // The day as it was before this change
+  summary?: string; // Defaults to a description of the entry changes
+}
+
+export const REVISION_ACTION_LABELS: Record<LogRevisionAction, string> = {
+  add: "Added",
+  remove: "Removed",
+  update: "Edited",
+  "auto-fill": "Auto-filled",
+  import: "Imported",
+  plan: "Logged from plan",
+  restore: "Restored",
+  undo: "Undone"
+};
+
+const revisionsCollection = (date: string) => collection(db, "nutritionLogs", date, "revisions");
+
+// "Chrome on Android", so a revision says which device made it
+export function getDeviceLabel(): string {
+  if (typeof navigator === "undefined") return "Unknown device";
+  const agent = navigator.userAgent;
+  const browser = /Edg\//.test(agent) ? "Edge"
+    : /Firefox\//.test(agent) ? "Firefox"
+    : /Chrome\//.test(agent) ? "Chrome"
+    : /Safari\//.test(agent) ? "Safari"
+    : "Browser";
+  const os = /Android/.test(agent) ? "Android"
+    : /iPhone|iPad|iPod/.test(agent) ? "iOS"
+    : /Mac OS X/.test(agent) ? "macOS"
+    : /Windows/.test(agent) ? "Windows"
+    : /Linux/.test(agent) ? "Linux"
+    : "unknown OS";
+  return `${browser} on ${os}`;
+}
+
+const describeEntry = (entry: FoodEntry) => `${entry.foodId} (${formatEntryAmount(entry)})`;
+const describeFluid = (fluid: FluidEntry) => `${fluid.name} (${fluid.volumeMl} ml)`;
+
+// Human-readable list of what changed between two versions of a day, entry by entry and drink by drink
+export function describeLogChanges(before: DailyLog | null, after: DailyLog): string[] {
+  const beforeEntries = before?.entries || [];
+  const beforeKeys = getEntryKeys(beforeEntries);
+  const afterKeys = getEntryKeys(after.entries);
+  const beforeByKey = new Map(beforeKeys.map((key, index) => [key, beforeEntries[index]]));
+  const afterKeySet = new Set(afterKeys);
+  const changes: string[] = [];
+
+  after.entries.forEach((entry, index) => {
+    const previous = beforeByKey.get(afterKeys[index]);
+    if (!previous) {
+      changes.push(`Added ${describeEntry(entry)}`);
+      return;
+    }
+    const details: string[] = [];
+    if (formatEntryAmount(previous) !== formatEntryAmount(entry)) {
+      details.push(`${formatEntryAmount(previous)} → ${formatEntryAmount(entry)}`);
+    }
+    if ((previous.mealSlot || "") !== (entry.mealSlot || "")) {
+      details.push(`meal ${previous.mealSlot || "none"} → ${entry.mealSlot || "none"}`);
+    }
+    if ((previous.consumedAt || "") !== (entry.consumedAt || "")) {
+      details.push("time changed");
+    }
+    if (details.length > 0) {
+      changes.push(`Changed ${entry.foodId}: ${details.join(", ")}`);
+    }
+  });
+  beforeKeys.forEach((key, index) => {
+    if (!afterKeySet.has(key)) {
+      changes.push(`Removed ${describeEntry(beforeEntries[index])}`);
+    }
+  });
+
+  // Drinks are keyed by when they were logged
+  const beforeFluids = before?.fluids || [];
+  const afterFluids = after.fluids || [];
+  const beforeFluidKeys = new Set(beforeFluids.map(fluid => fluid.timestamp));
+  const afterFluidKeys = new Set(afterFluids.map(fluid => fluid.timestamp));
+  afterFluids
+    .filter(fluid => !beforeFluidKeys.has(fluid.timestamp))
+    .forEach(fluid => changes.push(`Added ${describeFluid(fluid)}`));
+  beforeFluids
+    .filter(fluid => !afterFluidKeys.has(fluid.timestamp))
+    .forEach(fluid => changes.push(`Removed ${describeFluid(fluid)}`));
+  return changes;
+}
+
+// Firestore rejects undefined values, so store plain JSON copies of each version
+const toStoredLog = (log: DailyLog): DailyLog => JSON.parse(JSON.stringify(log));
+
+// Record a revision. Written in the background: Firestore queues the write while
+// offline, and a failure to record history never blocks saving the log itself.
+export function recordLogRevision(after: DailyLog, change: LogChange): LogRevision | null {
+  const changes = describeLogChanges(change.previous, after);
+  if (changes.length === 0 && change.action !== "restore" && change.action !== "undo") {
+    return null;
+  }
+
+  const createdAt = new Date().toISOString();
+  const revisionRef = doc(revisionsCollection(after.date));
+  const revision: LogRevision = {
+    id: revisionRef.id,
+    date: after.date,
+    createdAt,
+    author: { userId: USER_ID, device: getDeviceLabel() },
+    action: change.action,
+    summary: change.summary || changes[0] || REVISION_ACTION_LABELS[change.action],
+    changes,
+    before: change.previous ? toStoredLog(change.previous) : null,
+    after: toStoredLog(after)
+  };
+
+  console.log(`Firestore: Recording ${change.action} revision for ${after.date}`);
+  setDoc(revisionRef, revision).catch(error => {
+    console.error(`Firestore: Error recording revision for ${after.date}:`, error);
+  });
+  return revision;
+}
+
+// Save a day and record what changed
+export async function saveDailyLogWithRevision(log: DailyLog, change: LogChange): Promise<LogRevision | null> {
+  await saveDailyLogToFirestore(log);
+  return recordLogRevision(log, change);
+}
+
+// Newest first
+export async function loadLogRevisions(date: string): Promise<LogRevision[]> {
+  console.log(`Firestore: Loading revisions for ${date}`);
+  try {
+    const snapshot = await getDocs(query(revisionsCollection(date), orderBy("createdAt", "desc"), limit(MAX_REVISIONS_SHOWN)));
+    return snapshot.docs.map(revisionDoc => revisionDoc.data() as LogRevision);
+  } catch (error) {
+    console.error(`Firestore: Error loading revisions for ${date}:`, error);
+    throw error;
+  }
+}
+
+// Make an earlier version the current one (null: the day before anything was logged).
+// Restoring is itself a revision, so it can be undone too.
+export async function restoreLogVersion(
+  version: DailyLog | null,
+  current: DailyLog,
+  options: { action?: Extract<LogRevisionAction, "restore" | "undo">; summary?: string } = {}
+): Promise<DailyLog> {
+  const entries = version ? version.entries : [];
+  const restored: DailyLog = {
+    ...current,
+    entries,
+    fluids: version?.fluids || [],
+    totals: calculateTotals(entries),
+    lastUpdated: new Date().toISOString()
+  };
+  await saveDailyLogWithRevision(restored, {
+    action: options.action || "restore",
+    previous: current,
+    summary: options.summary
+  });
+  return restored;
+}
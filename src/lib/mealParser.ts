@@ -0,0 +1,306 @@
+import { FoodItem } from "@/types/nutrition";
+import { convertToServings } from "./servingUnits";
+
+// Parse free text like "2 rotis, a bowl of dal and 200ml milk" into catalog foods.
+// Everything here is deterministic and runs offline; the optional LLM mode only
+// splits the text into items and still resolves foods through the same matcher.
+
+export interface ParsedMealItem {
+  text: string; // The piece of input this item came from
+  quantity: number;
+  unit: string | null; // Normalized unit ("g", "ml", "bowl", ...) or null for a plain count
+  query: string; // Food name as written
+  food: FoodItem | null; // Best catalog match, null if nothing is close enough
+  score: number; // Match confidence, 0-1
+  alternatives: FoodItem[]; // Next best matches for the confirmation table
+  servings: number; // Quantity converted to servings of the matched food
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, half: 0.5, quarter: 0.25, couple: 2, few: 3
+};
+
+const UNICODE_FRACTIONS: Record<string, number> = { "½": 0.5, "¼": 0.25, "¾": 0.75, "⅓": 1 / 3, "⅔": 2 / 3 };
+
+// Unit aliases -> normalized unit. Weight and volume units convert to grams.
+const UNIT_ALIASES: Record<string, string> = {
+  g: "g", gm: "g", gms: "g", gram: "g", grams: "g", gr: "g",
+  kg: "kg", kgs: "kg", kilo: "kg", kilos: "kg",
+  ml: "ml", millilitre: "ml", milliliter: "ml", millilitres: "ml", milliliters: "ml",
+  l: "l", litre: "l", liter: "l", litres: "l", liters: "l",
+  cup: "cup", cups: "cup", bowl: "bowl", bowls: "bowl", katori: "bowl", katoris: "bowl",
+  glass: "glass", glasses: "glass", plate: "plate", plates: "plate",
+  tbsp: "tbsp", tablespoon: "tbsp", tablespoons: "tbsp", tsp: "tsp", teaspoon: "tsp", teaspoons: "tsp",
+  piece: "piece", pieces: "piece", pc: "piece", pcs: "piece", slice: "slice", slices: "slice",
+  scoop: "scoop", scoops: "scoop", serving: "serving", servings: "serving", serve: "serving", serves: "serving"
+};
+
+const MIN_MATCH_SCORE = 0.6;
+const SPAN_WORD_SIMILARITY = 0.8;
+
+// "," ";" and new lines always separate foods; conjunctions only when they aren't part of a food name
+const HARD_SEPARATORS = /\n|,|;/;
+const CONJUNCTIONS = /(\+|&|\band\b|\bwith\b)/i;
+
+const normalizeText = (text: string) =>
+  text.toLowerCase().normalize("NFKD").replace(/[^a-z0-9\s]/g, " ").replace(/\s+/g, " ").trim();
+
+// Crude singular form so "rotis" matches "Roti" and "bananas" matches "Banana"
+const singularize = (word: string) =>
+  word.length > 3 && word.endsWith("ies") ? `${word.slice(0, -3)}y`
+    : word.length > 3 && word.endsWith("es") && /(ch|sh|x|ss)es$/.test(word) ? word.slice(0, -2)
+    : word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1)
+    : word;
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const wordSimilarity = (a: string, b: string) => {
+  if (a === b) return 1;
+  if (b.startsWith(a) && a.length >= 3) return 0.9;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+};
+
+const toWords = (text: string) => normalizeText(text).split(" ").filter(Boolean).map(singularize);
+
+// How well a typed food name matches a catalog food name, 0-1. Every typed word
+// must find a close word in the food name; misspellings cost edit distance.
+export function scoreFoodMatch(query: string, foodName: string): number {
+  const queryWords = toWords(query);
+  const foodWords = toWords(foodName);
+  if (queryWords.length === 0 || foodWords.length === 0) return 0;
+
+  const perWord = queryWords.map(word => Math.max(...foodWords.map(foodWord => wordSimilarity(word, foodWord))));
+  const coverage = perWord.reduce((sum, score) => sum + score, 0) / queryWords.length;
+  // Prefer shorter food names when the typed words cover them ("dal" over "dal makhani bowl")
+  const brevity = Math.min(queryWords.length / foodWords.length, 1);
+  return Math.round((coverage * 0.85 + brevity * 0.15) * 100) / 100;
+}
+
+// Rank catalog foods against a typed name, best first
+export function matchFoods(query: string, foods: FoodItem[], limit = 4): { food: FoodItem; score: number }[] {
+  return foods
+    .map(food => ({ food, score: scoreFoodMatch(query, food.name) }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+function parseQuantityToken(token: string): number | null {
+  if (UNICODE_FRACTIONS[token] !== undefined) return UNICODE_FRACTIONS[token];
+  if (NUMBER_WORDS[token] !== undefined) return NUMBER_WORDS[token];
+  const fraction = token.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return parseInt(fraction[2], 10) ? parseInt(fraction[1], 10) / parseInt(fraction[2], 10) : null;
+  const number = parseFloat(token);
+  return /^\d+(\.\d+)?$/.test(token) && !isNaN(number) ? number : null;
+}
+
+// Pull the quantity, unit and food name out of one piece of text
+export function parseMealItemText(text: string): { quantity: number; unit: string | null; query: string } {
+  // Separate numbers glued to units ("200ml" -> "200 ml") and fractions glued to numbers ("1½")
+  const tokens = text
+    .toLowerCase()
+    .replace(/(\d)([a-z])/g, "$1 $2")
+    .replace(/([½¼¾⅓⅔])/g, " $1 ")
+    .split(/\s+/)
+    .filter(Boolean);
+
+  let quantity: number | null = null;
+  let unit: string | null = null;
+  let index = 0;
+
+  // Leading quantity, possibly a mixed number like "1 ½"
+  while (index < tokens.length) {
+    const value = parseQuantityToken(tokens[index]);
+    if (value === null) break;
+    quantity = (quantity || 0) + value;
+    index++;
+  }
+  if (index < tokens.length && UNIT_ALIASES[tokens[index]]) {
+    unit = UNIT_ALIASES[tokens[index]];
+    index++;
+  }
+  if (tokens[index] === "of") index++;
+
+  // Trailing quantity ("dal 1 bowl", "milk 200 ml")
+  let rest = tokens.slice(index);
+  if (quantity === null && rest.length >= 2) {
+    const unitAtEnd = UNIT_ALIASES[rest[rest.length - 1]];
+    const valueBeforeUnit = unitAtEnd ? parseQuantityToken(rest[rest.length - 2]) : null;
+    const valueAtEnd = parseQuantityToken(rest[rest.length - 1]);
+    if (unitAtEnd && valueBeforeUnit !== null) {
+      quantity = valueBeforeUnit;
+      unit = unitAtEnd;
+      rest = rest.slice(0, -2);
+    } else if (valueAtEnd !== null && !NUMBER_WORDS[rest[rest.length - 1]]) {
+      quantity = valueAtEnd;
+      rest = rest.slice(0, -1);
+    }
+  }
+
+  return {
+    quantity: quantity !== null && quantity > 0 ? quantity : 1,
+    unit,
+    query: rest.join(" ").trim()
+  };
+}
+
+// Whether every typed word closely matches a word of the food name, so text joined
+// across a conjunction is only kept whole when it names that food
+function coversFoodName(query: string, foodName: string): boolean {
+  const queryWords = toWords(query);
+  const foodWords = toWords(foodName);
+  return queryWords.length > 0 &&
+    queryWords.every(word => foodWords.some(foodWord => wordSimilarity(word, foodWord) >= SPAN_WORD_SIMILARITY));
+}
+
+// Split one comma-separated segment on its conjunctions. A span across conjunctions that
+// names a catalog food with a conjunction in it stays whole ("Knorr Pizza and Pasta Sauce"),
+// and a following piece without its own quantity that resolves to the same food is
+// folded back in rather than logged twice.
+function splitOnConjunctions(segment: string, foods: FoodItem[], conjunctionFoods: FoodItem[]): string[] {
+  const parts = segment.split(CONJUNCTIONS); // Pieces at even indices, conjunctions between them
+  const spanText = (from: number, to: number) => parts.slice(from, to + 1).join("").trim();
+
+  const spans: { from: number; to: number }[] = [];
+  for (let from = 0; from < parts.length;) {
+    let to = from;
+    for (let end = parts.length - 1; end > from; end -= 2) {
+      const query = parseMealItemText(spanText(from, end)).query;
+      if (conjunctionFoods.some(food => coversFoodName(query, food.name))) {
+        to = end;
+        break;
+      }
+    }
+    spans.push({ from, to });
+    from = to + 2;
+  }
+
+  const merged: { from: number; to: number; food: FoodItem | null }[] = [];
+  spans.forEach(span => {
+    const text = spanText(span.from, span.to);
+    if (!text) return;
+    const parsed = parseMealItemText(text);
+    const match = parsed.query ? matchFoods(parsed.query, foods, 1)[0] : undefined;
+    const food = match && match.score >= MIN_MATCH_SCORE ? match.food : null;
+    const previous = merged[merged.length - 1];
+    const hasOwnQuantity = parsed.query !== text.toLowerCase().replace(/\s+/g, " ");
+    if (previous && food && previous.food === food && !hasOwnQuantity) {
+      previous.to = span.to;
+      return;
+    }
+    merged.push({ ...span, food });
+  });
+  return merged.map(span => spanText(span.from, span.to));
+}
+
+// Split input into one piece per food. "," ";" and new lines always separate foods;
+// "and" "with" "&" "+" do too unless they belong to a catalog food's name.
+export function splitMealText(text: string, foods: FoodItem[] = []): string[] {
+  const conjunctionFoods = foods.filter(food => CONJUNCTIONS.test(food.name));
+  return text
+    .split(HARD_SEPARATORS)
+    .flatMap(segment => splitOnConjunctions(segment, foods, conjunctionFoods))
+    .map(part => part.trim())
+    .filter(Boolean);
+}
+
+// Convert a parsed quantity into servings of the matched food. Weights, volumes and
+// pieces use the food's serving size; bowls, cups and plain counts are taken as servings.
+export function toServings(quantity: number, unit: string | null, food: FoodItem | null): number {
+  if (!food) return quantity;
+  const servings = convertToServings(quantity, unit, food);
+  return servings !== null ? Math.round(servings * 100) / 100 : quantity;
+}
+
+function resolveItem(text: string, parsed: { quantity: number; unit: string | null; query: string }, foods: FoodItem[]): ParsedMealItem {
+  const matches = matchFoods(parsed.query, foods);
+  const best = matches[0] && matches[0].score >= MIN_MATCH_SCORE ? matches[0] : null;
+  return {
+    text,
+    quantity: parsed.quantity,
+    unit: parsed.unit,
+    query: parsed.query,
+    food: best ? best.food : null,
+    score: best ? best.score : matches[0]?.score || 0,
+    alternatives: matches.filter(match => match !== best).map(match => match.food),
+    servings: toServings(parsed.quantity, parsed.unit, best ? best.food : null)
+  };
+}
+
+// Offline parser: split, parse quantities and match each piece against the catalog
+export function parseMealText(text: string, foods: FoodItem[]): ParsedMealItem[] {
+  return splitMealText(text, foods)
+    .map(part => ({ part, parsed: parseMealItemText(part) }))
+    .filter(({ parsed }) => parsed.query.length > 0)
+    .map(({ part, parsed }) => resolveItem(part, parsed, foods));
+}
+
+// LLM-assisted parser: asks /api/chat to split the text into items, then matches each
+// item offline. Falls back to the offline parser if the request or its JSON fails.
+export async function parseMealTextWithLLM(text: string, foods: FoodItem[]): Promise<ParsedMealItem[]> {
+  const systemPrompt = [
+    "You split a meal description into food items for a nutrition logger.",
+    'Reply with ONLY a JSON array like [{"food":"roti","quantity":2,"unit":null},{"food":"milk","quantity":200,"unit":"ml"}].',
+    "Use one of these units when one is given: g, kg, ml, l, cup, bowl, glass, plate, tbsp, tsp, piece, slice, scoop, serving. Otherwise use null.",
+    "Prefer food names from this catalog when they clearly match:",
+    foods.map(food => food.name).join("; ")
+  ].join("\n");
+
+  try {
+    const response = await fetch("/api/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: text }
+        ],
+        userId: "mihir_jain",
+        source: "NutritionJam",
+        sessionId: `meal_parser_${Date.now()}`,
+        useSystemContext: true
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`AI API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const content: string = data.choices?.[0]?.message?.content || data.message || data.response || "";
+    const json = content.match(/\[[\s\S]*\]/);
+    const items = json ? JSON.parse(json[0]) : null;
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new Error("AI response did not contain a list of foods");
+    }
+
+    return items
+      .filter(item => item && typeof item.food === "string" && item.food.trim())
+      .map(item => {
+        const unit = typeof item.unit === "string" ? UNIT_ALIASES[item.unit.toLowerCase()] || null : null;
+        const quantity = Number(item.quantity) > 0 ? Number(item.quantity) : 1;
+        const itemText = `${quantity}${unit ? ` ${unit}` : ""} ${item.food}`;
+        return resolveItem(itemText, { quantity, unit, query: item.food.trim() }, foods);
+      });
+  } catch (error) {
+    console.error("Error parsing meal with AI, using offline parser:", error);
+    return parseMealText(text, foods);
+  }
+}
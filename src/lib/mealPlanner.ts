@@ -0,0 +1,298 @@
+import { DayType, FoodEntry, FoodItem, MealPlanItem, MealPlanItemKind, MealSlot, Recipe, WeeklyMealPlan } from "@/types/nutrition";
+import { CombinedMeal, CombinedMealFood, defaultDailyMealPlans } from "@/data/combinedMeals";
+import { createFoodEntry, findFoodByName, formatDateToYYYYMMDD } from "./nutritionUtils";
+import { pickKnownMicronutrients } from "./micronutrients";
+import { getIngredientServings } from "./recipes";
+import { getServingGrams, parseServingSize } from "./servingUnits";
+import { toCsvRow } from "./utils";
+import { db } from "./firebase";
+import { doc, getDoc, setDoc } from "firebase/firestore";
+
+// Weekly meal planner: plans are stored per week (Monday first) in the mealPlans
+// collection. Items are resolved against the current catalog when shown, so the
+// projected macros and grocery list follow recipe and food edits.
+
+export const WEEKDAY_LABELS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+export interface PlanLookups {
+  meals: CombinedMeal[];
+  foods: FoodItem[];
+  recipes: Recipe[];
+}
+
+export interface PlanTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+}
+
+export interface ResolvedPlanItem {
+  item: MealPlanItem;
+  name: string;
+  missing: boolean; // The meal, recipe or food no longer exists
+  totals: PlanTotals;
+}
+
+export interface GroceryItem {
+  name: string;
+  amount: number;
+  unit: string; // "g", "ml", a count unit like "roti", or "serving"
+}
+
+const ZERO_TOTALS: PlanTotals = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
+
+// --- Weeks ---
+
+// Monday of the week containing the date, as YYYY-MM-DD
+export function getWeekStart(date: Date | string): string {
+  const day = typeof date === "string" ? new Date(`${date}T00:00:00`) : new Date(date);
+  const offset = (day.getDay() + 6) % 7; // Days since Monday
+  day.setDate(day.getDate() - offset);
+  return formatDateToYYYYMMDD(day);
+}
+
+export function shiftWeek(weekStart: string, weeks: number): string {
+  const day = new Date(`${weekStart}T00:00:00`);
+  day.setDate(day.getDate() + weeks * 7);
+  return formatDateToYYYYMMDD(day);
+}
+
+export function getWeekDates(weekStart: string): string[] {
+  return Array.from({ length: 7 }, (_, i) => {
+    const day = new Date(`${weekStart}T00:00:00`);
+    day.setDate(day.getDate() + i);
+    return formatDateToYYYYMMDD(day);
+  });
+}
+
+export function createPlanItemId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createEmptyMealPlan(weekStart: string): WeeklyMealPlan {
+  return {
+    weekStart,
+    days: Object.fromEntries(getWeekDates(weekStart).map(date => [date, []])),
+    dayTypes: {}
+  };
+}
+
+// Fill a week from the default Monday-Saturday plan
+export function createDefaultMealPlan(weekStart: string): WeeklyMealPlan {
+  const plan = createEmptyMealPlan(weekStart);
+  getWeekDates(weekStart).forEach((date, index) => {
+    const dailyPlan = defaultDailyMealPlans.find(candidate => candidate.day === WEEKDAY_LABELS[index]);
+    plan.days[date] = (dailyPlan?.meals || []).map(name => ({ id: createPlanItemId(), kind: "meal", refId: name, servings: 1 }));
+  });
+  return plan;
+}
+
+// --- Resolving items ---
+
+const addTotals = (a: PlanTotals, b: PlanTotals): PlanTotals => ({
+  calories: a.calories + b.calories,
+  protein: a.protein + b.protein,
+  carbs: a.carbs + b.carbs,
+  fat: a.fat + b.fat,
+  fiber: a.fiber + b.fiber
+});
+
+const scaleTotals = (food: Partial<PlanTotals>, servings: number): PlanTotals => ({
+  calories: (food.calories || 0) * servings,
+  protein: (food.protein || 0) * servings,
+  carbs: (food.carbs || 0) * servings,
+  fat: (food.fat || 0) * servings,
+  fiber: (food.fiber || 0) * servings
+});
+
+const findPlanFood = (item: MealPlanItem, lookups: PlanLookups) =>
+  item.kind === "meal" ? undefined : lookups.foods.find(food => food.id === item.refId);
+
+export function getPlanItemName(kind: MealPlanItemKind, refId: string, lookups: PlanLookups): string {
+  if (kind === "meal") return refId;
+  if (kind === "recipe") return lookups.recipes.find(recipe => recipe.id === refId)?.name || refId;
+  return lookups.foods.find(food => food.id === refId)?.name || refId;
+}
+
+export function resolvePlanItem(item: MealPlanItem, lookups: PlanLookups): ResolvedPlanItem {
+  if (item.kind === "meal") {
+    const meal = lookups.meals.find(candidate => candidate.name === item.refId);
+    const totals = (meal?.foods || []).reduce(
+      (sum, food) => addTotals(sum, scaleTotals(food, (food.quantity || 1) * item.servings)),
+      ZERO_TOTALS
+    );
+    return { item, name: item.refId, missing: !meal, totals };
+  }
+
+  // Recipes are catalog foods too, with per-serving macros computed from their ingredients
+  const food = findPlanFood(item, lookups);
+  return {
+    item,
+    name: getPlanItemName(item.kind, item.refId, lookups),
+    missing: !food,
+    totals: food ? scaleTotals(food, item.servings) : ZERO_TOTALS
+  };
+}
+
+export function getPlanDayTotals(items: MealPlanItem[], lookups: PlanLookups): PlanTotals {
+  return items.reduce((sum, item) => addTotals(sum, resolvePlanItem(item, lookups).totals), ZERO_TOTALS);
+}
+
+export function getPlanWeekTotals(plan: WeeklyMealPlan, lookups: PlanLookups): PlanTotals {
+  return Object.values(plan.days).reduce((sum, items) => addTotals(sum, getPlanDayTotals(items, lookups)), ZERO_TOTALS);
+}
+
+export function getPlanDayType(plan: WeeklyMealPlan, date: string): DayType {
+  return plan.dayTypes?.[date] || "easy";
+}
+
+// --- Logging a planned day ---
+
+// Convert a combined meal food into a log entry, snapshotting the meal's macros
+export function combinedMealFoodToEntry(food: CombinedMealFood, mealSlot?: MealSlot, servings = 1): FoodEntry {
+  const catalogFood = findFoodByName(food.foodId);
+  return {
+    foodId: food.foodId,
+    ...(mealSlot ? { mealSlot } : {}),
+    ...(catalogFood ? { catalogId: catalogFood.id, servingSize: catalogFood.servingSize } : {}),
+    ...pickKnownMicronutrients(catalogFood),
+    calories: Number(food.calories) || 0,
+    protein: Number(food.protein) || 0,
+    carbs: Number(food.carbs) || 0,
+    fat: Number(food.fat) || 0,
+    fiber: Number(food.fiber) || 0,
+    quantity: (Number(food.quantity) || 1) * servings,
+    unit: food.unit || "serving",
+    timestamp: new Date().toISOString(),
+    snapshotAt: new Date().toISOString()
+  };
+}
+
+// Log entries for everything planned on a day; missing items are skipped
+export function planDayToEntries(items: MealPlanItem[], lookups: PlanLookups): FoodEntry[] {
+  return items.flatMap(item => {
+    if (item.kind === "meal") {
+      const meal = lookups.meals.find(candidate => candidate.name === item.refId);
+      return (meal?.foods || []).map(food => combinedMealFoodToEntry(food, undefined, item.servings));
+    }
+    const food = findPlanFood(item, lookups);
+    return food ? [createFoodEntry(food, item.servings)] : [];
+  });
+}
+
+// --- Grocery list ---
+
+// Shopping quantity for some servings of a food: its weight or volume when the
+// serving size has one, otherwise a count ("4 roti") or plain servings
+function toGroceryQuantity(food: FoodItem, servings: number): { amount: number; unit: string } {
+  const parsed = parseServingSize(food.servingSize);
+  const grams = getServingGrams(food.servingSize);
+  if (grams) {
+    return { amount: grams * servings, unit: parsed?.unit === "ml" && !parsed.grams ? "ml" : "g" };
+  }
+  if (parsed) {
+    return { amount: parsed.amount * servings, unit: parsed.unit };
+  }
+  return { amount: servings, unit: "serving" };
+}
+
+// Aggregate every ingredient in the plan. Recipes are expanded into their
+// ingredients, scaled by the share of the batch that was planned.
+export function buildGroceryList(plan: WeeklyMealPlan, lookups: PlanLookups): GroceryItem[] {
+  const totals = new Map<string, GroceryItem>();
+  const add = (name: string, amount: number, unit: string) => {
+    if (!(amount > 0)) return;
+    const key = `${name.toLowerCase()}|${unit}`;
+    const existing = totals.get(key);
+    totals.set(key, { name, unit, amount: (existing?.amount || 0) + amount });
+  };
+  const addFood = (food: FoodItem | undefined, name: string, servings: number) => {
+    if (!food) {
+      add(name, servings, "serving");
+      return;
+    }
+    const quantity = toGroceryQuantity(food, servings);
+    add(food.name, quantity.amount, quantity.unit);
+  };
+
+  Object.values(plan.days).flat().forEach(item => {
+    if (item.kind === "meal") {
+      const meal = lookups.meals.find(candidate => candidate.name === item.refId);
+      (meal?.foods || []).forEach(food => {
+        const catalogFood = lookups.foods.find(candidate => candidate.name === food.foodId);
+        addFood(catalogFood, food.foodId, (food.quantity || 1) * item.servings);
+      });
+      return;
+    }
+
+    if (item.kind === "recipe") {
+      const recipe = lookups.recipes.find(candidate => candidate.id === item.refId);
+      if (recipe && recipe.servings > 0) {
+        const batchShare = item.servings / recipe.servings;
+        recipe.ingredients.forEach(ingredient => {
+          const ingredientFood = lookups.foods.find(food => food.id === ingredient.foodId);
+          if (ingredientFood) {
+            addFood(ingredientFood, ingredientFood.name, getIngredientServings(ingredient, ingredientFood) * batchShare);
+          } else {
+            add(ingredient.foodId, ingredient.amount * batchShare, ingredient.unit);
+          }
+        });
+        return;
+      }
+    }
+
+    addFood(findPlanFood(item, lookups), item.refId, item.servings);
+  });
+
+  return Array.from(totals.values())
+    .map(groceryItem => ({
+      ...groceryItem,
+      amount: groceryItem.unit === "g" || groceryItem.unit === "ml"
+        ? Math.ceil(groceryItem.amount)
+        : Math.round(groceryItem.amount * 10) / 10
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+const formatGroceryUnit = (item: GroceryItem) =>
+  item.unit === "g" || item.unit === "ml" ? item.unit : `${item.unit}${item.amount === 1 ? "" : "s"}`;
+
+export function groceryListToText(items: GroceryItem[], weekStart: string): string {
+  return [
+    `Grocery list - week of ${weekStart}`,
+    "",
+    ...items.map(item => `- ${item.name}: ${item.amount} ${formatGroceryUnit(item)}`)
+  ].join("\n");
+}
+
+export function groceryListToCsv(items: GroceryItem[]): string {
+  return [
+    "Item,Amount,Unit",
+    ...items.map(item => toCsvRow([item.name, item.amount, item.unit]))
+  ].join("\n");
+}
+
+// --- Firestore ---
+
+export async function loadMealPlan(weekStart: string): Promise<WeeklyMealPlan | null> {
+  console.log(`Firestore: Loading meal plan for week ${weekStart}`);
+  try {
+    const planSnap = await getDoc(doc(db, "mealPlans", weekStart));
+    if (!planSnap.exists()) return null;
+    const data = planSnap.data() as WeeklyMealPlan;
+    // Make sure every day of the week has a list, even if saved sparsely
+    return { ...createEmptyMealPlan(weekStart), ...data, days: { ...createEmptyMealPlan(weekStart).days, ...data.days } };
+  } catch (error) {
+    console.error(`Firestore: Error loading meal plan for week ${weekStart}:`, error);
+    return null;
+  }
+}
+
+export async function saveMealPlan(plan: WeeklyMealPlan): Promise<WeeklyMealPlan> {
+  const saved = { ...plan, updatedAt: new Date().toISOString() };
+  await setDoc(doc(db, "mealPlans", plan.weekStart), saved);
+  console.log(`Firestore: Saved meal plan for week ${plan.weekStart}`);
+  return saved;
+}
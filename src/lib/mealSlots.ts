@@ -0,0 +1,81 @@
+import { DailyLog, FoodEntry, MealSlot } from "@/types/nutrition";
+import { calculateTotals } from "./nutritionUtils";
+
+export interface MealSlotDefinition {
+  value: MealSlot;
+  label: string;
+  defaultTime: string; // HH:mm used when no consumed-at time is given
+  color: string;
+}
+
+// Slots in the order they are shown in a day
+export const MEAL_SLOTS: MealSlotDefinition[] = [
+  { value: "pre-run", label: "Pre-Run", defaultTime: "06:00", color: "text-orange-600" },
+  { value: "during-run", label: "During Run", defaultTime: "07:00", color: "text-red-600" },
+  { value: "post-run", label: "Post-Run", defaultTime: "08:00", color: "text-purple-600" },
+  { value: "breakfast", label: "Breakfast", defaultTime: "09:00", color: "text-amber-600" },
+  { value: "lunch", label: "Lunch", defaultTime: "13:30", color: "text-green-600" },
+  { value: "snack", label: "Snack", defaultTime: "17:00", color: "text-teal-600" },
+  { value: "dinner", label: "Dinner", defaultTime: "20:30", color: "text-blue-600" }
+];
+
+export const UNASSIGNED_SLOT_LABEL = "Other";
+
+export function getMealSlotDefinition(slot: MealSlot | undefined): MealSlotDefinition | undefined {
+  return MEAL_SLOTS.find(definition => definition.value === slot);
+}
+
+// Best-guess slot for food eaten at a given time of day
+export function inferMealSlot(date: Date = new Date()): MealSlot {
+  const hour = date.getHours();
+  if (hour < 11) return "breakfast";
+  if (hour < 15) return "lunch";
+  if (hour < 19) return "snack";
+  return "dinner";
+}
+
+// Combine a YYYY-MM-DD date and HH:mm time into a local ISO datetime
+export function buildConsumedAt(date: string, time: string): string {
+  const [year, month, day] = date.split("-").map(num => parseInt(num, 10));
+  const [hours, minutes] = time.split(":").map(num => parseInt(num, 10));
+  return new Date(year, month - 1, day, hours || 0, minutes || 0).toISOString();
+}
+
+// Format an entry's consumed-at time as HH:mm (local), or "" if it has none
+export function formatConsumedTime(consumedAt: string | undefined): string {
+  if (!consumedAt) return "";
+  const date = new Date(consumedAt);
+  if (isNaN(date.getTime())) return "";
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+}
+
+export interface MealSlotGroup {
+  slot: MealSlot | null; // null for legacy entries without a slot
+  label: string;
+  entries: { entry: FoodEntry; index: number }[]; // index into the day's entries array
+  totals: DailyLog["totals"];
+}
+
+// Group a day's entries by meal slot, keeping each entry's original index for edits
+export function groupEntriesByMealSlot(entries: FoodEntry[]): MealSlotGroup[] {
+  const safeEntries = Array.isArray(entries) ? entries : [];
+  const groups: MealSlotGroup[] = [];
+
+  [...MEAL_SLOTS.map(definition => definition.value), null].forEach(slot => {
+    const slotEntries = safeEntries
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => (entry.mealSlot || null) === slot || (slot === null && !getMealSlotDefinition(entry.mealSlot)))
+      .sort((a, b) => (a.entry.consumedAt || "").localeCompare(b.entry.consumedAt || ""));
+
+    if (slotEntries.length === 0) return;
+
+    groups.push({
+      slot,
+      label: getMealSlotDefinition(slot)?.label || UNASSIGNED_SLOT_LABEL,
+      entries: slotEntries,
+      totals: calculateTotals(slotEntries.map(({ entry }) => entry))
+    });
+  });
+
+  return groups;
+}
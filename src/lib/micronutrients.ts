@@ -0,0 +1,37 @@
+import { MicronutrientKey, Micronutrients } from "@/types/nutrition";
+
+export interface MicronutrientDefinition {
+  key: MicronutrientKey;
+  label: string;
+  unit: "mg" | "µg";
+  target: number; // Daily target (RDA / adequate intake)
+  upperLimit?: number; // Tolerable upper intake, if one matters for this nutrient
+  note?: string;
+}
+
+// Daily targets for an adult male endurance athlete on a vegetarian diet.
+// Iron is the RDA (8mg) x1.8 for vegetarians; sodium uses the adequate intake with
+// the 2300mg upper limit, though long sweaty runs can justify going over it.
+export const MICRONUTRIENTS: MicronutrientDefinition[] = [
+  { key: "iron", label: "Iron", unit: "mg", target: 14.4, upperLimit: 45, note: "Vegetarian RDA (1.8x)" },
+  { key: "vitaminB12", label: "Vitamin B12", unit: "µg", target: 2.4, note: "Mostly from dairy or supplements" },
+  { key: "calcium", label: "Calcium", unit: "mg", target: 1000, upperLimit: 2500 },
+  { key: "sodium", label: "Sodium", unit: "mg", target: 1500, upperLimit: 2300, note: "Higher on long run days" },
+  { key: "potassium", label: "Potassium", unit: "mg", target: 3400 },
+  { key: "vitaminD", label: "Vitamin D", unit: "µg", target: 15, upperLimit: 100 }
+];
+
+export const MICRONUTRIENT_KEYS: MicronutrientKey[] = MICRONUTRIENTS.map(m => m.key);
+
+// Pick only the micronutrients that have a known numeric value (Firestore rejects undefined)
+export function pickKnownMicronutrients(source: Micronutrients | undefined): Micronutrients {
+  const known: Micronutrients = {};
+  if (!source) return known;
+  MICRONUTRIENT_KEYS.forEach(key => {
+    const value = source[key];
+    if (typeof value === "number" && !isNaN(value)) {
+      known[key] = value;
+    }
+  });
+  return known;
+}
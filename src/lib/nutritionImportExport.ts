@@ -0,0 +1,587 @@
+import { DailyLog, FoodEntry, FoodItem, MealSlot, Micronutrients } from "@/types/nutrition";
+import {
+  NUTRITION_LOG_SCHEMA_VERSION,
+  NutritionDateRange,
+  calculateTotals,
+  findFoodByName,
+  getEntryKeys,
+  getEntryMacros,
+  getEntryMicros,
+  loadNutritionLogsForRange,
+  migrateDailyLog
+} from "./nutritionUtils";
+import { saveDailyLogWithRevision } from "./logRevisions";
+import { findFoodById, getFoodCatalog, loadFoodCatalog, saveFoodToFirestore, slugifyFoodName } from "./foodCatalog";
+import { MICRONUTRIENTS, pickKnownMicronutrients } from "./micronutrients";
+import { MEAL_SLOTS, buildConsumedAt, formatConsumedTime } from "./mealSlots";
+import { SERVING_UNIT, convertToServings, getEntryServings, parseServingSize } from "./servingUnits";
+import { toCsvRow } from "./utils";
+
+// Export nutrition logs as CSV (one row per entry, macros resolved) or JSON (raw DailyLogs),
+// and import our own exports plus MyFitnessPal and Cronometer CSVs. Imports are previewed
+// first: nothing is written until the preview is applied.
+
+export type ImportFormat = "json" | "csv" | "myfitnesspal" | "cronometer";
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  json: "JSON export",
+  csv: "CSV export",
+  myfitnesspal: "MyFitnessPal",
+  cronometer: "Cronometer"
+};
+
+// create: no log for the date yet; merge: new entries are added to the existing log;
+// overwrite: the existing log is replaced; skip: nothing new for the date
+export type ImportAction = "create" | "merge" | "overwrite" | "skip";
+export type ImportMode = "merge" | "overwrite";
+
+export interface ParsedImport {
+  format: ImportFormat;
+  logs: DailyLog[]; // Imported days, oldest first
+  newFoods: FoodItem[]; // Foods not in the catalog, added as custom foods on import
+  warnings: string[];
+  skippedRows: number;
+}
+
+export interface ImportPreviewDay {
+  date: string;
+  action: ImportAction;
+  existingEntries: number;
+  incomingEntries: number;
+  duplicateEntries: number; // Incoming entries already in the log (merge only)
+  caloriesBefore: number;
+  caloriesAfter: number;
+  previous: DailyLog | null; // The saved log, if the day has one
+  log: DailyLog; // What will be saved
+}
+
+export interface ImportPreview extends Omit<ParsedImport, "logs"> {
+  mode: ImportMode;
+  days: ImportPreviewDay[];
+}
+
+// --- Export ---
+
+const MACRO_COLUMNS = ["Calories", "Protein (g)", "Carbs (g)", "Fat (g)", "Fiber (g)"];
+const MICRO_COLUMNS = MICRONUTRIENTS.map(micro => `${micro.label} (${micro.unit})`);
+const CSV_HEADER = ["Date", "Time", "Meal", "Food", "Catalog ID", "Servings", "Amount", "Unit", "Serving Size", ...MACRO_COLUMNS, ...MICRO_COLUMNS];
+
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+// One row per entry with the macros it actually counted for (snapshot x servings)
+export function logsToCsv(logs: DailyLog[]): string {
+  const rows = [...logs]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .flatMap(log => (log.entries || []).map(entry => {
+      const servings = getEntryServings(entry);
+      const macros = getEntryMacros(entry);
+      const micros = getEntryMicros(entry);
+      return toCsvRow([
+        log.date,
+        formatConsumedTime(entry.consumedAt),
+        entry.mealSlot || "",
+        entry.foodId,
+        entry.catalogId || "",
+        round(servings, 3),
+        entry.amountUnit && entry.amountUnit !== SERVING_UNIT ? entry.amount : "",
+        entry.amountUnit && entry.amountUnit !== SERVING_UNIT ? entry.amountUnit : "",
+        entry.servingSize || "",
+        ...(["calories", "protein", "carbs", "fat", "fiber"] as const).map(key => (macros ? round(macros[key] * servings) : "")),
+        ...MICRONUTRIENTS.map(micro => (micros[micro.key] !== undefined ? round(micros[micro.key]! * servings, 2) : ""))
+      ]);
+    }));
+  return [toCsvRow(CSV_HEADER), ...rows].join("\n");
+}
+
+export function logsToJson(logs: DailyLog[], range: NutritionDateRange): string {
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      range,
+      schemaVersion: NUTRITION_LOG_SCHEMA_VERSION,
+      logs: [...logs].sort((a, b) => a.date.localeCompare(b.date))
+    },
+    null,
+    2
+  );
+}
+
+// --- CSV parsing ---
+
+// RFC 4180 CSV: quoted cells may contain commas, doubled quotes and newlines
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value.trim() !== ""));
+}
+
+// --- Import ---
+
+// One food row from any CSV format, with totals for the amount eaten
+interface ImportRow {
+  date: string;
+  time?: string; // HH:mm
+  mealSlot?: MealSlot;
+  name: string;
+  catalogId?: string;
+  servings?: number;
+  servingSize?: string;
+  amount?: number;
+  unit?: string;
+  totals: { calories: number; protein: number; carbs: number; fat: number; fiber: number };
+  micros: Micronutrients; // Totals for the amount eaten
+  addToCatalog: boolean; // False for rows that aren't a food, e.g. MyFitnessPal meal totals
+}
+
+const normalizeHeader = (header: string) => header.replace(/^\uFEFF/, "").trim().toLowerCase().replace(/\s+/g, " ");
+
+const parseNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === "") return undefined;
+  const number = parseFloat(value.replace(/,/g, ""));
+  return isNaN(number) ? undefined : number;
+};
+
+// YYYY-MM-DD, or the M/D/YYYY some exports use
+const normalizeDate = (value: string): string | null => {
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}`;
+  return null;
+};
+
+// "08:15", "8:15 AM" or "8:15:00 PM" as HH:mm
+const normalizeTime = (value: string | undefined): string | undefined => {
+  const match = (value || "").trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]m)?$/i);
+  if (!match) return undefined;
+  let hours = parseInt(match[1], 10);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  return `${String(hours).padStart(2, "0")}:${match[2]}`;
+};
+
+// "Breakfast", "Snacks", "post-run" -> meal slot; anything else is left unassigned
+const normalizeMealSlot = (value: string | undefined): MealSlot | undefined => {
+  const text = (value || "").trim().toLowerCase();
+  if (!text) return undefined;
+  return MEAL_SLOTS.find(slot =>
+    slot.value === text || slot.label.toLowerCase() === text || `${slot.value}s` === text
+  )?.value;
+};
+
+// Column lookup by any of a format's header names
+const columnReader = (headers: string[]) => {
+  const normalized = headers.map(normalizeHeader);
+  return (cells: string[], ...names: string[]): string | undefined => {
+    const index = normalized.findIndex(header => names.includes(header));
+    return index >= 0 ? cells[index] : undefined;
+  };
+};
+
+type ColumnReader = ReturnType<typeof columnReader>;
+
+const readMicros = (read: ColumnReader, cells: string[], columns: Partial<Record<keyof Micronutrients, string[]>>) => {
+  const micros: Micronutrients = {};
+  (Object.keys(columns) as (keyof Micronutrients)[]).forEach(key => {
+    const value = parseNumber(read(cells, ...columns[key]!));
+    if (value !== undefined) micros[key] = value;
+  });
+  return micros;
+};
+
+// Our own CSV export
+function readExportRow(read: ColumnReader, cells: string[]): ImportRow | null {
+  const date = normalizeDate(read(cells, "date") || "");
+  const name = (read(cells, "food") || "").trim();
+  if (!date || !name) return null;
+  return {
+    date,
+    time: normalizeTime(read(cells, "time")),
+    mealSlot: normalizeMealSlot(read(cells, "meal")),
+    name,
+    catalogId: read(cells, "catalog id")?.trim() || undefined,
+    servings: parseNumber(read(cells, "servings")),
+    servingSize: read(cells, "serving size")?.trim() || undefined,
+    amount: parseNumber(read(cells, "amount")),
+    unit: read(cells, "unit")?.trim() || undefined,
+    totals: {
+      calories: parseNumber(read(cells, "calories")) || 0,
+      protein: parseNumber(read(cells, "protein (g)")) || 0,
+      carbs: parseNumber(read(cells, "carbs (g)")) || 0,
+      fat: parseNumber(read(cells, "fat (g)")) || 0,
+      fiber: parseNumber(read(cells, "fiber (g)")) || 0
+    },
+    micros: readMicros(read, cells, Object.fromEntries(
+      MICRONUTRIENTS.map(micro => [micro.key, [normalizeHeader(`${micro.label} (${micro.unit})`)]])
+    )),
+    addToCatalog: true
+  };
+}
+
+// Cronometer "Servings" export: one row per food, amount as "150.00 g" or "1.00 cup"
+function readCronometerRow(read: ColumnReader, cells: string[]): ImportRow | null {
+  const date = normalizeDate(read(cells, "day", "date") || "");
+  const name = (read(cells, "food name") || "").trim();
+  if (!date || !name) return null;
+
+  const amountMatch = (read(cells, "amount") || "").trim().match(/^(\d+(?:\.\d+)?)\s*(.*)$/);
+  const micros = readMicros(read, cells, {
+    sodium: ["sodium (mg)"],
+    potassium: ["potassium (mg)"],
+    iron: ["iron (mg)"],
+    calcium: ["calcium (mg)"],
+    vitaminB12: ["b12 (cobalamin) (µg)", "b12 (cobalamin) (mcg)", "vitamin b12 (µg)"]
+  });
+  // Cronometer reports vitamin D in IU (40 IU = 1 µg)
+  const vitaminDIU = parseNumber(read(cells, "vitamin d (iu)"));
+  if (vitaminDIU !== undefined) micros.vitaminD = round(vitaminDIU / 40, 2);
+
+  return {
+    date,
+    time: normalizeTime(read(cells, "time")),
+    mealSlot: normalizeMealSlot(read(cells, "group", "meal")),
+    name,
+    amount: amountMatch ? parseFloat(amountMatch[1]) : undefined,
+    unit: amountMatch?.[2]?.trim() || undefined,
+    totals: {
+      calories: parseNumber(read(cells, "energy (kcal)")) || 0,
+      protein: parseNumber(read(cells, "protein (g)")) || 0,
+      carbs: parseNumber(read(cells, "carbs (g)", "net carbs (g)")) || 0,
+      fat: parseNumber(read(cells, "fat (g)")) || 0,
+      fiber: parseNumber(read(cells, "fiber (g)")) || 0
+    },
+    micros,
+    addToCatalog: true
+  };
+}
+
+// MyFitnessPal's nutrition export has one row per meal, not per food, so each row is
+// logged as a single "<Meal> (MyFitnessPal)" entry and kept out of the food catalog.
+// Calcium and iron are % daily value there, so only sodium and potassium are imported.
+function readMyFitnessPalRow(read: ColumnReader, cells: string[]): ImportRow | null {
+  const date = normalizeDate(read(cells, "date") || "");
+  if (!date) return null;
+  const meal = (read(cells, "meal") || "").trim();
+  const food = (read(cells, "food", "food name") || "").trim();
+
+  return {
+    date,
+    time: normalizeTime(read(cells, "time")),
+    mealSlot: normalizeMealSlot(meal),
+    name: food || `${meal || "Meal"} (MyFitnessPal)`,
+    totals: {
+      calories: parseNumber(read(cells, "calories")) || 0,
+      protein: parseNumber(read(cells, "protein (g)")) || 0,
+      carbs: parseNumber(read(cells, "carbohydrates (g)")) || 0,
+      fat: parseNumber(read(cells, "fat (g)")) || 0,
+      fiber: parseNumber(read(cells, "fiber")) || 0
+    },
+    micros: readMicros(read, cells, { sodium: ["sodium (mg)"], potassium: ["potassium"] }),
+    addToCatalog: !!food
+  };
+}
+
+function detectCsvFormat(headers: string[]): Exclude<ImportFormat, "json"> | null {
+  const normalized = headers.map(normalizeHeader);
+  if (normalized.includes("food name") && normalized.includes("energy (kcal)")) return "cronometer";
+  if (normalized.includes("meal") && normalized.includes("carbohydrates (g)")) return "myfitnesspal";
+  if (normalized.includes("food") && normalized.includes("servings") && normalized.includes("calories")) return "csv";
+  return null;
+}
+
+const scaleNutrients = <T extends object>(values: T, divisor: number): T =>
+  Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key, typeof value === "number" ? round(value / divisor, 3) : value])
+  ) as T;
+
+const findCatalogFood = (row: Pick<ImportRow, "name" | "catalogId">) => {
+  if (row.catalogId) {
+    const byId = findFoodById(row.catalogId);
+    if (byId) return byId;
+  }
+  const lowerName = row.name.toLowerCase();
+  return findFoodByName(row.name) ||
+    getFoodCatalog({ includeArchived: true }).find(food => food.name.toLowerCase() === lowerName);
+};
+
+// Turn rows into entries. Rows are matched to catalog foods by ID or name; the rest
+// become new custom foods whose serving is the amount in the row. Entries always keep
+// the imported macros as their snapshot, whatever the catalog says.
+function rowsToImport(format: ImportFormat, rows: ImportRow[], skippedRows: number): ParsedImport {
+  const newFoods = new Map<string, FoodItem>();
+  const warnings: string[] = [];
+  const logs = new Map<string, DailyLog>();
+
+  rows.forEach(row => {
+    const catalogFood = findCatalogFood(row);
+    const rowServing = row.amount && row.unit ? `${row.amount} ${row.unit}` : "1 serving";
+    const unit = row.amount && row.unit ? parseServingSize(`${row.amount} ${row.unit}`)?.unit || row.unit.toLowerCase() : undefined;
+
+    // Our own export says how many servings the row was. Otherwise the row's amount is
+    // converted into servings of the catalog food, or the whole row counts as one serving.
+    let servings = 1;
+    let servingSize = row.servingSize || rowServing;
+    let amountFields: Partial<FoodEntry> = {};
+    if (row.servings && row.servings > 0) {
+      servings = row.servings;
+      if (row.amount && unit) {
+        amountFields = { amount: row.amount, amountUnit: unit, unitsPerServing: round(row.amount / servings, 3), unit };
+      }
+    } else if (catalogFood && row.amount && unit) {
+      const converted = convertToServings(row.amount, unit, catalogFood);
+      if (converted && converted > 0) {
+        servings = converted;
+        servingSize = catalogFood.servingSize;
+        amountFields = { amount: row.amount, amountUnit: unit, unitsPerServing: round(row.amount / converted, 3), unit };
+      }
+    }
+
+    let food = catalogFood || newFoods.get(slugifyFoodName(row.name));
+    if (!food && row.addToCatalog) {
+      food = {
+        id: slugifyFoodName(row.name),
+        name: row.name,
+        servingSize,
+        ...scaleNutrients(row.totals, servings),
+        ...pickKnownMicronutrients(scaleNutrients(row.micros, servings)),
+        source: "custom"
+      };
+      newFoods.set(food.id!, food);
+    }
+
+    const entry: FoodEntry = {
+      foodId: food?.name || row.name,
+      ...(food?.id ? { catalogId: food.id } : {}),
+      quantity: round(servings, 3),
+      ...scaleNutrients(row.totals, servings),
+      ...pickKnownMicronutrients(scaleNutrients(row.micros, servings)),
+      servingSize,
+      unit: SERVING_UNIT,
+      ...amountFields,
+      ...(row.mealSlot ? { mealSlot: row.mealSlot } : {}),
+      ...(row.time ? { consumedAt: buildConsumedAt(row.date, row.time) } : {}),
+      // Deterministic so importing the same file twice is recognised as duplicates
+      timestamp: buildConsumedAt(row.date, row.time || MEAL_SLOTS.find(slot => slot.value === row.mealSlot)?.defaultTime || "12:00"),
+      snapshotAt: new Date().toISOString()
+    };
+
+    const log = logs.get(row.date) || { date: row.date, entries: [], totals: calculateTotals([]) };
+    log.entries.push(entry);
+    logs.set(row.date, log);
+  });
+
+  if (rows.length === 0) {
+    warnings.push("No food rows found in the file");
+  }
+  if (skippedRows > 0) {
+    warnings.push(`${skippedRows} row${skippedRows === 1 ? "" : "s"} without a valid date or food name were skipped`);
+  }
+
+  return {
+    format,
+    logs: Array.from(logs.values())
+      .map(log => ({ ...log, totals: calculateTotals(log.entries), schemaVersion: NUTRITION_LOG_SCHEMA_VERSION }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    newFoods: Array.from(newFoods.values()),
+    warnings,
+    skippedRows
+  };
+}
+
+// JSON: our export ({ logs }), a bare array of logs or a single log
+function parseJsonImport(text: string): ParsedImport {
+  const data = JSON.parse(text);
+  const candidates: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.logs) ? data.logs : [data];
+  const logs: DailyLog[] = [];
+  const newFoods = new Map<string, FoodItem>();
+  let skippedRows = 0;
+
+  candidates.forEach(candidate => {
+    const log = candidate as DailyLog;
+    const date = log && typeof log === "object" && typeof log.date === "string" ? normalizeDate(log.date) : null;
+    if (!date || !Array.isArray(log.entries)) {
+      skippedRows++;
+      return;
+    }
+    const migrated = migrateDailyLog({ ...log, date }).log;
+    migrated.entries.forEach(entry => {
+      // Entries from another database may point at custom foods that don't exist here
+      if (!entry.snapshotAt || findCatalogFood({ name: entry.foodId, catalogId: entry.catalogId })) return;
+      const id = entry.catalogId || slugifyFoodName(entry.foodId);
+      if (!newFoods.has(id)) {
+        newFoods.set(id, {
+          id,
+          name: entry.foodId,
+          servingSize: entry.servingSize || "1 serving",
+          calories: entry.calories || 0,
+          protein: entry.protein || 0,
+          carbs: entry.carbs || 0,
+          fat: entry.fat || 0,
+          fiber: entry.fiber || 0,
+          ...pickKnownMicronutrients(entry),
+          source: "custom"
+        });
+      }
+    });
+    logs.push({ ...migrated, totals: calculateTotals(migrated.entries), schemaVersion: NUTRITION_LOG_SCHEMA_VERSION });
+  });
+
+  return {
+    format: "json",
+    logs: logs.sort((a, b) => a.date.localeCompare(b.date)),
+    newFoods: Array.from(newFoods.values()),
+    warnings: [
+      ...(logs.length === 0 ? ["No daily logs found in the file"] : []),
+      ...(skippedRows > 0 ? [`${skippedRows} item${skippedRows === 1 ? "" : "s"} without a valid date or entries were skipped`] : [])
+    ],
+    skippedRows
+  };
+}
+
+// Parse an import file without writing anything. Throws if the format isn't recognised.
+export async function parseImportFile(text: string): Promise<ParsedImport> {
+  await loadFoodCatalog();
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    return parseJsonImport(trimmed);
+  }
+
+  const [headers, ...rows] = parseCsv(trimmed);
+  const format = headers ? detectCsvFormat(headers) : null;
+  if (!headers || !format) {
+    throw new Error("Unrecognised file: expected a JSON or CSV export, or a MyFitnessPal or Cronometer CSV");
+  }
+
+  const read = columnReader(headers);
+  const readRow = format === "cronometer" ? readCronometerRow : format === "myfitnesspal" ? readMyFitnessPalRow : readExportRow;
+  const parsedRows: ImportRow[] = [];
+  let skippedRows = 0;
+  rows.forEach(cells => {
+    const row = readRow(read, cells);
+    if (row) {
+      parsedRows.push(row);
+    } else {
+      skippedRows++;
+    }
+  });
+  return rowsToImport(format, parsedRows, skippedRows);
+}
+
+// Work out what an import would do against the logs already saved
+export function buildImportPreview(parsed: ParsedImport, existingLogs: DailyLog[], mode: ImportMode): ImportPreview {
+  const now = new Date().toISOString();
+  const days = parsed.logs.map((incoming): ImportPreviewDay => {
+    const existing = existingLogs.find(log => log.date === incoming.date);
+    const existingEntries = existing?.entries || [];
+    const caloriesBefore = Math.round(existing?.totals?.calories || 0);
+
+    if (!existing || existingEntries.length === 0 || mode === "overwrite") {
+      const log = { ...incoming, lastUpdated: now };
+      return {
+        date: incoming.date,
+        action: existingEntries.length > 0 ? "overwrite" : "create",
+        existingEntries: existingEntries.length,
+        incomingEntries: incoming.entries.length,
+        duplicateEntries: 0,
+        caloriesBefore,
+        caloriesAfter: Math.round(log.totals.calories),
+        previous: existing || null,
+        log
+      };
+    }
+
+    const existingKeys = new Set(getEntryKeys(existingEntries));
+    const incomingKeys = getEntryKeys(incoming.entries);
+    const added = incoming.entries.filter((_, index) => !existingKeys.has(incomingKeys[index]));
+    const entries = [...existingEntries, ...added];
+    const log: DailyLog = { ...existing, entries, totals: calculateTotals(entries), lastUpdated: now };
+    return {
+      date: incoming.date,
+      action: added.length > 0 ? "merge" : "skip",
+      existingEntries: existingEntries.length,
+      incomingEntries: incoming.entries.length,
+      duplicateEntries: incoming.entries.length - added.length,
+      caloriesBefore,
+      caloriesAfter: Math.round(log.totals.calories),
+      previous: existing,
+      log
+    };
+  });
+
+  return {
+    format: parsed.format,
+    newFoods: parsed.newFoods,
+    warnings: parsed.warnings,
+    skippedRows: parsed.skippedRows,
+    mode,
+    days
+  };
+}
+
+// Dry run: load the saved logs the import touches and preview the result
+export async function previewImport(parsed: ParsedImport, mode: ImportMode): Promise<ImportPreview> {
+  if (parsed.logs.length === 0) {
+    return buildImportPreview(parsed, [], mode);
+  }
+  const existingLogs = await loadNutritionLogsForRange({
+    startDate: parsed.logs[0].date,
+    endDate: parsed.logs[parsed.logs.length - 1].date
+  });
+  return buildImportPreview(parsed, existingLogs, mode);
+}
+
+// Write a previewed import: new foods first, so entries resolve, then every changed day
+export async function applyImport(preview: ImportPreview): Promise<{ days: number; foods: number }> {
+  let foods = 0;
+  for (const food of preview.newFoods) {
+    if (findFoodById(food.id!)) continue;
+    await saveFoodToFirestore(food);
+    foods++;
+  }
+
+  const changedDays = preview.days.filter(day => day.action !== "skip");
+  for (const day of changedDays) {
+    await saveDailyLogWithRevision(day.log, {
+      action: "import",
+      previous: day.previous,
+      summary: `Imported ${day.incomingEntries - day.duplicateEntries} entries from ${IMPORT_FORMAT_LABELS[preview.format]}`
+    });
+  }
+  console.log(`Import: Saved ${changedDays.length} days and ${foods} new foods`);
+  return { days: changedDays.length, foods };
+}
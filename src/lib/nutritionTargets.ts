@@ -0,0 +1,128 @@
+// Nutrition targets that follow the training day. Each day is classified from its
+// Strava activities (rest, easy, long run or race) and gets macro targets scaled to
+// body weight, so a long-run day asks for far more carbohydrate than a rest day.
+
+import { DayType } from "@/types/nutrition";
+
+export type { DayType };
+
+export interface AthleteProfile {
+  weightKg: number;
+  bmr: number; // kcal/day, the surplus fallback until the energy balance model has loaded
+  weeklyCaloriesBurnedTarget: number; // Training volume goal in activity kcal per week
+}
+
+export interface NutritionTargets {
+  dayType: DayType;
+  calories: number;
+  protein: number; // g
+  carbs: number; // g
+  fat: number; // g
+  carbsPerKg: number;
+}
+
+// The subset of a strava_data document the classifier needs
+export interface TrainingActivity {
+  id?: number | string; // Strava activity ID
+  type?: string;
+  distance?: number; // km
+  moving_time?: number; // seconds
+  runType?: string | null;
+  workout_type?: number | null; // Strava: 1 = race for runs
+  calories?: number;
+}
+
+export const DEFAULT_ATHLETE_PROFILE: AthleteProfile = {
+  weightKg: 68.2, // Latest DEXA scan
+  bmr: 1479,
+  weeklyCaloriesBurnedTarget: 3500
+};
+
+export const DAY_TYPES: { value: DayType; label: string; description: string }[] = [
+  { value: "rest", label: "Rest", description: "No training" },
+  { value: "easy", label: "Easy", description: "Easy or moderate session" },
+  { value: "long", label: "Long run", description: "Long run (16 km+ or 90 min+)" },
+  { value: "race", label: "Race", description: "Race day" }
+];
+
+// Per-kg targets. Protein and fat stay constant; carbohydrate follows the training load.
+const PROTEIN_PER_KG = 2.2;
+const FAT_PER_KG = 0.75;
+const CARBS_PER_KG: Record<DayType, number> = {
+  rest: 3.5,
+  easy: 4.5,
+  long: 7,
+  race: 9
+};
+
+const LONG_RUN_MIN_KM = 16;
+const LONG_RUN_MIN_SECONDS = 90 * 60;
+
+export const isRunActivity = (activity: TrainingActivity) => (activity.type || "").toLowerCase().includes("run");
+
+// Classify a day from its activities; the hardest session decides
+export function classifyDayType(activities: TrainingActivity[]): DayType {
+  const runs = activities.filter(isRunActivity);
+  if (runs.some(run => run.runType === "race" || run.workout_type === 1)) return "race";
+  if (runs.some(run =>
+    run.runType === "long" ||
+    (run.distance || 0) >= LONG_RUN_MIN_KM ||
+    (run.moving_time || 0) >= LONG_RUN_MIN_SECONDS
+  )) return "long";
+  return activities.length > 0 ? "easy" : "rest";
+}
+
+export function getDayTypeLabel(dayType: DayType): string {
+  return DAY_TYPES.find(definition => definition.value === dayType)?.label || dayType;
+}
+
+// Daily targets for a day type. Calories are the sum of the macro targets.
+export function getNutritionTargets(dayType: DayType, profile: AthleteProfile = DEFAULT_ATHLETE_PROFILE): NutritionTargets {
+  const carbsPerKg = CARBS_PER_KG[dayType];
+  const protein = Math.round(PROTEIN_PER_KG * profile.weightKg);
+  const carbs = Math.round(carbsPerKg * profile.weightKg);
+  const fat = Math.round(FAT_PER_KG * profile.weightKg);
+  return {
+    dayType,
+    calories: Math.round(protein * 4 + carbs * 4 + fat * 9),
+    protein,
+    carbs,
+    fat,
+    carbsPerKg
+  };
+}
+
+// Average of several days' targets, e.g. to compare a weekly average against
+export function averageNutritionTargets(targets: NutritionTargets[]): Omit<NutritionTargets, "dayType"> | null {
+  if (targets.length === 0) return null;
+  const average = (key: "calories" | "protein" | "carbs" | "fat" | "carbsPerKg") =>
+    targets.reduce((sum, target) => sum + target[key], 0) / targets.length;
+  return {
+    calories: Math.round(average("calories")),
+    protein: Math.round(average("protein")),
+    carbs: Math.round(average("carbs")),
+    fat: Math.round(average("fat")),
+    carbsPerKg: Math.round(average("carbsPerKg") * 10) / 10
+  };
+}
+
+// Percent of each target reached, plus an overall score where overshooting
+// counts against adherence as much as falling short
+export function calculateAdherence(
+  totals: { calories?: number; protein?: number; carbs?: number; fat?: number },
+  targets: Pick<NutritionTargets, "calories" | "protein" | "carbs" | "fat">
+): { calories: number; protein: number; carbs: number; fat: number; score: number } {
+  const percent = (actual: number | undefined, target: number) => (target > 0 ? Math.round(((actual || 0) / target) * 100) : 0);
+  const closeness = (value: number) => Math.max(0, 100 - Math.abs(100 - value));
+
+  const result = {
+    calories: percent(totals.calories, targets.calories),
+    protein: percent(totals.protein, targets.protein),
+    carbs: percent(totals.carbs, targets.carbs),
+    fat: percent(totals.fat, targets.fat)
+  };
+  const score = Math.round(
+    (closeness(result.calories) + closeness(result.protein) + closeness(result.carbs) + closeness(result.fat)) / 4
+  );
+  return { ...result, score };
+}
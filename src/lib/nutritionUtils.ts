@@ -1,6 +1,19 @@
-import { DailyLog, FoodEntry, FoodItem } from "@/types/nutrition";
-import { vegetarianFoods } from "@/data/vegetarianFoods";
+import { DailyLog, FoodEntry, FoodItem, MicronutrientKey, Micronutrients } from "@/types/nutrition";
+import { getFoodCatalog, findFoodById, loadFoodCatalog } from "./foodCatalog";
+import { MICRONUTRIENT_KEYS, pickKnownMicronutrients } from "./micronutrients";
+import { SERVING_UNIT, getEntryServings, getFoodUnitOptions } from "./servingUnits";
 import { db } from "./firebase"; // Import Firestore instance
+import { queryClient } from "./queryClient";
+import { isPermissionDenied } from "./ownerAuth";
+import {
+  getAllPendingLogWrites,
+  getPendingLogWrite,
+  loadSyncStatus,
+  PendingLogWrite,
+  queueLogWrite,
+  removePendingLogWrite,
+  setSyncStatus
+} from "./offlineQueue";
 import { 
   collection, 
   doc, 
@@ -8,14 +21,167 @@ import {
   setDoc, 
   getDocs, 
   query, 
-  orderBy 
+  orderBy,
+  where,
+  runTransaction
 } from "firebase/firestore";
 
 // --- Firestore Collection Reference ---
 const logsCollectionRef = collection(db, "nutritionLogs");
 
+// Bump when the stored DailyLog shape changes; older documents are migrated on load
+export const NUTRITION_LOG_SCHEMA_VERSION = 2;
+
 // --- Utility Functions (Date, Calculation, etc.) ---
 
+// Check whether an entry carries its own macro snapshot
+export function hasMacroSnapshot(entry: FoodEntry): boolean {
+  return !!entry.snapshotAt;
+}
+
+// Create a new entry with an immutable per-serving macro snapshot of the food
+export function createFoodEntry(food: FoodItem, quantity: number, extra: Partial<FoodEntry> = {}): FoodEntry {
+  return {
+    foodId: food.name,
+    catalogId: food.id,
+    quantity,
+    calories: food.calories || 0,
+    protein: food.protein || 0,
+    carbs: food.carbs || 0,
+    fat: food.fat || 0,
+    fiber: food.fiber || 0,
+    ...pickKnownMicronutrients(food),
+    ...(food.microsPartial?.length ? { microsPartial: food.microsPartial } : {}),
+    servingSize: food.servingSize,
+    unit: "serving",
+    timestamp: new Date().toISOString(),
+    snapshotAt: new Date().toISOString(),
+    ...extra
+  };
+}
+
+// Create an entry for an amount in any of the food's units ("75" "g", "2" "roti").
+// Falls back to servings if the unit doesn't apply to the food.
+export function createFoodEntryInUnit(food: FoodItem, amount: number, unit: string, extra: Partial<FoodEntry> = {}): FoodEntry {
+  const option = getFoodUnitOptions(food).find(candidate => candidate.unit === unit);
+  if (!option || option.unit === SERVING_UNIT) {
+    return createFoodEntry(food, amount, extra);
+  }
+  return createFoodEntry(food, Math.round((amount / option.perServing) * 1000) / 1000, {
+    amount,
+    amountUnit: option.unit,
+    unitsPerServing: option.perServing,
+    unit: option.unit,
+    ...extra
+  });
+}
+
+// Resolve the catalog food an entry was logged from (by stable ID, then by name)
+export function resolveEntryFood(entry: FoodEntry): FoodItem | undefined {
+  return (entry.catalogId && findFoodById(entry.catalogId)) || findFoodByName(entry.foodId);
+}
+
+// Per-serving macros for an entry: its snapshot if it has one, otherwise the current catalog values
+export function getEntryMacros(entry: FoodEntry): DailyLog["totals"] | null {
+  if (hasMacroSnapshot(entry)) {
+    return {
+      calories: entry.calories || 0,
+      protein: entry.protein || 0,
+      carbs: entry.carbs || 0,
+      fat: entry.fat || 0,
+      fiber: entry.fiber || 0
+    };
+  }
+  const food = resolveEntryFood(entry);
+  return food ? { calories: food.calories, protein: food.protein, carbs: food.carbs, fat: food.fat, fiber: food.fiber } : null;
+}
+
+// Per-serving micronutrients for an entry; keys without a known value are left out
+export function getEntryMicros(entry: FoodEntry): Micronutrients {
+  if (hasMacroSnapshot(entry)) {
+    return pickKnownMicronutrients(entry);
+  }
+  return pickKnownMicronutrients(resolveEntryFood(entry));
+}
+
+// Micronutrients the entry's values only partly cover (recipes with unknown ingredients)
+function getEntryPartialMicros(entry: FoodEntry): MicronutrientKey[] {
+  return (hasMacroSnapshot(entry) ? entry.microsPartial : resolveEntryFood(entry)?.microsPartial) || [];
+}
+
+// Describe how a food's current catalog values differ from what was logged (null if unchanged or unknown)
+export function getEntryDrift(entry: FoodEntry): { food: FoodItem; changes: string[] } | null {
+  if (!hasMacroSnapshot(entry)) return null;
+  const food = resolveEntryFood(entry);
+  if (!food) return null;
+
+  const changes: string[] = [];
+  if (food.name !== entry.foodId) {
+    changes.push(`renamed to "${food.name}"`);
+  }
+  (["calories", "protein", "carbs", "fat", "fiber"] as const).forEach(key => {
+    const logged = entry[key] || 0;
+    const current = food[key] || 0;
+    if (Math.abs(logged - current) >= 0.05) {
+      changes.push(`${key} ${logged} → ${current}`);
+    }
+  });
+  return changes.length > 0 ? { food, changes } : null;
+}
+
+// Upgrade an older DailyLog so every entry carries a macro snapshot and stable food ID.
+// Entries that already stored inline macros (e.g. from presets) keep them as their snapshot;
+// entries with only foodId + quantity take the current catalog values.
+export function migrateDailyLog(log: DailyLog): { log: DailyLog; changed: boolean } {
+  if ((log.schemaVersion || 1) >= NUTRITION_LOG_SCHEMA_VERSION) {
+    return { log, changed: false };
+  }
+
+  const snapshotAt = log.lastUpdated || new Date().toISOString();
+  const entries = (Array.isArray(log.entries) ? log.entries : []).map(entry => {
+    if (hasMacroSnapshot(entry)) return entry;
+
+    const food = resolveEntryFood(entry);
+    const inlineTotal = (entry.calories || 0) + (entry.protein || 0) + (entry.carbs || 0) + (entry.fat || 0);
+    const migrated: FoodEntry = {
+      ...entry,
+      catalogId: entry.catalogId || food?.id,
+      servingSize: entry.servingSize || food?.servingSize,
+      snapshotAt: entry.timestamp || snapshotAt
+    };
+
+    if (inlineTotal === 0 && food) {
+      migrated.calories = food.calories || 0;
+      migrated.protein = food.protein || 0;
+      migrated.carbs = food.carbs || 0;
+      migrated.fat = food.fat || 0;
+      migrated.fiber = food.fiber || 0;
+    } else {
+      migrated.calories = entry.calories || 0;
+      migrated.protein = entry.protein || 0;
+      migrated.carbs = entry.carbs || 0;
+      migrated.fat = entry.fat || 0;
+      migrated.fiber = entry.fiber || 0;
+    }
+
+    // Drop undefined values, Firestore rejects them
+    Object.keys(migrated).forEach(key => {
+      if (migrated[key] === undefined) delete migrated[key];
+    });
+    return migrated;
+  });
+
+  return {
+    log: {
+      ...log,
+      entries,
+      totals: calculateTotals(entries),
+      schemaVersion: NUTRITION_LOG_SCHEMA_VERSION
+    },
+    changed: true
+  };
+}
+
 // Calculate totals for a set of food entries
 export function calculateTotals(entries: FoodEntry[]): DailyLog["totals"] {
   const totals = {
@@ -26,25 +192,48 @@ export function calculateTotals(entries: FoodEntry[]): DailyLog["totals"] {
     fiber: 0
   };
 
+  const micros: Micronutrients = {};
+  const microsUnknown: Partial<Record<MicronutrientKey, number>> = {};
+
   if (Array.isArray(entries)) {
     entries.forEach(entry => {
-      const food = vegetarianFoods.find(f => f.name === entry.foodId);
-      if (food) {
-        totals.calories += (food.calories || 0) * (entry.quantity || 0);
-        totals.protein += (food.protein || 0) * (entry.quantity || 0);
-        totals.carbs += (food.carbs || 0) * (entry.quantity || 0);
-        totals.fat += (food.fat || 0) * (entry.quantity || 0);
-        totals.fiber += (food.fiber || 0) * (entry.quantity || 0);
+      const macros = getEntryMacros(entry);
+      // Normalize grams/ml/pieces to servings of the macro snapshot
+      const servings = getEntryServings(entry);
+      if (macros) {
+        totals.calories += (macros.calories || 0) * servings;
+        totals.protein += (macros.protein || 0) * servings;
+        totals.carbs += (macros.carbs || 0) * servings;
+        totals.fat += (macros.fat || 0) * servings;
+        totals.fiber += (macros.fiber || 0) * servings;
       }
+
+      // Micronutrients: only sum known values and count the gaps separately
+      const entryMicros = getEntryMicros(entry);
+      const partialMicros = getEntryPartialMicros(entry);
+      MICRONUTRIENT_KEYS.forEach(key => {
+        if (entryMicros[key] !== undefined) {
+          micros[key] = (micros[key] || 0) + entryMicros[key] * servings;
+        }
+        if (entryMicros[key] === undefined || partialMicros.includes(key)) {
+          microsUnknown[key] = (microsUnknown[key] || 0) + 1;
+        }
+      });
     });
   }
 
+  Object.keys(micros).forEach(key => {
+    micros[key] = Math.round(micros[key] * 10) / 10;
+  });
+
   return {
     calories: Math.round(totals.calories),
     protein: Math.round(totals.protein * 10) / 10,
     carbs: Math.round(totals.carbs * 10) / 10,
     fat: Math.round(totals.fat * 10) / 10,
-    fiber: Math.round(totals.fiber * 10) / 10
+    fiber: Math.round(totals.fiber * 10) / 10,
+    micros,
+    microsUnknown
   };
 }
 
@@ -76,9 +265,9 @@ export function formatDateForDisplay(dateString: string): string {
   return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
 }
 
-// Find a food by name
+// Find a food by name in the merged catalog (archived foods still resolve for past logs)
 export function findFoodByName(name: string): FoodItem | undefined {
-  return vegetarianFoods.find(food => food.name === name);
+  return getFoodCatalog({ includeArchived: true }).find(food => food.name === name);
 }
 
 // --- Firestore Operations ---
@@ -87,13 +276,14 @@ export function findFoodByName(name: string): FoodItem | undefined {
 export async function loadAllNutritionLogsFromFirestore(): Promise<Record<string, DailyLog>> {
   console.log("Firestore: Loading all nutrition logs...");
   try {
+    await loadFoodCatalog();
     const logsSnapshot = await getDocs(logsCollectionRef);
     const logs: Record<string, DailyLog> = {};
     logsSnapshot.forEach((doc) => {
       // Ensure data conforms to DailyLog structure
       const data = doc.data();
       if (data && typeof data === "object" && data.date && Array.isArray(data.entries) && data.totals) {
-        logs[doc.id] = data as DailyLog;
+        logs[doc.id] = migrateDailyLog(data as DailyLog).log;
       } else {
         console.warn(`Firestore: Invalid data format for log ${doc.id}`, data);
       }
@@ -106,19 +296,135 @@ export async function loadAllNutritionLogsFromFirestore(): Promise<Record<string
   }
 }
 
+// --- Date-range loading (shared react-query cache) ---
+
+export interface NutritionDateRange {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+}
+
+export const NUTRITION_LOGS_QUERY_KEY = "nutritionLogs";
+// Cached ranges are served immediately; after this long they're refetched in the background
+export const NUTRITION_LOGS_STALE_TIME = 5 * 60 * 1000;
+
+export function nutritionLogsQueryKey(range: NutritionDateRange) {
+  return [NUTRITION_LOGS_QUERY_KEY, range.startDate, range.endDate] as const;
+}
+
+// The last N days including today
+export function getLastDaysRange(days: number): NutritionDateRange {
+  return { startDate: getDateXDaysAgo(Math.max(days, 1) - 1), endDate: getTodayDateString() };
+}
+
+// Load all logs in a date range with a single Firestore query, newest first
+export async function loadNutritionLogsForRange(range: NutritionDateRange): Promise<DailyLog[]> {
+  console.log(`Firestore: Loading nutrition logs from ${range.startDate} to ${range.endDate}`);
+  try {
+    await loadFoodCatalog();
+    const rangeQuery = query(
+      logsCollectionRef,
+      where("date", ">=", range.startDate),
+      where("date", "<=", range.endDate),
+      orderBy("date", "desc")
+    );
+    const logsSnapshot = await getDocs(rangeQuery);
+    const logs: DailyLog[] = [];
+    logsSnapshot.forEach((logDoc) => {
+      const data = logDoc.data();
+      if (data && typeof data === "object" && data.date && Array.isArray(data.entries) && data.totals) {
+        rememberSyncedLog(data as DailyLog);
+        logs.push(migrateDailyLog(data as DailyLog).log);
+      } else {
+        console.warn(`Firestore: Invalid data format for log ${logDoc.id}`, data);
+      }
+    });
+    console.log(`Firestore: Loaded ${logs.length} logs for range`);
+
+    // Edits that haven't synced yet win over what the server has
+    const pending = (await getAllPendingLogWrites())
+      .filter(write => write.date >= range.startDate && write.date <= range.endDate);
+    if (pending.length === 0) return logs;
+    return [
+      ...pending.map(write => write.log),
+      ...logs.filter(log => !pending.some(write => write.date === log.date))
+    ].sort((a, b) => b.date.localeCompare(a.date));
+  } catch (error) {
+    console.error("Firestore: Error loading nutrition logs for range:", error);
+    throw error;
+  }
+}
+
+// Read a date range through the shared cache: cached data is returned straight away
+// (stale data triggers a background refresh), otherwise it is loaded and cached.
+// forceRefresh skips the cache, e.g. for a page's refresh button.
+export async function fetchNutritionLogs(
+  range: NutritionDateRange,
+  options: { forceRefresh?: boolean } = {}
+): Promise<DailyLog[]> {
+  const queryKey = nutritionLogsQueryKey(range);
+  const state = queryClient.getQueryState<DailyLog[]>(queryKey);
+
+  if (state?.data && !options.forceRefresh) {
+    if (state.isInvalidated || Date.now() - state.dataUpdatedAt > NUTRITION_LOGS_STALE_TIME) {
+      queryClient.prefetchQuery({ queryKey, queryFn: () => loadNutritionLogsForRange(range) });
+    }
+    return state.data;
+  }
+
+  try {
+    return await queryClient.fetchQuery({
+      queryKey,
+      queryFn: () => loadNutritionLogsForRange(range),
+      staleTime: options.forceRefresh ? 0 : NUTRITION_LOGS_STALE_TIME
+    });
+  } catch (error) {
+    console.error("Error fetching nutrition logs:", error);
+    return [];
+  }
+}
+
+// Write a saved log into every cached range that covers its date, so readers
+// never see the pre-save version while a refetch is pending
+function updateCachedNutritionLogs(log: DailyLog) {
+  queryClient.getQueriesData<DailyLog[]>({ queryKey: [NUTRITION_LOGS_QUERY_KEY] }).forEach(([queryKey, logs]) => {
+    const [, startDate, endDate] = queryKey as ReturnType<typeof nutritionLogsQueryKey>;
+    if (!logs || log.date < startDate || log.date > endDate) return;
+    const updated = [log, ...logs.filter(existing => existing.date !== log.date)]
+      .sort((a, b) => b.date.localeCompare(a.date));
+    queryClient.setQueryData(queryKey, updated);
+  });
+}
+
 // Load a specific daily log from Firestore
 export async function loadDailyLogFromFirestore(date: string): Promise<DailyLog | null> {
   console.log(`Firestore: Loading log for date: ${date}`);
   try {
+    await loadFoodCatalog();
     const docRef = doc(db, "nutritionLogs", date);
     const docSnap = await getDoc(docRef);
+    const pending = await getPendingLogWrite(date);
+
+    if (!docSnap.exists()) {
+      syncedBases.set(date, { lastUpdated: null, entryKeys: [], fluidKeys: [] });
+    }
+    if (pending) {
+      if (docSnap.exists()) rememberSyncedLog(docSnap.data() as DailyLog);
+      console.log(`Firestore: Using unsynced local copy of log ${date}`);
+      return pending.log;
+    }
 
     if (docSnap.exists()) {
       console.log(`Firestore: Log found for ${date}:`, docSnap.data());
       // Ensure data conforms to DailyLog structure
       const data = docSnap.data();
       if (data && typeof data === "object" && data.date && Array.isArray(data.entries) && data.totals) {
-        return data as DailyLog;
+        rememberSyncedLog(data as DailyLog);
+        const { log, changed } = migrateDailyLog(data as DailyLog);
+        if (changed) {
+          console.log(`Firestore: Migrating log ${date} to schema v${NUTRITION_LOG_SCHEMA_VERSION}`);
+          saveDailyLogToFirestore(log);
+        }
+        return log;
       } else {
         console.warn(`Firestore: Invalid data format for log ${date}`, data);
         return null;
@@ -129,25 +435,224 @@ export async function loadDailyLogFromFirestore(date: string): Promise<DailyLog
     }
   } catch (error) {
     console.error(`Firestore: Error loading log for date ${date}:`, error);
-    return null;
+    // Offline: fall back to the queued local copy, if any
+    const pending = await getPendingLogWrite(date);
+    return pending ? pending.log : null;
+  }
+}
+
+// Migrate every stored log to the current schema and write back the ones that changed
+export async function migrateAllNutritionLogsFirestore(): Promise<number> {
+  console.log("Firestore: Migrating all nutrition logs...");
+  await loadFoodCatalog();
+  const logsSnapshot = await getDocs(logsCollectionRef);
+  let migratedCount = 0;
+
+  for (const logDoc of logsSnapshot.docs) {
+    const data = logDoc.data();
+    if (!data || !data.date || !Array.isArray(data.entries)) continue;
+
+    const { log, changed } = migrateDailyLog(data as DailyLog);
+    if (changed) {
+      await saveDailyLogToFirestore(log);
+      migratedCount++;
+    }
   }
+
+  console.log(`Firestore: Migrated ${migratedCount} nutrition logs`);
+  return migratedCount;
 }
 
-// Save (create or update) a daily log to Firestore
+// Save (create or update) a daily log. The log is written to the offline queue
+// (IndexedDB) first and synced to Firestore in the background, so edits made
+// offline survive reloads and are replayed once the connection is back.
 export async function saveDailyLogToFirestore(log: DailyLog): Promise<void> {
   console.log(`Firestore: Saving log for date: ${log.date}`, log);
+  // Ensure entries is an array
+  const safeLog = { 
+    ...log, 
+    entries: Array.isArray(log.entries) ? log.entries : [] 
+  };
+  updateCachedNutritionLogs(safeLog);
+
   try {
-    // Ensure entries is an array
-    const safeLog = { 
-      ...log, 
-      entries: Array.isArray(log.entries) ? log.entries : [] 
-    };
-    const docRef = doc(db, "nutritionLogs", log.date);
-    await setDoc(docRef, safeLog); // setDoc will create or overwrite
-    console.log(`Firestore: Successfully saved log for date: ${log.date}`);
+    const base = syncedBases.get(log.date);
+    await queueLogWrite(safeLog, {
+      lastUpdated: base ? base.lastUpdated : null,
+      entryKeys: base ? base.entryKeys : null,
+      fluidKeys: base ? base.fluidKeys : null
+    });
   } catch (error) {
-    console.error(`Firestore: Error saving log for date ${log.date}:`, error);
+    // No IndexedDB (e.g. private browsing): write straight through
+    console.error(`Offline queue: Could not queue log ${log.date}, saving directly:`, error);
+    try {
+      await setDoc(doc(db, "nutritionLogs", log.date), safeLog); // setDoc will create or overwrite
+      rememberSyncedLog(safeLog);
+      console.log(`Firestore: Successfully saved log for date: ${log.date}`);
+    } catch (saveError) {
+      console.error(`Firestore: Error saving log for date ${log.date}:`, saveError);
+    }
+    return;
   }
+
+  syncPendingLogs();
+}
+
+// --- Offline sync ---
+//
+// Conflicts between devices are resolved per entry, against the server version
+// the local edits started from (the "base"):
+// - entries added on either side are kept
+// - entries deleted on either side stay deleted
+// - an entry present on both sides keeps the local version (quantity, slot, time)
+// Drinks follow the same rules, keyed by when they were logged. Totals are
+// recalculated from the merged entries.
+
+// Server version each date was last loaded or synced at
+const syncedBases = new Map<string, { lastUpdated: string | null; entryKeys: string[]; fluidKeys: string[] }>();
+
+// Identify entries across devices by when they were logged and what was logged.
+// Legacy entries without a timestamp are told apart by their order.
+export function getEntryKeys(entries: FoodEntry[]): string[] {
+  const seen = new Map<string, number>();
+  return entries.map(entry => {
+    const key = `${entry.timestamp || ""}|${entry.foodId}`;
+    const occurrence = seen.get(key) || 0;
+    seen.set(key, occurrence + 1);
+    return `${key}|${occurrence}`;
+  });
+}
+
+function rememberSyncedLog(log: DailyLog) {
+  syncedBases.set(log.date, {
+    lastUpdated: log.lastUpdated || null,
+    entryKeys: getEntryKeys(Array.isArray(log.entries) ? log.entries : []),
+    fluidKeys: (log.fluids || []).map(fluid => fluid.timestamp)
+  });
+}
+
+// Merge a local log into a remote one that changed since baseEntryKeys was read.
+// With no known base every entry (or drink) on either side is treated as new.
+export function mergeDailyLogs(
+  local: DailyLog,
+  remote: DailyLog,
+  baseEntryKeys: string[] | null,
+  baseFluidKeys: string[] | null = null
+): DailyLog {
+  const base = new Set(baseEntryKeys || []);
+  const localKeys = getEntryKeys(local.entries);
+  const remoteKeys = getEntryKeys(remote.entries);
+  const localKeySet = new Set(localKeys);
+  const remoteKeySet = new Set(remoteKeys);
+
+  const entries = [
+    ...local.entries.filter((_, i) => !base.has(localKeys[i]) || remoteKeySet.has(localKeys[i])),
+    ...remote.entries.filter((_, i) => !base.has(remoteKeys[i]) && !localKeySet.has(remoteKeys[i]))
+  ];
+
+  const baseFluids = new Set(baseFluidKeys || []);
+  const localFluids = local.fluids || [];
+  const remoteFluids = remote.fluids || [];
+  const localFluidKeys = new Set(localFluids.map(fluid => fluid.timestamp));
+  const remoteFluidKeys = new Set(remoteFluids.map(fluid => fluid.timestamp));
+  const fluids = [
+    ...localFluids.filter(fluid => !baseFluids.has(fluid.timestamp) || remoteFluidKeys.has(fluid.timestamp)),
+    ...remoteFluids.filter(fluid => !baseFluids.has(fluid.timestamp) && !localFluidKeys.has(fluid.timestamp))
+  ];
+
+  return {
+    ...remote,
+    ...local,
+    entries,
+    fluids,
+    totals: calculateTotals(entries),
+    lastUpdated: new Date().toISOString(),
+    schemaVersion: NUTRITION_LOG_SCHEMA_VERSION
+  };
+}
+
+// Write one queued log inside a transaction, merging if another device changed it
+async function pushPendingLogWrite(write: PendingLogWrite): Promise<{ log: DailyLog; merged: boolean }> {
+  const docRef = doc(db, "nutritionLogs", write.date);
+  return runTransaction(db, async (transaction) => {
+    const docSnap = await transaction.get(docRef);
+    const remote = docSnap.exists() ? (docSnap.data() as DailyLog) : null;
+    const unchanged = !remote || (write.baseEntryKeys !== null && (remote.lastUpdated || null) === write.baseLastUpdated);
+
+    if (unchanged || !Array.isArray(remote.entries)) {
+      transaction.set(docRef, write.log);
+      return { log: write.log, merged: false };
+    }
+
+    console.log(`Firestore: Log ${write.date} changed on another device, merging`);
+    const log = mergeDailyLogs(write.log, migrateDailyLog(remote).log, write.baseEntryKeys, write.baseFluidKeys ?? null);
+    transaction.set(docRef, log);
+    return { log, merged: true };
+  });
+}
+
+async function flushPendingLogs() {
+  if (typeof navigator !== "undefined" && !navigator.onLine) {
+    await loadSyncStatus();
+    return;
+  }
+  const writes = (await getAllPendingLogWrites()).sort((a, b) => a.date.localeCompare(b.date));
+  if (writes.length === 0) {
+    await loadSyncStatus();
+    return;
+  }
+
+  setSyncStatus({ syncing: true });
+  const mergedDates: string[] = [];
+  let lastError: string | null = null;
+  let accessDenied = false;
+  for (const write of writes) {
+    try {
+      const { log, merged } = await pushPendingLogWrite(write);
+      rememberSyncedLog(log);
+      const removed = await removePendingLogWrite(write, syncedBases.get(log.date)!);
+      if (merged && removed) {
+        updateCachedNutritionLogs(log);
+        mergedDates.push(log.date);
+      }
+      console.log(`Firestore: Successfully saved log for date: ${write.date}`);
+    } catch (error) {
+      console.error(`Firestore: Error syncing log for date ${write.date}:`, error);
+      lastError = error instanceof Error ? error.message : String(error);
+      // The rest would be refused too; they stay queued until the owner signs in
+      if (isPermissionDenied(error)) {
+        accessDenied = true;
+        break;
+      }
+    }
+  }
+  setSyncStatus({
+    syncing: false,
+    lastError,
+    accessDenied,
+    mergedDates,
+    ...(lastError ? {} : { lastSyncedAt: new Date().toISOString() })
+  });
+}
+
+let syncInFlight: Promise<void> | null = null;
+let syncRequested = false;
+
+// Replay queued writes to Firestore. Calls made during a sync run once more after it.
+export function syncPendingLogs(): Promise<void> {
+  if (syncInFlight) {
+    syncRequested = true;
+    return syncInFlight;
+  }
+  syncInFlight = (async () => {
+    do {
+      syncRequested = false;
+      await flushPendingLogs();
+    } while (syncRequested);
+  })().finally(() => {
+    syncInFlight = null;
+  });
+  return syncInFlight;
 }
 
 // Get or create a daily log for a specific date (handles Firestore interaction)
@@ -166,7 +671,8 @@ export async function getOrCreateDailyLogFirestore(date: string): Promise<DailyL
         carbs: 0,
         fat: 0,
         fiber: 0
-      }
+      },
+      schemaVersion: NUTRITION_LOG_SCHEMA_VERSION
     };
     // Optionally save the newly created empty log immediately, 
     // or wait until an entry is added.
@@ -190,75 +696,31 @@ export async function getOrCreateDailyLogFirestore(date: string): Promise<DailyL
 // // Get or create a daily log for a specific date (REPLACED by Firestore version)
 // export function getOrCreateDailyLog(logs: Record<string, DailyLog>, date: string): DailyLog { ... }
 
-// Check if it's past 6 PM (Still potentially useful)
-export function isPastSixPM(): boolean {
-  const now = new Date();
-  return now.getHours() >= 18;
-}
-
-// Get yesterday's date in YYYY-MM-DD format (Still useful)
-export function getYesterdayDateString(): string {
-  return getDateXDaysAgo(1);
-}
-
-// Copy yesterday's entries to today if none exist and it's past 6 PM (Needs adaptation for Firestore)
-export async function autoFillFromYesterdayFirestore(todayDate: string): Promise<DailyLog | null> {
-  console.log(`Firestore: Checking autoFill for date: ${todayDate}`);
-  const todayLog = await loadDailyLogFromFirestore(todayDate);
-  
-  if ((!todayLog || !Array.isArray(todayLog.entries) || todayLog.entries.length === 0) && isPastSixPM()) {
-    const yesterdayDate = getYesterdayDateString();
-    const yesterdayLog = await loadDailyLogFromFirestore(yesterdayDate);
-    
-    if (yesterdayLog && Array.isArray(yesterdayLog.entries) && yesterdayLog.entries.length > 0) {
-      console.log(`Firestore: Auto-filling ${todayDate} from ${yesterdayDate}`);
-      const newTodayLog: DailyLog = {
-        date: todayDate,
-        entries: [...yesterdayLog.entries],
-        totals: { ...yesterdayLog.totals }
-      };
-      await saveDailyLogToFirestore(newTodayLog);
-      return newTodayLog;
-    }
-  }
-  console.log(`Firestore: No autoFill needed or possible for ${todayDate}`);
-  return todayLog; // Return existing todayLog or null if none exists
-}
-
-// Get data for the last X days (Needs adaptation for Firestore)
+// Get data for the last X days (one range query, read through the shared cache)
 export async function getLastXDaysDataFirestore(days: number): Promise<Record<string, DailyLog>> {
   console.log(`Firestore: Getting data for last ${days} days`);
   const result: Record<string, DailyLog> = {};
-  const datePromises: Promise<DailyLog | null>[] = [];
-  const dates: string[] = [];
-
-  for (let i = 0; i < days; i++) {
-    const date = getDateXDaysAgo(i);
-    dates.push(date);
-    datePromises.push(loadDailyLogFromFirestore(date));
-  }
 
   try {
-    const dailyLogs = await Promise.all(datePromises);
-    dailyLogs.forEach((log, index) => {
-      const date = dates[index];
-      if (log && Array.isArray(log.entries)) {
-        result[date] = log;
-      } else {
-        // Add empty log for missing dates or invalid entries
-        result[date] = {
-          date,
-          entries: [],
-          totals: {
-            calories: 0,
-            protein: 0,
-            carbs: 0,
-            fat: 0,
-            fiber: 0
-          }
-        };
-      }
-    });
+    const logs = await fetchNutritionLogs(getLastDaysRange(days));
+    const logsByDate = new Map(logs.map(log => [log.date, log]));
+
+    for (let i = 0; i < days; i++) {
+      const date = getDateXDaysAgo(i);
+      const log = logsByDate.get(date);
+      // Add empty log for missing dates
+      result[date] = log || {
+        date,
+        entries: [],
+        totals: {
+          calories: 0,
+          protein: 0,
+          carbs: 0,
+          fat: 0,
+          fiber: 0
+        }
+      };
+    }
 
     return result;
   } catch (error) {
@@ -0,0 +1,167 @@
+import { DailyLog } from "@/types/nutrition";
+
+// Persistent queue of DailyLog writes that haven't reached Firestore yet.
+// Each date holds only its latest unsynced version, stored in IndexedDB so a
+// food added on a flaky connection survives a reload.
+
+export interface PendingLogWrite {
+  date: string; // Key: YYYY-MM-DD
+  log: DailyLog;
+  // Server version the local edit was based on, used to detect edits from another device
+  baseLastUpdated: string | null;
+  baseEntryKeys: string[] | null; // Entry keys of that server version (null if unknown)
+  baseFluidKeys?: string[] | null; // Drink timestamps of that version (missing on writes queued before drinks were tracked)
+  queuedAt: string;
+}
+
+export interface SyncStatus {
+  pendingDates: string[];
+  syncing: boolean;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  accessDenied: boolean; // Firestore refused the writes: the owner isn't signed in
+  mergedDates: string[]; // Dates merged with another device's edits in the last sync
+}
+
+const DB_NAME = "nutrition-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "pendingLogs";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(STORE_NAME)) {
+          database.createObjectStore(STORE_NAME, { keyPath: "date" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// --- Status listeners ---
+
+let status: SyncStatus = { pendingDates: [], syncing: false, lastSyncedAt: null, lastError: null, accessDenied: false, mergedDates: [] };
+const listeners = new Set<(status: SyncStatus) => void>();
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+export function setSyncStatus(changes: Partial<SyncStatus>) {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener(status));
+}
+
+// Subscribe to sync status changes; returns an unsubscribe function
+export function subscribeToSyncStatus(listener: (status: SyncStatus) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function refreshPendingDates() {
+  try {
+    const dates = (await runRequest("readonly", store => store.getAllKeys())) as string[];
+    setSyncStatus({ pendingDates: dates.sort() });
+  } catch (error) {
+    console.error("Offline queue: Error reading pending dates:", error);
+  }
+}
+
+// --- Queue operations ---
+
+export async function getPendingLogWrite(date: string): Promise<PendingLogWrite | null> {
+  try {
+    return ((await runRequest("readonly", store => store.get(date))) as PendingLogWrite) || null;
+  } catch (error) {
+    console.error(`Offline queue: Error reading pending log ${date}:`, error);
+    return null;
+  }
+}
+
+export async function getAllPendingLogWrites(): Promise<PendingLogWrite[]> {
+  try {
+    return (await runRequest("readonly", store => store.getAll())) as PendingLogWrite[];
+  } catch (error) {
+    console.error("Offline queue: Error reading pending logs:", error);
+    return [];
+  }
+}
+
+// Queue the latest version of a log. An existing entry for the date keeps its
+// original base version, since the server hasn't seen any of the edits yet.
+export async function queueLogWrite(
+  log: DailyLog,
+  base: { lastUpdated: string | null; entryKeys: string[] | null; fluidKeys: string[] | null }
+): Promise<PendingLogWrite> {
+  const existing = await getPendingLogWrite(log.date);
+  const write: PendingLogWrite = {
+    date: log.date,
+    log,
+    baseLastUpdated: existing ? existing.baseLastUpdated : base.lastUpdated,
+    baseEntryKeys: existing ? existing.baseEntryKeys : base.entryKeys,
+    baseFluidKeys: existing ? existing.baseFluidKeys ?? null : base.fluidKeys,
+    queuedAt: new Date().toISOString()
+  };
+  await runRequest("readwrite", store => store.put(write));
+  await refreshPendingDates();
+  return write;
+}
+
+// Remove a synced write. If a newer edit was queued for the date in the meantime it
+// stays queued, rebased onto the version just written. Returns whether it was removed.
+export async function removePendingLogWrite(
+  write: PendingLogWrite,
+  synced: { lastUpdated: string | null; entryKeys: string[]; fluidKeys: string[] }
+): Promise<boolean> {
+  const current = await getPendingLogWrite(write.date);
+  let removed = false;
+  if (current && current.queuedAt === write.queuedAt) {
+    await runRequest("readwrite", store => store.delete(write.date));
+    removed = true;
+  } else if (current) {
+    await runRequest("readwrite", store =>
+      store.put({
+        ...current,
+        baseLastUpdated: synced.lastUpdated,
+        baseEntryKeys: synced.entryKeys,
+        baseFluidKeys: synced.fluidKeys
+      })
+    );
+  }
+  await refreshPendingDates();
+  return removed;
+}
+
+export async function loadSyncStatus(): Promise<SyncStatus> {
+  await refreshPendingDates();
+  return status;
+}
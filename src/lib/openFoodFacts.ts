@@ -0,0 +1,367 @@
+import { FoodItem } from "@/types/nutrition";
+import { slugifyFoodName } from "./foodCatalog";
+
+// Barcode lookup for packaged foods against an Open Food Facts extract loaded from a
+// local file (the JSON/JSONL product dump or the tab-separated CSV export). Products
+// are reduced to their name, brand and per-100g nutrition and kept in IndexedDB, so
+// lookups work with no network access once a snapshot has been imported.
+
+export interface BarcodeNutrition {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sodium?: number; // mg
+  potassium?: number; // mg
+  iron?: number; // mg
+  calcium?: number; // mg
+  vitaminB12?: number; // µg
+  vitaminD?: number; // µg
+}
+
+export interface BarcodeProduct {
+  code: string; // Normalized barcode, see normalizeBarcode
+  name: string;
+  brand?: string;
+  quantity?: string; // Pack size as printed, e.g. "500 g"
+  servingSize?: string; // As printed, e.g. "30 g"
+  servingGrams?: number;
+  per100g: BarcodeNutrition;
+}
+
+export interface BarcodeSnapshotInfo {
+  fileName: string;
+  productCount: number;
+  skipped: number; // Rows without a barcode, name or energy value
+  importedAt: string;
+}
+
+// Open Food Facts product fields this module reads
+interface OpenFoodFactsRecord {
+  code?: string | number;
+  product_name?: string;
+  product_name_en?: string;
+  generic_name?: string;
+  brands?: string;
+  quantity?: string;
+  serving_size?: string;
+  serving_quantity?: string | number;
+  nutriments?: Record<string, string | number | undefined>;
+  [field: string]: unknown;
+}
+
+const DB_NAME = "openfoodfacts";
+const DB_VERSION = 1;
+const PRODUCTS_STORE = "products";
+const META_STORE = "meta";
+const SNAPSHOT_INFO_KEY = "snapshot";
+const WRITE_BATCH_SIZE = 2000;
+
+const KJ_PER_KCAL = 4.184;
+const SODIUM_PER_SALT = 0.4; // Salt is ~40% sodium by weight
+
+// Barcodes are compared as GTIN-13: digits only, UPC-A (12 digits) gains a leading zero
+export function normalizeBarcode(code: string | number): string {
+  const digits = String(code).replace(/\D/g, "");
+  return digits.length === 12 ? `0${digits}` : digits;
+}
+
+// GTIN check digit (EAN-8, UPC-A, EAN-13, GTIN-14)
+export function isValidBarcode(code: string): boolean {
+  const digits = code.replace(/\D/g, "");
+  if (![8, 12, 13, 14].includes(digits.length)) return false;
+  const body = digits.slice(0, -1).split("").reverse().map(Number);
+  const sum = body.reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === "") return undefined;
+  const number = typeof value === "number" ? value : parseFloat(String(value).replace(",", "."));
+  return isFinite(number) && number >= 0 ? number : undefined;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Per-100g nutrition from Open Food Facts nutriments (grams, except energy)
+function mapNutriments(nutriments: Record<string, unknown>): BarcodeNutrition | null {
+  const kcal = toNumber(nutriments["energy-kcal_100g"]);
+  const kj = toNumber(nutriments["energy-kj_100g"]) ?? toNumber(nutriments["energy_100g"]);
+  const calories = kcal ?? (kj !== undefined ? kj / KJ_PER_KCAL : undefined);
+  if (calories === undefined) return null;
+
+  const grams = (key: string) => toNumber(nutriments[`${key}_100g`]);
+  const milligrams = (key: string) => {
+    const value = grams(key);
+    return value !== undefined ? round1(value * 1000) : undefined;
+  };
+  const micrograms = (key: string) => {
+    const value = grams(key);
+    return value !== undefined ? round1(value * 1000000) : undefined;
+  };
+  const salt = grams("salt");
+  const sodium = milligrams("sodium") ?? (salt !== undefined ? round1(salt * SODIUM_PER_SALT * 1000) : undefined);
+
+  const nutrition: BarcodeNutrition = {
+    calories: Math.round(calories),
+    protein: round1(grams("proteins") || 0),
+    carbs: round1(grams("carbohydrates") || 0),
+    fat: round1(grams("fat") || 0),
+    fiber: round1(grams("fiber") || 0),
+    sodium,
+    potassium: milligrams("potassium"),
+    iron: milligrams("iron"),
+    calcium: milligrams("calcium"),
+    vitaminB12: micrograms("vitamin-b12"),
+    vitaminD: micrograms("vitamin-d")
+  };
+  (Object.keys(nutrition) as (keyof BarcodeNutrition)[]).forEach(key => {
+    if (nutrition[key] === undefined) delete nutrition[key];
+  });
+  return nutrition;
+}
+
+// A product from one Open Food Facts record, or null if it can't be used
+export function mapOpenFoodFactsRecord(record: OpenFoodFactsRecord): BarcodeProduct | null {
+  const code = record.code !== undefined ? normalizeBarcode(record.code) : "";
+  const name = String(record.product_name || record.product_name_en || record.generic_name || "").trim();
+  if (!code || !name) return null;
+
+  // The JSON dump nests nutriments; the CSV export has them as top-level columns
+  const per100g = mapNutriments(record.nutriments || record);
+  if (!per100g) return null;
+
+  const brand = String(record.brands || "").split(",")[0].trim();
+  const servingGrams = toNumber(record.serving_quantity);
+  return {
+    code,
+    name,
+    ...(brand ? { brand } : {}),
+    ...(record.quantity ? { quantity: String(record.quantity).trim() } : {}),
+    ...(record.serving_size ? { servingSize: String(record.serving_size).trim() } : {}),
+    ...(servingGrams ? { servingGrams } : {}),
+    per100g
+  };
+}
+
+// Split delimited text into rows, honouring quoted fields with embedded delimiters or newlines
+function parseDelimitedRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+export function parseOpenFoodFactsCsv(text: string): OpenFoodFactsRecord[] {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+  const delimiter = firstLine.includes("\t") ? "\t" : firstLine.includes(";") && !firstLine.includes(",") ? ";" : ",";
+  const [header, ...rows] = parseDelimitedRows(text, delimiter);
+  if (!header) return [];
+  const columns = header.map(column => column.trim());
+  return rows.map(cells => {
+    const record: OpenFoodFactsRecord = {};
+    columns.forEach((column, index) => {
+      if (cells[index] !== undefined && cells[index] !== "") record[column] = cells[index];
+    });
+    return record;
+  });
+}
+
+// A JSON array, an API-style { products: [...] } object, a single { product } or JSON Lines
+export function parseOpenFoodFactsJson(text: string): OpenFoodFactsRecord[] {
+  const trimmed = text.trim();
+  try {
+    const parsed = JSON.parse(trimmed);
+    if (Array.isArray(parsed)) return parsed;
+    if (Array.isArray(parsed?.products)) return parsed.products;
+    if (parsed?.product) return [{ code: parsed.code, ...parsed.product }];
+    return [parsed];
+  } catch {
+    return trimmed
+      .split(/\r?\n/)
+      .filter(line => line.trim())
+      .map(line => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          return null;
+        }
+      })
+      .filter((record): record is OpenFoodFactsRecord => !!record);
+  }
+}
+
+export function parseOpenFoodFactsSnapshot(text: string, fileName = ""): { products: BarcodeProduct[]; skipped: number } {
+  const isJson = /\.(json|jsonl|ndjson)$/i.test(fileName) || /^\s*[[{]/.test(text);
+  const records = isJson ? parseOpenFoodFactsJson(text) : parseOpenFoodFactsCsv(text);
+  const products: BarcodeProduct[] = [];
+  records.forEach(record => {
+    const product = mapOpenFoodFactsRecord(record);
+    if (product) products.push(product);
+  });
+  return { products, skipped: records.length - products.length };
+}
+
+// Display name in the catalog's "Name, Brand" style ("Oats, Quaker")
+export function getBarcodeProductName(product: BarcodeProduct): string {
+  if (!product.brand || product.name.toLowerCase().includes(product.brand.toLowerCase())) return product.name;
+  return `${product.name}, ${product.brand}`;
+}
+
+// A catalog food per 100g, loggable in grams or by the pack's serving
+export function barcodeProductToFoodItem(product: BarcodeProduct): FoodItem {
+  const name = getBarcodeProductName(product);
+  return {
+    id: slugifyFoodName(name),
+    name,
+    servingSize: "100g",
+    ...product.per100g,
+    ...(product.servingGrams ? { alternateUnits: [{ unit: "portion", amount: product.servingGrams }] } : {}),
+    barcode: product.code,
+    source: "custom"
+  };
+}
+
+// --- IndexedDB snapshot store ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(PRODUCTS_STORE)) {
+          database.createObjectStore(PRODUCTS_STORE, { keyPath: "code" });
+        }
+        if (!database.objectStoreNames.contains(META_STORE)) {
+          database.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function runTransaction<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  operation: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(stores, mode);
+    const request = operation(transaction);
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function getBarcodeSnapshotInfo(): Promise<BarcodeSnapshotInfo | null> {
+  try {
+    const info = await runTransaction<BarcodeSnapshotInfo>([META_STORE], "readonly", transaction =>
+      transaction.objectStore(META_STORE).get(SNAPSHOT_INFO_KEY)
+    );
+    return info || null;
+  } catch (error) {
+    console.error("Barcode snapshot: Error reading snapshot info:", error);
+    return null;
+  }
+}
+
+// Replace the stored snapshot with the products in a local extract file
+export async function importBarcodeSnapshot(file: File): Promise<BarcodeSnapshotInfo> {
+  const { products, skipped } = parseOpenFoodFactsSnapshot(await file.text(), file.name);
+  if (products.length === 0) {
+    throw new Error("No products with a barcode, name and energy value found in this file");
+  }
+
+  await runTransaction([PRODUCTS_STORE, META_STORE], "readwrite", transaction => {
+    transaction.objectStore(PRODUCTS_STORE).clear();
+    transaction.objectStore(META_STORE).delete(SNAPSHOT_INFO_KEY);
+  });
+  for (let start = 0; start < products.length; start += WRITE_BATCH_SIZE) {
+    const batch = products.slice(start, start + WRITE_BATCH_SIZE);
+    await runTransaction([PRODUCTS_STORE], "readwrite", transaction => {
+      const store = transaction.objectStore(PRODUCTS_STORE);
+      batch.forEach(product => store.put(product));
+    });
+  }
+
+  const info: BarcodeSnapshotInfo = {
+    fileName: file.name,
+    productCount: products.length,
+    skipped,
+    importedAt: new Date().toISOString()
+  };
+  await runTransaction([META_STORE], "readwrite", transaction => {
+    transaction.objectStore(META_STORE).put(info, SNAPSHOT_INFO_KEY);
+  });
+  console.log(`Barcode snapshot: Imported ${products.length} products from ${file.name} (${skipped} skipped)`);
+  return info;
+}
+
+export async function clearBarcodeSnapshot(): Promise<void> {
+  await runTransaction([PRODUCTS_STORE, META_STORE], "readwrite", transaction => {
+    transaction.objectStore(PRODUCTS_STORE).clear();
+    transaction.objectStore(META_STORE).delete(SNAPSHOT_INFO_KEY);
+  });
+}
+
+export async function lookupBarcode(code: string): Promise<BarcodeProduct | null> {
+  const normalized = normalizeBarcode(code);
+  if (!normalized) return null;
+  try {
+    const product = await runTransaction<BarcodeProduct>([PRODUCTS_STORE], "readonly", transaction =>
+      transaction.objectStore(PRODUCTS_STORE).get(normalized)
+    );
+    return product || null;
+  } catch (error) {
+    console.error(`Barcode snapshot: Error looking up ${normalized}:`, error);
+    return null;
+  }
+}
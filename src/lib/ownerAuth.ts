@@ -0,0 +1,37 @@
+import { GoogleAuthProvider, User, signInWithPopup, signOut } from "firebase/auth";
+import { auth } from "./firebase";
+
+// Owner sign-in. The nutrition log is private: Firestore rules only let a user with the
+// `owner` custom claim (set once with scripts/setOwnerClaim.js) read or write it, and
+// /api/share-log wants the owner's ID token to list, create or revoke share links.
+
+export async function isOwner(user: User | null): Promise<boolean> {
+  if (!user) return false;
+  const { claims } = await user.getIdTokenResult();
+  return claims.owner === true;
+}
+
+export async function signInOwner(): Promise<User> {
+  const { user } = await signInWithPopup(auth, new GoogleAuthProvider());
+  console.log(`Auth: Signed in as ${user.email}`);
+  return user;
+}
+
+export async function signOutOwner(): Promise<void> {
+  await signOut(auth);
+  console.log("Auth: Signed out");
+}
+
+// Firestore's error when the rules refuse a read or write (nobody or a non-owner signed in)
+export function isPermissionDenied(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === "permission-denied";
+}
+
+// Bearer header for the owner-only API routes; throws when nobody is signed in
+export async function getOwnerAuthHeader(): Promise<Record<string, string>> {
+  await auth.authStateReady();
+  if (!auth.currentUser) {
+    throw new Error("Sign in as the owner to manage share links");
+  }
+  return { Authorization: `Bearer ${await auth.currentUser.getIdToken()}` };
+}
@@ -0,0 +1,51 @@
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { db } from "./firebase";
+import { BestEffortRun, NewRecord, PersonalRecord, buildPersonalRecords } from "./bestEfforts";
+
+// Personal records registry: every run's best_efforts from detailed_runs, reduced to the
+// all-time and rolling 365-day best per standard distance with its progression. New
+// records are flagged by /api/runs as runs sync and stored on the run as new_records.
+
+const USER_ID = "mihir_jain";
+export const PERSONAL_RECORDS_QUERY_KEY = "personalRecords";
+export const PERSONAL_RECORDS_STALE_TIME = 10 * 60 * 1000;
+const RECENT_RECORD_DAYS = 30;
+
+export interface RecordRun extends BestEffortRun {
+  id: string;
+  name: string;
+  new_records?: NewRecord[];
+}
+
+export interface PersonalRecords {
+  records: PersonalRecord[];
+  recent: RecordRun[]; // Runs from the last 30 days that set a record, newest first
+  runCount: number;
+}
+
+export function buildPersonalRecordsRegistry(runs: RecordRun[], now = new Date()): PersonalRecords {
+  const recentFrom = now.getTime() - RECENT_RECORD_DAYS * 24 * 60 * 60 * 1000;
+  return {
+    records: buildPersonalRecords(runs, now),
+    recent: runs
+      .filter(run => run.new_records?.length && new Date(run.start_date).getTime() >= recentFrom)
+      .sort((a, b) => b.start_date.localeCompare(a.start_date)),
+    runCount: runs.length
+  };
+}
+
+export async function loadPersonalRecords(): Promise<PersonalRecords> {
+  console.log("Firestore: Loading best efforts for personal records");
+  const snapshot = await getDocs(query(collection(db, "detailed_runs"), where("userId", "==", USER_ID)));
+  const runs: RecordRun[] = snapshot.docs.map(runDoc => {
+    const data = runDoc.data();
+    return {
+      id: data.id?.toString() || runDoc.id,
+      name: data.name || "Unnamed Run",
+      start_date: data.start_date,
+      best_efforts: data.best_efforts || [],
+      new_records: data.new_records || []
+    };
+  });
+  return buildPersonalRecordsRegistry(runs);
+}
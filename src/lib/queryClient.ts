@@ -0,0 +1,5 @@
+import { QueryClient } from "@tanstack/react-query";
+
+// Shared react-query client. Lives outside App so data helpers that run outside
+// React components can read and update the same cache.
+export const queryClient = new QueryClient();
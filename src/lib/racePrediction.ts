@@ -0,0 +1,71 @@
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { db } from "./firebase";
+import { queryClient } from "./queryClient";
+import { formatEffortTime } from "./bestEfforts";
+import { PredictorRun, RacePredictions, predictRaceTimes } from "./racePredictor";
+import { formatPace } from "./runClassifier";
+
+// Race predictions and VDOT training paces from the last six months of detailed_runs.
+// /api/runs saves the same pace bands for the server-side run classifier; the app
+// computes them here so the card, the classifier and the coach prompts stay current.
+
+const USER_ID = "mihir_jain";
+export const RACE_PREDICTION_QUERY_KEY = "racePrediction";
+export const RACE_PREDICTION_STALE_TIME = 10 * 60 * 1000;
+
+export const PACE_BAND_LABELS = {
+  easy: "Easy",
+  tempo: "Tempo",
+  threshold: "Threshold",
+  interval: "Interval"
+} as const;
+
+// Plain-text summary for the coach prompts
+export function describeRacePrediction(prediction: RacePredictions | null): string {
+  if (!prediction) return "RACE PREDICTIONS: No recent races or hard efforts to predict from.";
+
+  const predictions = prediction.predictions
+    .map(entry => `- ${entry.distance.label}: ${formatEffortTime(entry.time)} (${formatPace(entry.pace)}/km, ${entry.confidence} confidence from ${entry.source.label.toLowerCase()} ${entry.source.ageDays} days ago)`)
+    .join("\n");
+  const paces = (Object.keys(PACE_BAND_LABELS) as (keyof typeof PACE_BAND_LABELS)[])
+    .map(band => `- ${PACE_BAND_LABELS[band]}: ${formatPace(prediction.paceBands[band].fast)}–${formatPace(prediction.paceBands[band].slow)}/km`)
+    .join("\n");
+
+  return `RACE PREDICTIONS (VDOT ${prediction.vdot}, averaged with Riegel from the most relevant recent effort):
+${predictions}
+
+TRAINING PACES (from VDOT):
+${paces}`;
+}
+
+// --- Firestore ---
+
+export async function loadRacePrediction(): Promise<RacePredictions | null> {
+  console.log("Firestore: Loading hard efforts for race predictions");
+  const snapshot = await getDocs(query(collection(db, "detailed_runs"), where("userId", "==", USER_ID)));
+  const runs: PredictorRun[] = snapshot.docs.map(runDoc => {
+    const data = runDoc.data();
+    return {
+      id: data.id?.toString() || runDoc.id,
+      name: data.name || "Unnamed Run",
+      start_date: data.start_date,
+      distance: data.distance || 0,
+      moving_time: data.moving_time || 0,
+      elapsed_time: data.elapsed_time || 0,
+      average_heartrate: data.average_heartrate ?? null,
+      max_heartrate: data.max_heartrate ?? null,
+      workout_type: data.workout_type ?? null,
+      best_efforts: data.best_efforts || []
+    };
+  });
+  return predictRaceTimes(runs);
+}
+
+// Read the predictions through the shared cache, e.g. for the classifier and coach prompts
+export function fetchRacePrediction(): Promise<RacePredictions | null> {
+  return queryClient.fetchQuery({
+    queryKey: [RACE_PREDICTION_QUERY_KEY],
+    queryFn: loadRacePrediction,
+    staleTime: RACE_PREDICTION_STALE_TIME
+  });
+}
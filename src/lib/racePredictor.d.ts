@@ -0,0 +1,76 @@
+// Types for racePredictor.js
+
+import { PaceBands } from './runClassifier';
+import { StoredBestEffort } from './bestEfforts';
+
+export interface RaceDistance {
+  key: string;
+  label: string;
+  meters: number;
+}
+
+// Run fields the predictor reads, as stored on detailed_runs; distance in meters
+export interface PredictorRun {
+  id: string | number;
+  name?: string;
+  start_date: string;
+  distance: number;
+  moving_time: number;
+  elapsed_time?: number;
+  average_heartrate?: number | null;
+  max_heartrate?: number | null;
+  workout_type?: number | null; // 1 is a race on Strava
+  best_efforts?: StoredBestEffort[] | null;
+}
+
+export type RaceEffortKind = 'race' | 'best-effort' | 'hard-run';
+export type PredictionConfidence = 'high' | 'medium' | 'low';
+
+export interface RaceEffort {
+  kind: RaceEffortKind;
+  label: string;
+  meters: number;
+  time: number; // seconds
+  vdot: number;
+  date: string;
+  ageDays: number;
+  runId: string;
+  runName: string;
+  weight: number; // 0-1, recency times source quality
+}
+
+export interface RacePrediction {
+  distance: RaceDistance;
+  time: number; // seconds, the mean of the VDOT and Riegel times
+  vdotTime: number;
+  riegelTime: number;
+  pace: number; // min/km
+  confidence: PredictionConfidence;
+  confidenceScore: number; // 0-1
+  source: RaceEffort; // Effort the Riegel time comes from
+}
+
+export interface RacePredictions {
+  vdot: number;
+  predictions: RacePrediction[];
+  paceBands: PaceBands;
+  efforts: RaceEffort[]; // Highest VDOT first
+  computedAt: string;
+}
+
+export const PREDICTION_WINDOW_DAYS: number;
+export const RACE_DISTANCES: RaceDistance[];
+
+export function vdotFromPerformance(meters: number, seconds: number): number;
+export function timeFromVdot(vdot: number, meters: number): number;
+export function riegelTime(seconds: number, fromMeters: number, toMeters: number): number;
+export function paceBandsFromVdot(vdot: number): PaceBands;
+export function getConfidenceLevel(score: number): PredictionConfidence;
+export function collectRaceEfforts(
+  runs: PredictorRun[],
+  options?: { now?: string | Date; maxHeartRate?: number }
+): RaceEffort[];
+export function predictRaceTimes(
+  runs: PredictorRun[],
+  options?: { now?: string | Date; maxHeartRate?: number }
+): RacePredictions | null;
@@ -0,0 +1,182 @@
+// Race time predictor; /api/runs saves its pace bands for the run classifier.
+//
+// Sources are recent hard efforts from detailed_runs (distance in meters): Strava best
+// efforts from a mile up, runs marked as races, and whole runs at a high average heart
+// rate. Each gives a VDOT (Daniels/Gilbert); race times come from the current VDOT and
+// from Riegel's formula applied to the most relevant source.
+
+import { getPrDistance } from './bestEfforts.js';
+import { deriveRunClassifierThresholds } from './runClassifier.js';
+
+const DAY_MS = 86400000;
+export const PREDICTION_WINDOW_DAYS = 180;
+const CURRENT_FITNESS_DAYS = 90; // VDOT comes from these days when there are enough sources
+const TOP_EFFORTS = 3; // Current VDOT is the median of the best few, which ignores one GPS glitch
+const RECENCY_HALF_LIFE_DAYS = 60;
+const RIEGEL_EXPONENT = 1.06;
+
+const MIN_SOURCE_METERS = 1600;
+const MIN_SOURCE_MINUTES = 3.5; // The VDOT formulas don't hold for shorter efforts
+const HARD_RUN_HR_SHARE = 0.85; // Whole runs averaging above this share of max HR
+const HARD_RUN_MIN_METERS = 3000;
+const HARD_SOURCE_VDOT_SHARE = 0.95; // Sources this close to current VDOT count for Riegel and confidence
+
+const STRAVA_RACE_WORKOUT = 1;
+const SOURCE_QUALITY = { race: 1, 'best-effort': 0.9, 'hard-run': 0.75 };
+
+export const RACE_DISTANCES = [
+  { key: '5k', label: '5K', meters: 5000 },
+  { key: '10k', label: '10K', meters: 10000 },
+  { key: 'half-marathon', label: 'Half marathon', meters: 21097.5 },
+  { key: 'marathon', label: 'Marathon', meters: 42195 }
+];
+
+// Training intensities as a share of VDOT (Daniels), fast end first
+const PACE_BAND_SHARES = {
+  easy: [0.70, 0.62],
+  tempo: [0.84, 0.76],
+  threshold: [0.90, 0.85],
+  interval: [1.0, 0.95]
+};
+
+const CONFIDENCE_LEVELS = [
+  { level: 'high', min: 0.6 },
+  { level: 'medium', min: 0.35 },
+  { level: 'low', min: 0 }
+];
+
+const round1 = (value) => Math.round(value * 10) / 10;
+const round2 = (value) => Math.round(value * 100) / 100;
+
+const median = (values) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Oxygen cost (ml/kg/min) of running at a speed in m/min, and its inverse
+const oxygenCost = (speed) => -4.6 + 0.182258 * speed + 0.000104 * speed * speed;
+const speedForOxygenCost = (vo2) => (-0.182258 + Math.sqrt(0.182258 ** 2 + 4 * 0.000104 * (vo2 + 4.6))) / (2 * 0.000104);
+
+// Share of VO2max that can be held for a race lasting this many minutes
+const sustainableShare = (minutes) =>
+  0.8 + 0.1894393 * Math.exp(-0.012778 * minutes) + 0.2989558 * Math.exp(-0.1932605 * minutes);
+
+export function vdotFromPerformance(meters, seconds) {
+  const minutes = seconds / 60;
+  return oxygenCost(meters / minutes) / sustainableShare(minutes);
+}
+
+// Race time in seconds for a VDOT, by bisection (time falls as VDOT rises)
+export function timeFromVdot(vdot, meters) {
+  let fast = meters / 1000; // 1 min/km
+  let slow = meters / 1000 * 20; // 20 min/km
+  for (let i = 0; i < 50; i++) {
+    const middle = (fast + slow) / 2;
+    if (vdotFromPerformance(meters, middle * 60) > vdot) fast = middle;
+    else slow = middle;
+  }
+  return Math.round((fast + slow) / 2 * 60);
+}
+
+export function riegelTime(seconds, fromMeters, toMeters) {
+  return Math.round(seconds * Math.pow(toMeters / fromMeters, RIEGEL_EXPONENT));
+}
+
+// Easy, tempo, threshold and interval paces in min/km for a VDOT
+export function paceBandsFromVdot(vdot) {
+  const paceAt = (share) => round2(1000 / speedForOxygenCost(vdot * share));
+  return Object.fromEntries(Object.entries(PACE_BAND_SHARES)
+    .map(([band, [fastShare, slowShare]]) => [band, { fast: paceAt(fastShare), slow: paceAt(slowShare) }]));
+}
+
+export function getConfidenceLevel(score) {
+  return CONFIDENCE_LEVELS.find(entry => score >= entry.min).level;
+}
+
+/**
+ * Hard efforts from the last 180 days with their VDOT and a weight for how recent they
+ * are and how much the kind of effort says about racing fitness.
+ */
+export function collectRaceEfforts(runs, options = {}) {
+  const now = new Date(options.now || Date.now()).getTime();
+  const maxHeartRate = options.maxHeartRate
+    || deriveRunClassifierThresholds((runs || []).map(run => ({ ...run, distance: (run.distance || 0) / 1000 })), { now: new Date(now) }).maxHeartRate;
+  const efforts = [];
+
+  const addEffort = (run, kind, meters, seconds, label) => {
+    const ageDays = (now - new Date(run.start_date).getTime()) / DAY_MS;
+    if (!(meters >= MIN_SOURCE_METERS) || !(seconds / 60 >= MIN_SOURCE_MINUTES)) return;
+    if (ageDays < 0 || ageDays > PREDICTION_WINDOW_DAYS) return;
+    efforts.push({
+      kind,
+      label,
+      meters,
+      time: seconds,
+      vdot: round1(vdotFromPerformance(meters, seconds)),
+      date: run.start_date,
+      ageDays: Math.floor(ageDays),
+      runId: run.id?.toString(),
+      runName: run.name || 'Run',
+      weight: Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS) * SOURCE_QUALITY[kind]
+    });
+  };
+
+  (runs || []).forEach(run => {
+    const seconds = run.moving_time || run.elapsed_time;
+    if (run.workout_type === STRAVA_RACE_WORKOUT) {
+      addEffort(run, 'race', run.distance, run.elapsed_time || seconds, 'Race');
+    } else if (run.average_heartrate >= maxHeartRate * HARD_RUN_HR_SHARE && run.distance >= HARD_RUN_MIN_METERS) {
+      addEffort(run, 'hard-run', run.distance, seconds, `Hard run, avg ${Math.round(run.average_heartrate)} bpm`);
+    }
+    (run.best_efforts || []).forEach(effort => {
+      const distance = getPrDistance(effort);
+      if (distance) addEffort(run, 'best-effort', distance.meters, effort.elapsed_time || effort.moving_time, `${distance.label} best effort`);
+    });
+  });
+
+  return efforts.sort((a, b) => b.vdot - a.vdot);
+}
+
+/**
+ * 5K to marathon predictions from recent efforts. Confidence is the best weight of a
+ * source near current fitness, discounted by how far the prediction stretches its
+ * distance: a recent 10K predicts a 10K well and a marathon poorly.
+ */
+export function predictRaceTimes(runs, options = {}) {
+  const efforts = collectRaceEfforts(runs, options);
+  if (efforts.length === 0) return null;
+
+  const current = efforts.filter(effort => effort.ageDays <= CURRENT_FITNESS_DAYS);
+  const basis = current.length >= TOP_EFFORTS ? current : efforts;
+  const vdot = round1(median(basis.slice(0, TOP_EFFORTS).map(effort => effort.vdot)));
+  const hardEfforts = efforts.filter(effort => effort.vdot >= vdot * HARD_SOURCE_VDOT_SHARE);
+
+  const predictions = RACE_DISTANCES.map(distance => {
+    const scored = hardEfforts
+      .map(effort => ({ effort, score: effort.weight * Math.exp(-0.6 * Math.abs(Math.log(distance.meters / effort.meters))) }))
+      .sort((a, b) => b.score - a.score);
+    const { effort: source, score } = scored[0];
+    const vdotTime = timeFromVdot(vdot, distance.meters);
+    const riegel = riegelTime(source.time, source.meters, distance.meters);
+    const time = Math.round((vdotTime + riegel) / 2);
+    return {
+      distance,
+      time,
+      vdotTime,
+      riegelTime: riegel,
+      pace: round2(time / 60 / (distance.meters / 1000)),
+      confidence: getConfidenceLevel(score),
+      confidenceScore: round2(score),
+      source
+    };
+  });
+
+  return {
+    vdot,
+    predictions,
+    paceBands: paceBandsFromVdot(vdot),
+    efforts,
+    computedAt: new Date(options.now || Date.now()).toISOString()
+  };
+}
@@ -0,0 +1,113 @@
+import { FoodItem, MicronutrientKey, Recipe, RecipeIngredient } from "@/types/nutrition";
+import { MICRONUTRIENT_KEYS } from "./micronutrients";
+import { getServingGrams } from "./servingUnits";
+
+// Recipe IDs are namespaced so a recipe can never shadow a food with the same name
+export const RECIPE_ID_PREFIX = "recipe-";
+
+// Default unit for an ingredient: grams if the food has a gram weight, otherwise servings
+export function getDefaultIngredientUnit(food: FoodItem): RecipeIngredient["unit"] {
+  return getServingGrams(food.servingSize) ? "g" : "serving";
+}
+
+// Number of servings of the ingredient food that go into the recipe
+export function getIngredientServings(ingredient: RecipeIngredient, food: FoodItem): number {
+  if (ingredient.unit === "serving") return ingredient.amount || 0;
+  const gramsPerServing = getServingGrams(food.servingSize);
+  return gramsPerServing ? (ingredient.amount || 0) / gramsPerServing : 0;
+}
+
+export interface RecipeNutrition {
+  perServing: Omit<FoodItem, "name" | "servingSize">;
+  microsUnknown: Partial<Record<MicronutrientKey, number>>; // Ingredients missing each micronutrient
+  missingIngredients: string[]; // Ingredient IDs no longer in the catalog
+  unconvertible: string[]; // Ingredient IDs measured in grams whose food has no gram weight
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Compute per-serving nutrition from the current values of each ingredient.
+// Micronutrients sum the ingredients with a known value, like a day's totals; keys
+// some ingredients lack are listed in microsPartial so the gap isn't lost.
+export function computeRecipeNutrition(
+  recipe: Recipe,
+  resolveFood: (id: string) => FoodItem | undefined
+): RecipeNutrition {
+  const servings = recipe.servings > 0 ? recipe.servings : 1;
+  const totals = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
+  const micros: Partial<Record<MicronutrientKey, number>> = {};
+  const microsUnknown: Partial<Record<MicronutrientKey, number>> = {};
+  const missingIngredients: string[] = [];
+  const unconvertible: string[] = [];
+
+  (recipe.ingredients || []).forEach(ingredient => {
+    const food = resolveFood(ingredient.foodId);
+    if (!food) {
+      missingIngredients.push(ingredient.foodId);
+      MICRONUTRIENT_KEYS.forEach(key => {
+        microsUnknown[key] = (microsUnknown[key] || 0) + 1;
+      });
+      return;
+    }
+    if (ingredient.unit === "g" && !getServingGrams(food.servingSize)) {
+      unconvertible.push(ingredient.foodId);
+    }
+
+    const multiplier = getIngredientServings(ingredient, food);
+    totals.calories += (food.calories || 0) * multiplier;
+    totals.protein += (food.protein || 0) * multiplier;
+    totals.carbs += (food.carbs || 0) * multiplier;
+    totals.fat += (food.fat || 0) * multiplier;
+    totals.fiber += (food.fiber || 0) * multiplier;
+
+    MICRONUTRIENT_KEYS.forEach(key => {
+      const value = food[key];
+      if (typeof value === "number") {
+        micros[key] = (micros[key] || 0) + value * multiplier;
+      } else {
+        microsUnknown[key] = (microsUnknown[key] || 0) + 1;
+      }
+    });
+  });
+
+  const perServing: RecipeNutrition["perServing"] = {
+    calories: Math.round(totals.calories / servings),
+    protein: round1(totals.protein / servings),
+    carbs: round1(totals.carbs / servings),
+    fat: round1(totals.fat / servings),
+    fiber: round1(totals.fiber / servings)
+  };
+  (Object.keys(micros) as MicronutrientKey[]).forEach(key => {
+    perServing[key] = round1((micros[key] || 0) / servings);
+  });
+  const microsPartial = (Object.keys(micros) as MicronutrientKey[]).filter(key => microsUnknown[key]);
+  if (microsPartial.length > 0) {
+    perServing.microsPartial = microsPartial;
+  }
+
+  return { perServing, microsUnknown, missingIngredients, unconvertible };
+}
+
+// Serving size label for one serving of the recipe
+export function getRecipeServingSize(recipe: Recipe): string {
+  const servings = recipe.servings > 0 ? recipe.servings : 1;
+  if (recipe.cookedYieldGrams && recipe.cookedYieldGrams > 0) {
+    return `${Math.round(recipe.cookedYieldGrams / servings)}g`;
+  }
+  return servings === 1 ? "1 recipe" : `1/${servings} recipe`;
+}
+
+// A recipe as a loggable catalog food
+export function recipeToFoodItem(recipe: Recipe, resolveFood: (id: string) => FoodItem | undefined): FoodItem {
+  const { perServing } = computeRecipeNutrition(recipe, resolveFood);
+  return {
+    ...perServing,
+    id: recipe.id,
+    name: recipe.name,
+    servingSize: getRecipeServingSize(recipe),
+    source: "recipe",
+    archived: recipe.archived || false,
+    createdAt: recipe.createdAt,
+    updatedAt: recipe.updatedAt
+  };
+}
@@ -0,0 +1,97 @@
+// Types for runClassifier.js
+
+export type RunClassifierTag = 'easy' | 'tempo' | 'long' | 'recovery' | 'intervals' | 'hill-repeats';
+
+export interface HeartRateZone {
+  min: number;
+  max: number; // -1 for the open-ended top zone
+}
+
+// Run fields the classifier reads; distance in km, times in seconds, elevation in m
+export interface ClassifiableRun {
+  distance: number;
+  moving_time: number;
+  start_date?: string;
+  total_elevation_gain?: number;
+  average_heartrate?: number | null;
+  max_heartrate?: number | null;
+  runType?: string | null;
+  run_tag?: string | null;
+  userOverride?: boolean;
+  laps?: ClassifiableLap[];
+}
+
+// Device lap as stored on detailed_runs; distance in meters
+export interface ClassifiableLap {
+  distance: number;
+  moving_time: number;
+  total_elevation_gain?: number;
+  average_heartrate?: number | null;
+}
+
+export interface RunClassifierThresholds {
+  maxHeartRate: number;
+  hrZones: HeartRateZone[];
+  easyPace: number; // min/km
+  recoveryPace: number;
+  tempoPace: number;
+  intervalLapPace: number;
+  intervalRunPace: number;
+  longRunKm: number;
+  longRunMinutes: number;
+  hillGainPerKm: number;
+  hillRepGainM: number;
+  source: {
+    runs: number;
+    easyRuns: number;
+    overrides: number;
+    hrFrom: 'default' | 'profile' | 'runs' | 'strava-zones';
+    paceFrom: 'default' | 'runs' | 'race-predictor';
+  };
+}
+
+// Training paces in min/km, fast end first; see racePredictor.js
+export interface PaceBand {
+  fast: number;
+  slow: number;
+}
+
+export interface PaceBands {
+  easy: PaceBand;
+  tempo: PaceBand;
+  threshold: PaceBand;
+  interval: PaceBand;
+}
+
+export interface RunClassification {
+  tag: RunClassifierTag;
+  reason: string;
+}
+
+export interface RunClassifierReport {
+  overrides: number;
+  disagreements: number;
+  disagreementRate: number; // 0-1
+  confusions: { predicted: RunClassifierTag; actual: RunClassifierTag; count: number }[];
+}
+
+export const RUN_TAGS: RunClassifierTag[];
+export const DEFAULT_RUN_CLASSIFIER_THRESHOLDS: RunClassifierThresholds;
+
+export function zonesFromMaxHeartRate(maxHeartRate: number): HeartRateZone[];
+export function getRunPace(run: ClassifiableRun): number | null;
+export function formatPace(pace: number | null): string;
+export function getHeartRateZone(heartRate: number | null | undefined, zones: HeartRateZone[]): number | null;
+export function deriveRunClassifierThresholds(
+  runs: ClassifiableRun[],
+  options?: { hrZones?: HeartRateZone[]; maxHeartRate?: number; now?: string | Date; paceBands?: PaceBands | null }
+): RunClassifierThresholds;
+export function classifyRun(
+  run: ClassifiableRun,
+  thresholds?: RunClassifierThresholds,
+  laps?: ClassifiableLap[]
+): RunClassification;
+export function evaluateRunClassifier(
+  runs: ClassifiableRun[],
+  options?: Parameters<typeof deriveRunClassifierThresholds>[1]
+): RunClassifierReport;
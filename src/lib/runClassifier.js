@@ -0,0 +1,273 @@
+// Run classifier: strava.js tags new runs, runs.js re-tags them once laps arrive, and
+// ActivityJam tags whatever the server hasn't.
+//
+// Thresholds are per athlete: heart-rate zones come from Strava zones or the highest
+// heart rates seen on recent runs, paces from the race predictor's VDOT pace bands (or,
+// without them, the athlete's recent easy runs), and runs the user re-tagged by hand
+// (userOverride) move the pace boundaries towards their own idea of easy, tempo and
+// recovery.
+
+export const RUN_TAGS = ['easy', 'tempo', 'long', 'recovery', 'intervals', 'hill-repeats'];
+
+const RECENT_RUN_DAYS = 90;
+const MIN_RUNS_FOR_PACE = 3;
+const MIN_RUNS_FOR_HR = 3;
+const MIN_OVERRIDES_PER_TAG = 2;
+
+// Zone upper bounds as a share of max heart rate (Z1 recovery ... Z5 VO2max)
+const ZONE_SHARES = [0.65, 0.75, 0.82, 0.89];
+
+// Pace offsets from easy pace, min/km
+const RECOVERY_PACE_OFFSET = 0.5;
+const TEMPO_PACE_OFFSET = -1.0;
+const INTERVAL_LAP_PACE_OFFSET = -1.5;
+const INTERVAL_RUN_PACE_OFFSET = -2.0; // Whole-run average, when there are no laps
+
+const MIN_LAP_KM = 0.1; // Shorter laps are button presses, not reps
+const MIN_REPS = 3;
+const REP_SPEEDUP = 1.1; // A rep is at least 10% faster than the run's median lap
+
+export function zonesFromMaxHeartRate(maxHeartRate) {
+  const bounds = ZONE_SHARES.map(share => Math.round(maxHeartRate * share));
+  return [0, ...bounds].map((min, index) => ({ min, max: index < bounds.length ? bounds[index] : -1 }));
+}
+
+export const DEFAULT_RUN_CLASSIFIER_THRESHOLDS = {
+  maxHeartRate: 190,
+  hrZones: zonesFromMaxHeartRate(190),
+  easyPace: 6.0, // min/km
+  recoveryPace: 6.5, // Slower than this is a recovery run
+  tempoPace: 5.0, // Faster than this is tempo
+  intervalLapPace: 4.5, // A lap faster than this counts as a rep
+  intervalRunPace: 4.0, // A whole run faster than this is a track session
+  longRunKm: 15,
+  longRunMinutes: 100,
+  hillGainPerKm: 50, // m/km over a whole run of up to 10 km
+  hillRepGainM: 15, // Climb in one lap to count as a hill rep
+  source: { runs: 0, easyRuns: 0, overrides: 0, hrFrom: 'default', paceFrom: 'default' }
+};
+
+const median = (values) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+// Pace in min/km; distance in km, moving_time in seconds
+export function getRunPace(run) {
+  return run.distance > 0 && run.moving_time > 0 ? run.moving_time / 60 / run.distance : null;
+}
+
+export function formatPace(pace) {
+  if (!pace || !isFinite(pace)) return '--';
+  const minutes = Math.floor(pace);
+  const seconds = Math.round((pace - minutes) * 60);
+  return seconds === 60 ? `${minutes + 1}:00` : `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+// 1-based heart-rate zone for an average heart rate, or null without one
+export function getHeartRateZone(heartRate, zones) {
+  if (!heartRate) return null;
+  const index = zones.findIndex(zone => zone.max === -1 || heartRate < zone.max);
+  return (index === -1 ? zones.length - 1 : index) + 1;
+}
+
+// Boundary between two groups of paces (or distances): midway between their medians
+const boundaryBetween = (lower, upper) => {
+  if (lower.length < MIN_OVERRIDES_PER_TAG || upper.length < MIN_OVERRIDES_PER_TAG) return null;
+  return round2((median(lower) + median(upper)) / 2);
+};
+
+// Pace boundaries from VDOT training paces: slower than easy is recovery, faster than
+// tempo pace is tempo, laps past threshold pace are reps
+const pacesFromBands = (bands) => ({
+  easyPace: round2((bands.easy.fast + bands.easy.slow) / 2),
+  recoveryPace: bands.easy.slow,
+  tempoPace: bands.tempo.slow,
+  intervalLapPace: bands.threshold.fast,
+  intervalRunPace: bands.interval.slow
+});
+
+/**
+ * Per-athlete thresholds from recent runs (distance in km). Strava heart-rate zones
+ * win when given; otherwise zones come from the second-highest max heart rate seen,
+ * which ignores a single strap spike. Pace bands from the race predictor, when given,
+ * replace the paces estimated from easy runs.
+ */
+export function deriveRunClassifierThresholds(runs, options = {}) {
+  const now = options.now ? new Date(options.now).getTime() : Date.now();
+  const recent = (runs || []).filter(run => {
+    const startedAt = new Date(run.start_date).getTime();
+    return getRunPace(run) !== null && (!run.start_date || now - startedAt <= RECENT_RUN_DAYS * 86400000);
+  });
+
+  // Heart rate
+  let maxHeartRate = options.maxHeartRate || DEFAULT_RUN_CLASSIFIER_THRESHOLDS.maxHeartRate;
+  let hrFrom = options.maxHeartRate ? 'profile' : 'default';
+  if (!options.maxHeartRate) {
+    const maxima = recent.map(run => run.max_heartrate).filter(hr => hr > 0).sort((a, b) => b - a);
+    if (maxima.length >= MIN_RUNS_FOR_HR) {
+      maxHeartRate = maxima[1];
+      hrFrom = 'runs';
+    }
+  }
+  let hrZones = zonesFromMaxHeartRate(maxHeartRate);
+  if (options.hrZones && options.hrZones.length >= 2) {
+    hrZones = options.hrZones;
+    hrFrom = 'strava-zones';
+  }
+
+  // Easy pace: runs tagged easy (by hand first), else Zone 2 runs, else all recent runs
+  const taggedEasy = recent.filter(run => (run.runType || run.run_tag) === 'easy');
+  const overriddenEasy = taggedEasy.filter(run => run.userOverride);
+  const zone2 = recent.filter(run => getHeartRateZone(run.average_heartrate, hrZones) === 2);
+  const easySample = [overriddenEasy, taggedEasy, zone2].find(group => group.length >= MIN_RUNS_FOR_PACE);
+  const defaults = DEFAULT_RUN_CLASSIFIER_THRESHOLDS;
+  let easyPace = defaults.easyPace;
+  if (easySample) {
+    easyPace = median(easySample.map(getRunPace));
+  } else if (recent.length >= MIN_RUNS_FOR_PACE) {
+    // Most runs are easy, and easy runs are the slower ones
+    easyPace = median(recent.map(getRunPace)) + 0.25;
+  }
+  easyPace = round2(easyPace);
+
+  const paces = options.paceBands ? pacesFromBands(options.paceBands) : {
+    easyPace,
+    recoveryPace: round2(easyPace + RECOVERY_PACE_OFFSET),
+    tempoPace: round2(easyPace + TEMPO_PACE_OFFSET),
+    intervalLapPace: round2(easyPace + INTERVAL_LAP_PACE_OFFSET),
+    intervalRunPace: round2(easyPace + INTERVAL_RUN_PACE_OFFSET)
+  };
+
+  const thresholds = {
+    ...defaults,
+    maxHeartRate,
+    hrZones,
+    ...paces,
+    longRunKm: recent.length >= MIN_RUNS_FOR_PACE
+      ? Math.min(21, Math.max(10, Math.round(median(recent.map(run => run.distance)) * 1.75)))
+      : defaults.longRunKm
+  };
+
+  // Learn from the user's own tags where there are enough of them
+  const overrides = recent.filter(run => run.userOverride && RUN_TAGS.includes(run.runType));
+  const paceOf = (tag) => overrides.filter(run => run.runType === tag).map(getRunPace);
+  const distanceOf = (tag) => overrides.filter(run => run.runType === tag).map(run => run.distance);
+  const tempoBoundary = boundaryBetween(paceOf('tempo'), paceOf('easy'));
+  const recoveryBoundary = boundaryBetween(paceOf('easy'), paceOf('recovery'));
+  const longBoundary = boundaryBetween(distanceOf('easy'), distanceOf('long'));
+  if (tempoBoundary) thresholds.tempoPace = tempoBoundary;
+  if (recoveryBoundary) thresholds.recoveryPace = recoveryBoundary;
+  if (longBoundary) thresholds.longRunKm = Math.round(longBoundary * 10) / 10;
+
+  thresholds.source = {
+    runs: recent.length,
+    easyRuns: easySample ? easySample.length : 0,
+    overrides: overrides.length,
+    hrFrom,
+    paceFrom: options.paceBands ? 'race-predictor' : easySample || recent.length >= MIN_RUNS_FOR_PACE ? 'runs' : 'default'
+  };
+  return thresholds;
+}
+
+// Usable laps with pace (min/km) and climb per km
+const describeLaps = (laps) => (laps || [])
+  .map(lap => {
+    const km = (lap.distance || 0) / 1000;
+    return {
+      km,
+      pace: km > 0 && lap.moving_time > 0 ? lap.moving_time / 60 / km : null,
+      gain: lap.total_elevation_gain || 0
+    };
+  })
+  .filter(lap => lap.km >= MIN_LAP_KM && lap.pace !== null);
+
+// Number of separate blocks of matching laps with at least one other lap in between
+const countReps = (flags) => {
+  let reps = 0;
+  flags.forEach((flag, index) => {
+    if (flag && !flags[index - 1]) reps++;
+  });
+  const separated = flags.some(flag => !flag);
+  return separated ? reps : 0;
+};
+
+/**
+ * Classify one run (distance in km, moving_time in s, elevation in m). Device laps, when
+ * given, find interval and hill-repeat sessions; otherwise the whole-run averages decide.
+ */
+export function classifyRun(run, thresholds = DEFAULT_RUN_CLASSIFIER_THRESHOLDS, laps = run.laps) {
+  const distance = run.distance || 0;
+  const pace = getRunPace(run);
+  const minutes = (run.moving_time || 0) / 60;
+  const zone = getHeartRateZone(run.average_heartrate, thresholds.hrZones);
+  const gainPerKm = distance > 0 ? (run.total_elevation_gain || 0) / distance : 0;
+  const result = (tag, reason) => ({ tag, reason });
+
+  if (pace === null) return result('easy', 'No distance or time');
+
+  // Structured sessions from laps
+  const lapDetails = describeLaps(laps);
+  if (lapDetails.length >= MIN_REPS * 2 - 1) {
+    const climbs = lapDetails.map(lap => lap.gain >= thresholds.hillRepGainM && lap.gain / lap.km >= thresholds.hillGainPerKm);
+    const hillReps = countReps(climbs);
+    if (hillReps >= MIN_REPS) return result('hill-repeats', `${hillReps} climbing laps`);
+
+    const medianLapPace = median(lapDetails.map(lap => lap.pace));
+    const fast = lapDetails.map(lap => lap.pace <= thresholds.intervalLapPace || lap.pace * REP_SPEEDUP <= medianLapPace);
+    const reps = countReps(fast);
+    if (reps >= MIN_REPS) return result('intervals', `${reps} fast laps with recoveries`);
+  }
+
+  if (distance >= thresholds.longRunKm) return result('long', `${round2(distance)} km`);
+  if (minutes >= thresholds.longRunMinutes && pace > thresholds.tempoPace) return result('long', `${Math.round(minutes)} min`);
+
+  if (gainPerKm >= thresholds.hillGainPerKm && distance <= 10) return result('hill-repeats', `${Math.round(gainPerKm)} m/km climbing`);
+
+  if (distance <= 8 && zone === 1) return result('recovery', 'Heart rate in Zone 1');
+  if (distance <= 8 && pace >= thresholds.recoveryPace) return result('recovery', `Slower than ${formatPace(thresholds.recoveryPace)}/km`);
+
+  if (pace <= thresholds.intervalRunPace && distance <= 10) return result('intervals', `Faster than ${formatPace(thresholds.intervalRunPace)}/km`);
+  if (zone === 5 && distance < 5) return result('intervals', 'Heart rate in Zone 5');
+
+  if (pace <= thresholds.tempoPace && distance >= 5) return result('tempo', `Faster than ${formatPace(thresholds.tempoPace)}/km`);
+  if (zone >= 4 && distance >= 5) return result('tempo', `Heart rate in Zone ${zone}`);
+
+  return result('easy', zone ? `Heart rate in Zone ${zone}` : `Around ${formatPace(pace)}/km`);
+}
+
+/**
+ * How often the user's hand-set tags disagree with the classifier, and which way.
+ * A high rate (or one dominant confusion) means the thresholds need recalibrating.
+ * Each tagged run is scored leave-one-out, against thresholds derived (with the same
+ * options) from the other runs, since its own tag already pulls the boundaries its way.
+ */
+export function evaluateRunClassifier(runs, options = {}) {
+  const overrides = (runs || []).filter(run => run.userOverride && RUN_TAGS.includes(run.runType || run.run_tag));
+  const confusion = new Map();
+  let disagreements = 0;
+
+  overrides.forEach(run => {
+    const actual = run.runType || run.run_tag;
+    const thresholds = deriveRunClassifierThresholds(runs.filter(other => other !== run), options);
+    const predicted = classifyRun(run, thresholds).tag;
+    if (predicted !== actual) {
+      disagreements++;
+      const key = `${predicted}->${actual}`;
+      const entry = confusion.get(key) || { predicted, actual, count: 0 };
+      entry.count++;
+      confusion.set(key, entry);
+    }
+  });
+
+  return {
+    overrides: overrides.length,
+    disagreements,
+    disagreementRate: overrides.length > 0 ? round2(disagreements / overrides.length) : 0,
+    confusions: Array.from(confusion.values()).sort((a, b) => b.count - a.count)
+  };
+}
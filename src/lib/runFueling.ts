@@ -0,0 +1,179 @@
+import { DailyLog, FoodEntry, MealSlot } from "@/types/nutrition";
+import { calculateTotals, fetchNutritionLogs } from "./nutritionUtils";
+import { AthleteProfile, DEFAULT_ATHLETE_PROFILE } from "./nutritionTargets";
+import { fetchAthleteProfile } from "./trainingDays";
+
+// Fueling report for a run, built from the food log around its Strava start_date:
+// what was eaten in the hours before, what was taken during, and protein in the
+// recovery window after. Entries are placed by their consumed-at time; entries without
+// a time only count when logged to the matching pre-, during- or post-run slot.
+
+export const PRE_RUN_WINDOW_HOURS = 4;
+export const POST_RUN_WINDOW_HOURS = 2;
+
+// Guidelines the report checks against
+const PRE_RUN_CARBS_PER_KG = 1; // g/kg in the hours before a run of an hour or more
+const PRE_RUN_CHECK_MIN_MINUTES = 60;
+const DURING_RUN_CARBS_PER_HOUR = 30; // g/h for runs of 75 minutes or more
+const DURING_RUN_CHECK_MIN_MINUTES = 75;
+const POST_RUN_PROTEIN_PER_KG = 0.25; // g/kg within the recovery window
+
+export type FuelingPhase = "pre" | "during" | "post";
+
+const PHASE_SLOTS: Record<FuelingPhase, MealSlot> = {
+  pre: "pre-run",
+  during: "during-run",
+  post: "post-run"
+};
+
+export const FUELING_PHASE_LABELS: Record<FuelingPhase, string> = {
+  pre: `Before (${PRE_RUN_WINDOW_HOURS} h)`,
+  during: "During",
+  post: `After (${POST_RUN_WINDOW_HOURS} h)`
+};
+
+// The parts of a run the report needs
+export interface FuelingRun {
+  id: string;
+  name?: string;
+  start_date: string; // UTC ISO datetime
+  moving_time: number; // seconds
+  elapsed_time?: number; // seconds; the during-run window, falling back to moving time
+  distance: number; // meters
+}
+
+export interface FuelingWindow {
+  phase: FuelingPhase;
+  from: string; // ISO datetime
+  to: string;
+  entries: FoodEntry[];
+  totals: DailyLog["totals"];
+}
+
+export interface FuelingCheck {
+  phase: FuelingPhase;
+  label: string;
+  target: number; // g
+  actual: number; // g
+  met: boolean;
+}
+
+export interface RunFuelingReport {
+  run: FuelingRun;
+  durationMinutes: number;
+  distanceKm: number;
+  windows: Record<FuelingPhase, FuelingWindow>;
+  duringCarbsPerHour: number;
+  checks: FuelingCheck[]; // Only the guidelines that apply to this run's length
+  logged: boolean; // Any food logged on the days around the run
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const toLocalDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Which phase an entry belongs to, or null if it's outside the run's windows
+function getEntryPhase(entry: FoodEntry, logDate: string, start: number, end: number): FuelingPhase | null {
+  if (entry.consumedAt) {
+    const eatenAt = new Date(entry.consumedAt).getTime();
+    if (isNaN(eatenAt)) return null;
+    if (eatenAt >= start - PRE_RUN_WINDOW_HOURS * HOUR_MS && eatenAt < start) return "pre";
+    if (eatenAt >= start && eatenAt <= end) return "during";
+    if (eatenAt > end && eatenAt <= end + POST_RUN_WINDOW_HOURS * HOUR_MS) return "post";
+    return null;
+  }
+  // No time: trust the slot, but only on the run's own day
+  if (logDate !== toLocalDateString(new Date(start))) return null;
+  const phase = (Object.keys(PHASE_SLOTS) as FuelingPhase[]).find(candidate => PHASE_SLOTS[candidate] === entry.mealSlot);
+  return phase || null;
+}
+
+export function buildRunFuelingReport(
+  run: FuelingRun,
+  logs: DailyLog[],
+  profile: AthleteProfile = DEFAULT_ATHLETE_PROFILE
+): RunFuelingReport {
+  const start = new Date(run.start_date).getTime();
+  const end = start + (run.elapsed_time || run.moving_time || 0) * 1000;
+  const durationMinutes = Math.round((run.moving_time || 0) / 60);
+
+  const phaseEntries: Record<FuelingPhase, FoodEntry[]> = { pre: [], during: [], post: [] };
+  let logged = false;
+  logs.forEach(log => {
+    (log.entries || []).forEach(entry => {
+      logged = true;
+      const phase = getEntryPhase(entry, log.date, start, end);
+      if (phase) phaseEntries[phase].push(entry);
+    });
+  });
+
+  const bounds: Record<FuelingPhase, [number, number]> = {
+    pre: [start - PRE_RUN_WINDOW_HOURS * HOUR_MS, start],
+    during: [start, end],
+    post: [end, end + POST_RUN_WINDOW_HOURS * HOUR_MS]
+  };
+  const windows = {} as Record<FuelingPhase, FuelingWindow>;
+  (Object.keys(bounds) as FuelingPhase[]).forEach(phase => {
+    windows[phase] = {
+      phase,
+      from: new Date(bounds[phase][0]).toISOString(),
+      to: new Date(bounds[phase][1]).toISOString(),
+      entries: phaseEntries[phase],
+      totals: calculateTotals(phaseEntries[phase])
+    };
+  });
+
+  const runHours = Math.max((end - start) / HOUR_MS, 1 / 60);
+  const duringCarbsPerHour = round1(windows.during.totals.carbs / runHours);
+
+  const checks: FuelingCheck[] = [];
+  if (durationMinutes >= PRE_RUN_CHECK_MIN_MINUTES) {
+    const target = Math.round(PRE_RUN_CARBS_PER_KG * profile.weightKg);
+    const actual = round1(windows.pre.totals.carbs);
+    checks.push({ phase: "pre", label: `${PRE_RUN_CARBS_PER_KG} g/kg carbs before`, target, actual, met: actual >= target });
+  }
+  if (durationMinutes >= DURING_RUN_CHECK_MIN_MINUTES) {
+    checks.push({
+      phase: "during",
+      label: `${DURING_RUN_CARBS_PER_HOUR} g/h carbs during`,
+      target: DURING_RUN_CARBS_PER_HOUR,
+      actual: duringCarbsPerHour,
+      met: duringCarbsPerHour >= DURING_RUN_CARBS_PER_HOUR
+    });
+  }
+  const proteinTarget = Math.round(POST_RUN_PROTEIN_PER_KG * profile.weightKg);
+  const proteinActual = round1(windows.post.totals.protein);
+  checks.push({ phase: "post", label: `${POST_RUN_PROTEIN_PER_KG} g/kg protein after`, target: proteinTarget, actual: proteinActual, met: proteinActual >= proteinTarget });
+
+  return {
+    run,
+    durationMinutes,
+    distanceKm: round1((run.distance || 0) / 1000),
+    windows,
+    duringCarbsPerHour,
+    checks,
+    logged
+  };
+}
+
+// Reports for several runs, reading the logs for the days around them through the shared cache
+export async function loadRunFuelingReports(runs: FuelingRun[]): Promise<RunFuelingReport[]> {
+  if (runs.length === 0) return [];
+  const times = runs.map(run => new Date(run.start_date).getTime());
+  const from = new Date(Math.min(...times) - PRE_RUN_WINDOW_HOURS * HOUR_MS);
+  const to = new Date(Math.max(...times) + 24 * HOUR_MS);
+
+  const [logs, profile] = await Promise.all([
+    fetchNutritionLogs({ startDate: toLocalDateString(from), endDate: toLocalDateString(to) }),
+    fetchAthleteProfile()
+  ]);
+
+  return runs.map(run => {
+    const start = new Date(run.start_date);
+    const nearbyDates = new Set([-1, 0, 1].map(offset => toLocalDateString(new Date(start.getTime() + offset * 24 * HOUR_MS))));
+    return buildRunFuelingReport(run, logs.filter(log => nearbyDates.has(log.date)), profile);
+  });
+}
@@ -0,0 +1,137 @@
+import { FoodEntry, FoodItem } from "@/types/nutrition";
+
+// Serving sizes are free-form strings ("50g", "250 ml", "1 Roti (50 g)", "2.5 Slices (267.5g)").
+// These helpers parse them into an amount plus unit so foods can be logged in grams,
+// millilitres, pieces or any alternate unit the food defines ("1 piece = 30g").
+
+export interface ParsedServingSize {
+  amount: number;
+  unit: string; // "g", "ml" or a singular count unit like "roti" or "slice"
+  grams?: number; // Weight of one serving when given in parentheses, e.g. "1 Roti (50 g)"
+}
+
+export interface UnitOption {
+  unit: string;
+  label: string;
+  perServing: number; // How many of this unit make one serving
+}
+
+export const SERVING_UNIT = "serving";
+
+const WEIGHT_UNITS: Record<string, string> = { g: "g", gm: "g", gms: "g", gram: "g", grams: "g", ml: "ml" };
+
+const singularUnit = (unit: string) =>
+  unit.length > 3 && unit.endsWith("es") && /(ch|sh|x|ss)es$/.test(unit) ? unit.slice(0, -2)
+    : unit.length > 2 && unit.endsWith("s") && !unit.endsWith("ss") ? unit.slice(0, -1)
+    : unit;
+
+export function parseServingSize(servingSize: string | undefined): ParsedServingSize | null {
+  if (!servingSize) return null;
+  // Catalog data isn't always a string (custom foods saved as numbers)
+  const text = String(servingSize).trim().toLowerCase();
+
+  const match = text.match(/^(\d+(?:\.\d+)?)\s*([a-z]+)?/);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  if (!(amount > 0)) return null;
+
+  const parenthetical = text.match(/\(\s*(\d+(?:\.\d+)?)\s*(g|gm|gms|grams?)\s*\)/);
+  const grams = parenthetical ? parseFloat(parenthetical[1]) : undefined;
+
+  const rawUnit = match[2];
+  if (!rawUnit) {
+    // A bare number ("27") doesn't say what it counts
+    return null;
+  }
+  const unit = WEIGHT_UNITS[rawUnit] || singularUnit(rawUnit);
+  return {
+    amount,
+    unit,
+    ...(unit === "g" ? { grams: amount } : grams ? { grams } : {})
+  };
+}
+
+// Grams in one serving, or null when the serving size has no weight. Millilitres
+// count as grams when no separate weight is given.
+export function getServingGrams(servingSize: string | undefined): number | null {
+  const parsed = parseServingSize(servingSize);
+  if (!parsed) return null;
+  if (parsed.grams) return parsed.grams;
+  return parsed.unit === "ml" ? parsed.amount : null;
+}
+
+const unitLabel = (unit: string) => (unit === "g" || unit === "ml" ? unit : `${unit}(s)`);
+
+// Every unit a food can be logged in, starting with whole servings
+export function getFoodUnitOptions(food: Pick<FoodItem, "servingSize" | "alternateUnits"> | undefined): UnitOption[] {
+  const options: UnitOption[] = [{ unit: SERVING_UNIT, label: `serving (${food?.servingSize || "1"})`, perServing: 1 }];
+  const parsed = parseServingSize(food?.servingSize);
+  const add = (unit: string, perServing: number) => {
+    if (perServing > 0 && !options.some(option => option.unit === unit)) {
+      options.push({ unit, label: unitLabel(unit), perServing });
+    }
+  };
+
+  if (parsed) {
+    if (parsed.grams) add("g", parsed.grams);
+    // "0.5 Serve (130 g)" is just a serving count, not a unit of its own
+    if (parsed.unit !== "serve") add(parsed.unit, parsed.amount);
+  }
+
+  // Alternate units are defined against the food's gram (or ml) weight
+  const baseUnit = parsed?.grams ? "g" : parsed?.unit === "ml" ? "ml" : null;
+  const baseAmount = parsed?.grams || (parsed?.unit === "ml" ? parsed.amount : 0);
+  (food?.alternateUnits || []).forEach(alternate => {
+    if (baseUnit && alternate.amount > 0) {
+      add(alternate.unit.trim().toLowerCase(), baseAmount / alternate.amount);
+    }
+  });
+
+  return options;
+}
+
+// Convert an amount in any of the food's units into servings (null if the unit doesn't apply)
+export function convertToServings(
+  amount: number,
+  unit: string | null | undefined,
+  food: Pick<FoodItem, "servingSize" | "alternateUnits"> | undefined
+): number | null {
+  if (!unit || unit === SERVING_UNIT) return amount;
+  const option = getFoodUnitOptions(food).find(candidate => candidate.unit === unit);
+  if (option) return amount / option.perServing;
+  if (unit === "kg" || unit === "l") {
+    return convertToServings(amount * 1000, unit === "kg" ? "g" : "ml", food);
+  }
+  return null;
+}
+
+// Servings an entry counts for. Entries logged in a unit carry the conversion they were
+// logged with, so totals don't shift if the food's serving size is edited later.
+export function getEntryServings(entry: FoodEntry): number {
+  if (entry.amountUnit && entry.amountUnit !== SERVING_UNIT && entry.unitsPerServing > 0) {
+    return (entry.amount || 0) / entry.unitsPerServing;
+  }
+  return entry.quantity || 0;
+}
+
+// Amount shown to the user: in the unit it was logged in, otherwise servings
+export function getEntryAmount(entry: FoodEntry): number {
+  return entry.amountUnit && entry.amountUnit !== SERVING_UNIT ? entry.amount || 0 : entry.quantity || 0;
+}
+
+// Update an entry's amount in its own unit, keeping quantity (servings) in step
+export function withEntryAmount(entry: FoodEntry, amount: number): FoodEntry {
+  if (entry.amountUnit && entry.amountUnit !== SERVING_UNIT && entry.unitsPerServing > 0) {
+    return { ...entry, amount, quantity: Math.round((amount / entry.unitsPerServing) * 1000) / 1000 };
+  }
+  return { ...entry, quantity: amount };
+}
+
+// "75 g", "2 roti(s)" or "1.5 serving(s)"
+export function formatEntryAmount(entry: FoodEntry): string {
+  const amount = Math.round(getEntryAmount(entry) * 100) / 100;
+  if (entry.amountUnit && entry.amountUnit !== SERVING_UNIT) {
+    return `${amount} ${unitLabel(entry.amountUnit)}`;
+  }
+  return `${amount} ${entry.unit || SERVING_UNIT}`;
+}
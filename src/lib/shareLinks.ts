@@ -0,0 +1,71 @@
+import { DailyLog, FoodEntry } from "@/types/nutrition";
+import { getOwnerAuthHeader } from "./ownerAuth";
+
+// Share links for the food log. A link covers a date range and can hide food names
+// (macro-only). Links are listed, created and revoked through /api/share-log with the
+// owner's ID token; the route is also the only way the shared view reads logs.
+
+const SHARE_API = "/api/share-log";
+
+export interface ShareLink {
+  token: string;
+  label: string;
+  startDate: string;
+  endDate: string;
+  macroOnly: boolean;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+export interface SharedLogDay {
+  date: string;
+  totals: Pick<DailyLog["totals"], "calories" | "protein" | "carbs" | "fat" | "fiber">;
+  entryCount: number;
+  entries?: FoodEntry[]; // Left out for macro-only links
+}
+
+export interface SharedLog {
+  label: string;
+  startDate: string;
+  endDate: string;
+  macroOnly: boolean;
+  days: SharedLogDay[];
+}
+
+async function readResponse<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed (${response.status})`);
+  }
+  return body as T;
+}
+
+export function getShareUrl(token: string): string {
+  return `${window.location.origin}/shared/${token}`;
+}
+
+export async function listShareLinks(): Promise<ShareLink[]> {
+  const { links } = await readResponse<{ links: ShareLink[] }>(await fetch(SHARE_API, { headers: await getOwnerAuthHeader() }));
+  return links;
+}
+
+export async function createShareLink(options: Pick<ShareLink, "startDate" | "endDate" | "macroOnly" | "label">): Promise<ShareLink> {
+  const response = await fetch(SHARE_API, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await getOwnerAuthHeader()) },
+    body: JSON.stringify(options)
+  });
+  return readResponse<ShareLink>(response);
+}
+
+export async function revokeShareLink(token: string): Promise<ShareLink> {
+  const response = await fetch(`${SHARE_API}?token=${encodeURIComponent(token)}`, {
+    method: "DELETE",
+    headers: await getOwnerAuthHeader()
+  });
+  return readResponse<ShareLink>(response);
+}
+
+export async function fetchSharedLog(token: string): Promise<SharedLog> {
+  return readResponse<SharedLog>(await fetch(`${SHARE_API}?token=${encodeURIComponent(token)}`));
+}
@@ -0,0 +1,129 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, where } from "firebase/firestore";
+import { db } from "./firebase";
+import { queryClient } from "./queryClient";
+import { NutritionDateRange } from "./nutritionUtils";
+import {
+  AthleteProfile,
+  DEFAULT_ATHLETE_PROFILE,
+  DayType,
+  NutritionTargets,
+  TrainingActivity,
+  classifyDayType,
+  getNutritionTargets
+} from "./nutritionTargets";
+
+// Training days for nutrition targets: Strava activities grouped by date and
+// classified into day types, read through the shared react-query cache.
+
+export interface TrainingDay {
+  date: string;
+  dayType: DayType;
+  activities: TrainingActivity[];
+  caloriesBurned: number;
+  targets: NutritionTargets;
+}
+
+const USER_ID = "mihir_jain";
+const TRAINING_DAYS_QUERY_KEY = "trainingDays";
+const ATHLETE_PROFILE_QUERY_KEY = "athleteProfile";
+export const TRAINING_DAYS_STALE_TIME = 10 * 60 * 1000;
+
+export function trainingDaysQueryKey(range: NutritionDateRange) {
+  return [TRAINING_DAYS_QUERY_KEY, range.startDate, range.endDate] as const;
+}
+
+// Body weight comes from the latest body composition entry when there is one
+export async function loadAthleteProfile(): Promise<AthleteProfile> {
+  try {
+    const bodySnapshot = await getDoc(doc(db, "blood_markers", USER_ID));
+    const weight = bodySnapshot.exists() ? Number(bodySnapshot.data().weight) : 0;
+    return weight > 0 ? { ...DEFAULT_ATHLETE_PROFILE, weightKg: weight } : DEFAULT_ATHLETE_PROFILE;
+  } catch (error) {
+    console.error("Firestore: Error loading athlete profile:", error);
+    return DEFAULT_ATHLETE_PROFILE;
+  }
+}
+
+export function fetchAthleteProfile(): Promise<AthleteProfile> {
+  return queryClient.fetchQuery({
+    queryKey: [ATHLETE_PROFILE_QUERY_KEY],
+    queryFn: loadAthleteProfile,
+    staleTime: TRAINING_DAYS_STALE_TIME
+  });
+}
+
+// Group activities by their local date and classify every day in the range
+export function buildTrainingDays(
+  range: NutritionDateRange,
+  activities: (TrainingActivity & { date: string })[],
+  profile: AthleteProfile = DEFAULT_ATHLETE_PROFILE
+): Record<string, TrainingDay> {
+  const days: Record<string, TrainingDay> = {};
+  const cursor = new Date(`${range.startDate}T00:00:00`);
+  const end = new Date(`${range.endDate}T00:00:00`);
+  while (cursor <= end) {
+    const date = `${cursor.getFullYear()}-${String(cursor.getMonth() + 1).padStart(2, "0")}-${String(cursor.getDate()).padStart(2, "0")}`;
+    const dayActivities = activities.filter(activity => activity.date === date);
+    const dayType = classifyDayType(dayActivities);
+    days[date] = {
+      date,
+      dayType,
+      activities: dayActivities,
+      caloriesBurned: dayActivities.reduce((sum, activity) => sum + (activity.calories || 0), 0),
+      targets: getNutritionTargets(dayType, profile)
+    };
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return days;
+}
+
+export async function loadTrainingDays(range: NutritionDateRange): Promise<Record<string, TrainingDay>> {
+  console.log(`Firestore: Loading training days from ${range.startDate} to ${range.endDate}`);
+  // start_date is UTC, so widen by a day and filter on the local start day
+  const from = new Date(`${range.startDate}T00:00:00`);
+  from.setDate(from.getDate() - 1);
+  const to = new Date(`${range.endDate}T00:00:00`);
+  to.setDate(to.getDate() + 2);
+
+  const activitiesQuery = query(
+    collection(db, "strava_data"),
+    where("userId", "==", USER_ID),
+    where("start_date", ">=", from.toISOString()),
+    where("start_date", "<", to.toISOString()),
+    orderBy("start_date", "desc")
+  );
+
+  const [snapshot, profile] = await Promise.all([getDocs(activitiesQuery), fetchAthleteProfile()]);
+  const activities = snapshot.docs
+    .map(activityDoc => {
+      const data = activityDoc.data();
+      return {
+        id: data.id,
+        date: (data.start_date_local || data.date || data.start_date || "").substring(0, 10),
+        type: data.type,
+        distance: data.distance,
+        moving_time: data.moving_time,
+        runType: data.runType || null,
+        workout_type: data.workout_type ?? null,
+        calories: data.calories || 0
+      };
+    })
+    .filter(activity => activity.date >= range.startDate && activity.date <= range.endDate);
+
+  return buildTrainingDays(range, activities, profile);
+}
+
+// Read training days through the shared cache. Falls back to rest-day targets if
+// Strava data can't be loaded, so targets are always available.
+export async function fetchTrainingDays(range: NutritionDateRange): Promise<Record<string, TrainingDay>> {
+  try {
+    return await queryClient.fetchQuery({
+      queryKey: trainingDaysQueryKey(range),
+      queryFn: () => loadTrainingDays(range),
+      staleTime: TRAINING_DAYS_STALE_TIME
+    });
+  } catch (error) {
+    console.error("Firestore: Error loading training days:", error);
+    return buildTrainingDays(range, []);
+  }
+}
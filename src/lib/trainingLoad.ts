@@ -0,0 +1,250 @@
+import { collection, getDocs, orderBy, query, where } from "firebase/firestore";
+import { db } from "./firebase";
+import { queryClient } from "./queryClient";
+import { formatDateToYYYYMMDD, getLastDaysRange, getTodayDateString } from "./nutritionUtils";
+import { PaceBands, deriveRunClassifierThresholds, formatPace } from "./runClassifier";
+import { fetchRacePrediction } from "./racePrediction";
+
+// Training load model. Every Strava activity gets a training impulse (Banister TRIMP)
+// from its duration and average heart rate; runs without heart rate fall back to an
+// intensity estimated from pace against the athlete's easy pace. Daily TRIMP is rolled
+// into exponentially weighted acute (7-day, ATL) and chronic (42-day, CTL) loads, with
+// form (TSB = CTL - ATL) and the acute:chronic workload ratio (ACWR = ATL / CTL).
+
+const USER_ID = "mihir_jain";
+export const TRAINING_LOAD_QUERY_KEY = "trainingLoad";
+export const TRAINING_LOAD_STALE_TIME = 10 * 60 * 1000;
+
+export const ACUTE_LOAD_DAYS = 7;
+export const CHRONIC_LOAD_DAYS = 42;
+export const TRAINING_LOAD_DISPLAY_DAYS = 90;
+// Extra history so the 42-day load has settled by the first day shown
+const TRAINING_LOAD_WARMUP_DAYS = CHRONIC_LOAD_DAYS * 2;
+
+export const RESTING_HEART_RATE = 50; // bpm, morning resting heart rate from Oura
+const TRIMP_WEIGHTING = { factor: 0.64, exponent: 1.92 }; // Banister's male weighting
+const EASY_PACE_HEART_RATE_RESERVE = 0.65; // Easy runs sit around 65% of heart rate reserve
+
+export type LoadRisk = "low" | "optimal" | "caution" | "high";
+
+// ACWR bands (Gabbett): below 0.8 fitness is fading, 0.8-1.3 is the sweet spot,
+// above 1.5 injury risk climbs steeply
+export const ACWR_BANDS: { risk: LoadRisk; label: string; min: number; max: number; color: string }[] = [
+  { risk: "low", label: "Detraining", min: 0, max: 0.8, color: "rgba(59, 130, 246, 0.08)" },
+  { risk: "optimal", label: "Sweet spot", min: 0.8, max: 1.3, color: "rgba(34, 197, 94, 0.12)" },
+  { risk: "caution", label: "Caution", min: 1.3, max: 1.5, color: "rgba(245, 158, 11, 0.14)" },
+  { risk: "high", label: "High risk", min: 1.5, max: Infinity, color: "rgba(239, 68, 68, 0.14)" }
+];
+
+export interface LoadActivity {
+  id: string;
+  date: string; // YYYY-MM-DD in Strava local time, UTC for activities synced before it was stored
+  type: string;
+  name?: string;
+  distance: number; // km
+  moving_time: number; // seconds
+  average_heartrate?: number | null;
+  max_heartrate?: number | null;
+  is_run_activity?: boolean;
+  runType?: string | null;
+  userOverride?: boolean;
+  start_date?: string;
+}
+
+export interface ActivityImpulse {
+  id: string;
+  date: string;
+  name?: string;
+  trimp: number;
+  source: "heartrate" | "pace" | "none";
+}
+
+export interface TrainingLoadDay {
+  date: string;
+  trimp: number;
+  atl: number; // Acute load after this day
+  ctl: number; // Chronic load after this day
+  tsb: number; // Form going into this day (yesterday's CTL - ATL)
+  acwr: number | null; // null until there's chronic load to compare against
+}
+
+export interface TrainingLoad {
+  days: TrainingLoadDay[]; // The display window, oldest first
+  current: TrainingLoadDay | null;
+  risk: LoadRisk | null;
+  maxHeartRate: number;
+  restingHeartRate: number;
+  easyPace: number; // min/km, for the pace fallback
+  impulses: ActivityImpulse[];
+}
+
+const round = (value: number, decimals = 1) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+// Banister TRIMP: minutes x heart rate reserve fraction x exponential intensity weighting
+export function banisterTrimp(minutes: number, heartRateReserve: number): number {
+  const reserve = Math.min(1, Math.max(0, heartRateReserve));
+  return minutes * reserve * TRIMP_WEIGHTING.factor * Math.exp(TRIMP_WEIGHTING.exponent * reserve);
+}
+
+export function getActivityImpulse(
+  activity: LoadActivity,
+  settings: { maxHeartRate: number; restingHeartRate: number; easyPace: number }
+): ActivityImpulse {
+  const minutes = (activity.moving_time || 0) / 60;
+  const base = { id: activity.id, date: activity.date, name: activity.name };
+  const heartRate = activity.average_heartrate || 0;
+
+  if (minutes > 0 && heartRate > settings.restingHeartRate) {
+    const reserve = (heartRate - settings.restingHeartRate) / (settings.maxHeartRate - settings.restingHeartRate);
+    return { ...base, trimp: round(banisterTrimp(minutes, reserve)), source: "heartrate" };
+  }
+
+  if (minutes > 0 && activity.is_run_activity && activity.distance > 0) {
+    // Faster than easy pace means proportionally more of the heart rate reserve
+    const pace = minutes / activity.distance;
+    const reserve = EASY_PACE_HEART_RATE_RESERVE * (settings.easyPace / pace);
+    return { ...base, trimp: round(banisterTrimp(minutes, reserve)), source: "pace" };
+  }
+
+  return { ...base, trimp: 0, source: "none" };
+}
+
+export function getLoadRisk(acwr: number | null): LoadRisk | null {
+  if (acwr === null) return null;
+  return ACWR_BANDS.find(band => acwr >= band.min && acwr < band.max)?.risk ?? "high";
+}
+
+// Exponentially weighted loads over every day from startDate to endDate
+export function buildTrainingLoadDays(impulses: ActivityImpulse[], startDate: string, endDate: string): TrainingLoadDay[] {
+  const dailyTrimp = new Map<string, number>();
+  impulses.forEach(impulse => dailyTrimp.set(impulse.date, (dailyTrimp.get(impulse.date) || 0) + impulse.trimp));
+
+  const acuteDecay = 1 - Math.exp(-1 / ACUTE_LOAD_DAYS);
+  const chronicDecay = 1 - Math.exp(-1 / CHRONIC_LOAD_DAYS);
+  const days: TrainingLoadDay[] = [];
+  let atl = 0;
+  let ctl = 0;
+
+  const cursor = new Date(`${startDate}T00:00:00`);
+  const end = new Date(`${endDate}T00:00:00`);
+  while (cursor <= end) {
+    const date = formatDateToYYYYMMDD(cursor);
+    const trimp = dailyTrimp.get(date) || 0;
+    const tsb = ctl - atl;
+    atl += (trimp - atl) * acuteDecay;
+    ctl += (trimp - ctl) * chronicDecay;
+    days.push({
+      date,
+      trimp: round(trimp),
+      atl: round(atl),
+      ctl: round(ctl),
+      tsb: round(tsb),
+      acwr: ctl >= 1 ? round(atl / ctl, 2) : null
+    });
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return days;
+}
+
+export function buildTrainingLoad(
+  activities: LoadActivity[],
+  options: { today: string; displayDays?: number; restingHeartRate?: number; paceBands?: PaceBands | null }
+): TrainingLoad {
+  const runs = activities.filter(activity => activity.is_run_activity);
+  const thresholds = deriveRunClassifierThresholds(runs, { now: `${options.today}T23:59:59`, paceBands: options.paceBands });
+  const settings = {
+    maxHeartRate: thresholds.maxHeartRate,
+    restingHeartRate: options.restingHeartRate || RESTING_HEART_RATE,
+    easyPace: thresholds.easyPace
+  };
+
+  const impulses = activities.map(activity => getActivityImpulse(activity, settings));
+  const dates = activities.map(activity => activity.date).sort();
+  const allDays = dates.length > 0 ? buildTrainingLoadDays(impulses, dates[0], options.today) : [];
+  const days = allDays.slice(-(options.displayDays || TRAINING_LOAD_DISPLAY_DAYS));
+  const current = days[days.length - 1] || null;
+
+  return {
+    days,
+    current,
+    risk: current ? getLoadRisk(current.acwr) : null,
+    ...settings,
+    impulses: impulses.filter(impulse => impulse.trimp > 0)
+  };
+}
+
+// Plain-text summary for the coach prompts
+export function describeTrainingLoad(load: TrainingLoad): string {
+  const { current } = load;
+  if (!current) return "TRAINING LOAD: No Strava activities in the last few months.";
+
+  const band = ACWR_BANDS.find(entry => entry.risk === load.risk);
+  const weekAgo = load.days[load.days.length - 1 - ACUTE_LOAD_DAYS];
+  const ctlChange = weekAgo ? round(current.ctl - weekAgo.ctl) : null;
+  const lastWeekTrimp = load.days.slice(-ACUTE_LOAD_DAYS).reduce((sum, day) => sum + day.trimp, 0);
+
+  return `TRAINING LOAD (Banister TRIMP, max HR ${load.maxHeartRate}, resting HR ${load.restingHeartRate}; runs without HR estimated from pace against ${formatPace(load.easyPace)}/km easy):
+- Fitness (CTL, ${CHRONIC_LOAD_DAYS}-day): ${current.ctl}${ctlChange !== null ? ` (${ctlChange >= 0 ? "+" : ""}${ctlChange} this week)` : ""}
+- Fatigue (ATL, ${ACUTE_LOAD_DAYS}-day): ${current.atl}
+- Form (TSB): ${current.tsb}
+- Acute:chronic ratio: ${current.acwr ?? "n/a"}${band ? ` (${band.label})` : ""}
+- TRIMP over the last 7 days: ${round(lastWeekTrimp)}`;
+}
+
+// --- Firestore ---
+
+export async function loadTrainingLoad(): Promise<TrainingLoad> {
+  const range = getLastDaysRange(TRAINING_LOAD_DISPLAY_DAYS + TRAINING_LOAD_WARMUP_DAYS);
+  console.log(`Firestore: Loading training load from ${range.startDate}`);
+  const from = new Date(`${range.startDate}T00:00:00`);
+  from.setDate(from.getDate() - 1); // start_date is UTC
+
+  const activitiesQuery = query(
+    collection(db, "strava_data"),
+    where("userId", "==", USER_ID),
+    where("start_date", ">=", from.toISOString()),
+    orderBy("start_date", "desc")
+  );
+  const snapshot = await getDocs(activitiesQuery);
+  const activities: LoadActivity[] = snapshot.docs
+    .map(activityDoc => {
+      const data = activityDoc.data();
+      return {
+        id: data.id?.toString() || activityDoc.id,
+        date: (data.start_date_local || data.date || data.start_date || "").substring(0, 10),
+        type: data.type || "Activity",
+        name: data.name,
+        distance: data.distance || 0,
+        moving_time: data.moving_time || 0,
+        average_heartrate: data.average_heartrate ?? null,
+        max_heartrate: data.max_heartrate ?? null,
+        is_run_activity: data.is_run_activity === true,
+        runType: data.runType || null,
+        userOverride: data.userOverride === true,
+        start_date: data.start_date
+      };
+    })
+    .filter(activity => activity.date >= range.startDate);
+
+  // Easy pace for runs without heart rate comes from VDOT when there are recent hard efforts
+  const paceBands = await fetchRacePrediction()
+    .then(prediction => prediction?.paceBands || null)
+    .catch(error => {
+      console.error("Firestore: Error loading race prediction for training load:", error);
+      return null;
+    });
+
+  return buildTrainingLoad(activities, { today: getTodayDateString(), paceBands });
+}
+
+// Read the model through the shared cache, e.g. for the coach prompts
+export function fetchTrainingLoad(): Promise<TrainingLoad> {
+  return queryClient.fetchQuery({
+    queryKey: [TRAINING_LOAD_QUERY_KEY],
+    queryFn: loadTrainingLoad,
+    staleTime: TRAINING_LOAD_STALE_TIME
+  });
+}
@@ -4,3 +4,25 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Save generated text (CSV, JSON, plain text) as a file download
+export function downloadTextFile(filename: string, content: string, mimeType = "text/plain") {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+// Join values into one CSV line, quoting cells that contain commas, quotes or newlines
+export function toCsvRow(values: (string | number | undefined)[]) {
+  return values
+    .map(value => {
+      const text = value === undefined ? "" : String(value)
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    })
+    .join(",")
+}
@@ -0,0 +1,176 @@
+import { collection, doc, getDoc, getDocs, orderBy, query, setDoc, where } from "firebase/firestore";
+import { db } from "./firebase";
+import { formatDateToYYYYMMDD } from "./nutritionUtils";
+import { HeartRateZone, deriveRunClassifierThresholds } from "./runClassifier";
+import {
+  HeartRateHistogram,
+  HeartRateZoneSettings,
+  ZoneMethod,
+  getPolarisation,
+  getTimeInZones,
+  getZoneIndex,
+  resolveHeartRateZones
+} from "./heartRateZones";
+import { RESTING_HEART_RATE } from "./trainingLoad";
+
+// Time in heart-rate zones for each run and per week, from the bpm histograms /api/runs
+// stores on detailed_runs. Runs synced before histograms existed (or recorded without
+// streams) fall back to putting the whole run in the zone of its average heart rate.
+
+const USER_ID = "mihir_jain";
+export const ZONE_DISTRIBUTION_QUERY_KEY = "zoneDistribution";
+export const ZONE_DISTRIBUTION_STALE_TIME = 10 * 60 * 1000;
+export const ZONE_DISTRIBUTION_WEEKS = 8;
+
+export const DEFAULT_ZONE_SETTINGS: HeartRateZoneSettings = { method: "strava" };
+
+export interface ZoneRun {
+  id: string;
+  name: string;
+  start_date: string;
+  date: string; // YYYY-MM-DD in Strava local time, so weeks split at the athlete's Monday
+  distance: number; // meters
+  moving_time: number; // seconds
+  average_heartrate?: number | null;
+  max_heartrate?: number | null;
+  heartrate_histogram?: HeartRateHistogram | null;
+}
+
+export interface RunZoneDistribution {
+  run: ZoneRun;
+  seconds: number[]; // Per zone
+  estimated: boolean; // From average heart rate rather than streams
+}
+
+export interface WeeklyZoneDistribution {
+  weekStart: string; // Monday, YYYY-MM-DD
+  runs: number;
+  seconds: number[];
+  easyPercent: number | null; // Share of time in Z1-Z2
+}
+
+export interface ZoneDistribution {
+  settings: HeartRateZoneSettings;
+  method: ZoneMethod; // After falling back when the chosen method lacks an input
+  zones: HeartRateZone[];
+  runs: RunZoneDistribution[]; // Newest first
+  weeks: WeeklyZoneDistribution[]; // Oldest first
+  totals: { seconds: number[]; easyPercent: number | null };
+}
+
+export function getRunZoneDistribution(run: ZoneRun, zones: HeartRateZone[]): RunZoneDistribution | null {
+  if (run.heartrate_histogram && Object.keys(run.heartrate_histogram).length > 0) {
+    return { run, seconds: getTimeInZones(run.heartrate_histogram, zones), estimated: false };
+  }
+  if (run.average_heartrate && run.moving_time > 0) {
+    const seconds = zones.map(() => 0);
+    seconds[getZoneIndex(run.average_heartrate, zones)] = run.moving_time;
+    return { run, seconds, estimated: true };
+  }
+  return null;
+}
+
+const getWeekStart = (date: string) => {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return formatDateToYYYYMMDD(day);
+};
+
+const sumSeconds = (distributions: { seconds: number[] }[], zoneCount: number) =>
+  distributions.reduce((sum, entry) => sum.map((value, index) => value + (entry.seconds[index] || 0)), Array(zoneCount).fill(0) as number[]);
+
+export function buildZoneDistribution(runs: ZoneRun[], settings: HeartRateZoneSettings): ZoneDistribution {
+  const thresholds = deriveRunClassifierThresholds(runs.map(run => ({ ...run, distance: run.distance / 1000 })));
+  const { method, zones } = resolveHeartRateZones(settings, {
+    maxHeartRate: thresholds.maxHeartRate,
+    restingHeartRate: RESTING_HEART_RATE
+  });
+
+  const runDistributions = runs
+    .map(run => getRunZoneDistribution(run, zones))
+    .filter((entry): entry is RunZoneDistribution => entry !== null);
+
+  const byWeek = new Map<string, RunZoneDistribution[]>();
+  runDistributions.forEach(entry => {
+    const weekStart = getWeekStart(entry.run.date);
+    byWeek.set(weekStart, [...(byWeek.get(weekStart) || []), entry]);
+  });
+  const weeks = Array.from(byWeek.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, entries]) => {
+      const seconds = sumSeconds(entries, zones.length);
+      return { weekStart, runs: entries.length, seconds, easyPercent: getPolarisation(seconds)?.easyPercent ?? null };
+    });
+
+  const totalSeconds = sumSeconds(runDistributions, zones.length);
+  return {
+    settings,
+    method,
+    zones,
+    runs: runDistributions,
+    weeks,
+    totals: { seconds: totalSeconds, easyPercent: getPolarisation(totalSeconds)?.easyPercent ?? null }
+  };
+}
+
+// --- Firestore ---
+
+export async function loadZoneSettings(): Promise<HeartRateZoneSettings> {
+  try {
+    const snapshot = await getDoc(doc(db, "hrZoneSettings", USER_ID));
+    return snapshot.exists() ? { ...DEFAULT_ZONE_SETTINGS, ...snapshot.data() } as HeartRateZoneSettings : DEFAULT_ZONE_SETTINGS;
+  } catch (error) {
+    console.error("Firestore: Error loading heart-rate zone settings:", error);
+    return DEFAULT_ZONE_SETTINGS;
+  }
+}
+
+// Strava's zones are written by /api/runs and left alone here
+export async function saveZoneSettings(settings: Omit<HeartRateZoneSettings, "stravaZones">): Promise<void> {
+  const { method, maxHeartRate, lthr, restingHeartRate } = settings;
+  await setDoc(
+    doc(db, "hrZoneSettings", USER_ID),
+    {
+      method,
+      maxHeartRate: maxHeartRate || null,
+      lthr: lthr || null,
+      restingHeartRate: restingHeartRate || null,
+      updatedAt: new Date().toISOString()
+    },
+    { merge: true }
+  );
+  console.log(`Firestore: Saved heart-rate zone settings (${method})`);
+}
+
+export async function loadZoneRuns(weeks = ZONE_DISTRIBUTION_WEEKS): Promise<ZoneRun[]> {
+  const from = new Date();
+  from.setDate(from.getDate() - weeks * 7);
+  console.log(`Firestore: Loading detailed runs since ${formatDateToYYYYMMDD(from)} for zones`);
+  const runsQuery = query(
+    collection(db, "detailed_runs"),
+    where("userId", "==", USER_ID),
+    where("start_date", ">=", from.toISOString()),
+    orderBy("start_date", "desc")
+  );
+  const snapshot = await getDocs(runsQuery);
+  return snapshot.docs.map(runDoc => {
+    const data = runDoc.data();
+    return {
+      id: data.id?.toString() || runDoc.id,
+      name: data.name || "Unnamed Run",
+      start_date: data.start_date,
+      date: (data.start_date_local || data.date || data.start_date || "").substring(0, 10),
+      distance: data.distance || 0,
+      moving_time: data.moving_time || 0,
+      average_heartrate: data.average_heartrate ?? null,
+      max_heartrate: data.max_heartrate ?? null,
+      heartrate_histogram: data.heartrate_histogram || null
+    };
+  });
+}
+
+export async function loadZoneDistribution(): Promise<ZoneDistribution> {
+  const [runs, settings] = await Promise.all([loadZoneRuns(), loadZoneSettings()]);
+  return buildZoneDistribution(runs, settings);
+}
+
@@ -9,9 +9,19 @@ import { useNavigate } from "react-router-dom";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import Chart from 'chart.js/auto';
+import { HeartRateZonesCard } from "@/components/running/HeartRateZonesCard";
+import {
+  RunClassifierTag,
+  classifyRun,
+  deriveRunClassifierThresholds,
+  evaluateRunClassifier,
+  formatPace as formatPaceMinutes
+} from '@/lib/runClassifier';
+import { fetchRacePrediction } from '@/lib/racePrediction';
+import { useRacePrediction } from '@/hooks/useRacePrediction';
 
 // Run tag types
-type RunTag = 'easy' | 'tempo' | 'long' | 'recovery' | 'intervals' | 'hill-repeats';
+type RunTag = RunClassifierTag;
 
 interface RunTagOption {
   value: RunTag;
@@ -46,10 +56,12 @@ interface ActivityData {
   calorie_source?: string;
   is_run_activity: boolean;
   run_tag?: RunTag;
+  userOverride?: boolean; // Tag set by hand rather than by the classifier
 }
 
 const ActivityJam = () => {
   const navigate = useNavigate();
+  const { prediction: racePrediction } = useRacePrediction();
   const [activities, setActivities] = useState<ActivityData[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -88,42 +100,6 @@ const ActivityJam = () => {
     );
   };
 
-  // Auto-tag runs based on distance, pace, and heart rate
-  const autoTagRun = (activity: ActivityData): RunTag => {
-    if (!activity.is_run_activity) return 'easy';
-
-    const distance = activity.distance;
-    const timeInMinutes = activity.moving_time / 60;
-    const paceMinPerKm = timeInMinutes / distance;
-    const avgHR = activity.average_heartrate;
-    const elevation = activity.total_elevation_gain;
-
-    // Long run detection
-    if (distance >= 15) return 'long';
-    if (distance >= 10 && paceMinPerKm > 5.5) return 'long';
-
-    // Hill repeats detection
-    if (elevation && distance > 0) {
-      const elevationPerKm = elevation / distance;
-      if (elevationPerKm > 80 && distance <= 8) return 'hill-repeats';
-      if (elevation > 300 && distance <= 10 && paceMinPerKm < 5.5) return 'hill-repeats';
-    }
-
-    // Recovery run detection
-    if (distance <= 5 && paceMinPerKm > 6.5) return 'recovery';
-    if (avgHR && avgHR < 140 && distance <= 8) return 'recovery';
-
-    // Intervals detection
-    if (paceMinPerKm < 4.0 && distance <= 10) return 'intervals';
-    if (avgHR && avgHR > 170 && distance <= 8) return 'intervals';
-
-    // Tempo detection
-    if (paceMinPerKm < 5.0 && distance >= 5 && distance <= 12) return 'tempo';
-    if (avgHR && avgHR >= 155 && avgHR <= 170 && distance >= 5) return 'tempo';
-
-    return 'easy';
-  };
-
   // Save run tag to API
   const saveRunTag = async (activityId: string, tag: RunTag) => {
     try {
@@ -197,7 +173,7 @@ const ActivityJam = () => {
       // Update local state immediately
       setActivities(prev => prev.map(activity => 
         activity.id === activityId 
-          ? { ...activity, run_tag: newTag }
+          ? { ...activity, run_tag: newTag, userOverride: true }
           : activity
       ));
 
@@ -215,7 +191,7 @@ const ActivityJam = () => {
       setActivities(prev => prev.map(activity => {
         if (activity.id === activityId) {
           const originalActivity = activities.find(a => a.id === activityId);
-          return { ...activity, run_tag: originalActivity?.run_tag };
+          return { ...activity, run_tag: originalActivity?.run_tag, userOverride: originalActivity?.userOverride };
         }
         return activity;
       }));
@@ -603,11 +579,26 @@ const ActivityJam = () => {
         };
 
         if (isRun) {
-          processedActivity.run_tag = activity.run_tag || activity.runType || autoTagRun(processedActivity);
+          processedActivity.run_tag = activity.run_tag || activity.runType;
+          processedActivity.userOverride = activity.userOverride === true;
         }
 
         return processedActivity;
       });
+
+      // Tag runs the server hasn't classified yet with the same per-athlete thresholds
+      const paceBands = await fetchRacePrediction()
+        .then(prediction => prediction?.paceBands)
+        .catch(error => {
+          console.error('❌ Error loading race prediction:', error);
+          return undefined;
+        });
+      const classifierThresholds = deriveRunClassifierThresholds(processedActivities.filter(a => a.is_run_activity), { paceBands });
+      processedActivities.forEach(activity => {
+        if (activity.is_run_activity && !activity.run_tag) {
+          activity.run_tag = classifyRun(activity, classifierThresholds).tag;
+        }
+      });
       
       const sortedActivities = processedActivities.sort((a: ActivityData, b: ActivityData) => 
         new Date(b.start_date).getTime() - new Date(a.start_date).getTime()
@@ -706,6 +697,12 @@ const ActivityJam = () => {
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  // Classifier thresholds for these runs, and how often hand-set tags disagree with it
+  const runActivities = activities.filter(a => a.is_run_activity);
+  const classifierOptions = { paceBands: racePrediction?.paceBands };
+  const classifierThresholds = deriveRunClassifierThresholds(runActivities, classifierOptions);
+  const classifierReport = evaluateRunClassifier(runActivities, classifierOptions);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-50 via-white to-blue-50">
       {/* Background decoration */}
@@ -1156,6 +1153,13 @@ const ActivityJam = () => {
               </div>
             </section>
 
+            {/* Heart-rate zones */}
+            {runActivities.length > 0 && (
+              <section>
+                <HeartRateZonesCard showRuns={false} />
+              </section>
+            )}
+
             {/* Summary Stats */}
             <section>
               <Card className="bg-gradient-to-r from-green-50 to-blue-50 border-green-200">
@@ -1216,6 +1220,57 @@ const ActivityJam = () => {
                     </div>
                   )}
                   
+                  {/* Run Classifier */}
+                  {runActivities.length > 0 && (
+                    <div className="border-t pt-4 mt-4">
+                      <h4 className="text-sm font-semibold text-gray-700 mb-3 flex items-center">
+                        <Target className="h-4 w-4 mr-2" />
+                        Run Classifier
+                      </h4>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+                        <div className="p-3 bg-white/60 rounded-lg text-center">
+                          <div className="text-lg font-bold text-green-600">{formatPaceMinutes(classifierThresholds.easyPace)}/km</div>
+                          <div className="text-xs text-gray-600">
+                            Easy pace ({classifierThresholds.source.paceFrom === 'race-predictor' ? `VDOT ${racePrediction?.vdot}` : `${classifierThresholds.source.easyRuns} runs`})
+                          </div>
+                        </div>
+                        <div className="p-3 bg-white/60 rounded-lg text-center">
+                          <div className="text-lg font-bold text-blue-600">
+                            {formatPaceMinutes(classifierThresholds.tempoPace)} / {formatPaceMinutes(classifierThresholds.recoveryPace)}
+                          </div>
+                          <div className="text-xs text-gray-600">Tempo faster / recovery slower than</div>
+                        </div>
+                        <div className="p-3 bg-white/60 rounded-lg text-center">
+                          <div className="text-lg font-bold text-emerald-600">{classifierThresholds.longRunKm} km</div>
+                          <div className="text-xs text-gray-600">Long run from</div>
+                        </div>
+                        <div className="p-3 bg-white/60 rounded-lg text-center">
+                          <div className="text-lg font-bold text-teal-600">
+                            {classifierThresholds.hrZones.slice(1).map(zone => zone.min).join(' / ')}
+                          </div>
+                          <div className="text-xs text-gray-600">
+                            HR zone floors ({classifierThresholds.source.hrFrom === 'runs' ? `max ${classifierThresholds.maxHeartRate}` : 'default'})
+                          </div>
+                        </div>
+                      </div>
+                      <div className="text-xs text-gray-600">
+                        {classifierReport.overrides > 0 ? (
+                          <>
+                            Your tags disagree with the classifier on {classifierReport.disagreements} of {classifierReport.overrides} runs
+                            ({Math.round(classifierReport.disagreementRate * 100)}%).
+                            {classifierReport.confusions.slice(0, 3).map(confusion => (
+                              <span key={`${confusion.predicted}-${confusion.actual}`} className="ml-2">
+                                {getRunTagOption(confusion.predicted).label} → {getRunTagOption(confusion.actual).label}: {confusion.count}
+                              </span>
+                            ))}
+                          </>
+                        ) : (
+                          'Re-tag runs by hand and the classifier learns your easy, tempo and long-run boundaries.'
+                        )}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Footer info */}
                   <div className="border-t pt-4 mt-4 text-center">
                     <div className="flex flex-col sm:flex-row items-center justify-center gap-4 text-sm text-gray-600">
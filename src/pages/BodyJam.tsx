@@ -11,6 +11,7 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { LATEST_BODY_COMPOSITION, PREVIOUS_BODY_COMPOSITION } from "@/data/bodyComposition";
 
 // Define types for our blood markers
 interface BloodMarker {
@@ -267,8 +268,8 @@ const BodyJam = () => {
     {
       id: "weight",
       name: "Weight",
-      value: 68.2,
-      previousValue: 72.9,
+      value: LATEST_BODY_COMPOSITION.weightKg,
+      previousValue: PREVIOUS_BODY_COMPOSITION.weightKg,
       unit: "kg",
       explanation: "Total body weight",
       icon: <Scale className="h-4 w-4 text-green-500" />
@@ -276,8 +277,8 @@ const BodyJam = () => {
     {
       id: "height",
       name: "Height",
-      value: 170,
-      previousValue: 170,
+      value: LATEST_BODY_COMPOSITION.heightCm,
+      previousValue: PREVIOUS_BODY_COMPOSITION.heightCm,
       unit: "cm",
       explanation: "Standing height",
       icon: <Activity className="h-4 w-4 text-green-500" />
@@ -285,8 +286,8 @@ const BodyJam = () => {
     {
       id: "age",
       name: "Age",
-      value: 28.1,
-      previousValue: 27.8,
+      value: LATEST_BODY_COMPOSITION.age,
+      previousValue: PREVIOUS_BODY_COMPOSITION.age,
       unit: "years",
       explanation: "Chronological age",
       icon: <Activity className="h-4 w-4 text-green-500" />
@@ -294,8 +295,8 @@ const BodyJam = () => {
     {
       id: "body_fat",
       name: "Body Fat",
-      value: 21.2,
-      previousValue: 25.7,
+      value: LATEST_BODY_COMPOSITION.bodyFatPercent,
+      previousValue: PREVIOUS_BODY_COMPOSITION.bodyFatPercent,
       unit: "%",
       explanation: "Percentage of total body mass that is fat",
       icon: <Heart className="h-4 w-4 text-teal-500" />
@@ -303,8 +304,8 @@ const BodyJam = () => {
     {
       id: "fat_mass",
       name: "Fat Mass",
-      value: 14.5,
-      previousValue: 18.7,
+      value: LATEST_BODY_COMPOSITION.fatMassKg,
+      previousValue: PREVIOUS_BODY_COMPOSITION.fatMassKg,
       unit: "kg",
       explanation: "Total mass of body fat",
       icon: <Heart className="h-4 w-4 text-teal-500" />
@@ -312,8 +313,8 @@ const BodyJam = () => {
     {
       id: "lean_mass",
       name: "Lean Mass",
-      value: 50.7,
-      previousValue: 51.1,
+      value: LATEST_BODY_COMPOSITION.leanMassKg,
+      previousValue: PREVIOUS_BODY_COMPOSITION.leanMassKg,
       unit: "kg",
       explanation: "Total mass of non-fat tissue including muscle, organs, and water",
       icon: <Dumbbell className="h-4 w-4 text-emerald-500" />
@@ -321,8 +322,8 @@ const BodyJam = () => {
     {
       id: "bone_mass",
       name: "Bone Mass",
-      value: 3.0,
-      previousValue: 3.1,
+      value: LATEST_BODY_COMPOSITION.boneMassKg,
+      previousValue: PREVIOUS_BODY_COMPOSITION.boneMassKg,
       unit: "kg",
       explanation: "Total mass of bone mineral content",
       icon: <Activity className="h-4 w-4 text-blue-500" />
@@ -357,8 +358,8 @@ const BodyJam = () => {
     {
       id: "rmr",
       name: "RMR",
-      value: 1472,
-      previousValue: 1479,
+      value: LATEST_BODY_COMPOSITION.rmrKcal,
+      previousValue: PREVIOUS_BODY_COMPOSITION.rmrKcal,
       unit: "kcal/day",
       explanation: "Resting Metabolic Rate - calories burned at rest",
       icon: <Flame className="h-4 w-4 text-green-500" />
@@ -19,6 +19,9 @@ import {
   getDoc 
 } from 'firebase/firestore';
 import { db } from '../lib/firebase';
+import { fetchNutritionLogs, getLastDaysRange } from '../lib/nutritionUtils';
+import { describeTrainingLoad, fetchTrainingLoad } from '../lib/trainingLoad';
+import { NutritionSignInNotice } from '../components/nutrition/NutritionSignInNotice';
 
 interface Message {
   role: 'user' | 'assistant';
@@ -499,18 +502,6 @@ export default function CoachNew() {
       
       console.log(`🔄 Fetching last 7 days metrics...`);
 
-      // Get the last 7 days
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      const dateString = sevenDaysAgo.toISOString().split('T')[0];
-
-      // Fetch last 7 days nutrition data
-      const nutritionQuery = query(
-        collection(db, "nutritionLogs"),
-        where("date", ">=", dateString),
-        orderBy("date", "desc")
-      );
-
       // Fetch last 7 days Strava data
       const stravaQuery = query(
         collection(db, "strava_data"),
@@ -519,11 +510,9 @@ export default function CoachNew() {
         limit(50)
       );
 
-      const [nutritionSnapshot, stravaSnapshot] = await Promise.all([
-        getDocs(nutritionQuery).catch((error) => {
-          console.error("Error fetching nutrition data:", error);
-          return { docs: [] };
-        }),
+      // Last 7 days of nutrition come from the shared range cache
+      const [nutritionLogs, stravaSnapshot] = await Promise.all([
+        fetchNutritionLogs(getLastDaysRange(8)),
         getDocs(stravaQuery).catch((error) => {
           console.error("Error fetching Strava data:", error);
           return { docs: [] };
@@ -546,8 +535,7 @@ export default function CoachNew() {
       }
 
       // Process nutrition data (same as OverallJam)
-      nutritionSnapshot.docs.forEach(doc => {
-        const data = doc.data();
+      nutritionLogs.forEach(data => {
         if (weekData[data.date]) {
           weekData[data.date].caloriesConsumed = data.totals?.calories || 0;
           weekData[data.date].protein = data.totals?.protein || 0;
@@ -1784,16 +1772,9 @@ export default function CoachNew() {
       
       console.log(`🥗 Fetching nutrition data from ${startDateStr} to ${endDateStr}`);
 
-      const nutritionQuery = query(
-        collection(db, "nutritionLogs"),
-        where("date", ">=", startDateStr),
-        where("date", "<=", endDateStr),
-        orderBy("date", "desc")
-      );
-
-      const snapshot = await getDocs(nutritionQuery);
+      const nutritionLogs = await fetchNutritionLogs({ startDate: startDateStr, endDate: endDateStr });
       
-      if (snapshot.empty) {
+      if (nutritionLogs.length === 0) {
         console.log(`⚠️ No nutrition data found for date range ${startDateStr} to ${endDateStr}`);
         return {
           success: false,
@@ -1805,7 +1786,7 @@ export default function CoachNew() {
       // Process nutrition data into a structured format
       const nutritionData = {
         dateRange: { startDate: startDateStr, endDate: endDateStr },
-        totalDays: snapshot.docs.length,
+        totalDays: nutritionLogs.length,
         dailyLogs: [] as any[],
         totals: {
           calories: 0,
@@ -1824,13 +1805,11 @@ export default function CoachNew() {
       };
 
              // Process each day's data based on actual Firestore structure
-       snapshot.docs.forEach(doc => {
-         const dayData = doc.data();
-         const totals = dayData.totals || {};
+       nutritionLogs.forEach(dayData => {
+         const totals = dayData.totals || { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
          const entries = dayData.entries || [];
          
-         // Use document ID as date if not in data
-         const dateValue = dayData.date || doc.id;
+         const dateValue = dayData.date;
          
          nutritionData.dailyLogs.push({
            date: dateValue,
@@ -2365,6 +2344,13 @@ export default function CoachNew() {
         ? context.conversationHistory.slice(-2) // Last 2 queries for context
         : [];
 
+      const trainingLoadSummary = await fetchTrainingLoad()
+        .then(describeTrainingLoad)
+        .catch(error => {
+          console.error('❌ Error loading training load:', error);
+          return null;
+        });
+
       const response = await fetch('/api/claude-coach', {
         method: 'POST',
         headers: {
@@ -2377,6 +2363,7 @@ export default function CoachNew() {
           mcpResponses,
           nutritionData: intent.nutritionData,  // Pass nutritionData separately
           sleepData: intent.sleepData,  // 🆕 Also pass sleepData separately
+          trainingLoad: trainingLoadSummary,  // TRIMP, fitness, fatigue, form and ACWR
           conversationContext  // 🆕 Pass conversation history for context
         })
       });
@@ -2832,6 +2819,7 @@ export default function CoachNew() {
           
           {/* Messages Area */}
           <div className="flex-1 mobile-container py-6 sm:py-8">
+            <NutritionSignInNotice onChange={fetchWeeklyMetrics} className="mb-6" />
             {messages.length === 0 && (
               <div className="flex flex-col items-center justify-center h-full text-center">
                 {/* Animated background elements */}
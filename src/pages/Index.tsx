@@ -8,6 +8,11 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { toast, Toaster } from 'sonner';
 import { db } from '@/lib/firebaseConfig';
 import { collection, addDoc, query, where, orderBy, getDocs, limit } from 'firebase/firestore';
+import { fetchNutritionLogs, getLastDaysRange } from '@/lib/nutritionUtils';
+import { NutritionSignInNotice } from '@/components/nutrition/NutritionSignInNotice';
+import { DEFAULT_ATHLETE_PROFILE, NutritionTargets, TrainingActivity, classifyDayType, getNutritionTargets } from '@/lib/nutritionTargets';
+import { fetchAthleteProfile } from '@/lib/trainingDays';
+import { fetchEnergyBalance, getCalorieSurplus } from '@/lib/energyBalance';
 
 // Types
 interface HealthData {
@@ -21,6 +26,9 @@ interface HealthData {
   fiber: number;
   workoutDuration: number;
   activityTypes: string[];
+  activities: TrainingActivity[];
+  targets: NutritionTargets | null; // From the day's training type (rest, easy, long, race)
+  restingKcal: number; // Calibrated BMR x activity level from the energy balance model
 }
 
 interface BloodMarkerData {
@@ -55,16 +63,11 @@ const WeeklyGoalsTracker: React.FC<{
       activeDays: 0
     };
 
-    const BMR = 1479;
-    
     Object.values(weekData).forEach((day: HealthData) => {
       totals.caloriesBurned += day.caloriesBurned || 0;
       totals.protein += day.protein || 0;
       
-      const caloriesConsumed = day.caloriesConsumed || 0;
-      const caloriesBurned = day.caloriesBurned || 0;
-      const dailySurplus = caloriesConsumed - (caloriesBurned + BMR);
-      totals.calorieSurplus += dailySurplus;
+      totals.calorieSurplus += getCalorieSurplus(day);
       
       if (day.caloriesBurned > 0 || day.caloriesConsumed > 0) {
         totals.activeDays += 1;
@@ -75,11 +78,13 @@ const WeeklyGoalsTracker: React.FC<{
   };
 
   const weeklyTotals = calculateWeeklyTotals();
+  const weeklyProteinTarget = Object.values(weekData)
+    .reduce((sum, day: HealthData) => sum + (day.targets || getNutritionTargets("rest")).protein, 0);
 
   // Weekly Goals - Updated colors
   const goals = {
-    caloriesBurned: { target: 3500, label: "Calories Burned", icon: Flame, color: "green", shortLabel: "Cal Burn" },
-    protein: { target: 1057, label: "Protein (151×7)", icon: Utensils, color: "blue", shortLabel: "Protein" },
+    caloriesBurned: { target: DEFAULT_ATHLETE_PROFILE.weeklyCaloriesBurnedTarget, label: "Calories Burned", icon: Flame, color: "green", shortLabel: "Cal Burn" },
+    protein: { target: weeklyProteinTarget, label: "Protein (day targets)", icon: Utensils, color: "blue", shortLabel: "Protein" },
     calorieSurplus: { target: 1000, label: "Calorie Surplus", icon: TrendingUp, color: "emerald", shortLabel: "Cal Surplus" }
   };
 
@@ -187,10 +192,9 @@ const WeeklyGoalsTracker: React.FC<{
               const dayData = weekData[dateStr] || {};
               const isToday = dateStr === new Date().toISOString().split('T')[0];
               
-              const BMR = 1479;
               const caloriesConsumed = dayData.caloriesConsumed || 0;
               const caloriesBurned = dayData.caloriesBurned || 0;
-              const dailySurplus = caloriesConsumed - (caloriesBurned + BMR);
+              const dailySurplus = getCalorieSurplus(dayData);
               const protein = dayData.protein || 0;
               
               return (
@@ -386,10 +390,6 @@ const HealthOverviewCard: React.FC = () => {
   const [last7DaysData, setLast7DaysData] = useState<Record<string, HealthData>>({});
 
   const fetchHealthData = () => {
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-    const dateString = sevenDaysAgo.toISOString().split('T')[0];
-
     const tempData: Record<string, HealthData> = {};
     
     for (let i = 0; i < 7; i++) {
@@ -407,16 +407,13 @@ const HealthOverviewCard: React.FC = () => {
         fat: 0,
         fiber: 0,
         workoutDuration: 0,
-        activityTypes: []
+        activityTypes: [],
+        activities: [],
+        targets: null,
+        restingKcal: DEFAULT_ATHLETE_PROFILE.bmr
       };
     }
 
-    const nutritionQuery = query(
-      collection(db, "nutritionLogs"),
-      where("date", ">=", dateString),
-      orderBy("date", "desc")
-    );
-
     const stravaQuery = query(
       collection(db, "strava_data"),
       where("userId", "==", "mihir_jain"),
@@ -432,12 +429,13 @@ const HealthOverviewCard: React.FC = () => {
     );
 
     Promise.all([
-      getDocs(nutritionQuery).catch(() => ({ docs: [] })),
+      fetchNutritionLogs(getLastDaysRange(8)),
       getDocs(stravaQuery).catch(() => ({ docs: [] })),
-      getDocs(bloodQuery).catch(() => ({ docs: [] }))
-    ]).then(([nutritionSnapshot, stravaSnapshot, bloodMarkersSnapshot]) => {
-      nutritionSnapshot.docs.forEach(doc => {
-        const data = doc.data();
+      getDocs(bloodQuery).catch(() => ({ docs: [] })),
+      fetchAthleteProfile(),
+      fetchEnergyBalance()
+    ]).then(([nutritionLogs, stravaSnapshot, bloodMarkersSnapshot, athleteProfile, energyBalance]) => {
+      nutritionLogs.forEach(data => {
         if (tempData[data.date]) {
           tempData[data.date].caloriesConsumed = data.totals?.calories || 0;
           tempData[data.date].protein = data.totals?.protein || 0;
@@ -466,6 +464,20 @@ const HealthOverviewCard: React.FC = () => {
         if (data.type && !tempData[activityDate].activityTypes.includes(data.type)) {
           tempData[activityDate].activityTypes.push(data.type);
         }
+
+        tempData[activityDate].activities.push({
+          type: data.type,
+          distance: data.distance,
+          moving_time: data.moving_time,
+          runType: data.runType || null,
+          workout_type: data.workout_type ?? null
+        });
+      });
+
+      // Nutrition targets follow each day's training
+      Object.values(tempData).forEach(day => {
+        day.targets = getNutritionTargets(classifyDayType(day.activities), athleteProfile);
+        day.restingKcal = energyBalance.restingKcal;
       });
 
       if (bloodMarkersSnapshot.docs.length > 0) {
@@ -492,6 +504,7 @@ const HealthOverviewCard: React.FC = () => {
 
   return (
     <div className="space-y-6">
+      <NutritionSignInNotice onChange={fetchHealthData} />
       <WeeklyGoalsTracker weekData={last7DaysData} loading={loading} />
 
       {bloodMarkers && (
@@ -28,6 +28,9 @@ import {
   PieChart
 } from 'lucide-react';
 import { db } from '@/lib/firebase';
+import { fetchNutritionLogs, getLastDaysRange } from '@/lib/nutritionUtils';
+import { getNutritionTargets } from '@/lib/nutritionTargets';
+import { NutritionSignInNotice } from '@/components/nutrition/NutritionSignInNotice';
 
 interface MetricCard {
   title: string;
@@ -187,33 +190,18 @@ export default function Insights() {
 
   const fetchNutritionData = async (days: number = 7): Promise<NutritionData[]> => {
     try {
-      // Fetch real nutrition data from Firestore
-      const { collection, query, where, orderBy, limit, getDocs } = await import('firebase/firestore');
-      
-      // Get the last N days
-      const daysAgo = new Date();
-      daysAgo.setDate(daysAgo.getDate() - days);
-      const startDate = daysAgo.toISOString().split('T')[0];
-      
-      const nutritionQuery = query(
-        collection(db, "nutritionLogs"),
-        where("date", ">=", startDate),
-        orderBy("date", "desc"),
-        limit(days)
-      );
-      
-      const snapshot = await getDocs(nutritionQuery);
+      // Read the last N days through the shared nutrition log cache
+      const logs = (await fetchNutritionLogs(getLastDaysRange(days + 1))).slice(0, days);
       const nutritionData: NutritionData[] = [];
       
       console.log('🍎 Raw Firestore nutrition data:', {
-        totalDocs: snapshot.size,
-        sampleDoc: snapshot.docs[0]?.data()
+        totalDocs: logs.length,
+        sampleDoc: logs[0]
       });
       
-      snapshot.forEach(doc => {
-        const data = doc.data();
+      logs.forEach(data => {
         // Handle the correct data structure with totals
-        const totals = data.totals || {};
+        const totals = data.totals || { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
         const nutritionEntry = {
           date: data.date,
           calories: totals.calories || 0,
@@ -275,7 +263,7 @@ export default function Insights() {
     const avgProtein = validNutritionData.length > 0 
       ? validNutritionData.reduce((total, nutrition) => total + nutrition.protein, 0) / validNutritionData.length 
       : 0;
-    const proteinTarget = 151; // Daily protein target
+    const proteinTarget = getNutritionTargets("rest").protein; // Protein target is the same on every day type
     
     // Check if we have any real nutrition data (not all zeros)
     const hasRealNutritionData = nutritionData.some(nutrition => 
@@ -777,9 +765,9 @@ IMPORTANT INSTRUCTIONS:
         {
           title: 'Protein Target',
           current: Math.round(goalsData.avgProtein || 0),
-          target: 151,
+          target: getNutritionTargets("rest").protein,
           unit: 'g/day',
-          progress: Math.min(((goalsData.avgProtein || 0) / 151) * 100, 100)
+          progress: Math.min(((goalsData.avgProtein || 0) / getNutritionTargets("rest").protein) * 100, 100)
         }
       ]);
 
@@ -1080,6 +1068,8 @@ IMPORTANT INSTRUCTIONS:
           </Button>
         </div>
 
+        <NutritionSignInNotice onChange={loadInsights} />
+
         {/* Key Metrics */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           {metrics.map((metric, index) => (
@@ -23,6 +23,7 @@ import {
 // Import Firestore utilities
 import { getApps, getApp } from 'firebase/app';
 import { getFirestore, doc, getDoc } from 'firebase/firestore';
+import { NutritionSignInNotice } from '@/components/nutrition/NutritionSignInNotice';
 
 // Import MCP client for Strava data
 import mcpClient, { StravaActivity, setMcpAccessToken } from '@/lib/mcpClient';
@@ -1269,6 +1270,7 @@ const LetsJam: React.FC = () => {
       </div>
 
       <div className="max-w-7xl mx-auto p-4">
+        <NutritionSignInNotice onChange={() => fetchUserData(true)} className="mb-4" />
         <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
           
           {/* Left Column - Chat Interface */}
@@ -1,5 +1,5 @@
-import { useState, useEffect, useCallback } from "react";
-import { ArrowLeft, Utensils, Calendar as CalendarIcon, BarChart3, Plus, Minus, Target, TrendingUp, Activity, Flame, Edit, Trash2 } from "lucide-react";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { ArrowLeft, Utensils, Calendar as CalendarIcon, BarChart3, Plus, Minus, Target, TrendingUp, Activity, Flame, Edit, Trash2, AlertTriangle, Clock, CloudOff, RefreshCw, CheckCircle2, History } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -7,6 +7,7 @@ import { useNavigate } from "react-router-dom";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { FoodSelector } from "@/components/nutrition/FoodSelector";
+import { BarcodeLookup } from "@/components/nutrition/BarcodeLookup";
 import { DailyLog, FoodEntry } from "@/types/nutrition";
 import {
   getTodayDateString,
@@ -14,10 +15,10 @@ import {
   formatDateForDisplay,
   formatDateToYYYYMMDD,
   getOrCreateDailyLogFirestore,
-  saveDailyLogToFirestore,
-  autoFillFromYesterdayFirestore,
   getLastXDaysDataFirestore,
-  getWeeklyAveragesFirestore
+  getWeeklyAveragesFirestore,
+  getEntryDrift,
+  getLastDaysRange
 } from "@/lib/nutritionUtils";
 import { Calendar } from "@/components/ui/calendar";
 import {
@@ -27,7 +28,26 @@ import {
 } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
 import { Toaster, toast } from "sonner";
-import { PublicFoodLog } from "@/components/nutrition/PublicFoodLog";
+import { ShareLinksManager } from "@/components/nutrition/ShareLinksManager";
+import { OwnerSignIn } from "@/components/nutrition/OwnerSignIn";
+import { FoodDatabaseManager } from "@/components/nutrition/FoodDatabaseManager";
+import { RecipeBuilder } from "@/components/nutrition/RecipeBuilder";
+import { NaturalLanguageMealLogger } from "@/components/nutrition/NaturalLanguageMealLogger";
+import { WeeklyMealPlanner } from "@/components/nutrition/WeeklyMealPlanner";
+import { NutritionImportExport } from "@/components/nutrition/NutritionImportExport";
+import { LogHistoryDrawer } from "@/components/nutrition/LogHistoryDrawer";
+import { HydrationPanel } from "@/components/nutrition/HydrationPanel";
+import { AutoFillPanel } from "@/components/nutrition/AutoFillPanel";
+import { restoreLogVersion, saveDailyLogWithRevision } from "@/lib/logRevisions";
+import { combinedMeals } from "@/data/combinedMeals";
+import { combinedMealFoodToEntry } from "@/lib/mealPlanner";
+import { usePendingSync } from "@/hooks/usePendingSync";
+import { useTrainingDays } from "@/hooks/useTrainingDays";
+import { NutritionTargets, averageNutritionTargets, calculateAdherence, getDayTypeLabel, getNutritionTargets } from "@/lib/nutritionTargets";
+import { MicronutrientPanel } from "@/components/nutrition/MicronutrientPanel";
+import { pickKnownMicronutrients } from "@/lib/micronutrients";
+import { formatEntryAmount, getEntryAmount, getEntryServings, withEntryAmount } from "@/lib/servingUnits";
+import { MEAL_SLOTS, UNASSIGNED_SLOT_LABEL, buildConsumedAt, formatConsumedTime, groupEntriesByMealSlot, inferMealSlot } from "@/lib/mealSlots";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 // Safe wrapper functions
@@ -138,48 +158,9 @@ const safeCalculateTotals = (entries) => {
   }
 };
 
-// Daily meal plans for each day of the week
-const dailyMealPlans = [
-  {
-    id: 1,
-    day: "Monday",
-    meals: ["Morning Smoothie", "Evening Smoothie", "Bhindi Dal Roti", "Paneer Chilla"],
-    description: "High protein day with smoothies and traditional Indian meals"
-  },
-  {
-    id: 2,
-    day: "Tuesday", 
-    meals: ["Morning Smoothie", "Evening Smoothie", "Matar Paneer", "Dosa Sambhar"],
-    description: "Balanced day with smoothies and South Indian cuisine"
-  },
-  {
-    id: 3,
-    day: "Wednesday",
-    meals: ["Morning Smoothie", "Evening Smoothie", "Low Fat Paneer Paratha", "Dal Rice"],
-    description: "Protein-rich day with paratha and dal rice"
-  },
-  {
-    id: 4,
-    day: "Thursday",
-    meals: ["Morning Smoothie", "Evening Smoothie", "Matar Paneer","Bhaji of Pav Bhaji", "100% Whole Wheat Bread (2 servings)"],
-    description: "Street food inspired day with nutritious options"
-  },
-  {
-    id: 5,
-    day: "Friday",
-    meals: ["Morning Smoothie", "Evening Smoothie", "Paneer Pasta", "Aloo Beans Dal Roti"],
-    description: "Fusion day with Italian and Indian flavors"
-  },
-  {
-    id: 6,
-    day: "Saturday",
-    meals: ["Morning Smoothie", "Evening Smoothie", "Low Fat Paneer Paratha", "Bread Pizza"],
-    description: "Weekend indulgence with healthy twists"
-  }
-];
 
 // Multi-line Chart Component for 7-day nutrition data with weekly averages
-const MultiLineNutritionChart = ({ last7DaysData }) => {
+const MultiLineNutritionChart = ({ last7DaysData, targets }) => {
   // Calculate weekly averages
   const calculateWeeklyAverages = (data) => {
     const totals = data.reduce((acc, dayLog) => {
@@ -250,34 +231,34 @@ const MultiLineNutritionChart = ({ last7DaysData }) => {
       <CardContent>
         {/* Weekly Averages Summary */}
         <div className="mb-6 p-4 bg-white/60 rounded-lg border border-green-200">
-          <h4 className="text-sm font-semibold text-gray-700 mb-3 text-center">Weekly Averages vs Daily Goals</h4>
+          <h4 className="text-sm font-semibold text-gray-700 mb-3 text-center">Weekly Averages vs Average Daily Targets</h4>
           <div className="mobile-grid-2 gap-3">
             <div className="text-center p-3 bg-gradient-to-br from-green-50 to-green-100 rounded-lg border border-green-200">
               <div className="text-lg font-bold text-green-700">{weeklyAverages.calories}</div>
               <div className="text-xs text-green-800 font-medium">Avg Calories</div>
               <div className="text-xs text-green-600 mt-1">
-                {Math.round((weeklyAverages.calories / 2300) * 100)}% of 2300
+                {Math.round((weeklyAverages.calories / targets.calories) * 100)}% of {targets.calories}
               </div>
             </div>
             <div className="text-center p-3 bg-gradient-to-br from-blue-50 to-blue-100 rounded-lg border border-blue-200">
               <div className="text-lg font-bold text-blue-700">{weeklyAverages.protein}g</div>
               <div className="text-xs text-blue-800 font-medium">Avg Protein</div>
               <div className="text-xs text-blue-600 mt-1">
-                {Math.round((weeklyAverages.protein / 150) * 100)}% of 150g
+                {Math.round((weeklyAverages.protein / targets.protein) * 100)}% of {targets.protein}g
               </div>
             </div>
             <div className="text-center p-3 bg-gradient-to-br from-emerald-50 to-emerald-100 rounded-lg border border-emerald-200">
               <div className="text-lg font-bold text-emerald-700">{weeklyAverages.carbs}g</div>
               <div className="text-xs text-emerald-800 font-medium">Avg Carbs</div>
               <div className="text-xs text-emerald-600 mt-1">
-                {Math.round((weeklyAverages.carbs / 311) * 100)}% of 311g
+                {Math.round((weeklyAverages.carbs / targets.carbs) * 100)}% of {targets.carbs}g
               </div>
             </div>
             <div className="text-center p-3 bg-gradient-to-br from-teal-50 to-teal-100 rounded-lg border border-teal-200">
               <div className="text-lg font-bold text-teal-700">{weeklyAverages.fat}g</div>
               <div className="text-xs text-teal-800 font-medium">Avg Fat</div>
               <div className="text-xs text-teal-600 mt-1">
-                {Math.round((weeklyAverages.fat / 51) * 100)}% of 51g
+                {Math.round((weeklyAverages.fat / targets.fat) * 100)}% of {targets.fat}g
               </div>
             </div>
             <div className="text-center p-3 bg-gradient-to-br from-green-50 to-green-100 rounded-lg border border-green-200">
@@ -432,11 +413,17 @@ const MultiLineNutritionChart = ({ last7DaysData }) => {
 };
 
 // Daily Macro Box Component
-const DailyMacroBox = ({ log, date, isToday, onClick }) => {
+const DailyMacroBox = ({ log, date, isToday, targets, onClick }: {
+  log: DailyLog;
+  date: string;
+  isToday: boolean;
+  targets: NutritionTargets; // That day's targets, from its training day type
+  onClick: () => void;
+}) => {
   const totals = log?.totals || { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
   const hasData = log?.entries?.length > 0;
-  const calorieGoal = 2300;
-  const caloriePercent = Math.min((totals.calories / calorieGoal) * 100, 100);
+  const adherence = calculateAdherence(totals, targets);
+  const caloriePercent = Math.min(adherence.calories, 100);
 
   const formatDate = (dateValue) => {
     try {
@@ -483,6 +470,14 @@ const DailyMacroBox = ({ log, date, isToday, onClick }) => {
             </span>
           )}
         </div>
+        <div className="mb-2 text-center">
+          <span
+            className="text-xs bg-white/70 text-gray-600 px-1.5 py-0.5 rounded-full border border-gray-200"
+            title={`${targets.carbsPerKg} g/kg carbs`}
+          >
+            {getDayTypeLabel(targets.dayType)} day
+          </span>
+        </div>
 
         {hasData ? (
           <div className="flex-1 flex flex-col justify-between">
@@ -497,7 +492,7 @@ const DailyMacroBox = ({ log, date, isToday, onClick }) => {
                   <span className="text-xs text-gray-500">cal</span>
                 </div>
                 <div className="text-xs text-gray-500 font-medium mb-1">
-                  {Math.round(caloriePercent)}% of goal
+                  {adherence.calories}% of {targets.calories}
                 </div>
               </div>
               <div className="w-full bg-gray-200 rounded-full h-1.5">
@@ -514,21 +509,21 @@ const DailyMacroBox = ({ log, date, isToday, onClick }) => {
                 <div className="font-bold text-blue-700 text-sm">{Math.round(totals.protein)}g</div>
                 <div className="text-blue-800 text-xs">Protein</div>
                 <div className="text-blue-600 text-xs">
-                  {Math.round((totals.protein / 150) * 100)}%
+                  {adherence.protein}%
                 </div>
               </div>
               <div className="text-center bg-white/60 rounded-lg py-2 border border-emerald-200">
                 <div className="font-bold text-emerald-600 text-sm">{Math.round(totals.carbs)}g</div>
                 <div className="text-emerald-700 text-xs">Carbs</div>
                 <div className="text-emerald-600 text-xs">
-                  {Math.round((totals.carbs / 311) * 100)}%
+                  {adherence.carbs}%
                 </div>
               </div>
               <div className="text-center bg-white/60 rounded-lg py-2 border border-teal-200">
                 <div className="font-bold text-teal-600 text-sm">{Math.round(totals.fat)}g</div>
                 <div className="text-teal-700 text-xs">Fat</div>
                 <div className="text-teal-600 text-xs">
-                  {Math.round((totals.fat / 51) * 100)}%
+                  {adherence.fat}%
                 </div>
               </div>
               <div className="text-center bg-white/60 rounded-lg py-2 border border-green-200">
@@ -540,10 +535,15 @@ const DailyMacroBox = ({ log, date, isToday, onClick }) => {
               </div>
             </div>
 
-            {/* Items Count */}
-            <div className="flex items-center justify-center gap-1 text-xs text-gray-600 mt-auto">
+            {/* Items Count and adherence to the day's targets */}
+            <div className="flex items-center justify-center gap-1 text-xs text-gray-600 mt-auto pt-2">
               <Utensils className="h-3 w-3" />
-              <span>{log.entries.length} items logged</span>
+              <span>{log.entries.length} items</span>
+              <span className="text-gray-400">·</span>
+              <Target className="h-3 w-3" />
+              <span className={cn("font-medium", adherence.score >= 80 ? "text-green-600" : adherence.score >= 60 ? "text-amber-600" : "text-red-600")}>
+                {adherence.score}% on target
+              </span>
             </div>
           </div>
         ) : (
@@ -559,12 +559,20 @@ const DailyMacroBox = ({ log, date, isToday, onClick }) => {
 };
 
 // Food Item Card Component
-const FoodItemCard = ({ entry, index, onRemove, onUpdateQuantity }) => {
+const FoodItemCard = ({ entry, index, date, onRemove, onUpdateQuantity, onUpdateEntry }) => {
   const [isEditing, setIsEditing] = useState(false);
-  const [quantity, setQuantity] = useState(entry.quantity);
+  const [quantity, setQuantity] = useState(getEntryAmount(entry));
+  const [mealSlot, setMealSlot] = useState(entry.mealSlot || "");
+  const [consumedTime, setConsumedTime] = useState(formatConsumedTime(entry.consumedAt));
 
   const handleSave = () => {
-    onUpdateQuantity(index, quantity);
+    const { quantity: servings, amount } = withEntryAmount(entry, quantity);
+    onUpdateEntry(index, {
+      quantity: servings,
+      ...(amount !== undefined ? { amount } : {}),
+      ...(mealSlot ? { mealSlot } : {}),
+      ...(consumedTime ? { consumedAt: buildConsumedAt(date, consumedTime) } : {})
+    });
     setIsEditing(false);
   };
 
@@ -573,8 +581,12 @@ const FoodItemCard = ({ entry, index, onRemove, onUpdateQuantity }) => {
     return isNaN(num) || !isFinite(num) ? 0 : num;
   };
 
-  const totalCals = Math.round(safeNumber(entry.calories) * safeNumber(entry.quantity));
-  const totalProtein = Math.round(safeNumber(entry.protein) * safeNumber(entry.quantity));
+  const totalCals = Math.round(safeNumber(entry.calories) * getEntryServings(entry));
+  const totalProtein = Math.round(safeNumber(entry.protein) * getEntryServings(entry));
+  // +/- steps half a serving, in whatever unit the entry was logged in
+  const step = entry.amountUnit && entry.unitsPerServing ? Math.max(1, Math.round(entry.unitsPerServing / 2)) : 0.5;
+  // Entries keep the macros they were logged with; flag when the catalog food has since changed
+  const drift = getEntryDrift(entry);
 
   return (
     <Card className="group hover:shadow-md transition-all duration-200 bg-gradient-to-r from-white to-green-50">
@@ -591,7 +603,22 @@ const FoodItemCard = ({ entry, index, onRemove, onUpdateQuantity }) => {
                 <Target className="h-3 w-3 text-blue-600" />
                 {totalProtein}g protein
               </span>
+              {entry.consumedAt && (
+                <span className="flex items-center gap-1">
+                  <Clock className="h-3 w-3 text-gray-500" />
+                  {formatConsumedTime(entry.consumedAt)}
+                </span>
+              )}
             </div>
+            {drift && (
+              <div
+                className="flex items-center gap-1 mt-1 text-xs text-amber-700"
+                title={`Current values: ${drift.food.calories} cal, ${drift.food.protein}g protein per serving`}
+              >
+                <AlertTriangle className="h-3 w-3 shrink-0" />
+                <span className="truncate">Food changed since logged: {drift.changes.join(", ")}</span>
+              </div>
+            )}
           </div>
 
           <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 sm:gap-3 min-w-0">
@@ -605,6 +632,22 @@ const FoodItemCard = ({ entry, index, onRemove, onUpdateQuantity }) => {
                   step="0.1"
                   min="0"
                 />
+                <select
+                  value={mealSlot}
+                  onChange={(e) => setMealSlot(e.target.value)}
+                  className="w-full sm:w-28 px-2 py-1 text-sm border rounded focus:ring-2 focus:ring-green-500"
+                >
+                  <option value="">{UNASSIGNED_SLOT_LABEL}</option>
+                  {MEAL_SLOTS.map(slot => (
+                    <option key={slot.value} value={slot.value}>{slot.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="time"
+                  value={consumedTime}
+                  onChange={(e) => setConsumedTime(e.target.value)}
+                  className="w-full sm:w-24 px-2 py-1 text-sm border rounded focus:ring-2 focus:ring-green-500"
+                />
                 <div className="flex gap-2">
                   <Button size="sm" onClick={handleSave} className="flex-1 sm:flex-none">Save</Button>
                   <Button size="sm" variant="outline" onClick={() => setIsEditing(false)} className="flex-1 sm:flex-none">Cancel</Button>
@@ -616,18 +659,18 @@ const FoodItemCard = ({ entry, index, onRemove, onUpdateQuantity }) => {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => onUpdateQuantity(index, Math.max(0.1, safeNumber(entry.quantity) - 0.5))}
+                    onClick={() => onUpdateQuantity(index, Math.max(step === 0.5 ? 0.1 : 1, getEntryAmount(entry) - step))}
                     className="h-8 w-8 p-0"
                   >
                     <Minus className="h-3 w-3" />
                   </Button>
                   <span className="min-w-0 flex-1 sm:w-16 text-center text-sm font-medium px-2">
-                    {safeNumber(entry.quantity)} {entry.unit}
+                    {formatEntryAmount(entry)}
                   </span>
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => onUpdateQuantity(index, safeNumber(entry.quantity) + 0.5)}
+                    onClick={() => onUpdateQuantity(index, getEntryAmount(entry) + step)}
                     className="h-8 w-8 p-0"
                   >
                     <Plus className="h-3 w-3" />
@@ -657,131 +700,6 @@ const FoodItemCard = ({ entry, index, onRemove, onUpdateQuantity }) => {
   );
 };
 
-// Daily Meal Plan Card Component
-const DailyMealPlanCard = ({ dailyPlan, mealPresets, onClick }) => {
-  // Find all the meal presets for this day
-  const dayMeals = dailyPlan.meals.map(mealName => 
-    mealPresets.find(preset => preset.name === mealName)
-  ).filter(Boolean);
-
-  // Calculate total nutrition for the entire day
-  const dayTotals = dayMeals.reduce((totals, meal) => {
-    const mealCalories = meal.foods?.reduce((sum, food) => 
-      sum + (food.calories || 0) * (food.quantity || 1), 0) || 0;
-    const mealProtein = meal.foods?.reduce((sum, food) => 
-      sum + (food.protein || 0) * (food.quantity || 1), 0) || 0;
-    const mealCarbs = meal.foods?.reduce((sum, food) => 
-      sum + (food.carbs || 0) * (food.quantity || 1), 0) || 0;
-    const mealFat = meal.foods?.reduce((sum, food) => 
-      sum + (food.fat || 0) * (food.quantity || 1), 0) || 0;
-    const mealFiber = meal.foods?.reduce((sum, food) => 
-      sum + (food.fiber || 0) * (food.quantity || 1), 0) || 0;
-
-    return {
-      calories: totals.calories + mealCalories,
-      protein: totals.protein + mealProtein,
-      carbs: totals.carbs + mealCarbs,
-      fat: totals.fat + mealFat,
-      fiber: totals.fiber + mealFiber
-    };
-  }, { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 });
-
-  return (
-    <Card className="bg-white border border-green-200 shadow-sm hover:shadow-lg transition-all duration-300 hover:border-blue-300 h-full flex flex-col">
-      <CardHeader className="pb-3 flex-shrink-0">
-        <div className="flex justify-between items-start mb-2">
-          <CardTitle className="text-lg font-semibold text-gray-800 leading-tight">
-            {dailyPlan.day}
-          </CardTitle>
-          <Badge variant="secondary" className="ml-2 shrink-0 bg-blue-100 text-blue-700">
-            Full Day
-          </Badge>
-        </div>
-        <p className="text-sm text-gray-600 leading-relaxed">
-          {dailyPlan.description}
-        </p>
-      </CardHeader>
-      
-      <CardContent className="pt-0 flex flex-col flex-1">
-        <div className="flex-1 min-h-0">
-          <div className="text-sm text-gray-600 mb-4 h-12 overflow-hidden">
-            <div className="leading-relaxed">
-              {dailyPlan.meals.join(", ")}
-            </div>
-          </div>
-
-          <div className="grid grid-cols-2 gap-3 mb-4 h-20">
-            <div className="text-center p-4 bg-gradient-to-br from-green-50 to-green-100 rounded-lg border border-green-200 flex flex-col justify-center">
-              <div className="text-xl font-bold text-green-700 leading-tight">
-                {Math.round(dayTotals.calories)}
-              </div>
-              <div className="text-xs text-green-800 font-medium mt-1">calories</div>
-            </div>
-            <div className="text-center p-4 bg-gradient-to-br from-blue-50 to-blue-100 rounded-lg border border-blue-200 flex flex-col justify-center">
-              <div className="text-xl font-bold text-blue-700 leading-tight">
-                {dayMeals.length}
-              </div>
-              <div className="text-xs text-blue-800 font-medium mt-1">meals</div>
-            </div>
-          </div>
-          
-          <div className="grid grid-cols-4 gap-2 mb-4 text-xs h-16">
-            <div className="text-center bg-blue-50 rounded-lg py-2 px-1 border border-blue-100 flex flex-col justify-center">
-              <div className="font-bold text-blue-700 text-sm leading-tight">{Math.round(dayTotals.protein)}g</div>
-              <div className="text-blue-800 text-[10px] mt-1">Protein</div>
-            </div>
-            <div className="text-center bg-emerald-50 rounded-lg py-2 px-1 border border-emerald-100 flex flex-col justify-center">
-              <div className="font-bold text-emerald-600 text-sm leading-tight">{Math.round(dayTotals.carbs)}g</div>
-              <div className="text-emerald-700 text-[10px] mt-1">Carbs</div>
-            </div>
-            <div className="text-center bg-teal-50 rounded-lg py-2 px-1 border border-teal-100 flex flex-col justify-center">
-              <div className="font-bold text-teal-600 text-sm leading-tight">{Math.round(dayTotals.fat)}g</div>
-              <div className="text-teal-700 text-[10px] mt-1">Fat</div>
-            </div>
-            <div className="text-center bg-green-50 rounded-lg py-2 px-1 border border-green-100 flex flex-col justify-center">
-              <div className="font-bold text-green-600 text-sm leading-tight">{Math.round(dayTotals.fiber)}g</div>
-              <div className="text-green-700 text-[10px] mt-1">Fiber</div>
-            </div>
-          </div>
-
-          <div className="h-16 overflow-hidden">
-            <div className="space-y-1 text-xs text-gray-600">
-              {dailyPlan.meals.slice(0, 3).map((mealName, index) => {
-                const meal = mealPresets.find(preset => preset.name === mealName);
-                const mealCalories = meal?.foods?.reduce((sum, food) => 
-                  sum + (food.calories || 0) * (food.quantity || 1), 0) || 0;
-                return (
-                  <div key={index} className="flex justify-between">
-                    <span className="truncate flex-1">{mealName}</span>
-                    <span className="ml-2 text-gray-500 flex-shrink-0">
-                      {Math.round(mealCalories)}cal
-                    </span>
-                  </div>
-                );
-              })}
-              {dailyPlan.meals.length > 3 && (
-                <div className="text-center text-gray-400 text-[10px]">
-                  +{dailyPlan.meals.length - 3} more meals
-                </div>
-              )}
-            </div>
-          </div>
-        </div>
-
-        <div className="pt-4 flex-shrink-0">
-          <Button 
-            onClick={onClick}
-            className="w-full bg-gradient-to-r from-green-500 to-blue-500 hover:from-green-600 hover:to-blue-600 text-white font-medium py-2 rounded-lg transition-all duration-200 flex items-center justify-center gap-2"
-          >
-            <Plus className="h-4 w-4" />
-            Add {dailyPlan.day}'s Meals
-          </Button>
-        </div>
-      </CardContent>
-    </Card>
-  );
-};
-
 // Combined Meals Card Component with fixed alignment
 const CombinedMealCard = ({ preset, onClick }) => {
   const totalCalories = preset.foods?.reduce((sum, food) => 
@@ -897,154 +815,21 @@ const NutritionJam = () => {
   const [currentLog, setCurrentLog] = useState<DailyLog | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const { pendingCount, syncing, lastError: syncError, accessDenied: syncAccessDenied, mergedDates, online, retry: retrySync } = usePendingSync();
+  const { days: lastWeekTrainingDays } = useTrainingDays(getLastDaysRange(7));
+  const selectedDateString = safeFormatDateToYYYYMMDD(selectedDate);
+  const { days: selectedTrainingDays } = useTrainingDays({ startDate: selectedDateString, endDate: selectedDateString });
+  const selectedTargets = selectedTrainingDays[selectedDateString]?.targets || getNutritionTargets("rest");
   const [lastXDaysData, setLastXDaysData] = useState<DailyLog[]>([]);
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
   const [activeTab, setActiveTab] = useState("last7days");
+  const [historyOpen, setHistoryOpen] = useState(false);
+  // Latest log for undo callbacks fired from toasts
+  const currentLogRef = useRef<DailyLog | null>(null);
+  useEffect(() => {
+    currentLogRef.current = currentLog;
+  }, [currentLog]);
 
-  // Real meal presets
-  const mealPresets = [
-    {
-      id: 1,
-      name: "Morning Smoothie",
-      foods: [
-        { foodId: "Oats, Quaker", calories: 163, protein: 4.7, carbs: 27.4, fat: 3.8, fiber: 4.0, quantity: 1, unit: "serving" },
-        { foodId: "Omani Dates, Happilo", calories: 68, protein: 0.6, carbs: 18.0, fat: 0.1, fiber: 1.9, quantity: 1, unit: "serving" },
-        { foodId: "Almonds", calories: 37, protein: 1.3, carbs: 1.3, fat: 3, fiber: 0.8, quantity: 1, unit: "serving" },
-        { foodId: "Raw Whey Protein, Unflavoured", calories: 178, protein: 35.6, carbs: 3.5, fat: 2.4, fiber: 0.4, quantity: 1, unit: "serving" },
-        { foodId: "Nutty Gritties Super Seeds Mix", calories: 64, protein: 2.4, carbs: 1.1, fat: 4.9, fiber: 1.6, quantity: 1, unit: "serving" },
-        { foodId: "Slim n Trim Skimmed Milk, Amul", calories: 35, protein: 3.5, carbs: 5.0, fat: 0.1, fiber: 0.0, quantity: 1, unit: "serving" },
-        { foodId: "Walnut", calories: 40, protein: 0.9, carbs: 0.6, fat: 3.9, fiber: 0.3, quantity: 1, unit: "serving" },
-        { foodId: "Blueberries", calories: 68, protein: 0.9, carbs: 17.4, fat: 0.4, fiber: 2.9, quantity: 1, unit: "serving" }
-      ]
-    },
-    {
-      id: 2,
-      name: "Evening Smoothie",
-      foods: [
-        { foodId: "Cocoa Whey Protein, The Whole Truth", calories: 191, protein: 34.1, carbs: 8.6, fat: 2.1, fiber: 2.1, quantity: 1, unit: "serving" },
-        { foodId: "Oats, Quaker", calories: 163, protein: 4.7, carbs: 27.4, fat: 3.8, fiber: 4.0, quantity: 1, unit: "serving" },
-        { foodId: "Slim n Trim Skimmed Milk, Amul", calories: 35, protein: 3.5, carbs: 5.0, fat: 0.1, fiber: 0.0, quantity: 1, unit: "serving" }
-      ]
-    },
-    {
-      id: 3,
-      name: "Bread Pizza",
-      foods: [
-        { foodId: "Capsicum Tomato Onion", calories: 77, protein: 1.3, carbs: 7.0, fat: 5.2, fiber: 2.5, quantity: 1, unit: "serving" },
-        { foodId: "100% Whole Wheat Bread, Britannia", calories: 67, protein: 2.2, carbs: 13.8, fat: 0.6, fiber: 1.1, quantity: 4, unit: "slices" },
-        { foodId: "Knorr Pizza and Pasta Sauce", calories: 33, protein: 0.5, carbs: 5.6, fat: 1.0, fiber: 0.4, quantity: 1.25, unit: "serving" },
-        { foodId: "Amul Cheese Slice", calories: 62, protein: 4.0, carbs: 0.3, fat: 5.0, fiber: 0.0, quantity: 4, unit: "slices" }
-      ]
-    },
-    {
-      id: 4,
-      name: "Aloo Beans Dal Roti",
-      foods: [
-        { foodId: "Roti", calories: 122, protein: 4.3, carbs: 24.8, fat: 0.6, fiber: 3.8, quantity: 1, unit: "serving" },
-        { foodId: "Aloo Beans", calories: 93, protein: 1.9, carbs: 11.5, fat: 4.5, fiber: 2.7, quantity: 1, unit: "serving" },
-        { foodId: "Dal", calories: 115, protein: 6.8, carbs: 17.7, fat: 1.9, fiber: 2.8, quantity: 1, unit: "serving" }
-      ]
-    },
-    {
-      id: 5,
-      name: "Paneer Chilla",
-      foods: [
-        { foodId: "Green Moong Dal Cheela", calories: 363, protein: 19, carbs: 44.3, fat: 12.3, fiber: 13.6, quantity: 1, unit: "serving" },
-        { foodId: "Low Fat Paneer, Milky Mist", calories: 204, protein: 25.0, carbs: 5.8, fat: 9.0, fiber: 0.0, quantity: 0.5, unit: "serving" }
-      ]
-    },
-    {
-      id: 6,
-      name: "Bhindi Dal Roti",
-      foods: [
-        { foodId: "Bhindi Fry", calories: 83, protein: 1.3, carbs: 5.5, fat: 6.3, fiber: 2.3, quantity: 1, unit: "serving" },
-        { foodId: "Dal", calories: 115, protein: 6.8, carbs: 17.7, fat: 1.9, fiber: 2.8, quantity: 1, unit: "serving" },
-        { foodId: "Roti", calories: 122, protein: 4.3, carbs: 24.8, fat: 0.6, fiber: 3.8, quantity: 1, unit: "serving" }
-      ]
-    },
-    {
-      id: 7,
-      name: "Matar Paneer",
-      foods: [
-        { foodId: "Mixed Vegetable Sabzi", calories: 28, protein: 0.7, carbs: 3.6, fat: 1.2, fiber: 1.4, quantity: 2, unit: "servings" },
-        { foodId: "Low Fat Paneer, Milky Mist", calories: 204, protein: 25.0, carbs: 5.8, fat: 9.0, fiber: 0.0, quantity: 1, unit: "serving" },
-        { foodId: "Roti", calories: 122, protein: 4.3, carbs: 24.8, fat: 0.6, fiber: 3.8, quantity: 1, unit: "serving" }
-      ]
-    },
-    {
-      id: 8,
-      name: "Paneer Pasta",
-      foods: [
-        {
-          foodId: "Zucchini Bell Pepper Salad",
-          calories: 48,
-          protein: 1.0,
-          carbs: 1.7,
-          fat: 4.4,
-          fiber: 0.6,
-          quantity: 1,
-          unit: "serving"
-        },
-        {
-          foodId: "Durum Wheat Pasta, Borges",
-          calories: 157,
-          protein: 5.6,
-          carbs: 32.4,
-          fat: 0.6,
-          fiber: 1.1,
-          quantity: 1,
-          unit: "serving"
-        },
-        {
-          foodId: "High Protein Low Fat Paneer, Milky Mist",
-          calories: 204,
-          protein: 25.0,
-          carbs: 5.8,
-          fat: 9.0,
-          fiber: 0.0,
-          quantity: 1,
-          unit: "serving"
-        }
-      ]
-    },
-    {
-      id: 9,
-      name: "Dosa Sambhar",
-      foods: [
-        { foodId: "Dosa", calories: 368, protein: 8.9, carbs: 56.5, fat: 11.8, fiber: 3.1, quantity: 1, unit: "serving" },
-        { foodId: "Sambhar", calories: 228, protein: 11, carbs: 32.4, fat: 6.0, fiber: 7.4, quantity: 1, unit: "serving" }
-      ]
-    },
-    {
-      id: 10,
-      name: "Dal Rice",
-      foods: [
-        { foodId: "Dal", calories: 115, protein: 6.8, carbs: 17.7, fat: 1.9, fiber: 2.8, quantity: 1, unit: "serving" },
-        { foodId: "White Rice", calories: 97, protein: 2.1, carbs: 21.5, fat: 0.3, fiber: 0.4, quantity: 1, unit: "serving" }
-      ]
-    },
-    {
-      id: 11,
-      name: "Low Fat Paneer Paratha",
-      foods: [
-        { foodId: "Low Fat Paneer Paratha", calories: 445, protein: 26.4, carbs: 40.4, fat: 20.0, fiber: 5.8, quantity: 1, unit: "serving" }
-      ]
-    },
-    {
-      id: 12,
-      name: "100% Whole Wheat Bread (2 servings)",
-      foods: [
-        { foodId: "100% Whole Wheat Bread, Britannia", calories: 67, protein: 2.2, carbs: 13.8, fat: 0.6, fiber: 1.1, quantity: 2, unit: "servings" }
-      ]
-    },
-    {
-      id: 13,
-      name: "Bhaji of Pav Bhaji",
-      foods: [
-        { foodId: "Bhaji of Pav Bhaji", calories: 137, protein: 2.3, carbs: 16.8, fat: 6.9, fiber: 2.1, quantity: 1, unit: "serving" }
-      ]
-    }
-  ];
 
   const loadDailyLog = useCallback(async (date: Date) => {
     setLoading(true);
@@ -1065,7 +850,8 @@ const NutritionJam = () => {
 
   const loadLastXDaysData = useCallback(async () => {
     try {
-      // Always generate 7 days regardless of what's in Firestore
+      // Always generate 7 days regardless of what's in Firestore; one range query through the shared cache
+      const logsByDate = await getLastXDaysDataFirestore(7);
       const last7Days = [];
       const today = new Date();
       
@@ -1073,29 +859,14 @@ const NutritionJam = () => {
         const date = new Date(today);
         date.setDate(today.getDate() - i);
         const dateString = safeFormatDateToYYYYMMDD(date);
+        const actualLog = logsByDate[dateString];
         
-        // Create a basic log structure for each day
-        const dayLog = {
+        last7Days.push({
           date: dateString,
-          entries: [],
-          totals: { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 },
-          lastUpdated: null
-        };
-        
-        // Try to get actual data from Firestore if available
-        try {
-          const actualLog = await getOrCreateDailyLogFirestore(dateString);
-          if (actualLog && actualLog.entries && actualLog.entries.length > 0) {
-            dayLog.entries = actualLog.entries;
-            dayLog.totals = actualLog.totals || safeCalculateTotals(actualLog.entries);
-            dayLog.lastUpdated = actualLog.lastUpdated;
-          }
-        } catch (error) {
-          console.error(`Error loading data for ${dateString}:`, error);
-          // Keep the empty structure
-        }
-        
-        last7Days.push(dayLog);
+          entries: actualLog?.entries || [],
+          totals: actualLog?.entries?.length ? actualLog.totals || safeCalculateTotals(actualLog.entries) : { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 },
+          lastUpdated: actualLog?.lastUpdated || null
+        });
       }
       
       // FIXED: Reverse array so latest day appears first on mobile
@@ -1129,6 +900,20 @@ const NutritionJam = () => {
     loadLastXDaysData();
   }, [selectedDate, loadDailyLog, loadLastXDaysData]);
 
+  // Another device edited a log we just synced: show the merged version
+  const handledMergesRef = useRef<string[]>(mergedDates);
+  useEffect(() => {
+    if (mergedDates === handledMergesRef.current) return;
+    handledMergesRef.current = mergedDates;
+    if (mergedDates.length === 0) return;
+    const selectedDateString = safeFormatDateToYYYYMMDD(selectedDate);
+    if (mergedDates.includes(selectedDateString)) {
+      loadDailyLog(selectedDate);
+      toast.info('This day was also edited on another device - changes were merged');
+    }
+    loadLastXDaysData();
+  }, [mergedDates, selectedDate, loadDailyLog, loadLastXDaysData]);
+
   const handleDateSelect = (date: Date | undefined) => {
     if (date) {
       try {
@@ -1144,6 +929,53 @@ const NutritionJam = () => {
     }
   };
 
+  // Undo puts back the version from before a change, unless the day has changed again since
+  const handleUndo = async (previous: DailyLog, changed: DailyLog) => {
+    const current = currentLogRef.current;
+    if (!current || current.date !== changed.date || current.lastUpdated !== changed.lastUpdated) {
+      toast.error('This day has changed since. Use History to restore an earlier version.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const restored = await restoreLogVersion(previous, current, { action: "undo" });
+      setCurrentLog(restored);
+      toast.success('Change undone');
+
+      loadLastXDaysData();
+    } catch (error) {
+      console.error('Error undoing change:', error);
+      toast.error('Failed to undo');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const showUndoToast = (message: string, previous: DailyLog, changed: DailyLog) => {
+    toast.success(message, {
+      action: { label: 'Undo', onClick: () => handleUndo(previous, changed) }
+    });
+  };
+
+  const handleRestoreVersion = async (version: DailyLog | null, description: string) => {
+    if (!currentLog) return;
+
+    setSaving(true);
+    try {
+      const restored = await restoreLogVersion(version, currentLog, { summary: `Restored ${description}` });
+      setCurrentLog(restored);
+      showUndoToast(`Restored ${description}`, currentLog, restored);
+
+      loadLastXDaysData();
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      toast.error('Failed to restore this version');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleAddFood = async (foodEntry: FoodEntry) => {
     if (!currentLog) return;
 
@@ -1153,8 +985,11 @@ const NutritionJam = () => {
       console.log('Raw food entry received:', foodEntry);
       
       // Normalize the food entry data structure
-      const normalizedEntry = {
+      const normalizedEntry: FoodEntry = {
         foodId: foodEntry.foodId || foodEntry.name || 'Unknown Food',
+        ...(foodEntry.catalogId ? { catalogId: foodEntry.catalogId } : {}),
+        ...(foodEntry.servingSize ? { servingSize: foodEntry.servingSize } : {}),
+        ...pickKnownMicronutrients(foodEntry),
         calories: Number(foodEntry.calories) || 0,
         protein: Number(foodEntry.protein) || 0,
         carbs: Number(foodEntry.carbs) || 0,
@@ -1162,7 +997,15 @@ const NutritionJam = () => {
         fiber: Number(foodEntry.fiber) || 0,
         quantity: Number(foodEntry.quantity) || 1,
         unit: foodEntry.unit || 'serving',
-        timestamp: new Date().toISOString()
+        ...(foodEntry.amountUnit && foodEntry.unitsPerServing > 0 ? {
+          amount: Number(foodEntry.amount) || 0,
+          amountUnit: foodEntry.amountUnit,
+          unitsPerServing: foodEntry.unitsPerServing
+        } : {}),
+        ...(foodEntry.mealSlot ? { mealSlot: foodEntry.mealSlot } : {}),
+        ...(foodEntry.consumedAt ? { consumedAt: foodEntry.consumedAt } : {}),
+        timestamp: new Date().toISOString(),
+        snapshotAt: foodEntry.snapshotAt || new Date().toISOString()
       };
       
       // Log the normalized entry
@@ -1188,7 +1031,7 @@ const NutritionJam = () => {
         lastUpdated: new Date().toISOString()
       };
 
-      await saveDailyLogToFirestore(updatedLog);
+      await saveDailyLogWithRevision(updatedLog, { action: "add", previous: currentLog });
       setCurrentLog(updatedLog);
       toast.success('Food added successfully!');
       
@@ -1216,9 +1059,9 @@ const NutritionJam = () => {
         lastUpdated: new Date().toISOString()
       };
 
-      await saveDailyLogToFirestore(updatedLog);
+      await saveDailyLogWithRevision(updatedLog, { action: "remove", previous: currentLog });
       setCurrentLog(updatedLog);
-      toast.success('Food removed successfully!');
+      showUndoToast(`Removed ${currentLog.entries[index]?.foodId || 'food'}`, currentLog, updatedLog);
       
       loadLastXDaysData();
     } catch (error) {
@@ -1235,7 +1078,8 @@ const NutritionJam = () => {
     setSaving(true);
     try {
       const updatedEntries = [...currentLog.entries];
-      updatedEntries[index] = { ...updatedEntries[index], quantity: newQuantity };
+      // newQuantity is in the entry's own unit (grams, pieces or servings)
+      updatedEntries[index] = withEntryAmount(updatedEntries[index], newQuantity);
       const updatedTotals = safeCalculateTotals(updatedEntries);
       
       const updatedLog: DailyLog = {
@@ -1245,9 +1089,9 @@ const NutritionJam = () => {
         lastUpdated: new Date().toISOString()
       };
 
-      await saveDailyLogToFirestore(updatedLog);
+      await saveDailyLogWithRevision(updatedLog, { action: "update", previous: currentLog });
       setCurrentLog(updatedLog);
-      toast.success('Quantity updated successfully!');
+      showUndoToast('Quantity updated', currentLog, updatedLog);
       
       loadLastXDaysData();
     } catch (error) {
@@ -1258,41 +1102,53 @@ const NutritionJam = () => {
     }
   };
 
-  const handleAutoFillFromYesterday = async () => {
+  const handleUpdateEntry = async (index: number, changes: Partial<FoodEntry>) => {
     if (!currentLog) return;
+    if (changes.quantity !== undefined && changes.quantity <= 0) return;
 
     setSaving(true);
     try {
-      const updatedLog = await autoFillFromYesterdayFirestore(currentLog.date);
+      const updatedEntries = [...currentLog.entries];
+      updatedEntries[index] = { ...updatedEntries[index], ...changes };
+      const updatedTotals = safeCalculateTotals(updatedEntries);
+      
+      const updatedLog: DailyLog = {
+        ...currentLog,
+        entries: updatedEntries,
+        totals: updatedTotals,
+        lastUpdated: new Date().toISOString()
+      };
+
+      await saveDailyLogWithRevision(updatedLog, { action: "update", previous: currentLog });
       setCurrentLog(updatedLog);
-      toast.success('Auto-filled from yesterday!');
+      showUndoToast('Food updated', currentLog, updatedLog);
       
       loadLastXDaysData();
     } catch (error) {
-      console.error('Error auto-filling from yesterday:', error);
-      toast.error('Failed to auto-fill from yesterday');
+      console.error('Error updating food:', error);
+      toast.error('Failed to update food');
     } finally {
       setSaving(false);
     }
   };
 
-  const handleAddPreset = async (preset) => {
+  const handleAutoFilled = (updatedLog: DailyLog, previous: DailyLog) => {
+    setCurrentLog(updatedLog);
+    showUndoToast(`Added ${updatedLog.entries.length - previous.entries.length} foods`, previous, updatedLog);
+
+    loadLastXDaysData();
+  };
+
+  const handleFluidsChanged = (updatedLog: DailyLog, previous: DailyLog, message: string) => {
+    setCurrentLog(updatedLog);
+    showUndoToast(message, previous, updatedLog);
+  };
+
+  const handleAddFoods = async (newEntries: FoodEntry[]) => {
     if (!currentLog) return;
 
     setSaving(true);
     try {
-      const newEntries = preset.foods.map(food => ({
-        foodId: food.foodId || food.name,
-        calories: Number(food.calories) || 0,
-        protein: Number(food.protein) || 0,
-        carbs: Number(food.carbs) || 0,
-        fat: Number(food.fat) || 0,
-        fiber: Number(food.fiber) || 0,
-        quantity: Number(food.quantity) || 1,
-        unit: food.unit || 'serving',
-        timestamp: new Date().toISOString()
-      }));
-      
       const updatedEntries = [...currentLog.entries, ...newEntries];
       const updatedTotals = safeCalculateTotals(updatedEntries);
       
@@ -1303,44 +1159,28 @@ const NutritionJam = () => {
         lastUpdated: new Date().toISOString()
       };
 
-      await saveDailyLogToFirestore(updatedLog);
+      await saveDailyLogWithRevision(updatedLog, { action: "add", previous: currentLog });
       setCurrentLog(updatedLog);
-      toast.success(`${preset.name} added successfully!`);
+      toast.success(`${newEntries.length} food${newEntries.length !== 1 ? 's' : ''} added successfully!`);
       
       loadLastXDaysData();
     } catch (error) {
-      console.error('Error adding preset:', error);
-      toast.error('Failed to add preset');
+      console.error('Error adding foods:', error);
+      toast.error('Failed to add foods');
     } finally {
       setSaving(false);
     }
   };
 
-  const handleAddDailyPlan = async (dailyPlan) => {
+  const handleAddPreset = async (preset) => {
     if (!currentLog) return;
 
     setSaving(true);
     try {
-      // Find all the meal presets for this day and flatten their foods
-      const dayMeals = dailyPlan.meals.map(mealName => 
-        mealPresets.find(preset => preset.name === mealName)
-      ).filter(Boolean);
-
-      const allFoodsFromDay = dayMeals.flatMap(meal => 
-        meal.foods.map(food => ({
-          foodId: food.foodId || food.name,
-          calories: Number(food.calories) || 0,
-          protein: Number(food.protein) || 0,
-          carbs: Number(food.carbs) || 0,
-          fat: Number(food.fat) || 0,
-          fiber: Number(food.fiber) || 0,
-          quantity: Number(food.quantity) || 1,
-          unit: food.unit || 'serving',
-          timestamp: new Date().toISOString()
-        }))
-      );
+      const mealSlot = inferMealSlot();
+      const newEntries = preset.foods.map(food => combinedMealFoodToEntry(food, mealSlot));
       
-      const updatedEntries = [...currentLog.entries, ...allFoodsFromDay];
+      const updatedEntries = [...currentLog.entries, ...newEntries];
       const updatedTotals = safeCalculateTotals(updatedEntries);
       
       const updatedLog: DailyLog = {
@@ -1350,21 +1190,54 @@ const NutritionJam = () => {
         lastUpdated: new Date().toISOString()
       };
 
-      await saveDailyLogToFirestore(updatedLog);
+      await saveDailyLogWithRevision(updatedLog, { action: "add", previous: currentLog, summary: `Added ${preset.name}` });
       setCurrentLog(updatedLog);
-      toast.success(`${dailyPlan.day}'s meals added successfully!`);
+      toast.success(`${preset.name} added successfully!`);
       
       loadLastXDaysData();
     } catch (error) {
-      console.error('Error adding daily plan:', error);
-      toast.error('Failed to add daily meal plan');
+      console.error('Error adding preset:', error);
+      toast.error('Failed to add preset');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLogPlannedDay = async (date: string, entries: FoodEntry[]) => {
+    setSaving(true);
+    try {
+      const log = await getOrCreateDailyLogFirestore(date);
+      const updatedEntries = [...log.entries, ...entries];
+
+      const updatedLog: DailyLog = {
+        ...log,
+        entries: updatedEntries,
+        totals: safeCalculateTotals(updatedEntries),
+        lastUpdated: new Date().toISOString()
+      };
+
+      await saveDailyLogWithRevision(updatedLog, { action: "plan", previous: log, summary: `Logged ${entries.length} planned items` });
+      if (date === safeFormatDateToYYYYMMDD(selectedDate)) {
+        setCurrentLog(updatedLog);
+      }
+      toast.success(`Logged ${entries.length} planned item${entries.length === 1 ? '' : 's'} to ${date}`);
+
+      loadLastXDaysData();
+    } catch (error) {
+      console.error('Error logging planned day:', error);
+      toast.error('Failed to log planned meals');
     } finally {
       setSaving(false);
     }
   };
 
+  const weeklyEntries = lastXDaysData.flatMap(log => log?.entries || []);
+  const weeklyMicroTotals = calculateTotals(weeklyEntries);
+
   const isToday = safeFormatDateToYYYYMMDD(selectedDate) === safeGetTodayDateString();
   const safeTodayString = safeGetTodayDateString();
+  const targetsForDate = (date: string) => lastWeekTrainingDays[date]?.targets || getNutritionTargets("rest");
+  const weeklyTargets = averageNutritionTargets(lastXDaysData.map(log => targetsForDate(log.date))) || getNutritionTargets("rest");
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-50 via-white to-blue-50 flex flex-col">
@@ -1419,6 +1292,40 @@ const NutritionJam = () => {
               Nutrition Jam
             </h1>
             <p className="text-gray-600 mt-1 text-sm sm:text-base">Track your daily nutrition and meals</p>
+            <div className="mt-2 flex items-center justify-center sm:justify-start gap-2">
+              {pendingCount > 0 ? (
+                <>
+                  <Badge variant="outline" className="border-amber-300 bg-amber-50 text-amber-700" title={syncError || undefined}>
+                    <CloudOff className="mr-1 h-3 w-3" />
+                    {pendingCount} day{pendingCount !== 1 ? 's' : ''} pending sync
+                    {syncAccessDenied ? ' (sign in to sync)' : !online ? ' (offline)' : ''}
+                  </Badge>
+                  {!syncAccessDenied && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={retrySync}
+                      disabled={syncing || !online}
+                      className="h-6 px-2 text-xs"
+                    >
+                      <RefreshCw className={cn("mr-1 h-3 w-3", syncing && "animate-spin")} />
+                      {syncing ? 'Syncing...' : 'Retry'}
+                    </Button>
+                  )}
+                </>
+              ) : (
+                <Badge variant="outline" className="border-green-200 bg-green-50 text-green-700">
+                  <CheckCircle2 className="mr-1 h-3 w-3" />
+                  Synced
+                </Badge>
+              )}
+              <OwnerSignIn
+                onChange={() => {
+                  loadDailyLog(selectedDate);
+                  loadLastXDaysData();
+                }}
+              />
+            </div>
           </div>
         </div>
       </header>
@@ -1441,12 +1348,21 @@ const NutritionJam = () => {
           </TabsList>
           
           {/* Second row of tabs for desktop */}
-          <TabsList className="grid w-full grid-cols-2 gap-1 h-auto p-1.5 bg-gradient-to-r from-orange-50 to-pink-50 border border-orange-200 rounded-lg hidden sm:grid">
+          <TabsList className="grid w-full grid-cols-5 gap-1 h-auto p-1.5 bg-gradient-to-r from-orange-50 to-pink-50 border border-orange-200 rounded-lg hidden sm:grid">
             <TabsTrigger value="daily" className="text-xs py-2 px-2 rounded-md font-medium transition-all duration-200 hover:bg-orange-100 data-[state=active]:bg-orange-200 data-[state=active]:text-orange-800 data-[state=active]:shadow-sm">
-              Daily Nutrition
+              Meal Planner
             </TabsTrigger>
             <TabsTrigger value="public" className="text-xs py-2 px-2 rounded-md font-medium transition-all duration-200 hover:bg-pink-100 data-[state=active]:bg-pink-200 data-[state=active]:text-pink-800 data-[state=active]:shadow-sm">
-              Public Logs
+              Share
+            </TabsTrigger>
+            <TabsTrigger value="foods" className="text-xs py-2 px-2 rounded-md font-medium transition-all duration-200 hover:bg-amber-100 data-[state=active]:bg-amber-200 data-[state=active]:text-amber-800 data-[state=active]:shadow-sm">
+              Food Database
+            </TabsTrigger>
+            <TabsTrigger value="recipes" className="text-xs py-2 px-2 rounded-md font-medium transition-all duration-200 hover:bg-orange-100 data-[state=active]:bg-orange-200 data-[state=active]:text-orange-800 data-[state=active]:shadow-sm">
+              Recipes
+            </TabsTrigger>
+            <TabsTrigger value="data" className="text-xs py-2 px-2 rounded-md font-medium transition-all duration-200 hover:bg-teal-100 data-[state=active]:bg-teal-200 data-[state=active]:text-teal-800 data-[state=active]:shadow-sm">
+              Import / Export
             </TabsTrigger>
           </TabsList>
 
@@ -1480,19 +1396,19 @@ const NutritionJam = () => {
                             <div className="text-2xl font-bold text-green-700">
                               {Math.round(currentLog?.totals?.calories || 0)}
                             </div>
-                            <div className="text-sm text-gray-500">/ 2300 goal</div>
+                            <div className="text-sm text-gray-500">/ {selectedTargets.calories} goal</div>
                           </div>
                         </div>
                         <div className="w-full bg-gray-200 rounded-full h-3">
                           <div
                             className="bg-gradient-to-r from-green-400 to-blue-500 h-3 rounded-full transition-all duration-500"
                             style={{
-                              width: `${Math.min(((currentLog?.totals?.calories || 0) / 2300) * 100, 100)}%`
+                              width: `${Math.min(((currentLog?.totals?.calories || 0) / selectedTargets.calories) * 100, 100)}%`
                             }}
                           />
                         </div>
                         <div className="text-center text-sm text-gray-600">
-                          {Math.round(((currentLog?.totals?.calories || 0) / 2300) * 100)}% of daily goal
+                          {Math.round(((currentLog?.totals?.calories || 0) / selectedTargets.calories) * 100)}% of {getDayTypeLabel(selectedTargets.dayType).toLowerCase()} day goal
                         </div>
                       </div>
 
@@ -1505,7 +1421,7 @@ const NutritionJam = () => {
                           </div>
                           <div className="text-xs text-blue-800 font-medium">Protein</div>
                           <div className="text-xs text-blue-600 mt-1">
-                            {Math.round(((currentLog?.totals?.protein || 0) / 150) * 100)}% of 150g
+                            {Math.round(((currentLog?.totals?.protein || 0) / selectedTargets.protein) * 100)}% of {selectedTargets.protein}g
                           </div>
                         </div>
                         <div className="text-center p-4 bg-gradient-to-br from-emerald-50 to-emerald-100 rounded-xl border border-emerald-200">
@@ -1515,7 +1431,7 @@ const NutritionJam = () => {
                           </div>
                           <div className="text-xs text-emerald-700 font-medium">Carbs</div>
                           <div className="text-xs text-emerald-600 mt-1">
-                            {Math.round(((currentLog?.totals?.carbs || 0) / 311) * 100)}% of 311g
+                            {Math.round(((currentLog?.totals?.carbs || 0) / selectedTargets.carbs) * 100)}% of {selectedTargets.carbs}g ({selectedTargets.carbsPerKg} g/kg)
                           </div>
                         </div>
                         <div className="text-center p-4 bg-gradient-to-br from-teal-50 to-teal-100 rounded-xl border border-teal-200">
@@ -1525,7 +1441,7 @@ const NutritionJam = () => {
                           </div>
                           <div className="text-xs text-teal-700 font-medium">Fat</div>
                           <div className="text-xs text-teal-600 mt-1">
-                            {Math.round(((currentLog?.totals?.fat || 0) / 51) * 100)}% of 51g
+                            {Math.round(((currentLog?.totals?.fat || 0) / selectedTargets.fat) * 100)}% of {selectedTargets.fat}g
                           </div>
                         </div>
                         <div className="text-center p-4 bg-gradient-to-br from-green-50 to-green-100 rounded-xl border border-green-200">
@@ -1555,6 +1471,19 @@ const NutritionJam = () => {
                   </CardContent>
                 </Card>
 
+                {/* Micronutrients - iron, B12, calcium, electrolytes */}
+                <MicronutrientPanel totals={currentLog?.totals} entryCount={currentLog?.entries?.length || 0} />
+
+                {/* Water and electrolytes against a target adjusted for the day's runs */}
+                {currentLog && (
+                  <HydrationPanel
+                    log={currentLog}
+                    activities={selectedTrainingDays[selectedDateString]?.activities || []}
+                    disabled={saving}
+                    onChanged={handleFluidsChanged}
+                  />
+                )}
+
                 {/* Add Food - Horizontal Section */}
                 <Card>
                   <CardHeader>
@@ -1564,29 +1493,69 @@ const NutritionJam = () => {
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <FoodSelector onAddFood={handleAddFood} disabled={saving} />
+                    <FoodSelector onAddFood={handleAddFood} disabled={saving} date={currentLog?.date} />
+                    {/* Packaged foods by barcode, from a local Open Food Facts snapshot */}
+                    <div className="mt-8 pt-4 border-t border-gray-100">
+                      <BarcodeLookup onAddFood={handleAddFood} disabled={saving} date={currentLog?.date} />
+                    </div>
                   </CardContent>
                 </Card>
 
+                {/* Quick Log - free-text meal entry */}
+                <NaturalLanguageMealLogger onAddFoods={handleAddFoods} disabled={saving} date={currentLog?.date} />
+
+                {currentLog && <AutoFillPanel log={currentLog} disabled={saving} onApplied={handleAutoFilled} />}
+
+                {currentLog && (
+                  <LogHistoryDrawer
+                    date={currentLog.date}
+                    open={historyOpen}
+                    onOpenChange={setHistoryOpen}
+                    onRestore={handleRestoreVersion}
+                  />
+                )}
+
                 {/* Today's Foods - Full Width Section */}
                 <Card>
                   <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <Utensils className="h-5 w-5 text-blue-600" />
-                      Today's Foods ({currentLog?.entries?.length || 0})
-                    </CardTitle>
+                    <div className="flex items-center justify-between gap-2">
+                      <CardTitle className="flex items-center gap-2">
+                        <Utensils className="h-5 w-5 text-blue-600" />
+                        Today's Foods ({currentLog?.entries?.length || 0})
+                      </CardTitle>
+                      <Button variant="ghost" size="sm" onClick={() => setHistoryOpen(true)} disabled={!currentLog}>
+                        <History className="h-4 w-4 mr-1" />
+                        History
+                      </Button>
+                    </div>
                   </CardHeader>
                   <CardContent>
                     {currentLog?.entries?.length > 0 ? (
-                      <div className="space-y-3">
-                        {currentLog.entries.map((entry, index) => (
-                          <FoodItemCard
-                            key={index}
-                            entry={entry}
-                            index={index}
-                            onRemove={handleRemoveFood}
-                            onUpdateQuantity={handleUpdateQuantity}
-                          />
+                      <div className="space-y-6">
+                        {groupEntriesByMealSlot(currentLog.entries).map(group => (
+                          <div key={group.slot || "unassigned"} className="space-y-3">
+                            {/* Per-meal subtotal */}
+                            <div className="flex flex-wrap items-baseline justify-between gap-2 border-b border-gray-200 pb-1">
+                              <h3 className="font-semibold text-gray-800">{group.label}</h3>
+                              <div className="text-xs text-gray-600 flex gap-3">
+                                <span className="font-medium text-green-700">{Math.round(group.totals.calories)} cal</span>
+                                <span>P {Math.round(group.totals.protein)}g</span>
+                                <span>C {Math.round(group.totals.carbs)}g</span>
+                                <span>F {Math.round(group.totals.fat)}g</span>
+                              </div>
+                            </div>
+                            {group.entries.map(({ entry, index }) => (
+                              <FoodItemCard
+                                key={index}
+                                entry={entry}
+                                index={index}
+                                date={currentLog.date}
+                                onRemove={handleRemoveFood}
+                                onUpdateQuantity={handleUpdateQuantity}
+                                onUpdateEntry={handleUpdateEntry}
+                              />
+                            ))}
+                          </div>
                         ))}
                       </div>
                     ) : (
@@ -1618,6 +1587,7 @@ const NutritionJam = () => {
                       log={log}
                       date={log?.date}
                       isToday={log?.date === safeTodayString}
+                      targets={targetsForDate(log?.date)}
                       onClick={() => {
                         if (log?.date) {
                           try {
@@ -1638,7 +1608,15 @@ const NutritionJam = () => {
             </Card>
             
             {/* Multi-line Chart replaces the Weekly Averages Summary */}
-            <MultiLineNutritionChart last7DaysData={lastXDaysData} />
+            <MultiLineNutritionChart last7DaysData={lastXDaysData} targets={weeklyTargets} />
+
+            {/* Micronutrient daily averages over the days that have logs */}
+            <MicronutrientPanel
+              title="Micronutrients (7-Day Daily Average)"
+              totals={weeklyMicroTotals}
+              entryCount={weeklyEntries.length}
+              days={Math.max(1, lastXDaysData.filter(log => log?.entries?.length > 0).length)}
+            />
           </TabsContent>
 
           <TabsContent value="presets" className="space-y-6">
@@ -1649,7 +1627,7 @@ const NutritionJam = () => {
               </div>
               
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
-                {mealPresets.map((preset) => (
+                {combinedMeals.map((preset) => (
                   <div key={preset.id} className="h-full">
                     <CombinedMealCard
                       preset={preset}
@@ -1662,31 +1640,28 @@ const NutritionJam = () => {
           </TabsContent>
 
           <TabsContent value="daily" className="space-y-6">
-            <section>
-              <div className="flex items-center mb-6">
-                <CalendarIcon className="h-6 w-6 mr-3 text-gray-600" />
-                <h2 className="text-2xl font-semibold text-gray-800">Daily Nutrition Plans</h2>
-              </div>
-              <p className="text-gray-600 mb-6">
-                Complete daily meal plans for each day of the week. Each plan includes all meals with calculated nutrition totals.
-              </p>
-              
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
-                {dailyMealPlans.map((dailyPlan) => (
-                  <div key={dailyPlan.id} className="h-full">
-                    <DailyMealPlanCard
-                      dailyPlan={dailyPlan}
-                      mealPresets={mealPresets}
-                      onClick={() => handleAddDailyPlan(dailyPlan)}
-                    />
-                  </div>
-                ))}
-              </div>
-            </section>
+            <WeeklyMealPlanner onLogDay={handleLogPlannedDay} />
           </TabsContent>
 
           <TabsContent value="public" className="space-y-6">
-            <PublicFoodLog />
+            <ShareLinksManager />
+          </TabsContent>
+
+          <TabsContent value="foods" className="space-y-6">
+            <FoodDatabaseManager />
+          </TabsContent>
+
+          <TabsContent value="recipes" className="space-y-6">
+            <RecipeBuilder />
+          </TabsContent>
+
+          <TabsContent value="data" className="space-y-6">
+            <NutritionImportExport
+              onImported={() => {
+                loadDailyLog(selectedDate);
+                loadLastXDaysData();
+              }}
+            />
           </TabsContent>
         </Tabs>
       </main>
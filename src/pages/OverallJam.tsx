@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { ArrowLeft, Activity, Heart, Flame, Utensils, Droplet, Apple, Wheat, Drumstick, Leaf, RefreshCw, BarChart3, Target, TrendingUp, Plus, Calendar, Moon, Bot } from "lucide-react";
+import { ArrowLeft, Activity, Heart, Flame, Utensils, Droplet, Droplets, Apple, Wheat, Drumstick, Leaf, RefreshCw, BarChart3, Target, TrendingUp, Plus, Calendar, Moon, Bot } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -8,6 +8,13 @@ import { Skeleton } from "@/components/ui/skeleton";
 import Chart from 'chart.js/auto';
 import { db } from '@/lib/firebaseConfig';
 import { collection, addDoc, query, where, orderBy, getDocs, limit } from 'firebase/firestore';
+import { fetchNutritionLogs, getLastDaysRange } from '@/lib/nutritionUtils';
+import { DEFAULT_ATHLETE_PROFILE, NutritionTargets, TrainingActivity, classifyDayType, getNutritionTargets } from '@/lib/nutritionTargets';
+import { fetchAthleteProfile } from '@/lib/trainingDays';
+import { formatFluidVolume, getFluidTotals, loadHydrationTarget } from '@/lib/hydration';
+import { fetchEnergyBalance, getCalorieSurplus } from '@/lib/energyBalance';
+import { EnergyBalanceCard } from '@/components/nutrition/EnergyBalanceCard';
+import { NutritionSignInNotice } from '@/components/nutrition/NutritionSignInNotice';
 
 // Define types for our data
 interface StravaData {
@@ -36,6 +43,11 @@ interface CombinedData {
   workoutDuration: number;
   activityTypes: string[];
   runCount: number; // Track number of runs for proper averaging
+  activities: TrainingActivity[];
+  targets: NutritionTargets | null; // From the day's training type (rest, easy, long, race)
+  fluidMl: number;
+  fluidTargetMl: number | null; // Baseline plus estimated sweat loss from runs
+  restingKcal: number; // Calibrated BMR x activity level from the energy balance model
 }
 
 // Weekly Goals Tracker Component - Updated with surplus instead of deficit
@@ -52,15 +64,11 @@ const WeeklyGoalsTracker: React.FC<{
       activeDays: 0
     };
 
-    const BMR = 1479;
-    
     Object.values(weekData).forEach((day: CombinedData) => {
       totals.caloriesBurned += day.caloriesBurned || 0;
       totals.protein += day.protein || 0;
       
-      // Calorie surplus = calories consumed - (calories burned + BMR)
-      const dailySurplus = day.caloriesConsumed - (day.caloriesBurned + BMR);
-      totals.calorieSurplus += dailySurplus;
+      totals.calorieSurplus += getCalorieSurplus(day);
       
       if (day.caloriesBurned > 0 || day.caloriesConsumed > 0) {
         totals.activeDays += 1;
@@ -71,11 +79,13 @@ const WeeklyGoalsTracker: React.FC<{
   };
 
   const weeklyTotals = calculateWeeklyTotals();
+  const weeklyProteinTarget = Object.values(weekData)
+    .reduce((sum, day: CombinedData) => sum + (day.targets || getNutritionTargets("rest")).protein, 0);
 
   // Weekly Goals - Updated with surplus goal (positive surplus is good)
   const goals = {
-    caloriesBurned: { target: 3500, label: "Calories Burned", icon: Flame, color: "green", shortLabel: "Cal Burn" },
-    protein: { target: 1057, label: "Protein (151×7)", icon: Utensils, color: "blue", shortLabel: "Protein" },
+    caloriesBurned: { target: DEFAULT_ATHLETE_PROFILE.weeklyCaloriesBurnedTarget, label: "Calories Burned", icon: Flame, color: "green", shortLabel: "Cal Burn" },
+    protein: { target: weeklyProteinTarget, label: "Protein (day targets)", icon: Utensils, color: "blue", shortLabel: "Protein" },
     calorieSurplus: { target: 1000, label: "Calorie Surplus (goal: positive)", icon: Target, color: "emerald", shortLabel: "Cal Surplus" }
   };
 
@@ -183,10 +193,9 @@ const WeeklyGoalsTracker: React.FC<{
               const dayData = weekData[dateStr] || {};
               const isToday = dateStr === new Date().toISOString().split('T')[0];
               
-              const BMR = 1479;
               const caloriesConsumed = dayData.caloriesConsumed || 0;
               const caloriesBurned = dayData.caloriesBurned || 0;
-              const dailySurplus = caloriesConsumed - (caloriesBurned + BMR);
+              const dailySurplus = getCalorieSurplus(dayData);
               const protein = dayData.protein || 0;
               
               return (
@@ -241,11 +250,9 @@ const WeeklyGoalsTracker: React.FC<{
 
 // Daily Health Box Component - Updated with surplus
 const DailyHealthBox = ({ data, date, isToday, onClick }) => {
-  const hasData = data.caloriesConsumed > 0 || data.caloriesBurned > 0 || data.heartRateRuns > 0;
+  const hasData = data.caloriesConsumed > 0 || data.caloriesBurned > 0 || data.heartRateRuns > 0 || data.fluidMl > 0;
   
-  // Calculate calorie surplus: calories consumed - (calories burned + BMR)
-  const BMR = 1479;
-  const calorieSurplus = data.caloriesConsumed - (data.caloriesBurned + BMR);
+  const calorieSurplus = getCalorieSurplus(data);
 
   return (
     <Card 
@@ -302,6 +309,18 @@ const DailyHealthBox = ({ data, date, isToday, onClick }) => {
                 </div>
               </div>
 
+              {/* Fluids against the day's target */}
+              {(data.fluidMl > 0 || data.fluidTargetMl) && (
+                <div className="text-center text-xs">
+                  <div className="font-semibold text-sky-600 flex items-center justify-center gap-1">
+                    <Droplets className="h-3 w-3" />
+                    {formatFluidVolume(data.fluidMl || 0)}
+                    {data.fluidTargetMl ? <span className="text-gray-400 font-normal">/ {formatFluidVolume(data.fluidTargetMl)}</span> : null}
+                  </div>
+                  <div className="text-gray-500">Fluids</div>
+                </div>
+              )}
+
               {/* Heart Rate for Runs Only */}
               {data.heartRateRuns && (
                 <div className="text-center text-xs">
@@ -353,11 +372,6 @@ const OverallJam = () => {
 
       console.log(`🔄 Fetching 7-day health data from Firebase (forceRefresh: ${forceRefresh})...`);
 
-      // Get the last 7 days
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      const dateString = sevenDaysAgo.toISOString().split('T')[0];
-
       // Initialize data structure for 7 days
       const tempData = {};
       const tempDailyData = {};
@@ -378,20 +392,19 @@ const OverallJam = () => {
           fiber: 0,
           workoutDuration: 0,
           activityTypes: [],
-          runCount: 0 // Track runs for proper HR averaging
+          runCount: 0, // Track runs for proper HR averaging
+          activities: [],
+          targets: null,
+          fluidMl: 0,
+          fluidTargetMl: null,
+          restingKcal: DEFAULT_ATHLETE_PROFILE.bmr
         };
         
         tempData[dateStr] = dayData;
         tempDailyData[dateStr] = dayData;
       }
 
-      // Prepare Firebase queries
-      const nutritionQuery = query(
-        collection(db, "nutritionLogs"),
-        where("date", ">=", dateString),
-        orderBy("date", "desc")
-      );
-
+      // Prepare Firebase queries (nutrition logs come from the shared range cache)
       const stravaQuery = query(
         collection(db, "strava_data"),
         where("userId", "==", "mihir_jain"),
@@ -407,11 +420,8 @@ const OverallJam = () => {
       );
 
       // Execute all queries
-      const [nutritionSnapshot, stravaSnapshot, bloodMarkersSnapshot] = await Promise.all([
-        getDocs(nutritionQuery).catch((error) => {
-          console.error("Error fetching nutrition data:", error);
-          return { docs: [] };
-        }),
+      const [nutritionLogs, stravaSnapshot, bloodMarkersSnapshot, athleteProfile, energyBalance] = await Promise.all([
+        fetchNutritionLogs(getLastDaysRange(8), { forceRefresh }),
         getDocs(stravaQuery).catch((error) => {
           console.error("Error fetching Strava data:", error);
           return { docs: [] };
@@ -419,22 +429,24 @@ const OverallJam = () => {
         getDocs(bloodQuery).catch((error) => {
           console.error("Error fetching blood markers:", error);
           return { docs: [] };
-        })
+        }),
+        fetchAthleteProfile(),
+        fetchEnergyBalance()
       ]);
 
-      console.log(`📊 Fetched ${nutritionSnapshot.docs.length} nutrition logs`);
+      console.log(`📊 Fetched ${nutritionLogs.length} nutrition logs`);
       console.log(`🏃 Fetched ${stravaSnapshot.docs.length} Strava activities`);
       console.log(`🩸 Fetched ${bloodMarkersSnapshot.docs.length} blood marker records`);
 
       // Process nutrition data
-      nutritionSnapshot.docs.forEach(doc => {
-        const data = doc.data();
+      nutritionLogs.forEach(data => {
         if (tempData[data.date]) {
           tempData[data.date].caloriesConsumed = data.totals?.calories || 0;
           tempData[data.date].protein = data.totals?.protein || 0;
           tempData[data.date].carbs = data.totals?.carbs || 0;
           tempData[data.date].fat = data.totals?.fat || 0;
           tempData[data.date].fiber = data.totals?.fiber || 0;
+          tempData[data.date].fluidMl = getFluidTotals(data.fluids).volumeMl;
         }
       });
 
@@ -473,8 +485,24 @@ const OverallJam = () => {
         if (activityType && !tempData[activityDate].activityTypes.includes(activityType)) {
           tempData[activityDate].activityTypes.push(activityType);
         }
+
+        tempData[activityDate].activities.push({
+          id: data.id,
+          type: activityType,
+          distance: data.distance,
+          moving_time: data.moving_time,
+          runType: data.runType || null,
+          workout_type: data.workout_type ?? null
+        });
       });
 
+      // Nutrition and fluid targets follow each day's training
+      await Promise.all(Object.values(tempData).map(async (day: CombinedData) => {
+        day.targets = getNutritionTargets(classifyDayType(day.activities), athleteProfile);
+        day.fluidTargetMl = (await loadHydrationTarget(day.activities, athleteProfile)).targetMl;
+        day.restingKcal = energyBalance.restingKcal;
+      }));
+
       // Process blood markers
       if (bloodMarkersSnapshot.docs.length > 0) {
         const latestDoc = bloodMarkersSnapshot.docs[0];
@@ -535,8 +563,7 @@ const OverallJam = () => {
     });
 
     // Calculate calorie surplus for each day
-    const BMR = 1479;
-    const calorieSurplusData = data.map(d => d.caloriesConsumed - (d.caloriesBurned + BMR));
+    const calorieSurplusData = data.map(getCalorieSurplus);
 
     // Calculate data ranges for better scaling
     const proteinData = data.map(d => d.protein).filter(p => p > 0);
@@ -791,10 +818,9 @@ const OverallJam = () => {
 
   // Calculate average calorie surplus
   const calculateAvgCalorieSurplus = () => {
-    const BMR = 1479;
     const validData = combinedData.filter(d => d.caloriesConsumed > 0 || d.caloriesBurned > 0);
     if (validData.length === 0) return 0;
-    const sum = validData.reduce((total, d) => total + (d.caloriesConsumed - (d.caloriesBurned + BMR)), 0);
+    const sum = validData.reduce((total, d) => total + getCalorieSurplus(d), 0);
     return Math.round(sum / validData.length);
   };
 
@@ -857,7 +883,8 @@ const OverallJam = () => {
 
       {/* Main content */}
       <main className="flex-grow relative z-10 px-6 md:px-12 py-8">
-        
+        <NutritionSignInNotice onChange={() => fetchCombinedData(true)} className="mb-8" />
+
         {/* Weekly Goals Tracker - Same as Homepage */}
         <section className="mb-8">
           <WeeklyGoalsTracker weekData={last7DaysData} loading={loading} />
@@ -891,6 +918,11 @@ const OverallJam = () => {
           </Card>
         </section>
 
+        {/* Energy balance: calibrated TDEE and projected weight */}
+        <section className="mb-8">
+          <EnergyBalanceCard onChanged={() => fetchCombinedData(false)} />
+        </section>
+
         {/* Weekly Averages Section - Updated with surplus */}
         <section className="mb-8">
           <h2 className="text-3xl font-bold mb-6 bg-gradient-to-r from-green-600 to-blue-600 bg-clip-text text-transparent">
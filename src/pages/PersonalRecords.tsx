@@ -0,0 +1,217 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import Chart from "chart.js/auto";
+import { ArrowLeft, Medal, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { PR_DISTANCES, PersonalRecord, ROLLING_RECORD_DAYS, formatEffortTime } from "@/lib/bestEfforts";
+import { usePersonalRecords } from "@/hooks/usePersonalRecords";
+import { cn } from "@/lib/utils";
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+// min/km for an effort over a standard distance
+const formatEffortPace = (seconds: number, meters: number) => `${formatEffortTime(seconds / (meters / 1000))}/km`;
+
+const getDistanceLabel = (key: string) => PR_DISTANCES.find(distance => distance.key === key)?.label || key;
+
+// Each new all-time record at one distance over time
+function ProgressionChart({ record }: { record: PersonalRecord }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+
+    const chart = new Chart(ctx, {
+      type: "line",
+      data: {
+        labels: record.progression.map(point => formatDate(point.date)),
+        datasets: [
+          {
+            label: `${record.distance.label} record`,
+            data: record.progression.map(point => point.time),
+            borderColor: "rgb(234, 179, 8)",
+            backgroundColor: "rgba(234, 179, 8, 0.2)",
+            stepped: true
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          tooltip: { callbacks: { label: (item) => formatEffortTime(Number(item.raw)) } }
+        },
+        scales: {
+          y: {
+            title: { display: true, text: "Time" },
+            ticks: { callback: (value) => formatEffortTime(Number(value)) }
+          }
+        }
+      }
+    });
+
+    return () => chart.destroy();
+  }, [record]);
+
+  return (
+    <div className="h-64">
+      <canvas ref={canvasRef} className="w-full h-full"></canvas>
+    </div>
+  );
+}
+
+// Personal records for every standard distance from 400 m to the marathon
+const PersonalRecords = () => {
+  const navigate = useNavigate();
+  const { registry, loading, error } = usePersonalRecords();
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const records = registry?.records.filter(record => record.allTime) || [];
+  const selected = records.find(record => record.distance.key === selectedKey) || records[0] || null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-yellow-50 via-white to-green-50">
+      <header className="pt-8 px-6 md:px-12">
+        <div className="flex items-center justify-between mb-6">
+          <Button onClick={() => navigate('/runs')} variant="ghost" className="hover:bg-white/20">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Runs
+          </Button>
+        </div>
+        <div className="text-center max-w-4xl mx-auto">
+          <h1 className="text-4xl md:text-5xl font-bold bg-gradient-to-r from-yellow-600 via-orange-600 to-green-600 bg-clip-text text-transparent">
+            🏆 Personal Records
+          </h1>
+          <p className="mt-3 text-lg text-gray-600">
+            All-time and {ROLLING_RECORD_DAYS}-day bests from Strava best efforts
+            {registry ? ` across ${registry.runCount} runs` : ""}
+          </p>
+        </div>
+      </header>
+
+      <main className="px-6 md:px-12 py-8 max-w-6xl mx-auto space-y-8">
+        {loading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-64 w-full" />
+          </div>
+        ) : error || !registry ? (
+          <div className="text-center py-12 text-gray-600">Couldn't load your best efforts.</div>
+        ) : records.length === 0 ? (
+          <div className="text-center py-12 text-gray-600">
+            No best efforts yet. Refresh runs on the runs dashboard to pull them from Strava.
+          </div>
+        ) : (
+          <>
+            {registry.recent.length > 0 && (
+              <Card className="bg-gradient-to-r from-yellow-50 to-orange-50 border-yellow-200">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <Medal className="h-5 w-5 text-yellow-600" />
+                    New in the last 30 days
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {registry.recent.map(run => (
+                    <div key={run.id} className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-medium text-gray-800">{run.name}</span>
+                      <span className="text-xs text-gray-500">{formatDate(run.start_date)}</span>
+                      {run.new_records?.map(record => (
+                        <Badge
+                          key={record.distanceKey}
+                          variant="secondary"
+                          className={record.kind === "all-time" ? "bg-yellow-100 text-yellow-800" : "bg-green-100 text-green-700"}
+                        >
+                          {getDistanceLabel(record.distanceKey)} {formatEffortTime(record.time)}
+                          {record.kind === "rolling" ? ` (${ROLLING_RECORD_DAYS}-day best)` : ""}
+                        </Badge>
+                      ))}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="bg-white/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Trophy className="h-5 w-5 text-yellow-600" />
+                  Records by distance
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 border-b">
+                        <th className="py-2 pr-4">Distance</th>
+                        <th className="py-2 pr-4">All-time</th>
+                        <th className="py-2 pr-4">Pace</th>
+                        <th className="py-2 pr-4">Set</th>
+                        <th className="py-2 pr-4">Last {ROLLING_RECORD_DAYS} days</th>
+                        <th className="py-2">Efforts</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {records.map(record => (
+                        <tr
+                          key={record.distance.key}
+                          onClick={() => setSelectedKey(record.distance.key)}
+                          className={cn(
+                            "border-b last:border-0 cursor-pointer hover:bg-yellow-50",
+                            selected?.distance.key === record.distance.key && "bg-yellow-50"
+                          )}
+                        >
+                          <td className="py-2 pr-4 font-medium text-gray-800">{record.distance.label}</td>
+                          <td className="py-2 pr-4 font-semibold">{formatEffortTime(record.allTime!.time)}</td>
+                          <td className="py-2 pr-4 text-gray-600">{formatEffortPace(record.allTime!.time, record.distance.meters)}</td>
+                          <td className="py-2 pr-4 text-gray-600">
+                            {formatDate(record.allTime!.date)}
+                            <span className="ml-1 text-xs text-gray-400">{record.allTime!.runName}</span>
+                          </td>
+                          <td className="py-2 pr-4 text-gray-600">
+                            {record.rolling ? formatEffortTime(record.rolling.time) : "--"}
+                          </td>
+                          <td className="py-2 text-gray-500">{record.efforts}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+
+            {selected && (
+              <Card className="bg-white/80 backdrop-blur-sm">
+                <CardHeader>
+                  <CardTitle className="text-lg">{selected.distance.label} progression</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <ProgressionChart record={selected} />
+                  <div className="space-y-1 text-sm">
+                    {[...selected.progression].reverse().map(point => (
+                      <div key={`${point.runId}-${point.date}`} className="flex flex-wrap gap-2">
+                        <span className="font-medium">{formatEffortTime(point.time)}</span>
+                        <span className="text-gray-500">{formatDate(point.date)} · {point.runName}</span>
+                        {point.improvement !== null && (
+                          <span className="text-green-600">−{formatEffortTime(point.improvement)}</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default PersonalRecords;
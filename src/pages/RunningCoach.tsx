@@ -8,6 +8,8 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
 import { useNavigate } from 'react-router-dom';
+import { describeTrainingLoad, fetchTrainingLoad } from '@/lib/trainingLoad';
+import { describeRacePrediction, fetchRacePrediction } from '@/lib/racePrediction';
 
 // Enhanced run data interface
 interface RunData {
@@ -243,7 +245,7 @@ const RunningCoach: React.FC = () => {
   };
 
   // Generate AI running coach system prompt
-  const generateRunningCoachPrompt = (category: string, analysis: RunAnalysis, runs: RunData[], subjectiveData: SubjectiveInput[]) => {
+  const generateRunningCoachPrompt = (category: string, analysis: RunAnalysis, runs: RunData[], subjectiveData: SubjectiveInput[], trainingLoadSummary: string, racePredictionSummary: string) => {
     const basePrompt = `You are an elite AI running coach with access to comprehensive running data. You must respond based on the specific category requested and use REAL data from the runner's activities.
 
 RUNNING DATA SUMMARY:
@@ -263,6 +265,12 @@ IMPROVEMENT AREAS: ${analysis.improvementAreas.join(', ')}
 
 SUBJECTIVE FEEDBACK:
 ${subjectiveData.slice(0, 3).map(data => `Run feedback: Effort ${data.perceivedEffort}/10, Energy ${data.energyLevel}/10, Sleep ${data.sleepHours}h, Stress ${data.stressLevel}/10. Notes: ${data.notes}`).join('\n')}
+
+${trainingLoadSummary}
+Use form (TSB) and the acute:chronic ratio when judging fatigue and injury risk: a ratio above 1.3 calls for caution, above 1.5 for backing off.
+
+${racePredictionSummary}
+Use these training paces for every pace target you give, and weigh each race prediction by its confidence.
 `;
 
     let categorySpecificPrompt = '';
@@ -306,7 +314,7 @@ RESPONSE STRUCTURE:
 - Identify the main limiting factor from the data
 - Explain the physiological reasoning
 - Provide specific, actionable training recommendations
-- Include heart rate zones and pace targets based on their current fitness
+- Include heart rate zones and pace targets from their VDOT training paces
 - Give workout prescriptions with recovery guidelines
 
 FOCUS AREAS:
@@ -353,7 +361,7 @@ Provide comprehensive pre-run consultation covering nutrition, pacing, mental pr
 
 RESPONSE STRUCTURE:
 - 3-hour fueling timeline based on their typical run duration
-- Pacing strategy using their average pace and heart rate data
+- Pacing strategy using their predicted race times, training paces and heart rate data
 - Hydration plan based on their typical run conditions
 - Mental preparation referencing their past successes
 - Weather adjustments if needed
@@ -457,7 +465,19 @@ Base all recommendations on their actual performance data and training patterns.
     setIsTyping(true);
 
     try {
-      const systemPrompt = generateRunningCoachPrompt(category, runAnalysis, runs, subjectiveInputs);
+      const trainingLoadSummary = await fetchTrainingLoad()
+        .then(describeTrainingLoad)
+        .catch(error => {
+          console.error('❌ Error loading training load:', error);
+          return 'TRAINING LOAD: unavailable.';
+        });
+      const racePredictionSummary = await fetchRacePrediction()
+        .then(describeRacePrediction)
+        .catch(error => {
+          console.error('❌ Error loading race predictions:', error);
+          return 'RACE PREDICTIONS: unavailable.';
+        });
+      const systemPrompt = generateRunningCoachPrompt(category, runAnalysis, runs, subjectiveInputs, trainingLoadSummary, racePredictionSummary);
       
       const response = await fetch('/api/chat', {
         method: 'POST',
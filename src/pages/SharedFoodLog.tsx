@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Skeleton } from "@/components/ui/skeleton";
+import { PublicFoodLog } from "@/components/nutrition/PublicFoodLog";
+import { SharedLog, fetchSharedLog } from "@/lib/shareLinks";
+
+// Read-only page behind a share link. Everything comes from /api/share-log,
+// so only what the link covers is ever sent to the browser.
+const SharedFoodLog = () => {
+  const { token } = useParams<{ token: string }>();
+  const [sharedLog, setSharedLog] = useState<SharedLog | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    fetchSharedLog(token)
+      .then(result => {
+        if (!cancelled) setSharedLog(result);
+      })
+      .catch(fetchError => {
+        console.error("Error loading shared food log:", fetchError);
+        if (!cancelled) setError(fetchError instanceof Error ? fetchError.message : "This link isn't available");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 via-blue-50 to-teal-50 px-6 md:px-12 py-8">
+      <div className="max-w-4xl mx-auto">
+        {error ? (
+          <div className="text-center py-24">
+            <h1 className="text-2xl font-bold text-gray-800 mb-2">Link unavailable</h1>
+            <p className="text-gray-600">{error}</p>
+          </div>
+        ) : sharedLog ? (
+          <PublicFoodLog log={sharedLog} />
+        ) : (
+          <div className="space-y-4 mt-6">
+            <Skeleton className="h-8 w-1/4" />
+            <Skeleton className="h-20 w-full" />
+            <Skeleton className="h-8 w-1/4 mt-4" />
+            <Skeleton className="h-20 w-full" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedFoodLog;
@@ -7,6 +7,11 @@ import { useNavigate } from "react-router-dom";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import Chart from 'chart.js/auto';
+import { RunFuelingPanel } from "@/components/nutrition/RunFuelingPanel";
+import { TrainingLoadCard } from "@/components/running/TrainingLoadCard";
+import { HeartRateZonesCard } from "@/components/running/HeartRateZonesCard";
+import { RacePredictorCard } from "@/components/running/RacePredictorCard";
+import { NewRecord, PR_DISTANCES, formatEffortTime } from "@/lib/bestEfforts";
 
 // Run data interface with comprehensive fields
 interface RunData {
@@ -58,6 +63,7 @@ interface RunData {
     start_date_local: string;
     achievements?: any[];
   }>;
+  new_records?: NewRecord[]; // Records this run set, flagged by /api/runs when it synced
   gear?: {
     id: string;
     name: string;
@@ -340,7 +346,8 @@ const RunsDashboard = () => {
     const avgHeartRate = heartRates.length > 0 ? Math.round(heartRates.reduce((sum, hr) => sum + hr, 0) / heartRates.length) : 0;
     
     const totalSplits = runs.reduce((sum, run) => sum + (run.splits_metric?.length || 0), 0);
-    const totalPRs = runs.reduce((sum, run) => sum + (run.best_efforts?.length || 0), 0);
+    const totalPRs = runs.reduce((sum, run) => sum + (run.new_records?.filter(record => record.kind === 'all-time').length || 0), 0);
+    const totalBestEfforts = runs.reduce((sum, run) => sum + (run.best_efforts?.length || 0), 0);
     const totalLaps = runs.reduce((sum, run) => sum + (run.laps?.length || 0), 0);
     
     const gear = runs.find(run => run.gear)?.gear;
@@ -352,6 +359,7 @@ const RunsDashboard = () => {
       avgHeartRate,
       totalSplits,
       totalPRs,
+      totalBestEfforts,
       totalLaps,
       gear,
       runsWithStreams: runs.filter(run => run.has_streams).length
@@ -417,6 +425,7 @@ const RunsDashboard = () => {
         splits_metric: run.splits_metric,
         laps: run.laps,
         best_efforts: run.best_efforts,
+        new_records: run.new_records || [],
         gear: run.gear,
         fetched_at: run.fetched_at || new Date().toISOString(),
         has_detailed_data: run.has_detailed_data || false,
@@ -601,9 +610,13 @@ const RunsDashboard = () => {
           </div>
         ) : (
           <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-8">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-7">
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="analytics">Analytics</TabsTrigger>
+              <TabsTrigger value="load">Load</TabsTrigger>
+              <TabsTrigger value="zones">Zones</TabsTrigger>
+              <TabsTrigger value="race">Race</TabsTrigger>
+              <TabsTrigger value="fueling">Fueling</TabsTrigger>
               <TabsTrigger value="details">Run Details</TabsTrigger>
             </TabsList>
 
@@ -690,13 +703,23 @@ const RunsDashboard = () => {
                     <Footprints className="h-6 w-6 mr-3 text-gray-600" />
                     <h2 className="text-2xl font-semibold text-gray-800">Last Week's Runs</h2>
                   </div>
-                  <Button 
-                    variant="outline" 
-                    onClick={() => setActiveTab("analytics")}
-                    className="text-sm"
-                  >
-                    View Analytics
-                  </Button>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => navigate('/personal-records')}
+                      className="text-sm"
+                    >
+                      <Trophy className="h-4 w-4 mr-1" />
+                      Personal Records
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      onClick={() => setActiveTab("analytics")}
+                      className="text-sm"
+                    >
+                      View Analytics
+                    </Button>
+                  </div>
                 </div>
                 
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -774,13 +797,23 @@ const RunsDashboard = () => {
                               <span className="font-medium text-xs">{run.gear.name} ({run.gear.distance_km}km)</span>
                             </div>
                           )}
-                          {run.best_efforts && run.best_efforts.length > 0 && (
-                            <div className="flex justify-between">
-                              <span className="text-gray-600 flex items-center">
+                          {run.new_records && run.new_records.length > 0 && (
+                            <div className="flex justify-between gap-2">
+                              <span className="text-gray-600 flex items-center shrink-0">
                                 <Trophy className="h-3 w-3 mr-1" />
                                 PRs:
                               </span>
-                              <span className="font-medium">{run.best_efforts.length} personal records</span>
+                              <span className="flex flex-wrap justify-end gap-1">
+                                {run.new_records.map(record => (
+                                  <Badge
+                                    key={record.distanceKey}
+                                    variant="secondary"
+                                    className={record.kind === 'all-time' ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-700'}
+                                  >
+                                    {PR_DISTANCES.find(distance => distance.key === record.distanceKey)?.label} {formatEffortTime(record.time)}
+                                  </Badge>
+                                ))}
+                              </span>
                             </div>
                           )}
                           {run.splits_metric && run.splits_metric.length > 0 && (
@@ -882,7 +915,7 @@ const RunsDashboard = () => {
                             {analytics?.totalPRs || 0}
                           </div>
                           <div className="text-sm text-gray-600">Personal Records</div>
-                          <div className="text-xs text-gray-500 mt-1">Best efforts achieved</div>
+                          <div className="text-xs text-gray-500 mt-1">From {analytics?.totalBestEfforts || 0} best efforts</div>
                         </CardContent>
                       </Card>
                     </div>
@@ -997,6 +1030,22 @@ const RunsDashboard = () => {
               )}
             </TabsContent>
 
+            <TabsContent value="load" className="space-y-8">
+              <TrainingLoadCard />
+            </TabsContent>
+
+            <TabsContent value="zones" className="space-y-8">
+              <HeartRateZonesCard />
+            </TabsContent>
+
+            <TabsContent value="race" className="space-y-8">
+              <RacePredictorCard />
+            </TabsContent>
+
+            <TabsContent value="fueling" className="space-y-8">
+              <RunFuelingPanel runs={runs} />
+            </TabsContent>
+
             <TabsContent value="details" className="space-y-8">
               {!selectedRun ? (
                 <div className="text-center py-12">
@@ -1,30 +1,172 @@
 // Types for nutrition tracking
 
-export interface FoodItem {
+// Optional micronutrients. A missing value means "unknown", not zero.
+export interface Micronutrients {
+  sodium?: number; // mg
+  potassium?: number; // mg
+  iron?: number; // mg
+  calcium?: number; // mg
+  vitaminB12?: number; // µg
+  vitaminD?: number; // µg
+}
+
+export type MicronutrientKey = keyof Micronutrients;
+
+// Extra unit a food can be logged in, e.g. { unit: "piece", amount: 30 } for "1 piece = 30g".
+// The amount is in the food's gram (or ml) weight.
+export interface AlternateUnit {
+  unit: string;
+  amount: number;
+}
+
+export interface FoodItem extends Micronutrients {
+  id?: string; // Stable catalog ID (slug of the original name)
   name: string;
   servingSize: string;
+  alternateUnits?: AlternateUnit[];
   calories: number;
   protein: number;
   carbs: number;
   fat: number;
   fiber: number;
+  microsPartial?: MicronutrientKey[]; // Recipe micronutrients summed without some ingredients' values
+  barcode?: string; // GTIN-13 of a packaged food, from a barcode lookup
+  source?: FoodSource;
+  archived?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// "builtin" foods come from vegetarianFoods, "custom" foods live in the Firestore foods collection,
+// "recipe" foods are computed from a saved recipe's ingredients
+export type FoodSource = "builtin" | "custom" | "recipe";
+
+export interface RecipeIngredient {
+  foodId: string; // Catalog ID of the ingredient food
+  amount: number;
+  unit: "g" | "serving"; // Grams when the food's serving size has a gram weight, otherwise servings
+}
+
+export interface Recipe {
+  id: string; // "recipe-" + slug of the name
+  name: string;
+  ingredients: RecipeIngredient[];
+  servings: number; // How many servings the whole batch makes
+  cookedYieldGrams?: number; // Weight of the whole batch after cooking, if weighed
+  archived?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type MealSlot = "breakfast" | "lunch" | "dinner" | "snack" | "pre-run" | "during-run" | "post-run";
+
+// Training day type, derived from the day's Strava activities (or planned ahead)
+export type DayType = "rest" | "easy" | "long" | "race";
+
+// Weekly meal planner. Items point at a combined meal (by name), a recipe or a
+// catalog food and are resolved to current macros when the plan is shown.
+export type MealPlanItemKind = "meal" | "recipe" | "food";
+
+export interface MealPlanItem {
+  id: string; // Unique within the plan
+  kind: MealPlanItemKind;
+  refId: string; // Combined meal name, recipe ID or food catalog ID
+  servings: number;
+}
+
+export interface WeeklyMealPlan {
+  weekStart: string; // Monday (YYYY-MM-DD), also the Firestore document ID
+  days: Record<string, MealPlanItem[]>; // Keyed by date
+  dayTypes?: Record<string, DayType>; // Planned training per date, for projected targets
+  updatedAt?: string;
 }
 
-export interface FoodEntry {
-  foodId: string;
-  quantity: number;
+export interface FoodEntry extends Micronutrients {
+  foodId: string; // Food name at the time it was logged
+  quantity: number; // Servings (multiples of servingSize)
+  catalogId?: string; // Stable food ID in the catalog, survives renames
+  // Per-serving macro snapshot taken when the entry was logged. Never recomputed,
+  // so later edits to the food don't rewrite history.
+  calories?: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
+  servingSize?: string;
+  microsPartial?: MicronutrientKey[];
+  snapshotAt?: string;
+  unit?: string;
+  // Amount as entered when logged in a unit other than servings ("75" + "g"), with the
+  // units-per-serving conversion used at the time. quantity is kept in step as servings.
+  amount?: number;
+  amountUnit?: string;
+  unitsPerServing?: number;
+  timestamp?: string; // When the entry was logged
+  mealSlot?: MealSlot;
+  consumedAt?: string; // ISO datetime the food was eaten, compared against Strava start_date
+}
+
+// Drinks logged for hydration. Tracked apart from food entries: they count towards the
+// fluid target and electrolytes, not macros.
+export type FluidKind = "water" | "electrolyte";
+
+export interface FluidEntry {
+  name: string; // "Water", "Electrolyte drink", "ORS"
+  kind: FluidKind;
+  volumeMl: number;
+  sodium?: number; // mg
+  potassium?: number; // mg
+  timestamp: string; // When the drink was logged, also its key within the day
 }
 
 export interface DailyLog {
   date: string; // YYYY-MM-DD format
   entries: FoodEntry[];
+  fluids?: FluidEntry[];
   totals: {
     calories: number;
     protein: number;
     carbs: number;
     fat: number;
     fiber: number;
+    micros?: Micronutrients; // Sum over entries with a known value
+    microsUnknown?: Partial<Record<MicronutrientKey, number>>; // Entries missing each micronutrient
   };
+  lastUpdated?: string;
+  schemaVersion?: number;
+}
+
+// Auto-fill rules: where a day's foods can be copied from
+// - "yesterday": the previous day
+// - "last-week": the same weekday a week earlier
+// - "template": a saved set of entries, e.g. a "long-run Sunday" day
+export type AutoFillSource = "yesterday" | "last-week" | "template";
+
+export interface AutoFillRule {
+  id: string;
+  name: string;
+  source: AutoFillSource;
+  mealSlots: MealSlot[] | null; // Slots to copy; null copies everything, including unassigned entries
+  weekdays: number[]; // Days the rule is suggested for (0 = Sunday)
+  templateEntries?: FoodEntry[]; // Entries for "template" rules
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// What a revision of a daily log did
+export type LogRevisionAction = "add" | "remove" | "update" | "auto-fill" | "import" | "plan" | "restore" | "undo";
+
+// One change to a DailyLog, stored with the full version before and after it
+export interface LogRevision {
+  id: string;
+  date: string; // The log's date
+  createdAt: string;
+  author: { userId: string; device: string };
+  action: LogRevisionAction;
+  summary: string;
+  changes: string[]; // One line per added, removed or changed entry
+  before: DailyLog | null; // null if the day had no log yet
+  after: DailyLog;
 }
 
 export interface MealPreset {